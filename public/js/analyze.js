@@ -1,9 +1,16 @@
 /**
  * Analyze Page JavaScript
- * Drives the analysis polling loop against the async 202+poll API.
+ * Follows an analysis job live over Server-Sent Events, falling back to
+ * the 202+poll API when EventSource is unavailable or the stream drops.
  *
  * Flow:
- *   POST /api/analyze → { jobId, statusUrl } (202)
+ *   POST /api/analyze { sessionId } → { jobId, statusUrl, eventsUrl } (202)
+ *   GET  /api/analyze/:jobId/events (SSE)
+ *   → phase / agent_status / insight_update → update indicators
+ *   → complete → fetch statusUrl once, store result, redirect to dashboard
+ *   → error    → fall back to demo data
+ *
+ * Polling fallback:
  *   GET  /api/analyze/:jobId/status (every 2s, up to 60 polls / ~2 min)
  *   → status: queued | analyzing → keep polling
  *   → status: complete           → store result, redirect to dashboard
@@ -16,6 +23,22 @@ const statusLawyer     = document.getElementById('status-lawyer');
 const statusForecaster = document.getElementById('status-forecaster');
 const statusMarket     = document.getElementById('status-market');
 
+const agentIndicators = {
+    counter:    statusCounter,
+    lawyer:     statusLawyer,
+    forecaster: statusForecaster,
+    market:     statusMarket,
+};
+
+const PHASE_MESSAGES = {
+    obvious_case_check:      'Checking for clear-cut cases...',
+    agents:                  'Agents are analyzing your financials...',
+    contradiction_detection: 'Cross-checking data sources...',
+    synthesis:               'Synthesizing risk factors...',
+    scoring:                 'Calculating your bankability score...',
+    roadmap:                 'Building your improvement roadmap...',
+};
+
 const POLL_INTERVAL_MS = 2000;
 const MAX_POLLS        = 60; // 2-minute timeout
 
@@ -32,12 +55,13 @@ async function startAnalysis() {
     // Kick off the analysis job
     let jobId;
     let statusUrl;
+    let eventsUrl;
 
     try {
         const res = await fetch('/api/analyze', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ companyId: session.companyId || 'demo-company' })
+            body: JSON.stringify({ sessionId: session.sessionId, companyId: session.companyId || 'demo-company' })
         });
 
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
@@ -45,6 +69,7 @@ async function startAnalysis() {
         const data = await res.json();
         jobId     = data.jobId;
         statusUrl = data.statusUrl;
+        eventsUrl = data.eventsUrl;
 
         localStorage.setItem('bankable_job', JSON.stringify({ jobId, statusUrl }));
     } catch (err) {
@@ -53,9 +78,87 @@ async function startAnalysis() {
         return;
     }
 
-    // Begin polling
     setAgentStage('queued');
-    pollForResult(statusUrl);
+
+    if (eventsUrl && 'EventSource' in window) {
+        streamProgress(eventsUrl, statusUrl);
+    } else {
+        pollForResult(statusUrl);
+    }
+}
+
+function streamProgress(eventsUrl, statusUrl) {
+    const source = new EventSource(eventsUrl);
+    let finished = false;
+
+    source.addEventListener('status', (e) => {
+        const data = JSON.parse(e.data);
+        setAgentStage(data.status === 'analyzing' ? 'running' : 'queued');
+    });
+
+    source.addEventListener('phase', (e) => {
+        const data = JSON.parse(e.data);
+        if (data.state === 'started' && PHASE_MESSAGES[data.phase]) {
+            statusMessage.textContent = PHASE_MESSAGES[data.phase];
+        }
+    });
+
+    source.addEventListener('agent_status', (e) => {
+        const data = JSON.parse(e.data);
+        setAgentStatus(agentIndicators[data.agentId], data.status);
+    });
+
+    source.addEventListener('insight_update', (e) => {
+        const data = JSON.parse(e.data);
+        statusMessage.textContent = `${capitalize(data.from)}: ${data.summary}`;
+    });
+
+    source.addEventListener('retrying', () => {
+        statusMessage.textContent = 'Retrying analysis...';
+        Object.values(agentIndicators).forEach((el) => setAgentStatus(el, 'pending'));
+    });
+
+    source.addEventListener('complete', async () => {
+        finished = true;
+        source.close();
+        await fetchFinalResult(statusUrl);
+    });
+
+    source.addEventListener('error', (e) => {
+        // Named 'error' events carry data; connection failures do not
+        if (e.data) {
+            finished = true;
+            source.close();
+            console.error('Analysis error:', JSON.parse(e.data).errorMessage);
+            fallbackToDemo();
+            return;
+        }
+
+        if (!finished) {
+            finished = true;
+            source.close();
+            console.warn('Progress stream lost, falling back to polling');
+            pollForResult(statusUrl);
+        }
+    });
+}
+
+async function fetchFinalResult(statusUrl) {
+    try {
+        const res = await fetch(statusUrl);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        showResult(await res.json());
+    } catch (err) {
+        console.error('Failed to fetch result:', err);
+        pollForResult(statusUrl);
+    }
+}
+
+function showResult(data) {
+    setAgentStage('complete');
+    localStorage.setItem('bankable_result', JSON.stringify(data));
+    statusMessage.textContent = 'Analysis complete! Redirecting...';
+    setTimeout(() => { window.location.href = '/dashboard.html'; }, 1500);
 }
 
 async function pollForResult(statusUrl) {
@@ -87,10 +190,7 @@ async function pollForResult(statusUrl) {
 
                 case 'complete':
                     clearInterval(interval);
-                    setAgentStage('complete');
-                    localStorage.setItem('bankable_result', JSON.stringify(data));
-                    statusMessage.textContent = 'Analysis complete! Redirecting...';
-                    setTimeout(() => { window.location.href = '/dashboard.html'; }, 1500);
+                    showResult(data);
                     break;
 
                 case 'error':
@@ -108,7 +208,8 @@ async function pollForResult(statusUrl) {
 
 /**
  * Drive agent status indicators from real API status.
- * 'analyzing' uses poll count to stagger the visual reveal of each agent.
+ * 'analyzing' (polling only) uses poll count to stagger the visual reveal of
+ * each agent; 'running' (streaming) leaves indicators to agent_status events.
  */
 function setAgentStage(stage, pollCount = 0) {
     if (stage === 'queued') {
@@ -116,6 +217,11 @@ function setAgentStage(stage, pollCount = 0) {
         return;
     }
 
+    if (stage === 'running') {
+        statusMessage.textContent = 'Running analysis...';
+        return;
+    }
+
     if (stage === 'analyzing') {
         statusMessage.textContent = 'Running analysis...';
 
@@ -135,6 +241,18 @@ function setAgentStage(stage, pollCount = 0) {
     }
 }
 
+function setAgentStatus(el, status) {
+    if (!el) return;
+    el.classList.remove('active', 'complete', 'error');
+    if (status === 'running') el.classList.add('active');
+    if (status === 'complete') el.classList.add('complete');
+    if (status === 'error') el.classList.add('error');
+}
+
+function capitalize(text) {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 function activate(el) {
     if (el && !el.classList.contains('active') && !el.classList.contains('complete')) {
         el.classList.add('active');
@@ -5,21 +5,25 @@
  * All analysis is performed by the LLM with comprehensive audit logging.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { v4 as uuid } from 'uuid';
 import type {
     AgentId,
     AgentInsight,
     GlobalContext,
     InsightCategory,
+    PlaidSnapshot,
 } from '../types/index.js';
 import type { MessageBus, Message } from '../core/message-bus.js';
 import type { AuditTrail } from '../core/audit-trail.js';
+import { getReportingCurrency } from '../core/currency.js';
 import { MODEL_CONFIG } from '../config/index.js';
+import { createLLMProvider, type LLMProvider, type LLMUsage } from '../llm/provider.js';
 import { LLMAnalysisResponseSchema, safeParseLLMResponse } from '../validation/schemas.js';
 import { detectIndustry, getIndustryBaselinePrompt } from '../prompts/industry-baselines.js';
 import { getCalibrationPrompt } from '../prompts/calibration-cases.js';
 import { getAllContext } from '../prompts/context-providers.js';
+import { computeFinancialRatios } from '../synthesis/financial-ratios.js';
+import { analyzeWorkingCapital } from '../synthesis/working-capital.js';
 
 // ============================================
 // LLM RESPONSE TYPES
@@ -56,28 +60,17 @@ export abstract class BaseAgent {
     /** Specific analysis instructions for this agent */
     abstract readonly analysisPrompt: string;
 
-    protected genAI: GoogleGenerativeAI;
-    protected model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>;
+    protected llm: LLMProvider;
     protected messageBus: MessageBus | null = null;
     protected context: GlobalContext | null = null;
     protected auditTrail: AuditTrail | null = null;
     private unsubscribe: (() => void) | null = null;
 
-    constructor() {
-        const apiKey = process.env.GOOGLE_API_KEY;
-        if (!apiKey) {
-            throw new Error('GOOGLE_API_KEY environment variable is required');
-        }
-
-        this.genAI = new GoogleGenerativeAI(apiKey);
-        this.model = this.genAI.getGenerativeModel({
-            model: MODEL_CONFIG.name,
-            generationConfig: {
-                temperature: MODEL_CONFIG.temperature,
-                topP: 0.95,
-                maxOutputTokens: MODEL_CONFIG.maxOutputTokens,
-            },
-        });
+    /**
+     * @param llm - Provider to use; defaults to the one selected by MODEL_CONFIG
+     */
+    constructor(llm?: LLMProvider) {
+        this.llm = llm ?? createLLMProvider(MODEL_CONFIG);
     }
 
     /**
@@ -134,21 +127,28 @@ export abstract class BaseAgent {
     }
 
     /**
-     * Prepare analysis data for the LLM - can be overridden by subclasses
+     * Prepare analysis data for the LLM - can be overridden by subclasses.
+     * Includes precomputed financial ratios and working capital (DSO, DPO, aging) so the LLM
+     * interprets them rather than recalculating,
+     * and the currency of every source so amounts are never compared across currencies.
      */
     protected prepareAnalysisData(context: GlobalContext): Record<string, unknown> {
         return {
             company: context.companyId,
+            reportingCurrency: getReportingCurrency(context),
             documents: context.documents.map(d => ({
                 type: d.type,
                 filename: d.filename,
+                currency: d.currency,
                 confidence: d.confidence,
                 data: d.data,
                 rawTextPreview: d.rawText.substring(0, 2000),
             })),
+            financialRatios: computeFinancialRatios(context.documents),
+            workingCapital: analyzeWorkingCapital(context),
             apiData: {
                 stripe: context.apiSnapshots.stripe,
-                plaid: context.apiSnapshots.plaid,
+                plaid: withoutTransactionList(context.apiSnapshots.plaid),
             },
             existingContradictions: context.contradictions,
         };
@@ -228,17 +228,17 @@ IMPORTANT: Keep impact scores moderate (-40 to +40 range). Only use extreme scor
         let retryCount = 0;
         let rawText = '';
         let parsed: T | null = null;
-        let usageMetadata: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number } | undefined;
+        let usageMetadata: LLMUsage | undefined;
 
         // Attempt with retry
         while (retryCount < 3) {
             try {
-                const result = await this.model.generateContent(prompt);
+                const result = await this.llm.generate(prompt, { source: this.id, analysisType });
 
-                // Extract actual token counts from Gemini API response
-                usageMetadata = result.response.usageMetadata;
+                // Extract actual token counts reported by the provider
+                usageMetadata = result.usage;
 
-                rawText = result.response.text().trim();
+                rawText = result.text.trim();
 
                 // Clean up markdown if present
                 const cleaned = rawText
@@ -286,7 +286,7 @@ IMPORTANT: Keep impact scores moderate (-40 to +40 range). Only use extreme scor
             inputData,
             rawResponse: rawText,
             parsedResponse: parsed,
-            modelUsed: MODEL_CONFIG.name,
+            modelUsed: this.llm.model,
             tokenCount: {
                 prompt: promptTokens,
                 completion: completionTokens,
@@ -377,3 +377,13 @@ IMPORTANT: Keep impact scores moderate (-40 to +40 range). Only use extreme scor
     }
 
 }
+
+/**
+ * A bank snapshot without its raw transactions, which are summarized by its
+ * analytics and would swamp the prompt
+ */
+function withoutTransactionList(snapshot: PlaidSnapshot | undefined): Omit<PlaidSnapshot, 'transactionList'> | undefined {
+    if (!snapshot) return undefined;
+    const { transactionList: _transactionList, ...rest } = snapshot;
+    return rest;
+}
@@ -19,8 +19,9 @@ export class CounterAgent extends BaseAgent {
 
 1. DEBT SERVICEABILITY
    - Analyze cash inflow vs outflow patterns
-   - Calculate effective debt service coverage ratio (DSCR)
+   - Use the precomputed debt service coverage ratio (financialRatios.dscr) and interest coverage; do not recalculate them
    - Assess ability to meet financial obligations
+   - With bank transaction analytics (apiData.plaid.analytics), weigh the debt service already being paid (debtService) and recurring payroll and rent against monthly inflow
    - Score: Strong (>1.5x) = +20 to +30, Adequate (1.0-1.5x) = 0 to +10, Weak (<1.0x) = -20 to -40
 
 2. REVENUE CONCENTRATION
@@ -31,14 +32,17 @@ export class CounterAgent extends BaseAgent {
 
 3. CASH FLOW HEALTH
    - Analyze burn rate and runway
+   - With a cash flow statement, use the precomputed operating cash flow coverage, cash conversion and free cash flow
    - Evaluate cash flow stability and predictability
+   - From bank transaction analytics, use the monthly inflow/outflow series, balance volatility, lowest balance days and overdraft or returned-payment (NSF) events; any overdraft is a red flag
    - Identify seasonal patterns or concerning trends
+   - Use the precomputed workingCapital: DSO and DPO, receivables and payables aging, and which customers the overdue receivables sit with; rising DPO or overdue payables suggest suppliers are financing the business
    - Score: Strong positive cash flow = +15 to +25, Neutral = 0, Negative/declining = -15 to -30
 
 4. REVENUE QUALITY
-   - Assess MRR/ARR trends if SaaS
+   - Assess MRR/ARR trends if SaaS; with a Stripe MRR series (apiData.stripe.mrrSeries), read new, expansion, contraction and churned MRR month by month rather than inferring them from point-in-time figures
    - Evaluate revenue growth trajectory
-   - Analyze churn rates and customer retention
+   - Analyze churn rates and customer retention, using logo and net revenue retention by signup cohort (apiData.stripe.cohorts) where available
    - Score: High quality recurring = +20 to +30, Mixed = 0 to +10, Low quality/volatile = -15 to -25
 
 Be specific about numbers you find in the data. If data is missing, state assumptions clearly.`;
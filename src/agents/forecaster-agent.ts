@@ -19,9 +19,9 @@ export class ForecasterAgent extends BaseAgent {
     readonly analysisPrompt = `Perform comprehensive forward-looking risk analysis focusing on:
 
 1. GROWTH TRAJECTORY ANALYSIS
-   - Project growth based on current trends
+   - Project growth based on current trends; with a Stripe MRR series (apiData.stripe.mrrSeries), project from the monthly new, expansion, contraction and churned MRR
    - Assess sustainability of current growth rate
-   - Consider churn/retention impact on net growth
+   - Consider churn/retention impact on net growth, using net revenue retention by signup cohort (apiData.stripe.cohorts) where available
    - Score: Hypergrowth (>50% net) = +25 to +35, Strong (20-50%) = +15 to +25, Modest (0-20%) = 0 to +10, Declining = -20 to -35
 
 2. STRESS TEST SCENARIOS
@@ -7,101 +7,156 @@
 import express, { Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import { v4 as uuid } from 'uuid';
-import { AgentOrchestrator } from '../core/orchestrator.js';
-import { createGlobalContext } from '../core/global-context.js';
-import { createJob, getJob, updateJob } from '../core/job-store.js';
-import { fetchAnalysis } from '../core/analysis-store.js';
-import { CounterAgent } from '../agents/counter-agent.js';
-import { LawyerAgent } from '../agents/lawyer-agent.js';
-import { ForecasterAgent } from '../agents/forecaster-agent.js';
-import { MarketAgent } from '../agents/market-agent.js';
+import { MONITORING } from '../config/index.js';
+import { createGlobalContext, type GlobalContextService } from '../core/global-context.js';
+import { getJobQueue } from '../core/job-queue.js';
+import { createOrchestrator, loadSessionContext } from '../core/analysis-runner.js';
+import { fetchAnalysis, listAnalyses, type PersistedAnalysis } from '../core/analysis-store.js';
+import { fetchAuditEntries, fetchContradictions, fetchInsights, fetchMessages } from '../core/analysis-artifacts.js';
+import { subscribeJobProgress, type JobProgressEvent } from '../core/job-progress.js';
+import { getReportingCurrency, isSupportedCurrency } from '../core/currency.js';
+import {
+    deleteCredential,
+    getCredential,
+    isVaultConfigured,
+    listCredentials,
+    saveCredential,
+    type IntegrationCredentials,
+    type IntegrationProvider,
+    type StripeCredential,
+} from '../core/credential-vault.js';
+import { claimMonitor, deleteMonitor, getMonitor, saveMonitor, type MonitoredCompany } from '../core/monitoring-store.js';
+import { runMonitoredCompany } from '../core/monitoring-scheduler.js';
+import { computeScoreTrend, getFactorScores, type ScoredAnalysis } from '../synthesis/score-trend.js';
+import { diffScores } from '../synthesis/score-diff.js';
+import { findScoringPolicy, getScoringPolicy, listScoringPolicies } from '../synthesis/scoring-policies.js';
+import { rescoreAnalysis, withCustomWeights } from '../synthesis/rescore.js';
+import {
+    BankStatementImportSchema,
+    MonitoringRequestSchema,
+    RescoreRequestSchema,
+    StripeIntegrationSchema,
+} from '../validation/schemas.js';
+import { renderCreditReport } from '../reports/credit-report.js';
 import { PDFParser } from '../ingestion/pdf-parser.js';
+import { SpreadsheetParser, isSpreadsheet } from '../ingestion/spreadsheet-parser.js';
+import { SaftParser, isSaftFile } from '../ingestion/saft-parser.js';
+import { hashContent, indexContentHashes, mergeStatements } from '../ingestion/document-merger.js';
 import { StripeAdapter } from '../ingestion/stripe-adapter.js';
 import { PlaidAdapter } from '../ingestion/plaid-adapter.js';
+import { BankStatementImporter } from '../ingestion/bank-statement-importer.js';
+import { refreshStoredIntegrations } from '../ingestion/integration-refresh.js';
 import { apiKeyAuth } from './auth.js';
 import { rateLimiter } from './rate-limit.js';
+import type { BankabilityScore, ParsedDocument } from '../types/index.js';
 
 const router = express.Router();
 const upload = multer({
     storage: multer.memoryStorage(),
     limits: { fileSize: 10 * 1024 * 1024 }, // 10 MB max
     fileFilter: (_req, file, cb) => {
-        if (file.mimetype === 'application/pdf') {
+        if (file.mimetype === 'application/pdf' || isSpreadsheet(file.originalname, file.mimetype)
+            || isSaftFile(file.originalname, file.mimetype)) {
             cb(null, true);
         } else {
-            cb(new Error('Only PDF files are accepted'));
+            cb(new Error('Only PDF, XLSX, CSV and SAF-T XML files are accepted'));
         }
     },
 });
 
-// Apply rate limiting first, then authentication
-router.use(rateLimiter);
-router.use(apiKeyAuth);
+/** Files accepted by one batch upload */
+const MAX_BATCH_FILES = 25;
 
+/**
+ * Store a linked integration credential for a company; false when there is no
+ * company or no vault key. A failure to store is logged, not returned to the
+ * client, since the snapshot was fetched.
+ */
+async function storeCredential<P extends IntegrationProvider>(
+    companyId: string | undefined,
+    provider: P,
+    credential: IntegrationCredentials[P]
+): Promise<boolean> {
+    if (!companyId || !isVaultConfigured()) return false;
+    try {
+        await saveCredential(companyId, provider, credential);
+        return true;
+    } catch (error) {
+        console.error(`[credential-vault] could not store ${provider} credential:`, (error as Error).message);
+        return false;
+    }
+}
 
 /**
- * Create a fresh orchestrator with all agents registered.
- * Each analysis request gets its own isolated instance.
+ * A monitoring registration as returned by the API: the documents are
+ * summarized rather than echoed back
  */
-function createOrchestrator(contextService?: ReturnType<typeof createGlobalContext>): AgentOrchestrator {
-    const orchestrator = new AgentOrchestrator(contextService);
-    orchestrator.registerAgent(new CounterAgent());
-    orchestrator.registerAgent(new LawyerAgent());
-    orchestrator.registerAgent(new ForecasterAgent());
-    orchestrator.registerAgent(new MarketAgent());
-    return orchestrator;
+function monitorView(monitor: MonitoredCompany) {
+    const { documents, baseline, ...settings } = monitor;
+    return {
+        ...settings,
+        documents: documents.map(doc => ({ id: doc.id, type: doc.type, filename: doc.filename })),
+        baselineJobId: baseline?.jobId ?? null,
+    };
 }
 
+// Apply rate limiting first, then authentication
+router.use(rateLimiter);
+router.use(apiKeyAuth);
+
+
 // ============================================
 // ANALYSIS ENDPOINTS
 // ============================================
 
 /**
  * POST /api/analyze
- * Enqueue an analysis job and return immediately.
- * Poll GET /api/analyze/:sessionId/status for progress and results.
+ * Enqueue an analysis job and return immediately; a worker picks it up.
+ * With a sessionId, the agents run against that session's uploaded documents
+ * and API snapshots; with only a companyId, an empty session is created.
+ * An optional policyId selects the lender scoring policy (see GET /api/scoring-policies).
+ * Poll GET /api/analyze/:sessionId/status for progress and results, or follow
+ * GET /api/analyze/:jobId/events for a live progress stream.
  */
-router.post('/analyze', (req: Request, res: Response) => {
-    const { companyId } = req.body;
+router.post('/analyze', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { companyId, sessionId, policyId } = req.body;
 
-    if (!companyId) {
-        res.status(400).json({ error: 'companyId is required' });
-        return;
-    }
+        if (!companyId && !sessionId) {
+            res.status(400).json({ error: 'companyId or sessionId is required' });
+            return;
+        }
 
-    const jobId = uuid();
-    createJob(jobId, companyId);
-
-    // Defer analysis off the request cycle — critical gap fix: top-level catch marks job as error
-    setImmediate(() => {
-        const orchestrator = createOrchestrator();
-        updateJob(jobId, { status: 'analyzing' });
-
-        orchestrator.analyze(companyId)
-            .then(result => {
-                updateJob(jobId, {
-                    status: 'complete',
-                    completedAt: new Date(),
-                    score: result.score,
-                    roadmap: result.roadmap,
-                    failedAgents: result.failedAgents,
-                });
-            })
-            .catch((err: Error) => {
-                updateJob(jobId, {
-                    status: 'error',
-                    completedAt: new Date(),
-                    errorMessage: err.message,
-                });
-            });
-    });
+        if (policyId && !findScoringPolicy(policyId)) {
+            res.status(400).json({ error: `Unknown scoring policy: ${policyId}` });
+            return;
+        }
 
-    res.status(202).json({
-        success: true,
-        jobId,
-        status: 'queued',
-        statusUrl: `/api/analyze/${jobId}/status`,
-    });
+        let resolvedCompanyId: string = companyId;
+        if (sessionId) {
+            const contextService = await loadSessionContext(sessionId);
+            if (!contextService) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            resolvedCompanyId = contextService.getContext().companyId;
+        }
+
+        const jobId = uuid();
+        await getJobQueue().enqueue(jobId, { companyId: resolvedCompanyId, sessionId, policyId });
+
+        res.status(202).json({
+            success: true,
+            jobId,
+            sessionId: sessionId ?? null,
+            policyId: policyId ?? null,
+            status: 'queued',
+            statusUrl: `/api/analyze/${jobId}/status`,
+            eventsUrl: `/api/analyze/${jobId}/events`,
+        });
+    } catch (error) {
+        next(error);
+    }
 });
 
 /**
@@ -156,6 +211,20 @@ router.post('/test/analyze-fixture', async (req: Request, res: Response, next: N
             });
         }
 
+        // Inject Cash Flow Statement as parsed document
+        if (fixture.documents?.cash_flow_statement) {
+            await context.addDocument({
+                id: `cf-${Date.now()}`,
+                type: 'cash_flow_statement',
+                filename: 'cash_flow_statement.json',
+                parsedAt: new Date(),
+                confidence: 1.0,
+                data: fixture.documents.cash_flow_statement,
+                rawText: JSON.stringify(fixture.documents.cash_flow_statement),
+                trustScore: 0.9,
+            });
+        }
+
         // Run the analysis with isolated orchestrator
         const orchestrator = createOrchestrator(context);
         const result = await orchestrator.analyze(fixture.company.name);
@@ -180,36 +249,41 @@ router.post('/test/analyze-fixture', async (req: Request, res: Response, next: N
 router.get('/analyze/:sessionId/status', async (req: Request, res: Response, next: NextFunction) => {
     try {
         const jobId = req.params.sessionId as string;
-        const inMemory = getJob(jobId);
+        const queued = await getJobQueue().getJob(jobId);
 
-        if (inMemory) {
-            switch (inMemory.status) {
+        if (queued) {
+            switch (queued.status) {
                 case 'complete':
                     res.json({
-                        jobId: inMemory.id,
-                        status: inMemory.status,
-                        completedAt: inMemory.completedAt,
-                        score: inMemory.score,
-                        roadmap: inMemory.roadmap,
-                        failedAgents: inMemory.failedAgents,
+                        jobId: queued.id,
+                        status: queued.status,
+                        completedAt: queued.completedAt,
+                        score: queued.score,
+                        roadmap: queued.roadmap,
+                        failedAgents: queued.failedAgents,
                     });
                     return;
                 case 'error':
                     res.status(500).json({
-                        jobId: inMemory.id,
-                        status: inMemory.status,
-                        completedAt: inMemory.completedAt,
-                        error: inMemory.errorMessage,
+                        jobId: queued.id,
+                        status: queued.status,
+                        completedAt: queued.completedAt,
+                        error: queued.errorMessage,
                     });
                     return;
                 case 'queued':
                 case 'analyzing':
-                    res.json({ jobId: inMemory.id, status: inMemory.status, createdAt: inMemory.createdAt });
+                    res.json({
+                        jobId: queued.id,
+                        status: queued.status,
+                        createdAt: queued.createdAt,
+                        attempts: queued.attempts,
+                    });
                     return;
             }
         }
 
-        // Not in memory — check DB (covers evicted jobs and post-restart lookups)
+        // Not in the queue — check DB (covers evicted jobs and post-restart lookups)
         const persisted = await fetchAnalysis(jobId);
 
         if (!persisted) {
@@ -239,34 +313,504 @@ router.get('/analyze/:sessionId/status', async (req: Request, res: Response, nex
     }
 });
 
+/** Interval between SSE keep-alive comments, so proxies don't drop idle streams */
+const SSE_HEARTBEAT_MS = 15_000;
+
+/**
+ * GET /api/analyze/:jobId/events
+ * Server-Sent Events stream of a job's progress: status changes, orchestrator
+ * phases, per-agent status, agents' insight updates, and a final
+ * `complete` or `error` event, after which the stream closes.
+ */
+router.get('/analyze/:jobId/events', async (req: Request, res: Response, next: NextFunction) => {
+    const jobId = req.params.jobId as string;
+    const buffered: JobProgressEvent[] = [];
+    let send: (event: JobProgressEvent) => void = (event) => buffered.push(event);
+
+    // Subscribe before reading the job so nothing between the two is missed
+    const unsubscribe = subscribeJobProgress(jobId, (event) => send(event));
+    let heartbeat: NodeJS.Timeout | null = null;
+
+    const close = () => {
+        unsubscribe();
+        if (heartbeat) clearInterval(heartbeat);
+        if (!res.writableEnded) res.end();
+    };
+
+    try {
+        const queued = await getJobQueue().getJob(jobId);
+        const persisted = queued ? null : await fetchAnalysis(jobId);
+        const job = queued ?? persisted;
+
+        if (!job) {
+            unsubscribe();
+            res.status(404).json({ error: 'Job not found' });
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+
+        const write = (event: JobProgressEvent) => {
+            res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            if (event.type === 'complete' || event.type === 'error') {
+                close();
+            }
+        };
+
+        // Report a finished job's outcome and close; false while it is still running
+        const writeOutcome = (current: { status: string; score?: BankabilityScore; errorMessage?: string }) => {
+            if (current.status === 'complete' && current.score) {
+                write({ type: 'complete', score: { score: current.score.score, grade: current.score.grade } });
+                return true;
+            }
+            if (current.status === 'error') {
+                write({ type: 'error', errorMessage: current.errorMessage ?? 'Analysis failed' });
+                return true;
+            }
+            return false;
+        };
+
+        if (writeOutcome(job)) return;
+
+        write({ type: 'status', status: job.status as 'queued' | 'analyzing', attempts: queued?.attempts ?? 0 });
+        send = write;
+        for (const event of buffered.splice(0)) {
+            if (res.writableEnded) break;
+            write(event);
+        }
+
+        // Relayed events are best-effort, so each heartbeat also checks whether
+        // the job finished without its final event reaching this process
+        heartbeat = setInterval(() => {
+            res.write(': keep-alive\n\n');
+            getJobQueue().getJob(jobId)
+                .then(async latest => latest ?? await fetchAnalysis(jobId))
+                .then(latest => {
+                    if (latest && !res.writableEnded) writeOutcome(latest);
+                })
+                .catch((err: Error) => console.error(`[events] status check for ${jobId} failed:`, err.message));
+        }, SSE_HEARTBEAT_MS);
+        req.on('close', close);
+    } catch (err) {
+        if (res.headersSent) {
+            close();
+        } else {
+            unsubscribe();
+            next(err);
+        }
+    }
+});
+
+/**
+ * GET /api/analyze/:jobId/diff?baseline=<jobId>&format=json|text
+ * Explain how this analysis differs from a baseline: factor and component
+ * changes, penalties, grade movement, critical issues and roadmap tasks.
+ * Without a baseline, the company's previous completed analysis is used.
+ * format=text returns only the narrative as plain text.
+ */
+router.get('/analyze/:jobId/diff', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const current = await loadCompletedAnalysis(req.params.jobId as string);
+        if (!current) {
+            res.status(404).json({ error: 'Completed analysis not found' });
+            return;
+        }
+
+        const baselineId = req.query.baseline as string | undefined;
+        const baseline = baselineId
+            ? await loadCompletedAnalysis(baselineId)
+            : await findPreviousAnalysis(current);
+
+        if (!baseline) {
+            res.status(404).json({
+                error: baselineId ? 'Baseline analysis not found' : 'No earlier completed analysis to compare against',
+            });
+            return;
+        }
+
+        const diff = diffScores(
+            { score: baseline.score!, roadmap: baseline.roadmap },
+            { score: current.score!, roadmap: current.roadmap },
+        );
+
+        if (req.query.format === 'text') {
+            res.type('text/plain').send(diff.narrative);
+            return;
+        }
+
+        res.json({ jobId: current.id, baselineJobId: baseline.id, ...diff });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/analyze/:jobId/rescore
+ * Re-score a completed analysis under another scoring policy and/or custom
+ * factor weights, reusing its stored risk factors and insights — no agents
+ * are rerun. Returns the original and re-scored results side by side with
+ * a diff between them. Nothing is persisted. Answers 409 when the
+ * analysis' insights are no longer stored, since re-scoring without them
+ * would drop every insight-driven factor.
+ */
+router.post('/analyze/:jobId/rescore', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const parsed = RescoreRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            res.status(400).json({ error: parsed.error.issues.map(i => i.message).join('; ') });
+            return;
+        }
+
+        const { policyId, weights } = parsed.data;
+        const basePolicy = policyId ? findScoringPolicy(policyId) : getScoringPolicy();
+        if (!basePolicy) {
+            res.status(400).json({ error: `Unknown scoring policy: ${policyId}` });
+            return;
+        }
+
+        const analysis = await loadCompletedAnalysis(req.params.jobId as string);
+        if (!analysis?.score || !analysis.roadmap) {
+            res.status(404).json({ error: 'Completed analysis not found' });
+            return;
+        }
+
+        const insights = await fetchInsights(analysis.id);
+        if (!insights) {
+            res.status(409).json({ error: 'Insights for this analysis are no longer available; run the analysis again to re-score it' });
+            return;
+        }
+
+        const policy = weights ? withCustomWeights(basePolicy, weights) : basePolicy;
+        const rescored = await rescoreAnalysis(
+            { companyId: analysis.companyId, score: analysis.score, roadmap: analysis.roadmap, insights },
+            policy,
+        );
+
+        res.json({
+            jobId: analysis.id,
+            original: { policyId: analysis.score.policyId, score: analysis.score, roadmap: analysis.roadmap },
+            rescored: { policyId: policy.id, weights: policy.weights, ...rescored },
+            diff: diffScores(
+                { score: analysis.score, roadmap: analysis.roadmap },
+                { score: rescored.score, roadmap: rescored.roadmap },
+            ),
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/analyze/:jobId/insights
+ * What each agent concluded in a completed analysis, with the auditEntryId of
+ * the LLM call behind each insight, plus the contradictions detected.
+ * Optional ?agentId= narrows the insights to one agent.
+ */
+router.get('/analyze/:jobId/insights', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const analysis = await loadCompletedAnalysis(req.params.jobId as string);
+        if (!analysis) {
+            res.status(404).json({ error: 'Completed analysis not found' });
+            return;
+        }
+
+        const insights = await fetchInsights(analysis.id) ?? [];
+        const agentId = req.query.agentId as string | undefined;
+
+        res.json({
+            jobId: analysis.id,
+            insights: agentId ? insights.filter(insight => insight.agentId === agentId) : insights,
+            contradictions: await fetchContradictions(analysis.id) ?? [],
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/analyze/:jobId/audit
+ * The LLM audit trail (prompts, raw and parsed responses, token usage) and
+ * the inter-agent message log of a completed analysis.
+ * An analysis that replayed earlier insights returns the trail of the
+ * analysis that produced them (reusedInsightsFrom).
+ * Optional ?agentId= narrows both to one agent.
+ */
+router.get('/analyze/:jobId/audit', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const analysis = await loadCompletedAnalysis(req.params.jobId as string);
+        if (!analysis) {
+            res.status(404).json({ error: 'Completed analysis not found' });
+            return;
+        }
+
+        const auditedId = analysis.reuseInsightsFrom ?? analysis.id;
+        const [entries, messages] = await Promise.all([fetchAuditEntries(auditedId), fetchMessages(auditedId)]);
+        if (!entries || !messages) {
+            res.status(404).json({ error: 'Audit trail not available' });
+            return;
+        }
+
+        const agentId = req.query.agentId as string | undefined;
+
+        res.json({
+            jobId: analysis.id,
+            reusedInsightsFrom: analysis.reuseInsightsFrom,
+            entries: agentId ? entries.filter(entry => entry.agentId === agentId) : entries,
+            messages: agentId ? messages.filter(message => message.from === agentId || message.to === agentId) : messages,
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/analyze/:jobId/audit/:entryId
+ * A single LLM call (see AgentInsight.auditEntryId) and the insights it
+ * produced. Replayed insights are looked up in the analysis they came from.
+ */
+router.get('/analyze/:jobId/audit/:entryId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const jobId = req.params.jobId as string;
+        const analysis = await loadCompletedAnalysis(jobId);
+        const entries = await fetchAuditEntries(analysis?.reuseInsightsFrom ?? jobId);
+        const entry = entries?.find(e => e.id === req.params.entryId);
+        if (!entry) {
+            res.status(404).json({ error: 'Audit entry not found' });
+            return;
+        }
+
+        const insights = await fetchInsights(jobId) ?? [];
+
+        res.json({
+            jobId,
+            entry,
+            insights: insights.filter(insight => insight.auditEntryId === entry.id),
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/analyze/:jobId/report.pdf
+ * Lender-ready PDF credit report for a completed analysis. Contradictions are
+ * read from the persisted artifacts, or the analysis session while it is
+ * still available.
+ */
+router.get('/analyze/:jobId/report.pdf', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const analysis = await loadCompletedAnalysis(req.params.jobId as string);
+        if (!analysis || !analysis.score || !analysis.roadmap) {
+            res.status(404).json({ error: 'Completed analysis not found' });
+            return;
+        }
+
+        const contradictions = await fetchContradictions(analysis.id)
+            ?? (await loadSessionContext(analysis.roadmap.sessionId))?.getContext().contradictions;
+
+        const pdf = await renderCreditReport({
+            jobId: analysis.id,
+            companyId: analysis.companyId,
+            completedAt: analysis.completedAt,
+            score: analysis.score,
+            roadmap: analysis.roadmap,
+            contradictions,
+            failedAgents: analysis.failedAgents,
+        });
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="bankability-report-${analysis.id}.pdf"`);
+        res.setHeader('Content-Length', pdf.length);
+        res.send(pdf);
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * Look up a completed analysis in the job queue, then the analysis store.
+ * Its insights are read separately, from the analysis artifacts.
+ */
+async function loadCompletedAnalysis(jobId: string): Promise<PersistedAnalysis | null> {
+    const job = await getJobQueue().getJob(jobId);
+    if (job) {
+        return job.status === 'complete' ? { ...job, status: 'complete' } : null;
+    }
+
+    const persisted = await fetchAnalysis(jobId);
+    return persisted?.status === 'complete' && persisted.score ? persisted : null;
+}
+
+/**
+ * The company's latest completed analysis that finished before the given one
+ */
+async function findPreviousAnalysis(current: PersistedAnalysis): Promise<PersistedAnalysis | null> {
+    const history = await listAnalyses(current.companyId);
+    const earlier = history.filter(analysis =>
+        analysis.id !== current.id &&
+        analysis.status === 'complete' &&
+        analysis.score &&
+        analysis.completedAt < current.completedAt
+    );
+    return earlier[earlier.length - 1] ?? null;
+}
+
 // ============================================
 // DOCUMENT ENDPOINTS
 // ============================================
 
+/**
+ * Parse an uploaded PDF, XLSX, CSV or SAF-T file. A workbook or a ledger
+ * export can hold several statements, so this returns every document found.
+ */
+async function parseUpload(file: Express.Multer.File): Promise<ParsedDocument[]> {
+    if (isSpreadsheet(file.originalname, file.mimetype)) {
+        return new SpreadsheetParser().parse(file.buffer, file.originalname);
+    }
+    if (isSaftFile(file.originalname, file.mimetype)) {
+        return new SaftParser().parse(file.buffer, file.originalname);
+    }
+    return [await new PDFParser().parse(file.buffer, file.originalname)];
+}
+
 /**
  * POST /api/documents
- * Upload and parse a document (standalone, not tied to a session)
+ * Upload and parse a document (PDF, XLSX, CSV or SAF-T XML). When a
+ * sessionId is supplied the parsed documents are attached to that session;
+ * otherwise the file is parsed standalone. `document` is the first document
+ * in the file; `documents` lists them all (a workbook or SAF-T file may hold
+ * several statements).
  */
 router.post('/documents', upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
     try {
         const file = req.file;
+        const { sessionId } = req.body;
 
         if (!file) {
             res.status(400).json({ error: 'File is required' });
             return;
         }
 
-        const parser = new PDFParser();
-        const document = await parser.parse(file.buffer, file.originalname);
+        // Resolve the session before parsing so a bad id doesn't cost an LLM call
+        let contextService: GlobalContextService | null = null;
+        if (sessionId) {
+            contextService = await loadSessionContext(sessionId);
+            if (!contextService) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+        }
+
+        const parsed = await parseUpload(file);
+        for (const document of parsed) {
+            await contextService?.addDocument(document);
+        }
+
+        const documents = parsed.map(document => ({
+            id: document.id,
+            type: document.type,
+            confidence: document.confidence,
+            data: document.data,
+            validationErrors: document.validationErrors ?? [],
+            provenance: document.provenance,
+        }));
+
+        res.json({
+            success: true,
+            sessionId: sessionId ?? null,
+            document: documents[0] ?? null,
+            documents,
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/documents/batch
+ * Upload and parse several documents into a session at once (multipart
+ * field "files"). Files already in the session, or repeated in the batch,
+ * are skipped by content hash. Statements of the same kind are then merged
+ * into one year-keyed document per kind, and figures that conflict between
+ * them are recorded as contradictions. A file that fails to parse is
+ * reported without failing the rest of the batch.
+ */
+router.post('/documents/batch', upload.array('files', MAX_BATCH_FILES), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        const { sessionId } = req.body;
+
+        if (!sessionId) {
+            res.status(400).json({ error: 'sessionId is required' });
+            return;
+        }
+        if (files.length === 0) {
+            res.status(400).json({ error: 'At least one file is required' });
+            return;
+        }
+
+        const contextService = await loadSessionContext(sessionId);
+        if (!contextService) {
+            res.status(404).json({ error: 'Session not found' });
+            return;
+        }
+
+        const existing = contextService.getContext().documents;
+        const seen = indexContentHashes(existing);
+        const parsed: ParsedDocument[] = [];
+        const duplicates: Array<{ filename: string; duplicateOf: string }> = [];
+        const failed: Array<{ filename: string; error: string }> = [];
+
+        // One at a time: each parse may call the LLM
+        for (const file of files) {
+            const contentHash = hashContent(file.buffer);
+            const duplicate = seen.get(contentHash);
+            if (duplicate) {
+                duplicates.push({ filename: file.originalname, duplicateOf: duplicate.id });
+                continue;
+            }
+
+            try {
+                const documents = await parseUpload(file);
+                parsed.push(...documents);
+                if (documents[0]) seen.set(contentHash, documents[0]);
+            } catch (error) {
+                failed.push({ filename: file.originalname, error: (error as Error).message });
+            }
+        }
+
+        const { documents, contradictions } = mergeStatements([...existing, ...parsed]);
+        await contextService.setDocuments(documents);
+        for (const contradiction of contradictions) {
+            await contextService.addContradiction(contradiction);
+        }
 
         res.json({
             success: true,
-            document: {
+            sessionId,
+            documents: parsed.map(document => ({
                 id: document.id,
+                filename: document.filename,
                 type: document.type,
                 confidence: document.confidence,
-                data: document.data,
-            },
+                validationErrors: document.validationErrors ?? [],
+            })),
+            duplicates,
+            failed,
+            merged: documents
+                .filter(document => document.mergedFrom && !existing.includes(document))
+                .map(document => ({
+                    id: document.id,
+                    type: document.type,
+                    periods: Object.keys(document.data),
+                    mergedFrom: document.mergedFrom!.map(source => source.id),
+                })),
+            contradictions,
         });
     } catch (error) {
         next(error);
@@ -279,20 +823,60 @@ router.post('/documents', upload.single('file'), async (req: Request, res: Respo
 
 /**
  * POST /api/integrations/stripe
- * Fetch Stripe data snapshot
+ * Fetch Stripe data snapshot, attaching it to the session when a sessionId is supplied.
+ * An accountId (Connect) or restrictedKey reads the company's own Stripe account and is
+ * stored in the credential vault for the company (companyId, else the session's; both
+ * must agree); without either, a stored credential is reused before falling back to the
+ * platform key.
  */
-router.post('/integrations/stripe', async (_req: Request, res: Response, next: NextFunction) => {
+router.post('/integrations/stripe', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const adapter = new StripeAdapter();
+        const parsed = StripeIntegrationSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            res.status(400).json({ error: parsed.error.issues.map(i => i.message).join('; ') });
+            return;
+        }
+        const { sessionId, accountId, restrictedKey } = parsed.data;
+
+        let contextService: GlobalContextService | null = null;
+        if (sessionId) {
+            contextService = await loadSessionContext(sessionId);
+            if (!contextService) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            if (parsed.data.companyId && contextService.getContext().companyId !== parsed.data.companyId) {
+                res.status(400).json({ error: 'Session belongs to another company' });
+                return;
+            }
+        }
+        const companyId = parsed.data.companyId ?? contextService?.getContext().companyId;
+
+        const linked: StripeCredential | null = accountId || restrictedKey
+            ? { ...(accountId && { accountId }), ...(restrictedKey && { secretKey: restrictedKey }) }
+            : null;
+        const credential = linked
+            ?? (companyId && isVaultConfigured() ? await getCredential(companyId, 'stripe') : null);
+
+        const adapter = new StripeAdapter(credential ?? {});
         const snapshot = await adapter.fetchSnapshot();
 
+        await contextService?.setStripeSnapshot(snapshot);
+        const credentialStored = linked ? await storeCredential(companyId, 'stripe', linked) : false;
+
         res.json({
             success: true,
+            sessionId: sessionId ?? null,
+            credentialStored,
             snapshot: {
+                currency: snapshot.currency,
                 mrr: snapshot.mrr,
                 customerCount: snapshot.customerCount,
                 churnRate: snapshot.churnRate,
                 topCustomerCount: snapshot.topCustomers.length,
+                mrrSeries: snapshot.mrrSeries,
+                cohorts: snapshot.cohorts,
+                unconvertedCurrencies: snapshot.unconvertedCurrencies ?? [],
             },
         });
     } catch (error) {
@@ -324,26 +908,110 @@ router.post('/integrations/plaid/link', async (req: Request, res: Response, next
 
 /**
  * POST /api/integrations/plaid/exchange
- * Exchange Plaid public token and fetch data
+ * Exchange Plaid public token and fetch data, attaching it to the session when a sessionId is supplied.
+ * The access token is stored in the credential vault for the company (companyId, else the
+ * session's; both must agree) so later refreshes need no re-linking.
  */
 router.post('/integrations/plaid/exchange', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { publicToken } = req.body;
+        const { publicToken, sessionId, companyId } = req.body;
 
         if (!publicToken) {
             res.status(400).json({ error: 'publicToken is required' });
             return;
         }
 
+        let contextService: GlobalContextService | null = null;
+        if (sessionId) {
+            contextService = await loadSessionContext(sessionId);
+            if (!contextService) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            if (companyId && contextService.getContext().companyId !== companyId) {
+                res.status(400).json({ error: 'Session belongs to another company' });
+                return;
+            }
+        }
+
         const adapter = new PlaidAdapter();
         const accessToken = await adapter.exchangeToken(publicToken);
         const snapshot = await adapter.fetchSnapshot(accessToken);
 
+        await contextService?.setPlaidSnapshot(snapshot);
+        const credentialStored = await storeCredential(
+            companyId ?? contextService?.getContext().companyId,
+            'plaid',
+            { accessToken }
+        );
+
         res.json({
             success: true,
+            sessionId: sessionId ?? null,
+            credentialStored,
             snapshot: {
+                currency: snapshot.currency,
                 accountCount: snapshot.accounts.length,
                 cashFlow: snapshot.cashFlow,
+                analytics: snapshot.analytics,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/integrations/bank-statement
+ * Import a bank export (multipart field "file": a CSV transaction export or
+ * a CAMT.053 XML statement) as the bank data Plaid would otherwise provide,
+ * attaching it to the session when a sessionId is supplied. CSV columns are
+ * found by their usual headers; `columns` (JSON) names them otherwise. A CSV
+ * without a currency column is read in `currency`, else the session's
+ * reporting currency.
+ */
+router.post('/integrations/bank-statement', upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const file = req.file;
+        if (!file) {
+            res.status(400).json({ error: 'File is required' });
+            return;
+        }
+
+        const parsed = BankStatementImportSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            res.status(400).json({ error: parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ') });
+            return;
+        }
+        const { sessionId, ...options } = parsed.data;
+
+        let contextService: GlobalContextService | null = null;
+        if (sessionId) {
+            contextService = await loadSessionContext(sessionId);
+            if (!contextService) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+        }
+
+        const importer = new BankStatementImporter();
+        const snapshot = await importer.import(file.buffer, file.originalname, {
+            ...options,
+            currency: options.currency ?? (contextService ? getReportingCurrency(contextService.getContext()) : undefined),
+        });
+
+        await contextService?.setPlaidSnapshot(snapshot);
+
+        res.json({
+            success: true,
+            sessionId: sessionId ?? null,
+            snapshot: {
+                source: snapshot.source,
+                currency: snapshot.currency,
+                accountCount: snapshot.accounts.length,
+                period: snapshot.transactions.period,
+                cashFlow: snapshot.cashFlow,
+                analytics: snapshot.analytics,
             },
         });
     } catch (error) {
@@ -357,30 +1025,337 @@ router.post('/integrations/plaid/exchange', async (req: Request, res: Response,
 
 /**
  * POST /api/sessions
- * Create a new analysis session
+ * Create a new analysis session. An optional reportingCurrency (ISO 4217)
+ * sets the currency cross-source comparisons are converted to.
  */
 router.post('/sessions', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { companyId } = req.body;
+        const { companyId, reportingCurrency } = req.body;
 
         if (!companyId) {
             res.status(400).json({ error: 'companyId is required' });
             return;
         }
+        if (reportingCurrency !== undefined && (typeof reportingCurrency !== 'string' || !isSupportedCurrency(reportingCurrency))) {
+            res.status(400).json({ error: `Unsupported reporting currency: ${reportingCurrency}` });
+            return;
+        }
 
         const context = createGlobalContext();
-        const session = await context.createSession(companyId);
+        const session = await context.createSession(companyId, reportingCurrency);
 
         res.json({
             success: true,
             sessionId: session.sessionId,
             companyId: session.companyId,
+            reportingCurrency: getReportingCurrency(session),
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+// ============================================
+// COMPANY ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/companies/:companyId/analyses
+ * List a company's persisted analyses, oldest first, with score, grade
+ * and per-factor scores. Requires DATABASE_URL; empty otherwise.
+ */
+router.get('/companies/:companyId/analyses', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+        const analyses = await listAnalyses(companyId);
+
+        res.json({
+            companyId,
+            analyses: analyses.map(analysis => ({
+                jobId: analysis.id,
+                status: analysis.status,
+                createdAt: analysis.createdAt,
+                completedAt: analysis.completedAt,
+                score: analysis.score?.score ?? null,
+                grade: analysis.score?.grade ?? null,
+                policyId: analysis.score?.policyId ?? null,
+                factors: analysis.score ? getFactorScores(analysis.score.riskFactors) : null,
+                failedAgents: analysis.failedAgents,
+                error: analysis.errorMessage,
+            })),
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/companies/:companyId/analyses/trend
+ * Score, grade and per-factor deltas between consecutive completed analyses,
+ * plus the overall change from the first to the latest run.
+ */
+router.get('/companies/:companyId/analyses/trend', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+        const analyses = await listAnalyses(companyId);
+
+        const scored: ScoredAnalysis[] = analyses
+            .filter(analysis => analysis.status === 'complete' && analysis.score)
+            .map(analysis => ({ id: analysis.id, completedAt: analysis.completedAt, score: analysis.score! }));
+
+        res.json({ companyId, ...computeScoreTrend(scored) });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/companies/:companyId/integrations
+ * The providers the company has stored credentials for (never the secrets)
+ */
+router.get('/companies/:companyId/integrations', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+
+        res.json({
+            companyId,
+            vaultConfigured: isVaultConfigured(),
+            integrations: isVaultConfigured() ? await listCredentials(companyId) : [],
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/companies/:companyId/integrations/refresh
+ * Fetch fresh Stripe and Plaid snapshots with the company's stored credentials,
+ * attaching them to the session when a sessionId is supplied
+ */
+router.post('/companies/:companyId/integrations/refresh', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+        const { sessionId } = req.body ?? {};
+
+        if (!isVaultConfigured()) {
+            res.status(409).json({ error: 'Credential vault is not configured (CREDENTIAL_VAULT_KEY)' });
+            return;
+        }
+
+        let contextService: GlobalContextService | null = null;
+        if (sessionId) {
+            contextService = await loadSessionContext(sessionId);
+            if (!contextService) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            if (contextService.getContext().companyId !== companyId) {
+                res.status(400).json({ error: 'Session belongs to another company' });
+                return;
+            }
+        }
+
+        if ((await listCredentials(companyId)).length === 0) {
+            res.status(404).json({ error: 'No stored integration credentials for this company' });
+            return;
+        }
+
+        const { stripe, plaid, errors } = await refreshStoredIntegrations(companyId);
+        if (stripe) await contextService?.setStripeSnapshot(stripe);
+        if (plaid) await contextService?.setPlaidSnapshot(plaid);
+
+        res.json({
+            companyId,
+            sessionId: sessionId ?? null,
+            refreshed: [...(stripe ? ['stripe'] : []), ...(plaid ? ['plaid'] : [])],
+            errors,
+            stripe: stripe && { currency: stripe.currency, mrr: stripe.mrr, customerCount: stripe.customerCount, churnRate: stripe.churnRate },
+            plaid: plaid && { currency: plaid.currency, accountCount: plaid.accounts.length, cashFlow: plaid.cashFlow },
         });
     } catch (error) {
         next(error);
     }
 });
 
+/**
+ * DELETE /api/companies/:companyId/integrations/:provider
+ * Forget the company's stored credential for a provider ('stripe' or 'plaid')
+ */
+router.delete('/companies/:companyId/integrations/:provider', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+        const provider = req.params.provider as string;
+
+        if (provider !== 'stripe' && provider !== 'plaid') {
+            res.status(400).json({ error: `Unknown provider: ${provider}` });
+            return;
+        }
+
+        if (!(await deleteCredential(companyId, provider))) {
+            res.status(404).json({ error: 'No stored credential for this provider' });
+            return;
+        }
+
+        res.json({ success: true, companyId, provider });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * PUT /api/companies/:companyId/monitoring
+ * Monitor a company: re-analyze it every cadenceDays (MONITORING_CADENCE_DAYS
+ * by default) with snapshots refreshed from its stored credentials, storing
+ * each run in its analysis history. A sessionId supplies the documents every
+ * run is scored against. With reuseInsights (the default), runs whose data
+ * hasn't materially changed since the last full run reuse its agent insights
+ * and recompute only the deterministic factors. Updating keeps fields not sent.
+ */
+router.put('/companies/:companyId/monitoring', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+        const parsed = MonitoringRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+            res.status(400).json({ error: parsed.error.issues.map(i => i.message).join('; ') });
+            return;
+        }
+        const { sessionId, cadenceDays, policyId, reuseInsights, enabled } = parsed.data;
+
+        if (policyId && !findScoringPolicy(policyId)) {
+            res.status(400).json({ error: `Unknown scoring policy: ${policyId}` });
+            return;
+        }
+
+        let contextService: GlobalContextService | null = null;
+        if (sessionId) {
+            contextService = await loadSessionContext(sessionId);
+            if (!contextService) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            if (contextService.getContext().companyId !== companyId) {
+                res.status(400).json({ error: 'Session belongs to another company' });
+                return;
+            }
+        }
+
+        const existing = await getMonitor(companyId);
+        const session = contextService?.getContext();
+        const cadence = cadenceDays ?? existing?.cadenceDays ?? MONITORING.defaultCadenceDays;
+
+        // A new registration runs at the next tick; an updated one a cadence after its last run
+        const nextRunAt = existing?.lastRunAt
+            ? new Date(existing.lastRunAt.getTime() + cadence * 24 * 60 * 60 * 1000)
+            : existing?.nextRunAt ?? new Date();
+
+        const monitor = await saveMonitor({
+            companyId,
+            cadenceDays: cadence,
+            policyId: policyId ?? existing?.policyId,
+            reportingCurrency: session ? session.reportingCurrency : existing?.reportingCurrency,
+            reuseInsights: reuseInsights ?? existing?.reuseInsights ?? true,
+            enabled: enabled ?? existing?.enabled ?? true,
+            documents: session?.documents ?? existing?.documents ?? [],
+            nextRunAt,
+        });
+
+        res.status(existing ? 200 : 201).json({
+            success: true,
+            vaultConfigured: isVaultConfigured(),
+            monitoring: monitorView(monitor),
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * GET /api/companies/:companyId/monitoring
+ * The company's monitoring settings and where its last scheduled run left off
+ */
+router.get('/companies/:companyId/monitoring', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const monitor = await getMonitor(req.params.companyId as string);
+        if (!monitor) {
+            res.status(404).json({ error: 'Company is not monitored' });
+            return;
+        }
+
+        res.json({ monitoring: monitorView(monitor) });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * POST /api/companies/:companyId/monitoring/run
+ * Run the company's scheduled re-analysis now instead of waiting for it to be
+ * due. The company is claimed like a due one, so a run already in progress
+ * (scheduled or manual) answers 409.
+ */
+router.post('/companies/:companyId/monitoring/run', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+        if (!(await getMonitor(companyId))) {
+            res.status(404).json({ error: 'Company is not monitored' });
+            return;
+        }
+
+        const now = new Date();
+        const monitor = await claimMonitor(companyId, now, MONITORING.claimTimeoutMs);
+        if (!monitor) {
+            res.status(409).json({ error: 'A monitoring run for this company is already in progress' });
+            return;
+        }
+
+        const run = await runMonitoredCompany(getJobQueue(), monitor, now);
+        if (!run.jobId) {
+            res.status(502).json({ error: `Re-analysis could not be started: ${run.error}` });
+            return;
+        }
+
+        res.status(202).json({
+            success: true,
+            ...run,
+            status: 'queued',
+            statusUrl: `/api/analyze/${run.jobId}/status`,
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+/**
+ * DELETE /api/companies/:companyId/monitoring
+ * Stop monitoring the company; its analysis history is kept
+ */
+router.delete('/companies/:companyId/monitoring', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const companyId = req.params.companyId as string;
+
+        if (!(await deleteMonitor(companyId))) {
+            res.status(404).json({ error: 'Company is not monitored' });
+            return;
+        }
+
+        res.json({ success: true, companyId });
+    } catch (error) {
+        next(error);
+    }
+});
+
+// ============================================
+// SCORING POLICY ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/scoring-policies
+ * List the scoring policies an analysis can be run under
+ */
+router.get('/scoring-policies', (_req: Request, res: Response) => {
+    res.json({ policies: listScoringPolicies() });
+});
+
 // ============================================
 // ERROR HANDLER
 // ============================================
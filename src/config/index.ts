@@ -5,23 +5,34 @@
  * and application configuration.
  */
 
+import type { LLMProviderName } from '../llm/provider.js';
+import type { PenaltyRule } from '../types/index.js';
+
 // ============================================
 // LLM MODEL CONFIGURATION
 // ============================================
 
 export interface ModelConfig {
+    /** Backend that serves this model ('mock' runs fully offline) */
+    provider: LLMProviderName;
     name: string;
     temperature: number;
+    topP?: number;
     maxOutputTokens: number;
 }
 
+/** Provider selected via LLM_PROVIDER (defaults to Gemini) */
+const LLM_PROVIDER: LLMProviderName = process.env.LLM_PROVIDER === 'mock' ? 'mock' : 'gemini';
+
 /**
  * The model configuration used across all LLM interactions.
  * Change this one value to update the model everywhere.
  */
 export const MODEL_CONFIG: ModelConfig = {
+    provider: LLM_PROVIDER,
     name: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
     temperature: 0.3,
+    topP: 0.95,
     maxOutputTokens: 8192,
 };
 
@@ -29,6 +40,7 @@ export const MODEL_CONFIG: ModelConfig = {
  * Vision model config (for PDF parsing)
  */
 export const VISION_MODEL_CONFIG: ModelConfig = {
+    provider: LLM_PROVIDER,
     name: process.env.GEMINI_VISION_MODEL || 'gemini-2.0-flash',
     temperature: 0.1,
     maxOutputTokens: 4096,
@@ -80,6 +92,97 @@ export const SCORING = {
         'D+': 50, 'D': 45, 'D-': 40,
         'F': 0,
     },
+
+    /** Penalty multipliers for critical failures */
+    penalties: [
+        { factor: 'compliance', below: 40, multiplier: 0.8, impactWeight: 0.2, reason: 'Critical compliance gaps detected' },
+        { factor: 'serviceability', below: 30, multiplier: 0.7, impactWeight: 0.3, reason: 'Cash flow insufficient to service obligations' },
+        { factor: 'concentration', below: 25, multiplier: 0.85, impactWeight: 0.25, reason: 'Extreme revenue concentration risk' },
+    ] as PenaltyRule[],
+
+    /** Factor score the remediation roadmap aims for ("good" bankability) */
+    dragTargetScore: 75,
+
+    /** Policy used when an analysis doesn't name one */
+    defaultPolicyId: 'default',
+
+    /** Optional JSON file with additional scoring policies (array of ScoringPolicy) */
+    policiesFile: process.env.SCORING_POLICIES_FILE,
+};
+
+// ============================================
+// CURRENCY CONFIGURATION
+// ============================================
+
+export const CURRENCY = {
+    /** Currency cross-source comparisons are reported in when a session doesn't set one */
+    reportingCurrency: process.env.REPORTING_CURRENCY || 'DKK',
+
+    /** Optional JSON file with additional dated FX rate tables (array of FxRateTable) */
+    fxRatesFile: process.env.FX_RATES_FILE,
+};
+
+// ============================================
+// JOB QUEUE CONFIGURATION
+// ============================================
+
+type JobQueueBackendName = 'memory' | 'redis' | 'postgres';
+
+/** Explicit JOB_QUEUE_BACKEND wins; otherwise prefer Redis, then PostgreSQL, then memory */
+function resolveJobQueueBackend(): JobQueueBackendName {
+    const explicit = process.env.JOB_QUEUE_BACKEND;
+    if (explicit === 'memory' || explicit === 'redis' || explicit === 'postgres') return explicit;
+    if (process.env.REDIS_URL) return 'redis';
+    if (process.env.DATABASE_URL) return 'postgres';
+    return 'memory';
+}
+
+export const JOB_QUEUE = {
+    /** Where queued and in-flight analysis jobs are stored */
+    backend: resolveJobQueueBackend(),
+
+    /** Run a worker inside the API process (required for the memory backend) */
+    inProcessWorker: process.env.RUN_IN_PROCESS_WORKER !== 'false',
+
+    /** Max analyses a single worker runs at once */
+    concurrency: parseInt(process.env.WORKER_CONCURRENCY || '2', 10),
+
+    /** How often an idle worker polls for new jobs */
+    pollIntervalMs: 1000,
+
+    /** How long a claimed job stays hidden before another worker may take it over */
+    visibilityTimeoutMs: 10 * 60 * 1000,
+
+    /** Total attempts (first run + retries) before a job is marked as error */
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+};
+
+// ============================================
+// MONITORING CONFIGURATION
+// ============================================
+
+export const MONITORING = {
+    /** Run the monitoring scheduler in this process (API or worker) */
+    schedulerEnabled: process.env.RUN_MONITORING_SCHEDULER === 'true',
+
+    /** How often the scheduler looks for companies due a re-analysis */
+    pollIntervalMs: 60 * 1000,
+
+    /** Days between re-analyses when a company doesn't set its own cadence */
+    defaultCadenceDays: parseInt(process.env.MONITORING_CADENCE_DAYS || '30', 10),
+
+    /** How long a claimed company is held from other schedulers; also the retry delay after a failed refresh */
+    claimTimeoutMs: 60 * 60 * 1000,
+
+    /** Changes since the last full analysis that make the agents run again */
+    materialChange: {
+        /** Relative change in a Stripe or Plaid metric (0.1 = 10%) */
+        relativeChange: 0.1,
+        /** Absolute change in monthly churn rate (0.02 = 2 percentage points) */
+        churnRatePoints: 0.02,
+        /** Absolute change in the largest customer's share of revenue */
+        topCustomerSharePoints: 0.05,
+    },
 };
 
 // ============================================
@@ -106,7 +209,8 @@ export const API_CONFIG = {
  * Call this at startup.
  */
 export function validateEnvironment(): { valid: boolean; missing: string[] } {
-    const required = ['GOOGLE_API_KEY'];
+    // The mock provider runs offline and needs no API key
+    const required = MODEL_CONFIG.provider === 'gemini' ? ['GOOGLE_API_KEY'] : [];
     const missing = required.filter(key => !process.env[key]);
 
     if (missing.length > 0) {
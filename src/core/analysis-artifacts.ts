@@ -0,0 +1,398 @@
+/**
+ * Analysis Artifacts Store
+ *
+ * Persists what an analysis produced besides its score and roadmap — agent
+ * insights, detected contradictions, the LLM audit trail and the message bus
+ * log — so underwriters can inspect exactly what each agent said and which
+ * LLM call produced it (AgentInsight.auditEntryId → analysis_audit_entries.id).
+ *
+ * Schema (auto-created on first use), every table keyed by the analysis (job) id:
+ *
+ *   analysis_insights
+ *   ├── analysis_id     TEXT NOT NULL
+ *   ├── id              TEXT NOT NULL      -- AgentInsight.id
+ *   ├── agent_id        TEXT NOT NULL
+ *   ├── created_at      TIMESTAMPTZ NOT NULL
+ *   ├── category        TEXT NOT NULL
+ *   ├── title           TEXT NOT NULL
+ *   ├── description     TEXT NOT NULL
+ *   ├── confidence      DOUBLE PRECISION NOT NULL
+ *   ├── impact          DOUBLE PRECISION NOT NULL
+ *   ├── evidence        JSONB NOT NULL     -- Evidence[]
+ *   ├── reasoning_chain TEXT
+ *   └── audit_entry_id  TEXT               -- LLM call that produced the insight
+ *
+ *   analysis_contradictions
+ *   ├── analysis_id  TEXT NOT NULL
+ *   ├── id           TEXT NOT NULL
+ *   ├── detected_at  TIMESTAMPTZ NOT NULL
+ *   ├── description  TEXT NOT NULL
+ *   ├── sources      JSONB NOT NULL        -- ConflictSource[]
+ *   └── resolution   JSONB                 -- ContradictionResolution (null if unresolved)
+ *
+ *   analysis_audit_entries
+ *   ├── analysis_id       TEXT NOT NULL
+ *   ├── id                TEXT NOT NULL    -- AuditEntry.id
+ *   ├── agent_id          TEXT NOT NULL
+ *   ├── created_at        TIMESTAMPTZ NOT NULL
+ *   ├── analysis_type     TEXT NOT NULL
+ *   ├── model_used        TEXT NOT NULL
+ *   ├── prompt            TEXT NOT NULL
+ *   ├── input_data        JSONB NOT NULL
+ *   ├── raw_response      TEXT NOT NULL
+ *   ├── parsed_response   JSONB
+ *   ├── prompt_tokens     INTEGER NOT NULL
+ *   ├── completion_tokens INTEGER NOT NULL
+ *   ├── total_tokens      INTEGER NOT NULL
+ *   ├── latency_ms        INTEGER NOT NULL
+ *   ├── confidence        DOUBLE PRECISION NOT NULL
+ *   ├── was_retried       BOOLEAN NOT NULL
+ *   ├── retry_count       INTEGER
+ *   └── parse_errors      TEXT[]
+ *
+ *   analysis_messages
+ *   ├── analysis_id     TEXT NOT NULL
+ *   ├── id              TEXT NOT NULL      -- Message.id
+ *   ├── sent_at         TIMESTAMPTZ NOT NULL
+ *   ├── from_agent      TEXT NOT NULL
+ *   ├── to_agent        TEXT NOT NULL      -- AgentId | 'broadcast'
+ *   ├── type            TEXT NOT NULL
+ *   ├── payload         JSONB
+ *   └── correlation_id  TEXT
+ *
+ * Primary keys are (analysis_id, id). A retried job replaces the artifacts of
+ * its earlier attempt. This is the only place an analysis' insights are kept.
+ *
+ * When DATABASE_URL is not set, artifacts are kept in the process's memory
+ * and evicted after ARTIFACT_TTL_MS, like completed jobs in the in-memory
+ * job store.
+ */
+
+import type pg from 'pg';
+import { getPool } from './db.js';
+import type { AuditEntry } from './audit-trail.js';
+import type { Message } from './message-bus.js';
+import type { AgentInsight, Contradiction } from '../types/index.js';
+
+export interface AnalysisArtifacts {
+    insights: AgentInsight[];
+    contradictions: Contradiction[];
+    auditEntries: AuditEntry[];
+    messages: Message[];
+}
+
+/** How long in-memory artifacts are kept, matching the in-memory job TTL */
+const ARTIFACT_TTL_MS = 2 * 60 * 60 * 1000;
+
+const inMemoryArtifacts = new Map<string, { artifacts: AnalysisArtifacts; storedAt: number }>();
+
+let tableInitPromise: Promise<boolean> | null = null;
+
+async function ensureTables(): Promise<boolean> {
+    const pool = getPool();
+    if (!pool) return false;
+
+    if (!tableInitPromise) {
+        tableInitPromise = pool.query(`
+            CREATE TABLE IF NOT EXISTS analysis_insights (
+                analysis_id     TEXT NOT NULL,
+                id              TEXT NOT NULL,
+                agent_id        TEXT NOT NULL,
+                created_at      TIMESTAMPTZ NOT NULL,
+                category        TEXT NOT NULL,
+                title           TEXT NOT NULL,
+                description     TEXT NOT NULL,
+                confidence      DOUBLE PRECISION NOT NULL,
+                impact          DOUBLE PRECISION NOT NULL,
+                evidence        JSONB NOT NULL,
+                reasoning_chain TEXT,
+                audit_entry_id  TEXT,
+                PRIMARY KEY (analysis_id, id)
+            );
+            CREATE TABLE IF NOT EXISTS analysis_contradictions (
+                analysis_id TEXT NOT NULL,
+                id          TEXT NOT NULL,
+                detected_at TIMESTAMPTZ NOT NULL,
+                description TEXT NOT NULL,
+                sources     JSONB NOT NULL,
+                resolution  JSONB,
+                PRIMARY KEY (analysis_id, id)
+            );
+            CREATE TABLE IF NOT EXISTS analysis_audit_entries (
+                analysis_id       TEXT NOT NULL,
+                id                TEXT NOT NULL,
+                agent_id          TEXT NOT NULL,
+                created_at        TIMESTAMPTZ NOT NULL,
+                analysis_type     TEXT NOT NULL,
+                model_used        TEXT NOT NULL,
+                prompt            TEXT NOT NULL,
+                input_data        JSONB NOT NULL,
+                raw_response      TEXT NOT NULL,
+                parsed_response   JSONB,
+                prompt_tokens     INTEGER NOT NULL,
+                completion_tokens INTEGER NOT NULL,
+                total_tokens      INTEGER NOT NULL,
+                latency_ms        INTEGER NOT NULL,
+                confidence        DOUBLE PRECISION NOT NULL,
+                was_retried       BOOLEAN NOT NULL,
+                retry_count       INTEGER,
+                parse_errors      TEXT[],
+                PRIMARY KEY (analysis_id, id)
+            );
+            CREATE TABLE IF NOT EXISTS analysis_messages (
+                analysis_id    TEXT NOT NULL,
+                id             TEXT NOT NULL,
+                sent_at        TIMESTAMPTZ NOT NULL,
+                from_agent     TEXT NOT NULL,
+                to_agent       TEXT NOT NULL,
+                type           TEXT NOT NULL,
+                payload        JSONB,
+                correlation_id TEXT,
+                PRIMARY KEY (analysis_id, id)
+            );
+        `).then(() => true);
+    }
+
+    return tableInitPromise;
+}
+
+/**
+ * Store an analysis' artifacts, replacing any from an earlier attempt.
+ * Non-fatal: errors are logged and the analysis result is still served.
+ */
+export async function persistAnalysisArtifacts(analysisId: string, artifacts: AnalysisArtifacts): Promise<void> {
+    const pool = getPool();
+    if (!pool) {
+        evictExpiredArtifacts();
+        inMemoryArtifacts.set(analysisId, { artifacts, storedAt: Date.now() });
+        return;
+    }
+
+    let client: pg.PoolClient | null = null;
+    try {
+        if (!(await ensureTables())) return;
+
+        client = await pool.connect();
+        await client.query('BEGIN');
+
+        for (const table of ['analysis_insights', 'analysis_contradictions', 'analysis_audit_entries', 'analysis_messages']) {
+            await client.query(`DELETE FROM ${table} WHERE analysis_id = $1`, [analysisId]);
+        }
+
+        for (const insight of artifacts.insights) {
+            await client.query(
+                `INSERT INTO analysis_insights
+                    (analysis_id, id, agent_id, created_at, category, title, description,
+                     confidence, impact, evidence, reasoning_chain, audit_entry_id)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+                [
+                    analysisId,
+                    insight.id,
+                    insight.agentId,
+                    insight.timestamp,
+                    insight.category,
+                    insight.title,
+                    insight.description,
+                    insight.confidence,
+                    insight.impact,
+                    JSON.stringify(insight.evidence),
+                    insight.reasoningChain ?? null,
+                    insight.auditEntryId ?? null,
+                ]
+            );
+        }
+
+        for (const contradiction of artifacts.contradictions) {
+            await client.query(
+                `INSERT INTO analysis_contradictions
+                    (analysis_id, id, detected_at, description, sources, resolution)
+                 VALUES ($1, $2, $3, $4, $5, $6)`,
+                [
+                    analysisId,
+                    contradiction.id,
+                    contradiction.detectedAt,
+                    contradiction.description,
+                    JSON.stringify(contradiction.sources),
+                    contradiction.resolution ? JSON.stringify(contradiction.resolution) : null,
+                ]
+            );
+        }
+
+        for (const entry of artifacts.auditEntries) {
+            await client.query(
+                `INSERT INTO analysis_audit_entries
+                    (analysis_id, id, agent_id, created_at, analysis_type, model_used, prompt, input_data,
+                     raw_response, parsed_response, prompt_tokens, completion_tokens, total_tokens,
+                     latency_ms, confidence, was_retried, retry_count, parse_errors)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+                [
+                    analysisId,
+                    entry.id,
+                    entry.agentId,
+                    entry.timestamp,
+                    entry.analysisType,
+                    entry.modelUsed,
+                    entry.prompt,
+                    JSON.stringify(entry.inputData),
+                    entry.rawResponse,
+                    entry.parsedResponse === undefined ? null : JSON.stringify(entry.parsedResponse),
+                    entry.tokenCount.prompt,
+                    entry.tokenCount.completion,
+                    entry.tokenCount.total,
+                    Math.round(entry.latencyMs),
+                    entry.confidence,
+                    entry.wasRetried,
+                    entry.retryCount ?? null,
+                    entry.parseErrors ?? null,
+                ]
+            );
+        }
+
+        for (const message of artifacts.messages) {
+            await client.query(
+                `INSERT INTO analysis_messages
+                    (analysis_id, id, sent_at, from_agent, to_agent, type, payload, correlation_id)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+                [
+                    analysisId,
+                    message.id,
+                    message.timestamp,
+                    message.from,
+                    message.to,
+                    message.type,
+                    message.payload === undefined ? null : JSON.stringify(message.payload),
+                    message.correlationId ?? null,
+                ]
+            );
+        }
+
+        await client.query('COMMIT');
+    } catch (err) {
+        await client?.query('ROLLBACK').catch(() => undefined);
+        console.error('[analysis-artifacts] persist error:', (err as Error).message);
+    } finally {
+        client?.release();
+    }
+}
+
+/**
+ * An analysis' agent insights in the order they were produced.
+ * Returns null when they can't be read, or without DATABASE_URL once evicted.
+ */
+export async function fetchInsights(analysisId: string): Promise<AgentInsight[] | null> {
+    if (!getPool()) return fetchInMemory(analysisId)?.insights ?? null;
+
+    const rows = await fetchRows('analysis_insights', analysisId, 'created_at');
+    return rows?.map(row => ({
+        id: row.id,
+        agentId: row.agent_id,
+        timestamp: new Date(row.created_at),
+        category: row.category,
+        title: row.title,
+        description: row.description,
+        confidence: row.confidence,
+        impact: row.impact,
+        evidence: row.evidence,
+        reasoningChain: row.reasoning_chain ?? '',
+        auditEntryId: row.audit_entry_id ?? undefined,
+    })) ?? null;
+}
+
+/**
+ * Contradictions detected during an analysis.
+ * Returns null when they can't be read, or without DATABASE_URL once evicted.
+ */
+export async function fetchContradictions(analysisId: string): Promise<Contradiction[] | null> {
+    if (!getPool()) return fetchInMemory(analysisId)?.contradictions ?? null;
+
+    const rows = await fetchRows('analysis_contradictions', analysisId, 'detected_at');
+    return rows?.map(row => ({
+        id: row.id,
+        detectedAt: new Date(row.detected_at),
+        description: row.description,
+        sources: row.sources,
+        resolution: row.resolution ?? undefined,
+    })) ?? null;
+}
+
+/**
+ * LLM calls made during an analysis, oldest first.
+ * Returns null when they can't be read, or without DATABASE_URL once evicted.
+ */
+export async function fetchAuditEntries(analysisId: string): Promise<AuditEntry[] | null> {
+    if (!getPool()) return fetchInMemory(analysisId)?.auditEntries ?? null;
+
+    const rows = await fetchRows('analysis_audit_entries', analysisId, 'created_at');
+    return rows?.map(row => ({
+        id: row.id,
+        agentId: row.agent_id,
+        timestamp: new Date(row.created_at),
+        analysisType: row.analysis_type,
+        modelUsed: row.model_used,
+        prompt: row.prompt,
+        inputData: row.input_data,
+        rawResponse: row.raw_response,
+        parsedResponse: row.parsed_response,
+        tokenCount: {
+            prompt: row.prompt_tokens,
+            completion: row.completion_tokens,
+            total: row.total_tokens,
+        },
+        latencyMs: row.latency_ms,
+        confidence: row.confidence,
+        wasRetried: row.was_retried,
+        retryCount: row.retry_count ?? undefined,
+        parseErrors: row.parse_errors ?? undefined,
+    })) ?? null;
+}
+
+/**
+ * Inter-agent messages sent during an analysis, oldest first.
+ * Returns null when they can't be read, or without DATABASE_URL once evicted.
+ */
+export async function fetchMessages(analysisId: string): Promise<Message[] | null> {
+    if (!getPool()) return fetchInMemory(analysisId)?.messages ?? null;
+
+    const rows = await fetchRows('analysis_messages', analysisId, 'sent_at');
+    return rows?.map(row => ({
+        id: row.id,
+        timestamp: new Date(row.sent_at),
+        from: row.from_agent,
+        to: row.to_agent,
+        type: row.type,
+        payload: row.payload,
+        correlationId: row.correlation_id ?? undefined,
+    })) ?? null;
+}
+
+function fetchInMemory(analysisId: string): AnalysisArtifacts | null {
+    const stored = inMemoryArtifacts.get(analysisId);
+    if (!stored || stored.storedAt < Date.now() - ARTIFACT_TTL_MS) return null;
+    return stored.artifacts;
+}
+
+/** Drop in-memory artifacts older than ARTIFACT_TTL_MS. Called on each store. */
+function evictExpiredArtifacts(): void {
+    const cutoff = Date.now() - ARTIFACT_TTL_MS;
+    for (const [id, stored] of inMemoryArtifacts) {
+        if (stored.storedAt < cutoff) inMemoryArtifacts.delete(id);
+    }
+}
+
+async function fetchRows(table: string, analysisId: string, orderBy: string): Promise<Record<string, any>[] | null> {
+    const pool = getPool();
+    if (!pool) return null;
+
+    try {
+        if (!(await ensureTables())) return null;
+
+        const { rows } = await pool.query(
+            `SELECT * FROM ${table} WHERE analysis_id = $1 ORDER BY ${orderBy} ASC`,
+            [analysisId]
+        );
+        return rows;
+    } catch (err) {
+        console.error(`[analysis-artifacts] ${table} fetch error:`, (err as Error).message);
+        return null;
+    }
+}
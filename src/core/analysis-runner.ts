@@ -0,0 +1,90 @@
+/**
+ * Analysis Runner
+ *
+ * Builds an orchestrator with every agent registered and runs one analysis job.
+ * Shared by the API (fixture endpoint) and analysis workers so both wire
+ * agents and sessions the same way.
+ */
+
+import { AgentOrchestrator, type AnalysisProgressListener } from './orchestrator.js';
+import { createGlobalContext, type GlobalContextService } from './global-context.js';
+import type { AnalysisJobPayload, AnalysisRunResult } from './job-queue.js';
+import { fetchInsights } from './analysis-artifacts.js';
+import type { AgentInsight } from '../types/index.js';
+import { getScoringPolicy } from '../synthesis/scoring-policies.js';
+import { CounterAgent } from '../agents/counter-agent.js';
+import { LawyerAgent } from '../agents/lawyer-agent.js';
+import { ForecasterAgent } from '../agents/forecaster-agent.js';
+import { MarketAgent } from '../agents/market-agent.js';
+
+/**
+ * Create a fresh orchestrator with all agents registered.
+ * Each analysis gets its own isolated instance.
+ */
+export function createOrchestrator(contextService?: GlobalContextService): AgentOrchestrator {
+    const orchestrator = new AgentOrchestrator(contextService);
+    orchestrator.registerAgent(new CounterAgent());
+    orchestrator.registerAgent(new LawyerAgent());
+    orchestrator.registerAgent(new ForecasterAgent());
+    orchestrator.registerAgent(new MarketAgent());
+    return orchestrator;
+}
+
+/**
+ * Load a persisted session into a fresh context service.
+ * Returns null when the session does not exist (never created or expired).
+ */
+export async function loadSessionContext(sessionId: string): Promise<GlobalContextService | null> {
+    const contextService = createGlobalContext();
+    const context = await contextService.loadSession(sessionId);
+    return context ? contextService : null;
+}
+
+/**
+ * Run the full analysis for a queued job.
+ * Session-bound jobs run against the session's documents and API snapshots,
+ * scored under the job's policy (default policy when unset).
+ * Jobs with reuseInsightsFrom replay that analysis' insights instead of running
+ * the agents; when they can no longer be found, the agents run as usual.
+ * Pass onProgress to observe phase, agent and insight events as they happen.
+ */
+export async function runAnalysis(
+    payload: AnalysisJobPayload,
+    onProgress?: AnalysisProgressListener,
+): Promise<AnalysisRunResult> {
+    const policy = getScoringPolicy(payload.policyId);
+    let contextService: GlobalContextService | undefined;
+
+    if (payload.sessionId) {
+        const loaded = await loadSessionContext(payload.sessionId);
+        if (!loaded) {
+            throw new Error(`Session ${payload.sessionId} not found`);
+        }
+        contextService = loaded;
+    }
+
+    const orchestrator = createOrchestrator(contextService);
+    if (onProgress) {
+        orchestrator.onProgress(onProgress);
+    }
+
+    const reuseInsights = payload.reuseInsightsFrom
+        ? await loadReusableInsights(payload.reuseInsightsFrom)
+        : undefined;
+
+    return orchestrator.analyze(payload.companyId, policy, { reuseInsights });
+}
+
+/**
+ * The insights of a completed analysis, from its stored artifacts
+ */
+async function loadReusableInsights(analysisId: string): Promise<AgentInsight[] | undefined> {
+    const insights = await fetchInsights(analysisId);
+
+    if (!insights) {
+        console.warn(`[runner] Insights of analysis ${analysisId} not found; running the agents`);
+        return undefined;
+    }
+
+    return insights;
+}
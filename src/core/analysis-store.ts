@@ -15,7 +15,12 @@
  *   ├── score       JSONB                  -- BankabilityScore (null on error)
  *   ├── roadmap     JSONB                  -- RemediationRoadmap (null on error)
  *   ├── failed_agents TEXT[]               -- AgentId[] (null on error)
- *   └── error_message TEXT                -- null on complete
+ *   ├── error_message TEXT                -- null on complete
+ *   └── reuse_insights_from TEXT          -- analysis whose insights (and audit trail) were replayed
+ *
+ *   analyses_company_idx ON (company_id, completed_at) -- per-company history
+ *
+ * Insights, contradictions and the audit trail live in analysis-artifacts.
  *
  * When DATABASE_URL is not set, all functions are no-ops.
  */
@@ -40,8 +45,11 @@ async function ensureTable(): Promise<boolean> {
                 score         JSONB,
                 roadmap       JSONB,
                 failed_agents TEXT[],
-                error_message TEXT
-            )
+                error_message TEXT,
+                reuse_insights_from TEXT
+            );
+            ALTER TABLE analyses ADD COLUMN IF NOT EXISTS reuse_insights_from TEXT;
+            CREATE INDEX IF NOT EXISTS analyses_company_idx ON analyses (company_id, completed_at);
         `).then(() => true);
     }
 
@@ -58,6 +66,8 @@ export interface PersistedAnalysis {
     roadmap?: RemediationRoadmap;
     failedAgents?: AgentId[];
     errorMessage?: string;
+    /** Set when the insights were replayed from this earlier analysis, which holds their audit trail */
+    reuseInsightsFrom?: string;
 }
 
 export async function persistAnalysis(job: PersistedAnalysis): Promise<void> {
@@ -69,15 +79,16 @@ export async function persistAnalysis(job: PersistedAnalysis): Promise<void> {
 
         await pool.query(
             `INSERT INTO analyses
-                (id, company_id, status, created_at, completed_at, score, roadmap, failed_agents, error_message)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+                (id, company_id, status, created_at, completed_at, score, roadmap, failed_agents, error_message, reuse_insights_from)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
              ON CONFLICT (id) DO UPDATE SET
                 status        = EXCLUDED.status,
                 completed_at  = EXCLUDED.completed_at,
                 score         = EXCLUDED.score,
                 roadmap       = EXCLUDED.roadmap,
                 failed_agents = EXCLUDED.failed_agents,
-                error_message = EXCLUDED.error_message`,
+                error_message = EXCLUDED.error_message,
+                reuse_insights_from = EXCLUDED.reuse_insights_from`,
             [
                 job.id,
                 job.companyId,
@@ -88,6 +99,7 @@ export async function persistAnalysis(job: PersistedAnalysis): Promise<void> {
                 job.roadmap ? JSON.stringify(job.roadmap) : null,
                 job.failedAgents ?? null,
                 job.errorMessage ?? null,
+                job.reuseInsightsFrom ?? null,
             ]
         );
     } catch (err) {
@@ -110,20 +122,47 @@ export async function fetchAnalysis(id: string): Promise<PersistedAnalysis | nul
 
         if (rows.length === 0) return null;
 
-        const row = rows[0];
-        return {
-            id: row.id,
-            companyId: row.company_id,
-            status: row.status,
-            createdAt: new Date(row.created_at),
-            completedAt: new Date(row.completed_at),
-            score: row.score ?? undefined,
-            roadmap: row.roadmap ?? undefined,
-            failedAgents: row.failed_agents ?? undefined,
-            errorMessage: row.error_message ?? undefined,
-        };
+        return rowToAnalysis(rows[0]);
     } catch (err) {
         console.error('[analysis-store] fetch error:', (err as Error).message);
         return null;
     }
 }
+
+/**
+ * All persisted analyses for a company, oldest first.
+ * Returns an empty list when DATABASE_URL is not set.
+ */
+export async function listAnalyses(companyId: string): Promise<PersistedAnalysis[]> {
+    const pool = getPool();
+    if (!pool) return [];
+
+    try {
+        if (!(await ensureTable())) return [];
+
+        const { rows } = await pool.query(
+            'SELECT * FROM analyses WHERE company_id = $1 ORDER BY completed_at ASC',
+            [companyId]
+        );
+
+        return rows.map(rowToAnalysis);
+    } catch (err) {
+        console.error('[analysis-store] list error:', (err as Error).message);
+        return [];
+    }
+}
+
+function rowToAnalysis(row: Record<string, any>): PersistedAnalysis {
+    return {
+        id: row.id,
+        companyId: row.company_id,
+        status: row.status,
+        createdAt: new Date(row.created_at),
+        completedAt: new Date(row.completed_at),
+        score: row.score ?? undefined,
+        roadmap: row.roadmap ?? undefined,
+        failedAgents: row.failed_agents ?? undefined,
+        errorMessage: row.error_message ?? undefined,
+        reuseInsightsFrom: row.reuse_insights_from ?? undefined,
+    };
+}
@@ -0,0 +1,189 @@
+/**
+ * Analysis Worker
+ *
+ * Pulls analysis jobs from a JobQueue and runs them with a concurrency limit.
+ *
+ *   poll loop ──► queue.claim() ──► runner(payload) ──► persist artifacts ──► queue.complete()
+ *                                        │
+ *                                        └─ throws ──► queue.fail(retry = attempts < maxAttempts)
+ *
+ * While a job runs, its lease is extended at half the visibility timeout so
+ * long analyses aren't taken over by another worker. If the worker dies, the
+ * lease lapses and the job is claimed again, counting as a new attempt.
+ * Queue writes are fenced on the attempt this worker claimed, so once another
+ * worker has taken a job over, this worker's result or error is discarded.
+ *
+ * Status changes and orchestrator progress are published to job-progress so
+ * clients can follow a job live.
+ */
+
+import { JOB_QUEUE } from '../config/index.js';
+import type { AnalysisJob } from './job-store.js';
+import type { AnalysisJobPayload, AnalysisRunResult, JobQueue } from './job-queue.js';
+import type { AnalysisProgressListener } from './orchestrator.js';
+import { runAnalysis } from './analysis-runner.js';
+import { publishJobProgress } from './job-progress.js';
+import { persistAnalysisArtifacts } from './analysis-artifacts.js';
+
+export type AnalysisJobRunner = (
+    payload: AnalysisJobPayload,
+    onProgress?: AnalysisProgressListener,
+) => Promise<AnalysisRunResult>;
+
+export interface AnalysisWorkerOptions {
+    concurrency: number;
+    pollIntervalMs: number;
+    visibilityTimeoutMs: number;
+    maxAttempts: number;
+}
+
+export class AnalysisWorker {
+    private readonly options: AnalysisWorkerOptions;
+    private readonly active = new Set<Promise<void>>();
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(
+        private readonly queue: JobQueue,
+        private readonly runner: AnalysisJobRunner = runAnalysis,
+        options: Partial<AnalysisWorkerOptions> = {},
+    ) {
+        this.options = {
+            concurrency: JOB_QUEUE.concurrency,
+            pollIntervalMs: JOB_QUEUE.pollIntervalMs,
+            visibilityTimeoutMs: JOB_QUEUE.visibilityTimeoutMs,
+            maxAttempts: JOB_QUEUE.maxAttempts,
+            ...options,
+        };
+    }
+
+    /**
+     * Start polling the queue
+     */
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        console.log(`[worker] Started (${this.queue.backend} queue, concurrency ${this.options.concurrency})`);
+        this.schedule(0);
+    }
+
+    /**
+     * Stop polling and wait for in-flight jobs to finish
+     */
+    async stop(): Promise<void> {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.idle();
+    }
+
+    /**
+     * Claim jobs until the concurrency limit is reached or the queue is empty.
+     * Returns the number of jobs started.
+     */
+    async poll(): Promise<number> {
+        let started = 0;
+
+        while (this.active.size < this.options.concurrency) {
+            const job = await this.queue.claim(this.options.visibilityTimeoutMs);
+            if (!job) break;
+
+            const task: Promise<void> = this.process(job)
+                .catch((err: Error) => console.error(`[worker] Job ${job.id} could not be settled:`, err.message))
+                .finally(() => this.active.delete(task));
+            this.active.add(task);
+            started++;
+        }
+
+        return started;
+    }
+
+    /**
+     * Resolve once every in-flight job has finished
+     */
+    async idle(): Promise<void> {
+        while (this.active.size > 0) {
+            await Promise.all(this.active);
+        }
+    }
+
+    // ============================================
+    // PRIVATE METHODS
+    // ============================================
+
+    private schedule(delayMs: number): void {
+        if (!this.running) return;
+
+        this.timer = setTimeout(() => {
+            this.poll()
+                .catch((err: Error) => console.error('[worker] poll error:', err.message))
+                .finally(() => this.schedule(this.options.pollIntervalMs));
+        }, delayMs);
+    }
+
+    private async process(job: AnalysisJob): Promise<void> {
+        const { visibilityTimeoutMs, maxAttempts } = this.options;
+
+        // A job reclaimed after its lease lapsed may already be past its budget
+        if (job.attempts > maxAttempts) {
+            const errorMessage = `Abandoned after ${maxAttempts} attempts`;
+            if (await this.queue.fail(job.id, job.attempts, errorMessage, false)) {
+                publishJobProgress(job.id, { type: 'error', errorMessage });
+            }
+            return;
+        }
+
+        publishJobProgress(job.id, { type: 'status', status: 'analyzing', attempts: job.attempts });
+
+        const heartbeat = setInterval(() => {
+            this.queue.extendLease(job.id, job.attempts, visibilityTimeoutMs)
+                .then(extended => {
+                    if (!extended) console.warn(`[worker] Job ${job.id} attempt ${job.attempts} lost its lease`);
+                })
+                .catch((err: Error) => console.error(`[worker] lease extension failed for ${job.id}:`, err.message));
+        }, visibilityTimeoutMs / 2);
+
+        try {
+            const result = await this.runner(
+                {
+                    companyId: job.companyId,
+                    sessionId: job.sessionId,
+                    policyId: job.policyId,
+                    reuseInsightsFrom: job.reuseInsightsFrom,
+                },
+                (event) => publishJobProgress(job.id, event),
+            );
+            const { insights, contradictions, auditEntries, messages, ...jobResult } = result;
+            // Artifacts first, so they are in place once the job reads as complete —
+            // but only while the job is still ours, so they can't replace another attempt's
+            if (!(await this.queue.extendLease(job.id, job.attempts, visibilityTimeoutMs))) {
+                console.warn(`[worker] Job ${job.id} attempt ${job.attempts} lost its lease; result discarded`);
+                return;
+            }
+            await persistAnalysisArtifacts(job.id, { insights, contradictions, auditEntries, messages });
+            if (!(await this.queue.complete(job.id, job.attempts, jobResult))) {
+                console.warn(`[worker] Job ${job.id} attempt ${job.attempts} lost its lease before completing; result discarded`);
+                return;
+            }
+            publishJobProgress(job.id, {
+                type: 'complete',
+                score: { score: result.score.score, grade: result.score.grade },
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const retry = job.attempts < maxAttempts;
+            console.error(`[worker] Job ${job.id} attempt ${job.attempts} failed${retry ? ' (will retry)' : ''}: ${message}`);
+            if (!(await this.queue.fail(job.id, job.attempts, message, retry))) {
+                console.warn(`[worker] Job ${job.id} attempt ${job.attempts} lost its lease; failure not recorded`);
+                return;
+            }
+            publishJobProgress(job.id, retry
+                ? { type: 'retrying', attempts: job.attempts, errorMessage: message }
+                : { type: 'error', errorMessage: message });
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+}
@@ -0,0 +1,264 @@
+/**
+ * Integration Credential Vault
+ *
+ * Stores each company's integration credentials — Plaid access tokens,
+ * Stripe Connect account ids or restricted keys — so snapshots can be
+ * refreshed later without the company linking its accounts again.
+ *
+ * Secrets are sealed with AES-256-GCM under CREDENTIAL_VAULT_KEY (32 bytes,
+ * hex or base64) and bound to their company and provider, so a sealed value
+ * copied to another row does not open. Nothing is stored when the key is unset.
+ *
+ * Schema (single table, auto-created on first use):
+ *
+ *   integration_credentials
+ *   ├── company_id    TEXT NOT NULL
+ *   ├── provider      TEXT NOT NULL          -- 'plaid' | 'stripe'
+ *   ├── secret        TEXT NOT NULL          -- sealed JSON: v1:<iv>:<tag>:<ciphertext>
+ *   ├── created_at    TIMESTAMPTZ NOT NULL
+ *   ├── updated_at    TIMESTAMPTZ NOT NULL
+ *   ├── last_used_at  TIMESTAMPTZ
+ *   └── PRIMARY KEY (company_id, provider)   -- linking again replaces the credential
+ *
+ * When DATABASE_URL is not set, credentials are kept in memory (sealed the
+ * same way) and are lost on restart.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { getPool } from './db.js';
+
+export type IntegrationProvider = 'plaid' | 'stripe';
+
+export interface PlaidCredential {
+    accessToken: string;
+}
+
+/** A Connect account the platform key acts on, or the company's own restricted key */
+export interface StripeCredential {
+    accountId?: string;
+    secretKey?: string;
+}
+
+export interface IntegrationCredentials {
+    plaid: PlaidCredential;
+    stripe: StripeCredential;
+}
+
+/** What is stored for a company, without the secret */
+export interface StoredCredential {
+    companyId: string;
+    provider: IntegrationProvider;
+    createdAt: Date;
+    updatedAt: Date;
+    lastUsedAt?: Date;
+}
+
+const SEAL_VERSION = 'v1';
+const IV_BYTES = 12;
+/** Full-length GCM tag; a shorter one would make forgeries far cheaper */
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface CredentialRow extends StoredCredential {
+    secret: string;
+}
+
+const inMemoryCredentials = new Map<string, CredentialRow>();
+
+let tableInitPromise: Promise<boolean> | null = null;
+
+async function ensureTable(): Promise<boolean> {
+    const pool = getPool();
+    if (!pool) return false;
+
+    if (!tableInitPromise) {
+        tableInitPromise = pool.query(`
+            CREATE TABLE IF NOT EXISTS integration_credentials (
+                company_id    TEXT NOT NULL,
+                provider      TEXT NOT NULL,
+                secret        TEXT NOT NULL,
+                created_at    TIMESTAMPTZ NOT NULL,
+                updated_at    TIMESTAMPTZ NOT NULL,
+                last_used_at  TIMESTAMPTZ,
+                PRIMARY KEY (company_id, provider)
+            );
+        `).then(() => true);
+    }
+
+    return tableInitPromise;
+}
+
+/**
+ * Whether credentials can be stored (CREDENTIAL_VAULT_KEY is set)
+ */
+export function isVaultConfigured(): boolean {
+    return !!process.env.CREDENTIAL_VAULT_KEY;
+}
+
+/**
+ * Store a company's credential for a provider, replacing any earlier one
+ */
+export async function saveCredential<P extends IntegrationProvider>(
+    companyId: string,
+    provider: P,
+    credential: IntegrationCredentials[P]
+): Promise<void> {
+    const secret = encryptSecret(JSON.stringify(credential), sealContext(companyId, provider));
+    const now = new Date();
+
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        const existing = inMemoryCredentials.get(sealContext(companyId, provider));
+        inMemoryCredentials.set(sealContext(companyId, provider), {
+            companyId,
+            provider,
+            secret,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        });
+        return;
+    }
+
+    await pool.query(
+        `INSERT INTO integration_credentials (company_id, provider, secret, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $4)
+         ON CONFLICT (company_id, provider) DO UPDATE SET
+            secret       = EXCLUDED.secret,
+            updated_at   = EXCLUDED.updated_at,
+            last_used_at = NULL`,
+        [companyId, provider, secret, now]
+    );
+}
+
+/**
+ * A company's credential for a provider, or null when none is stored.
+ * Marks the credential as used.
+ */
+export async function getCredential<P extends IntegrationProvider>(
+    companyId: string,
+    provider: P
+): Promise<IntegrationCredentials[P] | null> {
+    const now = new Date();
+    let secret: string;
+
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        const row = inMemoryCredentials.get(sealContext(companyId, provider));
+        if (!row) return null;
+        row.lastUsedAt = now;
+        secret = row.secret;
+    } else {
+        const { rows } = await pool.query(
+            `UPDATE integration_credentials SET last_used_at = $3
+             WHERE company_id = $1 AND provider = $2
+             RETURNING secret`,
+            [companyId, provider, now]
+        );
+        if (rows.length === 0) return null;
+        secret = rows[0].secret;
+    }
+
+    return JSON.parse(decryptSecret(secret, sealContext(companyId, provider))) as IntegrationCredentials[P];
+}
+
+/**
+ * The providers a company has stored credentials for, without the secrets
+ */
+export async function listCredentials(companyId: string): Promise<StoredCredential[]> {
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        return [...inMemoryCredentials.values()]
+            .filter(row => row.companyId === companyId)
+            .map(({ secret: _secret, ...stored }) => stored)
+            .sort((a, b) => a.provider.localeCompare(b.provider));
+    }
+
+    const { rows } = await pool.query(
+        `SELECT company_id, provider, created_at, updated_at, last_used_at
+         FROM integration_credentials WHERE company_id = $1 ORDER BY provider`,
+        [companyId]
+    );
+
+    return rows.map(row => ({
+        companyId: row.company_id,
+        provider: row.provider,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+        ...(row.last_used_at && { lastUsedAt: new Date(row.last_used_at) }),
+    }));
+}
+
+/**
+ * Remove a company's credential for a provider; false when none was stored
+ */
+export async function deleteCredential(companyId: string, provider: IntegrationProvider): Promise<boolean> {
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        return inMemoryCredentials.delete(sealContext(companyId, provider));
+    }
+
+    const { rowCount } = await pool.query(
+        'DELETE FROM integration_credentials WHERE company_id = $1 AND provider = $2',
+        [companyId, provider]
+    );
+    return (rowCount ?? 0) > 0;
+}
+
+// ============================================
+// ENCRYPTION
+// ============================================
+
+/**
+ * Seal a secret under the vault key, bound to a context that must match to open it
+ */
+export function encryptSecret(plaintext: string, context: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', vaultKey(), iv, { authTagLength: TAG_BYTES });
+    cipher.setAAD(Buffer.from(context, 'utf-8'));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    return [SEAL_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Open a sealed secret; throws when it was altered, sealed under another
+ * key or bound to another context
+ */
+export function decryptSecret(sealed: string, context: string): string {
+    const [version, iv, tag, ciphertext] = sealed.split(':');
+    if (version !== SEAL_VERSION || !iv || !tag || ciphertext === undefined) {
+        throw new Error('Unrecognized sealed credential format');
+    }
+
+    const authTag = Buffer.from(tag, 'base64');
+    if (authTag.length !== TAG_BYTES) {
+        throw new Error('Credential could not be decrypted (wrong CREDENTIAL_VAULT_KEY or tampered value)');
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', vaultKey(), Buffer.from(iv, 'base64'), { authTagLength: TAG_BYTES });
+    decipher.setAAD(Buffer.from(context, 'utf-8'));
+    decipher.setAuthTag(authTag);
+
+    try {
+        return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+        throw new Error('Credential could not be decrypted (wrong CREDENTIAL_VAULT_KEY or tampered value)');
+    }
+}
+
+function vaultKey(): Buffer {
+    const configured = process.env.CREDENTIAL_VAULT_KEY;
+    if (!configured) {
+        throw new Error('CREDENTIAL_VAULT_KEY required');
+    }
+
+    const key = /^[0-9a-f]{64}$/i.test(configured) ? Buffer.from(configured, 'hex') : Buffer.from(configured, 'base64');
+    if (key.length !== KEY_BYTES) {
+        throw new Error('CREDENTIAL_VAULT_KEY must be 32 bytes, hex or base64 encoded');
+    }
+    return key;
+}
+
+function sealContext(companyId: string, provider: IntegrationProvider): string {
+    return `${companyId}:${provider}`;
+}
@@ -0,0 +1,141 @@
+/**
+ * Currency
+ *
+ * FX conversion and formatting for monetary amounts that arrive in different
+ * currencies — statements (often DKK), Stripe (the account currency) and
+ * Plaid (usually USD) — so cross-source comparisons happen in one reporting
+ * currency per analysis.
+ *
+ * Conversion never calls a live feed: it uses a local table of dated rates so
+ * an analysis converts the same way every time it is replayed. Rate tables
+ * come from (tables dated the same day override earlier ones):
+ *   built-in year-end reference rates → JSON array at FX_RATES_FILE
+ *
+ * An amount is converted at the most recent table dated on or before the
+ * amount's date, or the earliest table when the date predates them all.
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { CURRENCY } from '../config/index.js';
+import { FxRateTableSchema } from '../validation/schemas.js';
+import type { FxRateTable, GlobalContext } from '../types/index.js';
+
+// ============================================
+// BUILT-IN RATES
+// ============================================
+
+/** Approximate ECB year-end reference rates; load current rates via FX_RATES_FILE */
+const BUILT_IN_RATES: FxRateTable[] = [
+    {
+        date: '2022-12-30',
+        base: 'EUR',
+        rates: { DKK: 7.4365, SEK: 11.1218, NOK: 10.5138, USD: 1.0666, GBP: 0.88693, CHF: 0.9847, PLN: 4.6808 },
+    },
+    {
+        date: '2023-12-29',
+        base: 'EUR',
+        rates: { DKK: 7.4529, SEK: 11.096, NOK: 11.2405, USD: 1.105, GBP: 0.86905, CHF: 0.926, PLN: 4.3395 },
+    },
+    {
+        date: '2024-12-31',
+        base: 'EUR',
+        rates: { DKK: 7.4578, SEK: 11.459, NOK: 11.795, USD: 1.0389, GBP: 0.82918, CHF: 0.9412, PLN: 4.275 },
+    },
+];
+
+// ============================================
+// RATE TABLE
+// ============================================
+
+let rateTables: FxRateTable[] | null = null;
+
+/**
+ * All rate tables, oldest first
+ */
+export function listFxRateTables(): FxRateTable[] {
+    if (!rateTables) {
+        const byDate = new Map<string, FxRateTable>();
+        for (const table of [...BUILT_IN_RATES, ...loadRatesFile()]) {
+            byDate.set(table.date, table);
+        }
+        rateTables = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    }
+    return rateTables;
+}
+
+/**
+ * Load additional rate tables from the JSON file named by FX_RATES_FILE.
+ * An invalid file is a configuration error and fails loudly.
+ */
+function loadRatesFile(): FxRateTable[] {
+    const file = CURRENCY.fxRatesFile;
+    if (!file) return [];
+
+    const parsed = z.array(FxRateTableSchema).safeParse(JSON.parse(readFileSync(file, 'utf-8')));
+    if (!parsed.success) {
+        const details = parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+        throw new Error(`Invalid FX rates in ${file}: ${details}`);
+    }
+
+    return parsed.data;
+}
+
+/**
+ * Whether any rate table can convert the currency
+ */
+export function isSupportedCurrency(currency: string): boolean {
+    return listFxRateTables().some(table => table.base === currency || currency in table.rates);
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+/**
+ * Rate to multiply an amount in `from` by to get `to`, as of the given date
+ * (undefined when no table quotes both currencies)
+ */
+export function findFxRate(from: string, to: string, on: Date = new Date()): number | undefined {
+    if (from === to) return 1;
+
+    const day = on.toISOString().slice(0, 10);
+    const quoting = listFxRateTables().filter(table => quote(table, from) && quote(table, to));
+    const table = quoting.filter(t => t.date <= day).pop() ?? quoting[0];
+    if (!table) return undefined;
+
+    return quote(table, to)! / quote(table, from)!;
+}
+
+/**
+ * Convert an amount between currencies at the rate in force on the given date
+ */
+export function convertAmount(amount: number, from: string, to: string, on: Date = new Date()): number {
+    const rate = findFxRate(from, to, on);
+    if (rate === undefined) {
+        throw new Error(`No FX rate from ${from} to ${to}`);
+    }
+    return amount * rate;
+}
+
+/**
+ * The currency an analysis reports cross-source comparisons in
+ */
+export function getReportingCurrency(context: GlobalContext): string {
+    return context.reportingCurrency ?? CURRENCY.reportingCurrency;
+}
+
+function quote(table: FxRateTable, currency: string): number | undefined {
+    return currency === table.base ? 1 : table.rates[currency];
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+/**
+ * Format a whole amount with its currency code, e.g. "DKK 1,200,000"
+ */
+export function formatMoney(amount: number, currency: string): string {
+    return `${currency} ${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+}
@@ -18,11 +18,14 @@ import type {
     Contradiction,
 } from '../types/index.js';
 
+// Module-level fallback store — shared by all service instances so a session created
+// by one request can be loaded by another when Redis is unavailable.
+const inMemoryStore = new Map<string, string>();
+
 export class GlobalContextService {
     private redis: Redis | null = null;
     private context: GlobalContext | null = null;
     private subscribers: Map<string, (ctx: GlobalContext) => void> = new Map();
-    private inMemoryStore: Map<string, string> = new Map();
 
     constructor(redisUrl?: string) {
         const url = redisUrl || process.env.REDIS_URL;
@@ -49,9 +52,10 @@ export class GlobalContextService {
     }
 
     /**
-     * Initialize a new analysis session
+     * Initialize a new analysis session, optionally reporting cross-source
+     * comparisons in a currency other than the configured default
      */
-    async createSession(companyId: string): Promise<GlobalContext> {
+    async createSession(companyId: string, reportingCurrency?: string): Promise<GlobalContext> {
         const sessionId = uuid();
 
         this.context = {
@@ -63,6 +67,7 @@ export class GlobalContextService {
             agentInsights: new Map(),
             riskFactors: this.createEmptyRiskFactors(),
             contradictions: [],
+            reportingCurrency,
         };
 
         await this.persist();
@@ -80,7 +85,7 @@ export class GlobalContextService {
         parsed.agentInsights = new Map(Object.entries(parsed.agentInsights || {}));
         parsed.startedAt = new Date(parsed.startedAt);
 
-        this.context = parsed as GlobalContext;
+        this.context = this.reviveDates(parsed as GlobalContext);
         return this.context;
     }
 
@@ -104,6 +109,16 @@ export class GlobalContextService {
         this.notifySubscribers();
     }
 
+    /**
+     * Replace the context's documents, e.g. after statements were merged
+     */
+    async setDocuments(docs: ParsedDocument[]): Promise<void> {
+        this.ensureSession();
+        this.context!.documents = docs;
+        await this.persist();
+        this.notifySubscribers();
+    }
+
     /**
      * Update API snapshots
      */
@@ -166,6 +181,20 @@ export class GlobalContextService {
         this.notifySubscribers();
     }
 
+    /**
+     * Clear what an earlier analysis of this session derived (agent insights,
+     * risk factors, cross-source contradictions) so a re-run starts from the
+     * data alone. Contradictions found while merging documents are kept.
+     */
+    async resetAnalysis(): Promise<void> {
+        this.ensureSession();
+        this.context!.agentInsights = new Map();
+        this.context!.riskFactors = this.createEmptyRiskFactors();
+        this.context!.contradictions = this.context!.contradictions.filter(c => c.detectedBy !== 'analysis');
+        await this.persist();
+        this.notifySubscribers();
+    }
+
     /**
      * Update computed risk factors
      */
@@ -218,10 +247,10 @@ export class GlobalContextService {
             try {
                 return await this.redis.get(key);
             } catch {
-                return this.inMemoryStore.get(key) || null;
+                return inMemoryStore.get(key) || null;
             }
         }
-        return this.inMemoryStore.get(key) || null;
+        return inMemoryStore.get(key) || null;
     }
 
     private async set(key: string, value: string): Promise<void> {
@@ -233,7 +262,7 @@ export class GlobalContextService {
                 // Fall through to in-memory
             }
         }
-        this.inMemoryStore.set(key, value);
+        inMemoryStore.set(key, value);
     }
 
     private ensureSession(): void {
@@ -256,6 +285,40 @@ export class GlobalContextService {
         );
     }
 
+    /**
+     * Restore Date fields flattened to ISO strings by JSON serialization
+     */
+    private reviveDates(context: GlobalContext): GlobalContext {
+        for (const doc of context.documents) {
+            doc.parsedAt = new Date(doc.parsedAt);
+        }
+        for (const insights of context.agentInsights.values()) {
+            for (const insight of insights) {
+                insight.timestamp = new Date(insight.timestamp);
+            }
+        }
+        for (const contradiction of context.contradictions) {
+            contradiction.detectedAt = new Date(contradiction.detectedAt);
+            if (contradiction.resolution) {
+                contradiction.resolution.resolvedAt = new Date(contradiction.resolution.resolvedAt);
+            }
+        }
+
+        const { stripe, plaid } = context.apiSnapshots;
+        if (stripe) {
+            stripe.fetchedAt = new Date(stripe.fetchedAt);
+        }
+        if (plaid) {
+            plaid.fetchedAt = new Date(plaid.fetchedAt);
+            plaid.transactions.period = {
+                start: new Date(plaid.transactions.period.start),
+                end: new Date(plaid.transactions.period.end),
+            };
+        }
+
+        return context;
+    }
+
     private async publishInsight(agentId: AgentId, insight: AgentInsight): Promise<void> {
         if (this.redis) {
             try {
@@ -0,0 +1,153 @@
+/**
+ * Job Progress Hub
+ *
+ * Fans live progress for analysis jobs out to subscribers (SSE connections).
+ *
+ *   worker ──► publishJobProgress(jobId, event) ──► subscribers of jobId
+ *
+ * With a shared job queue, workers may run in other processes, so events are
+ * relayed between processes: through Redis pub/sub on `analysis-progress:<jobId>`
+ * for the redis queue, and through PostgreSQL LISTEN/NOTIFY on the
+ * `analysis_progress` channel for the postgres queue. With the memory queue,
+ * delivery is in-process only, which matches where the worker runs.
+ *
+ * Progress is best-effort: subscribers that miss events can always fall back
+ * to the job status endpoint.
+ */
+
+import { EventEmitter } from 'events';
+import { Redis } from 'ioredis';
+import pg from 'pg';
+import { JOB_QUEUE } from '../config/index.js';
+import { getPool } from './db.js';
+import type { AnalysisProgressEvent } from './orchestrator.js';
+import type { BankabilityScore } from '../types/index.js';
+
+const CHANNEL_PREFIX = 'analysis-progress:';
+const PG_CHANNEL = 'analysis_progress';
+
+export type JobProgressEvent =
+    | AnalysisProgressEvent
+    | { type: 'status'; status: 'queued' | 'analyzing'; attempts: number }
+    | { type: 'retrying'; attempts: number; errorMessage: string }
+    | { type: 'complete'; score: Pick<BankabilityScore, 'score' | 'grade'> }
+    | { type: 'error'; errorMessage: string };
+
+export type JobProgressListener = (event: JobProgressEvent) => void;
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection
+emitter.setMaxListeners(0);
+
+let publisher: Redis | null = null;
+let subscriber: Redis | null = null;
+let pgListener: pg.Client | null = null;
+
+/** How events reach subscribers in other processes, or null when in-process only */
+function relay(): 'redis' | 'postgres' | null {
+    if (JOB_QUEUE.backend === 'redis' && process.env.REDIS_URL) return 'redis';
+    if (JOB_QUEUE.backend === 'postgres' && process.env.DATABASE_URL) return 'postgres';
+    return null;
+}
+
+function getPublisher(): Redis {
+    if (!publisher) {
+        publisher = new Redis(process.env.REDIS_URL!, { maxRetriesPerRequest: 3 });
+        publisher.on('error', (err: Error) => {
+            console.error('[job-progress] publisher error:', err.message);
+        });
+    }
+    return publisher;
+}
+
+function ensureSubscriber(): void {
+    if (subscriber) return;
+
+    subscriber = new Redis(process.env.REDIS_URL!, { maxRetriesPerRequest: 3 });
+    subscriber.on('error', (err: Error) => {
+        console.error('[job-progress] subscriber error:', err.message);
+    });
+    subscriber.on('pmessage', (_pattern: string, channel: string, raw: string) => {
+        try {
+            emitter.emit(channel.slice(CHANNEL_PREFIX.length), JSON.parse(raw) as JobProgressEvent);
+        } catch (err) {
+            console.error('[job-progress] malformed event:', (err as Error).message);
+        }
+    });
+    subscriber.psubscribe(`${CHANNEL_PREFIX}*`).catch((err: Error) => {
+        console.error('[job-progress] psubscribe failed:', err.message);
+    });
+}
+
+function ensurePgListener(): void {
+    if (pgListener) return;
+
+    const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+    pgListener = client;
+    client.on('error', (err: Error) => {
+        console.error('[job-progress] listener error:', err.message);
+    });
+    client.on('notification', (message: pg.Notification) => {
+        if (message.channel !== PG_CHANNEL || !message.payload) return;
+        try {
+            const { jobId, event } = JSON.parse(message.payload) as { jobId: string; event: JobProgressEvent };
+            emitter.emit(jobId, event);
+        } catch (err) {
+            console.error('[job-progress] malformed event:', (err as Error).message);
+        }
+    });
+    client.connect()
+        .then(() => client.query(`LISTEN ${PG_CHANNEL}`))
+        .catch((err: Error) => {
+            console.error('[job-progress] listen failed:', err.message);
+        });
+}
+
+/**
+ * Publish a progress event for a job
+ */
+export function publishJobProgress(jobId: string, event: JobProgressEvent): void {
+    switch (relay()) {
+        case 'redis':
+            getPublisher().publish(`${CHANNEL_PREFIX}${jobId}`, JSON.stringify(event)).catch((err: Error) => {
+                console.error('[job-progress] publish failed:', err.message);
+            });
+            return;
+        case 'postgres':
+            getPool()!.query('SELECT pg_notify($1, $2)', [PG_CHANNEL, JSON.stringify({ jobId, event })]).catch((err: Error) => {
+                console.error('[job-progress] notify failed:', err.message);
+            });
+            return;
+        case null:
+            emitter.emit(jobId, event);
+    }
+}
+
+/**
+ * Subscribe to progress events for a job. Returns an unsubscribe function.
+ */
+export function subscribeJobProgress(jobId: string, listener: JobProgressListener): () => void {
+    switch (relay()) {
+        case 'redis':
+            ensureSubscriber();
+            break;
+        case 'postgres':
+            ensurePgListener();
+            break;
+    }
+
+    emitter.on(jobId, listener);
+    return () => {
+        emitter.off(jobId, listener);
+    };
+}
+
+/**
+ * Close relay connections (for graceful shutdown)
+ */
+export async function closeJobProgress(): Promise<void> {
+    await Promise.all([publisher?.quit(), subscriber?.quit(), pgListener?.end()]);
+    publisher = null;
+    subscriber = null;
+    pgListener = null;
+}
@@ -0,0 +1,171 @@
+/**
+ * Analysis Job Queue
+ *
+ * Queue abstraction between the API (producer) and analysis workers (consumers).
+ * Every backend implements the same lease-based lifecycle:
+ *
+ *   enqueue() ──► queued ──► claim() ──► analyzing (leased) ──► complete()
+ *                   ▲                        │
+ *                   └──── fail(retry=true) ──┤
+ *                   └──── lease expired ─────┤  (worker crashed / restarted)
+ *                                            └──► fail(retry=false) ──► error
+ *
+ * Backends:
+ *   memory    → job-store.ts Map (single process; used by tests)
+ *   redis     → redis-job-queue.ts (shared across instances)
+ *   postgres  → postgres-job-queue.ts (shared across instances)
+ *
+ * Worker writes (extendLease, complete, fail) are fenced on the attempt the
+ * worker claimed (job.attempts at claim time): they return false and change
+ * nothing once the job is no longer analyzing under that attempt, e.g. after
+ * its lease lapsed and another worker reclaimed it.
+ *
+ * Retry policy (max attempts) lives in the worker, not the queue.
+ */
+
+import { JOB_QUEUE } from '../config/index.js';
+import type { AgentId, AgentInsight, BankabilityScore, Contradiction, RemediationRoadmap } from '../types/index.js';
+import type { AuditEntry } from './audit-trail.js';
+import type { Message } from './message-bus.js';
+import { createJob, getJob, updateLeasedJob, claimJob, type AnalysisJob } from './job-store.js';
+import { RedisJobQueue } from './redis-job-queue.js';
+import { PostgresJobQueue } from './postgres-job-queue.js';
+
+// ============================================
+// QUEUE TYPES
+// ============================================
+
+export type JobQueueBackend = 'memory' | 'redis' | 'postgres';
+
+export interface AnalysisJobPayload {
+    companyId: string;
+    sessionId?: string;
+    /** Scoring policy id; the default policy when omitted */
+    policyId?: string;
+    /**
+     * Completed analysis whose agent insights are replayed instead of running
+     * the agents again; only deterministic factors are recomputed
+     */
+    reuseInsightsFrom?: string;
+}
+
+export interface AnalysisJobResult {
+    score: BankabilityScore;
+    roadmap: RemediationRoadmap;
+    failedAgents: AgentId[];
+}
+
+/**
+ * What a runner hands the worker: the job result plus the artifacts that are
+ * persisted alongside it (see analysis-artifacts) rather than kept on the job
+ */
+export interface AnalysisRunResult extends AnalysisJobResult {
+    /** Agent insights behind the score, kept so the analysis can be re-scored later */
+    insights: AgentInsight[];
+    contradictions: Contradiction[];
+    auditEntries: AuditEntry[];
+    messages: Message[];
+}
+
+export interface JobQueue {
+    readonly backend: JobQueueBackend;
+
+    /** Create a job in the queued state */
+    enqueue(id: string, payload: AnalysisJobPayload): Promise<AnalysisJob>;
+
+    /** Lease the next claimable job, hiding it from other workers for visibilityTimeoutMs */
+    claim(visibilityTimeoutMs: number): Promise<AnalysisJob | null>;
+
+    /** Push out the lease of a job the caller is still working on */
+    extendLease(id: string, attempt: number, visibilityTimeoutMs: number): Promise<boolean>;
+
+    /** Mark a leased job complete with its result */
+    complete(id: string, attempt: number, result: AnalysisJobResult): Promise<boolean>;
+
+    /** Record a failed attempt; requeue when retry is true, otherwise mark the job errored */
+    fail(id: string, attempt: number, errorMessage: string, retry: boolean): Promise<boolean>;
+
+    /** Look up a job in any state */
+    getJob(id: string): Promise<AnalysisJob | undefined>;
+
+    /** Release connections held by the backend */
+    close(): Promise<void>;
+}
+
+// ============================================
+// IN-MEMORY BACKEND
+// ============================================
+
+/**
+ * Process-local queue over the job-store Map. Jobs do not survive a restart.
+ */
+export class InMemoryJobQueue implements JobQueue {
+    readonly backend = 'memory' as const;
+
+    async enqueue(id: string, payload: AnalysisJobPayload): Promise<AnalysisJob> {
+        return createJob(id, payload.companyId, payload.sessionId, payload.policyId, payload.reuseInsightsFrom);
+    }
+
+    async claim(visibilityTimeoutMs: number): Promise<AnalysisJob | null> {
+        return claimJob(visibilityTimeoutMs) ?? null;
+    }
+
+    async extendLease(id: string, attempt: number, visibilityTimeoutMs: number): Promise<boolean> {
+        return updateLeasedJob(id, attempt, { leaseExpiresAt: new Date(Date.now() + visibilityTimeoutMs) });
+    }
+
+    async complete(id: string, attempt: number, result: AnalysisJobResult): Promise<boolean> {
+        return updateLeasedJob(id, attempt, {
+            status: 'complete',
+            completedAt: new Date(),
+            leaseExpiresAt: undefined,
+            errorMessage: undefined,
+            ...result,
+        });
+    }
+
+    async fail(id: string, attempt: number, errorMessage: string, retry: boolean): Promise<boolean> {
+        if (retry) {
+            return updateLeasedJob(id, attempt, { status: 'queued', leaseExpiresAt: undefined, errorMessage });
+        }
+        return updateLeasedJob(id, attempt, { status: 'error', completedAt: new Date(), leaseExpiresAt: undefined, errorMessage });
+    }
+
+    async getJob(id: string): Promise<AnalysisJob | undefined> {
+        return getJob(id);
+    }
+
+    async close(): Promise<void> {
+        // Nothing to release
+    }
+}
+
+// ============================================
+// FACTORY FUNCTIONS
+// ============================================
+
+/**
+ * Create a queue for the given backend (defaults to JOB_QUEUE.backend).
+ */
+export function createJobQueue(backend: JobQueueBackend = JOB_QUEUE.backend): JobQueue {
+    switch (backend) {
+        case 'redis':
+            return new RedisJobQueue();
+        case 'postgres':
+            return new PostgresJobQueue();
+        case 'memory':
+            return new InMemoryJobQueue();
+    }
+}
+
+let sharedQueue: JobQueue | null = null;
+
+/**
+ * Returns the process-wide queue, creating it on first call.
+ */
+export function getJobQueue(): JobQueue {
+    if (!sharedQueue) {
+        sharedQueue = createJobQueue();
+    }
+    return sharedQueue;
+}
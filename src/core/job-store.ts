@@ -3,15 +3,24 @@
  *
  * Tracks the lifecycle of async analysis jobs in memory.
  * Jobs transition: queued → analyzing → complete | error
+ * (analyzing → queued when a failed attempt is retried)
  *
  *   POST /api/analyze  ──► createJob() ──► 202 { jobId }
  *                               │
- *                         [background worker]
+ *                     [worker] claimJob() — leases the job
  *                               │
- *                         updateJob(id, ...)
+ *               updateLeasedJob(id, attempt, ...)
  *                               │
  *   GET /api/analyze/:id/status ──► getJob(id)
  *
+ * This is the storage behind InMemoryJobQueue (see job-queue.ts); Redis and
+ * PostgreSQL backends implement the same lifecycle durably.
+ *
+ * Leases: a claimed job is hidden from other workers until its lease expires.
+ * A job whose worker died mid-analysis becomes claimable again afterwards.
+ * Worker updates are fenced on the attempt they claimed, so a worker whose
+ * lease lapsed cannot overwrite the attempt that took the job over.
+ *
  * TTL: completed/errored jobs are evicted after JOB_TTL_MS (default 2h).
  * Active jobs (queued/analyzing) are never evicted. Eviction runs on createJob().
  */
@@ -21,25 +30,49 @@ import { persistAnalysis } from './analysis-store.js';
 
 const JOB_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours
 
+// Fields shared by every job state
+interface JobBase {
+    id: string;
+    companyId: string;
+    /** Session whose documents and snapshots the analysis runs against */
+    sessionId?: string;
+    /** Scoring policy to score with (default policy when unset) */
+    policyId?: string;
+    /** Analysis whose insights are reused instead of running the agents */
+    reuseInsightsFrom?: string;
+    /** Number of times a worker has claimed this job */
+    attempts: number;
+    createdAt: Date;
+}
+
 // Discriminated union — compiler enforces correct field access per status
 export type AnalysisJob =
-    | { id: string; companyId: string; status: 'queued' | 'analyzing'; createdAt: Date }
-    | { id: string; companyId: string; status: 'complete'; createdAt: Date; completedAt: Date; score: BankabilityScore; roadmap: RemediationRoadmap; failedAgents: AgentId[] }
-    | { id: string; companyId: string; status: 'error'; createdAt: Date; completedAt: Date; errorMessage: string };
+    | JobBase & { status: 'queued' | 'analyzing'; leaseExpiresAt?: Date; errorMessage?: string }
+    | JobBase & { status: 'complete'; completedAt: Date; score: BankabilityScore; roadmap: RemediationRoadmap; failedAgents: AgentId[] }
+    | JobBase & { status: 'error'; completedAt: Date; errorMessage: string };
 
 // Mutable working type used internally before the job reaches a terminal state
-type MutableJob = {
+export type MutableJob = {
     id: string;
     companyId: string;
+    sessionId?: string;
+    policyId?: string;
+    reuseInsightsFrom?: string;
+    attempts: number;
     status: 'queued' | 'analyzing' | 'complete' | 'error';
     createdAt: Date;
+    /** While analyzing: when the claiming worker's lease runs out */
+    leaseExpiresAt?: Date;
     completedAt?: Date;
     score?: BankabilityScore;
     roadmap?: RemediationRoadmap;
     failedAgents?: AgentId[];
+    /** Terminal error, or the last failed attempt's error while a retry is queued */
     errorMessage?: string;
 };
 
+export type JobUpdate = Partial<Omit<MutableJob, 'id' | 'companyId' | 'sessionId' | 'policyId' | 'reuseInsightsFrom' | 'createdAt'>>;
+
 // Module-level store — scoped per process (sufficient for single-instance deployments)
 const jobs = new Map<string, MutableJob>();
 
@@ -57,9 +90,15 @@ function evictStale(): void {
     }
 }
 
-export function createJob(id: string, companyId: string): AnalysisJob {
+export function createJob(
+    id: string,
+    companyId: string,
+    sessionId?: string,
+    policyId?: string,
+    reuseInsightsFrom?: string,
+): AnalysisJob {
     evictStale();
-    const job: MutableJob = { id, companyId, status: 'queued', createdAt: new Date() };
+    const job: MutableJob = { id, companyId, sessionId, policyId, reuseInsightsFrom, attempts: 0, status: 'queued', createdAt: new Date() };
     jobs.set(id, job);
     return job as unknown as AnalysisJob;
 }
@@ -68,10 +107,29 @@ export function getJob(id: string): AnalysisJob | undefined {
     return jobs.get(id) as unknown as AnalysisJob | undefined;
 }
 
-export function updateJob(
-    id: string,
-    update: Partial<Omit<MutableJob, 'id' | 'companyId' | 'createdAt'>>,
-): void {
+/**
+ * Lease the oldest claimable job: queued, or analyzing with an expired lease.
+ * Marks it analyzing, bumps its attempt count and hides it for visibilityTimeoutMs.
+ */
+export function claimJob(visibilityTimeoutMs: number): AnalysisJob | undefined {
+    const now = Date.now();
+
+    for (const job of jobs.values()) {
+        const leaseExpired = job.status === 'analyzing' &&
+            (!job.leaseExpiresAt || job.leaseExpiresAt.getTime() <= now);
+
+        if (job.status === 'queued' || leaseExpired) {
+            job.status = 'analyzing';
+            job.attempts++;
+            job.leaseExpiresAt = new Date(now + visibilityTimeoutMs);
+            return job as unknown as AnalysisJob;
+        }
+    }
+
+    return undefined;
+}
+
+export function updateJob(id: string, update: JobUpdate): void {
     const job = jobs.get(id);
     if (!job) return;
 
@@ -89,8 +147,22 @@ export function updateJob(
             roadmap: job.roadmap,
             failedAgents: job.failedAgents,
             errorMessage: job.errorMessage,
+            reuseInsightsFrom: job.reuseInsightsFrom,
         }).catch((err: Error) => {
             console.error('[job-store] failed to persist job to DB:', err.message);
         });
     }
 }
+
+/**
+ * Update a job only while it is still leased to the given attempt.
+ * Returns false (and changes nothing) once the job has moved on: finished,
+ * requeued, or reclaimed by another attempt.
+ */
+export function updateLeasedJob(id: string, attempt: number, update: JobUpdate): boolean {
+    const job = jobs.get(id);
+    if (!job || job.status !== 'analyzing' || job.attempts !== attempt) return false;
+
+    updateJob(id, update);
+    return true;
+}
@@ -0,0 +1,197 @@
+/**
+ * Monitoring Scheduler
+ *
+ * Re-analyzes monitored companies on their cadence so each one's analysis
+ * history (and score trend) stays current without anyone starting a run:
+ *
+ *   tick ──► claim due companies ──► new session with the monitored documents
+ *                                          │
+ *            refresh Stripe/Plaid from the credential vault
+ *                                          │
+ *            fingerprint the data ──► compare with the baseline run
+ *                                          │
+ *            ├─ material change ──► enqueue a full analysis (new baseline)
+ *            └─ no material change ──► enqueue with reuseInsightsFrom = baseline
+ *
+ * The enqueued job runs on the analysis workers like any other and lands in
+ * analysis history when it completes. A run that reuses insights replays the
+ * baseline's agent insights and recomputes only the deterministic factors,
+ * so it makes no LLM calls. A failed refresh enqueues nothing; the company is
+ * retried once its claim lapses (MONITORING.claimTimeoutMs).
+ */
+
+import { v4 as uuid } from 'uuid';
+import { MONITORING } from '../config/index.js';
+import type { JobQueue } from './job-queue.js';
+import { createGlobalContext } from './global-context.js';
+import { isVaultConfigured } from './credential-vault.js';
+import { fetchAnalysis } from './analysis-store.js';
+import { claimDueMonitors, recordMonitorRun, type MonitoredCompany } from './monitoring-store.js';
+import { refreshStoredIntegrations } from '../ingestion/integration-refresh.js';
+import { describeMaterialChanges, fingerprintData } from '../synthesis/material-change.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MonitoringRun {
+    companyId: string;
+    /** The enqueued analysis job; unset when the run failed before enqueueing */
+    jobId?: string;
+    sessionId?: string;
+    /** The baseline analysis whose insights the job reuses; unset for a full run */
+    reusedInsightsFrom?: string;
+    /** Material changes since the baseline that made this a full run */
+    changes: string[];
+    error?: string;
+}
+
+export interface MonitoringSchedulerOptions {
+    pollIntervalMs: number;
+    claimTimeoutMs: number;
+}
+
+export class MonitoringScheduler {
+    private readonly options: MonitoringSchedulerOptions;
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private ticking: Promise<MonitoringRun[]> | null = null;
+
+    constructor(
+        private readonly queue: JobQueue,
+        options: Partial<MonitoringSchedulerOptions> = {},
+    ) {
+        this.options = {
+            pollIntervalMs: MONITORING.pollIntervalMs,
+            claimTimeoutMs: MONITORING.claimTimeoutMs,
+            ...options,
+        };
+    }
+
+    /**
+     * Start checking for due companies
+     */
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        console.log(`[monitoring] Scheduler started (every ${this.options.pollIntervalMs / 1000}s)`);
+        this.schedule(0);
+    }
+
+    /**
+     * Stop checking and wait for a tick in progress to finish
+     */
+    async stop(): Promise<void> {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.ticking?.catch(() => undefined);
+    }
+
+    /**
+     * Claim and run every company due at `now`
+     */
+    async tick(now: Date = new Date()): Promise<MonitoringRun[]> {
+        const due = await claimDueMonitors(now, this.options.claimTimeoutMs);
+        const runs: MonitoringRun[] = [];
+
+        for (const monitor of due) {
+            runs.push(await runMonitoredCompany(this.queue, monitor, now));
+        }
+
+        return runs;
+    }
+
+    // ============================================
+    // PRIVATE METHODS
+    // ============================================
+
+    private schedule(delayMs: number): void {
+        if (!this.running) return;
+
+        this.timer = setTimeout(() => {
+            this.ticking = this.tick();
+            this.ticking
+                .catch((err: Error) => console.error('[monitoring] tick error:', err.message))
+                .finally(() => {
+                    this.ticking = null;
+                    this.schedule(this.options.pollIntervalMs);
+                });
+        }, delayMs);
+    }
+}
+
+/**
+ * Re-analyze one monitored company now: refresh its snapshots into a new
+ * session, enqueue the analysis and record the run. The next run is due
+ * cadenceDays after `now`.
+ */
+export async function runMonitoredCompany(
+    queue: JobQueue,
+    monitor: MonitoredCompany,
+    now: Date = new Date(),
+): Promise<MonitoringRun> {
+    const { companyId } = monitor;
+
+    try {
+        const contextService = createGlobalContext();
+        const session = await contextService.createSession(companyId, monitor.reportingCurrency);
+        await contextService.setDocuments(monitor.documents);
+
+        if (isVaultConfigured()) {
+            const { stripe, plaid, errors } = await refreshStoredIntegrations(companyId);
+            if (errors.length > 0) {
+                throw new Error(errors.map(e => `${e.provider}: ${e.message}`).join('; '));
+            }
+            if (stripe) await contextService.setStripeSnapshot(stripe);
+            if (plaid) await contextService.setPlaidSnapshot(plaid);
+        }
+
+        const fingerprint = fingerprintData(contextService.getContext());
+        const changes = monitor.baseline
+            ? describeMaterialChanges(monitor.baseline.fingerprint, fingerprint)
+            : ['No earlier analysis to compare with'];
+
+        const reuse = monitor.reuseInsights && monitor.baseline && changes.length === 0
+            && await isComplete(queue, monitor.baseline.jobId);
+        const reusedInsightsFrom = reuse ? monitor.baseline!.jobId : undefined;
+
+        const jobId = uuid();
+        await queue.enqueue(jobId, {
+            companyId,
+            sessionId: session.sessionId,
+            policyId: monitor.policyId,
+            reuseInsightsFrom: reusedInsightsFrom,
+        });
+
+        await recordMonitorRun(companyId, {
+            lastRunAt: now,
+            nextRunAt: new Date(now.getTime() + monitor.cadenceDays * DAY_MS),
+            lastJobId: jobId,
+            lastError: undefined,
+            baseline: reusedInsightsFrom ? monitor.baseline : { jobId, fingerprint },
+        });
+
+        console.log(`[monitoring] ${companyId}: enqueued ${jobId} (${reusedInsightsFrom
+            ? `reusing insights from ${reusedInsightsFrom}`
+            : changes.join('; ') || 'full run'})`);
+
+        return { companyId, jobId, sessionId: session.sessionId, reusedInsightsFrom, changes };
+    } catch (error) {
+        const message = (error as Error).message;
+        console.error(`[monitoring] ${companyId}: run failed: ${message}`);
+        await recordMonitorRun(companyId, { lastError: message });
+        return { companyId, changes: [], error: message };
+    }
+}
+
+/**
+ * Whether an analysis completed, in the queue or in the analysis store
+ */
+async function isComplete(queue: JobQueue, jobId: string): Promise<boolean> {
+    const job = await queue.getJob(jobId);
+    if (job) return job.status === 'complete';
+
+    const persisted = await fetchAnalysis(jobId);
+    return persisted?.status === 'complete';
+}
@@ -0,0 +1,312 @@
+/**
+ * Monitoring Store
+ *
+ * The companies under continuous monitoring: how often each is re-analyzed,
+ * under which scoring policy, the documents every run is scored against and
+ * where the last run left off. The monitoring scheduler claims due companies
+ * from here; integration snapshots are refreshed from the credential vault.
+ *
+ * Schema (single table, auto-created on first use):
+ *
+ *   monitored_companies
+ *   ├── company_id          TEXT PRIMARY KEY
+ *   ├── cadence_days        INTEGER NOT NULL
+ *   ├── policy_id           TEXT               -- scoring policy (null = default)
+ *   ├── reporting_currency  TEXT
+ *   ├── reuse_insights      BOOLEAN NOT NULL   -- skip the agents when data hasn't materially changed
+ *   ├── enabled             BOOLEAN NOT NULL
+ *   ├── documents           JSONB NOT NULL     -- ParsedDocument[] copied from a session
+ *   ├── created_at          TIMESTAMPTZ NOT NULL
+ *   ├── updated_at          TIMESTAMPTZ NOT NULL
+ *   ├── next_run_at         TIMESTAMPTZ NOT NULL
+ *   ├── last_run_at         TIMESTAMPTZ
+ *   ├── last_job_id         TEXT
+ *   ├── last_error          TEXT               -- why the last run was not enqueued
+ *   ├── baseline            JSONB              -- last run with agents: { jobId, fingerprint }
+ *   └── claimed_until       TIMESTAMPTZ        -- set while a run is in progress
+ *
+ *   monitored_companies_due ON (next_run_at) WHERE enabled
+ *
+ * When DATABASE_URL is not set, monitored companies are kept in memory and
+ * are lost on restart.
+ */
+
+import { getPool } from './db.js';
+import type { ParsedDocument } from '../types/index.js';
+import type { DataFingerprint } from '../synthesis/material-change.js';
+
+/** The last analysis that ran the agents, and the data it ran on */
+export interface MonitoringBaseline {
+    jobId: string;
+    fingerprint: DataFingerprint;
+}
+
+export interface MonitoredCompany {
+    companyId: string;
+    cadenceDays: number;
+    policyId?: string;
+    reportingCurrency?: string;
+    reuseInsights: boolean;
+    enabled: boolean;
+    documents: ParsedDocument[];
+    createdAt: Date;
+    updatedAt: Date;
+    nextRunAt: Date;
+    lastRunAt?: Date;
+    lastJobId?: string;
+    lastError?: string;
+    baseline?: MonitoringBaseline;
+    /** Until when a run in progress holds the company; unset once the run is recorded */
+    claimedUntil?: Date;
+}
+
+/** What a caller sets when registering or updating a company */
+export type MonitoringSettings = Pick<
+    MonitoredCompany,
+    'companyId' | 'cadenceDays' | 'policyId' | 'reportingCurrency' | 'reuseInsights' | 'enabled' | 'documents' | 'nextRunAt'
+>;
+
+/** What a scheduled run records */
+export type MonitoringRunUpdate = Partial<Pick<MonitoredCompany, 'nextRunAt' | 'lastRunAt' | 'lastJobId' | 'lastError' | 'baseline'>>;
+
+const inMemoryMonitors = new Map<string, MonitoredCompany>();
+
+let tableInitPromise: Promise<boolean> | null = null;
+
+async function ensureTable(): Promise<boolean> {
+    const pool = getPool();
+    if (!pool) return false;
+
+    if (!tableInitPromise) {
+        tableInitPromise = pool.query(`
+            CREATE TABLE IF NOT EXISTS monitored_companies (
+                company_id          TEXT PRIMARY KEY,
+                cadence_days        INTEGER NOT NULL,
+                policy_id           TEXT,
+                reporting_currency  TEXT,
+                reuse_insights      BOOLEAN NOT NULL,
+                enabled             BOOLEAN NOT NULL,
+                documents           JSONB NOT NULL,
+                created_at          TIMESTAMPTZ NOT NULL,
+                updated_at          TIMESTAMPTZ NOT NULL,
+                next_run_at         TIMESTAMPTZ NOT NULL,
+                last_run_at         TIMESTAMPTZ,
+                last_job_id         TEXT,
+                last_error          TEXT,
+                baseline            JSONB,
+                claimed_until       TIMESTAMPTZ
+            );
+            ALTER TABLE monitored_companies ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMPTZ;
+            CREATE INDEX IF NOT EXISTS monitored_companies_due
+                ON monitored_companies (next_run_at) WHERE enabled;
+        `).then(() => true);
+    }
+
+    return tableInitPromise;
+}
+
+/**
+ * Register a company for monitoring or replace its settings, keeping the
+ * run history (last run, baseline) of an existing registration
+ */
+export async function saveMonitor(settings: MonitoringSettings): Promise<MonitoredCompany> {
+    const now = new Date();
+
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        const existing = inMemoryMonitors.get(settings.companyId);
+        const monitor: MonitoredCompany = {
+            ...existing,
+            ...settings,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+        inMemoryMonitors.set(settings.companyId, monitor);
+        return { ...monitor };
+    }
+
+    const { rows } = await pool.query(
+        `INSERT INTO monitored_companies
+            (company_id, cadence_days, policy_id, reporting_currency, reuse_insights, enabled, documents, created_at, updated_at, next_run_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8, $9)
+         ON CONFLICT (company_id) DO UPDATE SET
+            cadence_days       = EXCLUDED.cadence_days,
+            policy_id          = EXCLUDED.policy_id,
+            reporting_currency = EXCLUDED.reporting_currency,
+            reuse_insights     = EXCLUDED.reuse_insights,
+            enabled            = EXCLUDED.enabled,
+            documents          = EXCLUDED.documents,
+            updated_at         = EXCLUDED.updated_at,
+            next_run_at        = EXCLUDED.next_run_at
+         RETURNING *`,
+        [
+            settings.companyId,
+            settings.cadenceDays,
+            settings.policyId ?? null,
+            settings.reportingCurrency ?? null,
+            settings.reuseInsights,
+            settings.enabled,
+            JSON.stringify(settings.documents),
+            now,
+            settings.nextRunAt,
+        ]
+    );
+
+    return rowToMonitor(rows[0]);
+}
+
+/**
+ * A company's monitoring registration, or null when it isn't monitored
+ */
+export async function getMonitor(companyId: string): Promise<MonitoredCompany | null> {
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        const monitor = inMemoryMonitors.get(companyId);
+        return monitor ? { ...monitor } : null;
+    }
+
+    const { rows } = await pool.query('SELECT * FROM monitored_companies WHERE company_id = $1', [companyId]);
+    return rows[0] ? rowToMonitor(rows[0]) : null;
+}
+
+/**
+ * Every monitored company, soonest due first
+ */
+export async function listMonitors(): Promise<MonitoredCompany[]> {
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        return [...inMemoryMonitors.values()]
+            .map(monitor => ({ ...monitor }))
+            .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime());
+    }
+
+    const { rows } = await pool.query('SELECT * FROM monitored_companies ORDER BY next_run_at');
+    return rows.map(rowToMonitor);
+}
+
+/**
+ * Stop monitoring a company; false when it wasn't monitored
+ */
+export async function deleteMonitor(companyId: string): Promise<boolean> {
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        return inMemoryMonitors.delete(companyId);
+    }
+
+    const { rowCount } = await pool.query('DELETE FROM monitored_companies WHERE company_id = $1', [companyId]);
+    return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Claim every enabled company due at `now`, pushing its next run out by
+ * claimTimeoutMs so concurrent schedulers don't run it too. A claimed company
+ * the caller never records a run for is due again once the claim lapses.
+ */
+export async function claimDueMonitors(now: Date, claimTimeoutMs: number): Promise<MonitoredCompany[]> {
+    const claimedUntil = new Date(now.getTime() + claimTimeoutMs);
+
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        const due = [...inMemoryMonitors.values()]
+            .filter(monitor => monitor.enabled && monitor.nextRunAt.getTime() <= now.getTime() && !isClaimed(monitor, now))
+            .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime());
+        for (const monitor of due) {
+            monitor.nextRunAt = claimedUntil;
+            monitor.claimedUntil = claimedUntil;
+        }
+        return due.map(monitor => ({ ...monitor }));
+    }
+
+    // A row another scheduler updated first no longer matches next_run_at <= now
+    const { rows } = await pool.query(
+        `UPDATE monitored_companies SET next_run_at = $2, claimed_until = $2
+         WHERE enabled AND next_run_at <= $1 AND (claimed_until IS NULL OR claimed_until <= $1)
+         RETURNING *`,
+        [now, claimedUntil]
+    );
+    return rows.map(rowToMonitor).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Claim one company to run now, whether or not it is due, the way
+ * claimDueMonitors would. Null when the company isn't monitored or a run
+ * already holds it.
+ */
+export async function claimMonitor(companyId: string, now: Date, claimTimeoutMs: number): Promise<MonitoredCompany | null> {
+    const claimedUntil = new Date(now.getTime() + claimTimeoutMs);
+
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        const monitor = inMemoryMonitors.get(companyId);
+        if (!monitor || isClaimed(monitor, now)) return null;
+        monitor.nextRunAt = claimedUntil;
+        monitor.claimedUntil = claimedUntil;
+        return { ...monitor };
+    }
+
+    const { rows } = await pool.query(
+        `UPDATE monitored_companies SET next_run_at = $3, claimed_until = $3
+         WHERE company_id = $1 AND (claimed_until IS NULL OR claimed_until <= $2)
+         RETURNING *`,
+        [companyId, now, claimedUntil]
+    );
+    return rows[0] ? rowToMonitor(rows[0]) : null;
+}
+
+/**
+ * Record the outcome of a scheduled run, releasing its claim
+ */
+export async function recordMonitorRun(companyId: string, update: MonitoringRunUpdate): Promise<void> {
+    const pool = getPool();
+    if (!pool || !(await ensureTable())) {
+        const monitor = inMemoryMonitors.get(companyId);
+        if (monitor) Object.assign(monitor, update, { claimedUntil: undefined });
+        return;
+    }
+
+    const columns: Record<keyof MonitoringRunUpdate, string> = {
+        nextRunAt: 'next_run_at',
+        lastRunAt: 'last_run_at',
+        lastJobId: 'last_job_id',
+        lastError: 'last_error',
+        baseline: 'baseline',
+    };
+    const entries = (Object.keys(update) as (keyof MonitoringRunUpdate)[]).filter(key => key in columns);
+
+    await pool.query(
+        `UPDATE monitored_companies SET ${[...entries.map((key, i) => `${columns[key]} = $${i + 2}`), 'claimed_until = NULL'].join(', ')}
+         WHERE company_id = $1`,
+        [
+            companyId,
+            ...entries.map(key => {
+                const value = update[key];
+                if (value === undefined) return null;
+                return key === 'baseline' ? JSON.stringify(value) : value;
+            }),
+        ]
+    );
+}
+
+function rowToMonitor(row: Record<string, any>): MonitoredCompany {
+    return {
+        companyId: row.company_id,
+        cadenceDays: row.cadence_days,
+        policyId: row.policy_id ?? undefined,
+        reportingCurrency: row.reporting_currency ?? undefined,
+        reuseInsights: row.reuse_insights,
+        enabled: row.enabled,
+        documents: row.documents,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+        nextRunAt: new Date(row.next_run_at),
+        lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+        lastJobId: row.last_job_id ?? undefined,
+        lastError: row.last_error ?? undefined,
+        baseline: row.baseline ?? undefined,
+        claimedUntil: row.claimed_until ? new Date(row.claimed_until) : undefined,
+    };
+}
+
+function isClaimed(monitor: MonitoredCompany, now: Date): boolean {
+    return monitor.claimedUntil !== undefined && monitor.claimedUntil.getTime() > now.getTime();
+}
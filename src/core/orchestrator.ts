@@ -12,15 +12,18 @@ import type {
     RiskFactorMap,
     BankabilityScore,
     RemediationRoadmap,
+    Contradiction,
+    ScoringPolicy,
 } from '../types/index.js';
 import { GlobalContextService, createGlobalContext } from './global-context.js';
-import { MessageBus } from './message-bus.js';
-import { AuditTrail, createAuditTrail } from './audit-trail.js';
+import { MessageBus, type Message } from './message-bus.js';
+import { AuditTrail, createAuditTrail, type AuditEntry } from './audit-trail.js';
 import { checkObviousCases } from '../synthesis/obvious-cases.js';
 import { detectContradictions } from '../synthesis/contradiction-detector.js';
 import { synthesizeRiskFactors } from '../synthesis/risk-synthesizer.js';
 import { calculateBankabilityScore } from '../synthesis/score-calculator.js';
 import { generateRemediationRoadmap } from '../synthesis/remediation.js';
+import { getScoringPolicy } from '../synthesis/scoring-policies.js';
 
 // ============================================
 // AGENT INTERFACE
@@ -44,15 +47,46 @@ export interface Agent {
 // ORCHESTRATION STATE
 // ============================================
 
+export type AgentStatus = 'pending' | 'running' | 'complete' | 'error';
+
 interface OrchestratorState {
     sessionId: string;
     status: 'initializing' | 'ingesting' | 'analyzing' | 'synthesizing' | 'complete' | 'error';
-    agentStatuses: Map<AgentId, 'pending' | 'running' | 'complete' | 'error'>;
+    agentStatuses: Map<AgentId, AgentStatus>;
     errors: Error[];
     startTime: Date;
     endTime?: Date;
 }
 
+// ============================================
+// PROGRESS EVENTS
+// ============================================
+
+export type AnalysisPhase =
+    | 'obvious_case_check'
+    | 'agents'
+    | 'contradiction_detection'
+    | 'synthesis'
+    | 'scoring'
+    | 'roadmap';
+
+/** Live progress emitted while analyze() runs (streamed to clients over SSE) */
+export type AnalysisProgressEvent =
+    | { type: 'phase'; phase: AnalysisPhase; state: 'started' | 'complete'; detail?: string }
+    | { type: 'agent_status'; agentId: AgentId; status: AgentStatus }
+    | { type: 'insight_update'; from: AgentId; category: string; impact: number; summary: string };
+
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
+
+export interface AnalyzeOptions {
+    /**
+     * Insights from an earlier analysis to replay instead of running the agents.
+     * Contradictions, risk factors, score and roadmap are still recomputed from
+     * the current documents and snapshots, without any LLM calls.
+     */
+    reuseInsights?: AgentInsight[];
+}
+
 // ============================================
 // ORCHESTRATOR
 // ============================================
@@ -63,6 +97,7 @@ export class AgentOrchestrator {
     private agents: Map<AgentId, Agent> = new Map();
     private state: OrchestratorState | null = null;
     private auditTrail: AuditTrail | null = null;
+    private progressListeners: Set<AnalysisProgressListener> = new Set();
 
     constructor(contextService?: GlobalContextService) {
         this.contextService = contextService ?? createGlobalContext();
@@ -84,29 +119,46 @@ export class AgentOrchestrator {
     }
 
     /**
-     * Execute the full analysis pipeline
+     * Subscribe to live progress events. Returns an unsubscribe function.
+     */
+    onProgress(listener: AnalysisProgressListener): () => void {
+        this.progressListeners.add(listener);
+        return () => this.progressListeners.delete(listener);
+    }
+
+    /**
+     * Execute the full analysis pipeline, scoring under the given policy.
+     * Besides score and roadmap, returns the artifacts behind them: insights,
+     * contradictions, the LLM audit trail and the message bus log.
      */
-    async analyze(companyId: string): Promise<{
+    async analyze(
+        companyId: string,
+        policy: ScoringPolicy = getScoringPolicy(),
+        options: AnalyzeOptions = {},
+    ): Promise<{
         score: BankabilityScore;
         roadmap: RemediationRoadmap;
+        insights: AgentInsight[];
+        contradictions: Contradiction[];
+        auditEntries: AuditEntry[];
+        messages: Message[];
         failedAgents: AgentId[];
     }> {
-        // Check if we already have a context with documents (from fixture injection)
+        // Reuse a context that was already created or loaded on the service
+        // (session-bound analysis or fixture injection); otherwise start a fresh one
         let context: GlobalContext;
         try {
-            const existingContext = this.contextService.getContext();
-            // Reuse existing context if it has documents loaded
-            if (existingContext.documents.length > 0) {
-                context = existingContext;
-                console.log(`[Orchestrator] Reusing existing context with ${context.documents.length} documents`);
-            } else {
-                context = await this.contextService.createSession(companyId);
-            }
+            context = this.contextService.getContext();
+            console.log(`[Orchestrator] Reusing session ${context.sessionId} with ${context.documents.length} documents`);
         } catch {
             // No existing context, create new one
             context = await this.contextService.createSession(companyId);
         }
 
+        // A re-run (retry, rescheduled run) replaces the insights and
+        // contradictions of the last one rather than adding to them
+        await this.contextService.resetAnalysis();
+
         // Create a fresh audit trail for this analysis
         this.auditTrail = createAuditTrail(context.sessionId);
 
@@ -118,9 +170,17 @@ export class AgentOrchestrator {
             startTime: new Date(),
         };
 
+        // Relay agents' broadcast findings to progress listeners
+        const relayInsight = (message: Message) => {
+            if (message.type !== 'insight_update') return;
+            const payload = message.payload as { category: string; impact: number; summary: string };
+            this.emitProgress({ type: 'insight_update', from: message.from, ...payload });
+        };
+        this.messageBus.on('message', relayInsight);
+
         try {
             // Run the workflow
-            const result = await this.executeWorkflow(context);
+            const result = await this.executeWorkflow(context, policy, options);
 
             this.state.status = 'complete';
             this.state.endTime = new Date();
@@ -129,11 +189,19 @@ export class AgentOrchestrator {
                 .filter(([, status]) => status === 'error')
                 .map(([id]) => id);
 
-            return { ...result, failedAgents };
+            return {
+                ...result,
+                contradictions: [...context.contradictions],
+                auditEntries: this.auditTrail.getAllEntries(),
+                messages: this.messageBus.getMessageLog(),
+                failedAgents,
+            };
         } catch (error) {
             this.state.status = 'error';
             this.state.errors.push(error as Error);
             throw error;
+        } finally {
+            this.messageBus.off('message', relayInsight);
         }
     }
 
@@ -155,45 +223,78 @@ export class AgentOrchestrator {
     // PRIVATE: WORKFLOW EXECUTION
     // ============================================
 
-    private async executeWorkflow(context: GlobalContext): Promise<{
+    private async executeWorkflow(context: GlobalContext, policy: ScoringPolicy, options: AnalyzeOptions): Promise<{
         score: BankabilityScore;
         roadmap: RemediationRoadmap;
+        insights: AgentInsight[];
     }> {
         // Step 0: Check for obvious cases FIRST (before LLM analysis)
-        const obviousResult = checkObviousCases(context);
+        this.emitProgress({ type: 'phase', phase: 'obvious_case_check', state: 'started' });
+        const obviousResult = checkObviousCases(context, policy);
+        this.emitProgress({ type: 'phase', phase: 'obvious_case_check', state: 'complete', detail: obviousResult?.caseType });
 
         if (obviousResult) {
             console.log(`[Orchestrator] Obvious case detected: ${obviousResult.caseType} - skipping LLM analysis`);
             return {
                 score: obviousResult.score,
                 roadmap: obviousResult.roadmap,
+                insights: [],
             };
         }
 
-        // Step 1: Run all agents in parallel
+        // Step 1: Run all agents in parallel, or replay the insights handed in
         this.state!.status = 'analyzing';
-        const insights = await this.runAgentsParallel(context);
+        this.emitProgress({ type: 'phase', phase: 'agents', state: 'started' });
+        let insights: AgentInsight[];
+        if (options.reuseInsights) {
+            insights = options.reuseInsights;
+            for (const insight of insights) {
+                await this.contextService.addAgentInsight(insight.agentId, insight);
+            }
+            this.emitProgress({ type: 'phase', phase: 'agents', state: 'complete', detail: `reused ${insights.length} insights` });
+        } else {
+            insights = await this.runAgentsParallel(context);
+            this.emitProgress({ type: 'phase', phase: 'agents', state: 'complete' });
+        }
 
         // Step 2: Detect contradictions across data sources
+        this.emitProgress({ type: 'phase', phase: 'contradiction_detection', state: 'started' });
         await detectContradictions(context, this.contextService);
+        this.emitProgress({
+            type: 'phase',
+            phase: 'contradiction_detection',
+            state: 'complete',
+            detail: `${context.contradictions.length} contradictions`,
+        });
 
         // Step 3: Synthesize risk factors
         this.state!.status = 'synthesizing';
-        const riskFactors = await synthesizeRiskFactors(insights, context);
+        this.emitProgress({ type: 'phase', phase: 'synthesis', state: 'started' });
+        const riskFactors = await synthesizeRiskFactors(insights, context, policy.weights);
         await this.contextService.setRiskFactors(riskFactors);
+        this.emitProgress({ type: 'phase', phase: 'synthesis', state: 'complete' });
 
         // Step 4: Calculate score
-        const score = calculateBankabilityScore(riskFactors, context);
+        this.emitProgress({ type: 'phase', phase: 'scoring', state: 'started' });
+        const score = calculateBankabilityScore(riskFactors, context, policy);
+        this.emitProgress({ type: 'phase', phase: 'scoring', state: 'complete', detail: `${score.score} (${score.grade})` });
 
         // Step 5: Generate roadmap
-        const roadmap = await generateRemediationRoadmap(score, riskFactors, context);
+        this.emitProgress({ type: 'phase', phase: 'roadmap', state: 'started' });
+        const roadmap = await generateRemediationRoadmap(score, score.riskFactors, context, policy);
+        this.emitProgress({ type: 'phase', phase: 'roadmap', state: 'complete', detail: `${roadmap.tasks.length} tasks` });
 
-        return { score, roadmap };
+        return { score, roadmap, insights };
     }
 
     private async runAgentsParallel(context: GlobalContext): Promise<AgentInsight[]> {
-        const agentPromises = Array.from(this.agents.values()).map(async (agent) => {
-            this.state!.agentStatuses.set(agent.id, 'running');
+        const agents = Array.from(this.agents.values());
+        for (const agent of agents) {
+            this.setAgentStatus(agent.id, 'pending');
+        }
+
+        const agentPromises = agents.map(async (agent) => {
+            this.setAgentStatus(agent.id, 'running');
 
             try {
                 const insights = await agent.execute(context, this.messageBus, this.auditTrail!);
@@ -203,11 +304,11 @@ export class AgentOrchestrator {
                     await this.contextService.addAgentInsight(agent.id, insight);
                 }
 
-                this.state!.agentStatuses.set(agent.id, 'complete');
+                this.setAgentStatus(agent.id, 'complete');
                 return insights;
             } catch (error) {
                 console.error(`[Orchestrator] Agent ${agent.id} failed:`, error);
-                this.state!.agentStatuses.set(agent.id, 'error');
+                this.setAgentStatus(agent.id, 'error');
                 this.state!.errors.push(error as Error);
                 return []; // Continue with other agents
             }
@@ -216,4 +317,20 @@ export class AgentOrchestrator {
         const allInsights = await Promise.all(agentPromises);
         return allInsights.flat();
     }
+
+    private setAgentStatus(agentId: AgentId, status: AgentStatus): void {
+        this.state!.agentStatuses.set(agentId, status);
+        this.emitProgress({ type: 'agent_status', agentId, status });
+    }
+
+    private emitProgress(event: AnalysisProgressEvent): void {
+        for (const listener of this.progressListeners) {
+            try {
+                listener(event);
+            } catch (err) {
+                // A misbehaving listener must never break the analysis
+                console.error('[Orchestrator] progress listener error:', (err as Error).message);
+            }
+        }
+    }
 }
@@ -0,0 +1,228 @@
+/**
+ * PostgreSQL Job Queue
+ *
+ * Durable JobQueue backed by a single table (auto-created on first use):
+ *
+ *   analysis_jobs
+ *   ├── id               TEXT PRIMARY KEY
+ *   ├── company_id       TEXT NOT NULL
+ *   ├── session_id       TEXT
+ *   ├── policy_id        TEXT               -- scoring policy (null = default)
+ *   ├── reuse_insights_from TEXT            -- analysis whose insights are replayed (null = run agents)
+ *   ├── status           TEXT NOT NULL      -- 'queued' | 'analyzing' | 'complete' | 'error'
+ *   ├── attempts         INTEGER NOT NULL
+ *   ├── lease_expires_at TIMESTAMPTZ        -- set while analyzing
+ *   ├── created_at       TIMESTAMPTZ NOT NULL
+ *   ├── completed_at     TIMESTAMPTZ
+ *   ├── score            JSONB
+ *   ├── roadmap          JSONB
+ *   ├── failed_agents    TEXT[]
+ *   └── error_message    TEXT
+ *
+ * claim() uses SELECT ... FOR UPDATE SKIP LOCKED so concurrent workers never
+ * lease the same row. Rows stuck in 'analyzing' past their lease are claimable again.
+ * Worker writes only match the row while it is analyzing under the caller's attempt.
+ *
+ * Terminal jobs are also written to the analyses table via analysis-store;
+ * their insights live with the other artifacts in analysis-artifacts.
+ */
+
+import type pg from 'pg';
+import { getPool } from './db.js';
+import type { AnalysisJob, MutableJob } from './job-store.js';
+import type { AnalysisJobPayload, AnalysisJobResult, JobQueue } from './job-queue.js';
+import { persistAnalysis } from './analysis-store.js';
+
+let tableInitPromise: Promise<void> | null = null;
+
+async function ensureTable(pool: pg.Pool): Promise<void> {
+    if (!tableInitPromise) {
+        tableInitPromise = pool.query(`
+            CREATE TABLE IF NOT EXISTS analysis_jobs (
+                id               TEXT PRIMARY KEY,
+                company_id       TEXT NOT NULL,
+                session_id       TEXT,
+                policy_id        TEXT,
+                reuse_insights_from TEXT,
+                status           TEXT NOT NULL,
+                attempts         INTEGER NOT NULL DEFAULT 0,
+                lease_expires_at TIMESTAMPTZ,
+                created_at       TIMESTAMPTZ NOT NULL,
+                completed_at     TIMESTAMPTZ,
+                score            JSONB,
+                roadmap          JSONB,
+                failed_agents    TEXT[],
+                error_message    TEXT
+            );
+            CREATE INDEX IF NOT EXISTS analysis_jobs_claimable
+                ON analysis_jobs (created_at) WHERE status IN ('queued', 'analyzing');
+            ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS policy_id TEXT;
+            ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS reuse_insights_from TEXT;
+            ALTER TABLE analysis_jobs DROP COLUMN IF EXISTS insights;
+        `).then(() => undefined);
+    }
+
+    return tableInitPromise;
+}
+
+export class PostgresJobQueue implements JobQueue {
+    readonly backend = 'postgres' as const;
+
+    private pool: pg.Pool;
+
+    constructor() {
+        const pool = getPool();
+        if (!pool) {
+            throw new Error('DATABASE_URL required for the postgres job queue');
+        }
+        this.pool = pool;
+    }
+
+    async enqueue(id: string, payload: AnalysisJobPayload): Promise<AnalysisJob> {
+        await ensureTable(this.pool);
+
+        const { rows } = await this.pool.query(
+            `INSERT INTO analysis_jobs (id, company_id, session_id, policy_id, reuse_insights_from, status, attempts, created_at)
+             VALUES ($1, $2, $3, $4, $5, 'queued', 0, now())
+             RETURNING *`,
+            [id, payload.companyId, payload.sessionId ?? null, payload.policyId ?? null, payload.reuseInsightsFrom ?? null]
+        );
+
+        return rowToJob(rows[0]);
+    }
+
+    async claim(visibilityTimeoutMs: number): Promise<AnalysisJob | null> {
+        await ensureTable(this.pool);
+
+        const { rows } = await this.pool.query(
+            `UPDATE analysis_jobs
+             SET status = 'analyzing',
+                 attempts = attempts + 1,
+                 lease_expires_at = now() + ($1 * interval '1 millisecond')
+             WHERE id = (
+                 SELECT id FROM analysis_jobs
+                 WHERE status = 'queued'
+                    OR (status = 'analyzing' AND lease_expires_at <= now())
+                 ORDER BY created_at
+                 FOR UPDATE SKIP LOCKED
+                 LIMIT 1
+             )
+             RETURNING *`,
+            [visibilityTimeoutMs]
+        );
+
+        return rows.length > 0 ? rowToJob(rows[0]) : null;
+    }
+
+    async extendLease(id: string, attempt: number, visibilityTimeoutMs: number): Promise<boolean> {
+        await ensureTable(this.pool);
+
+        const { rowCount } = await this.pool.query(
+            `UPDATE analysis_jobs
+             SET lease_expires_at = now() + ($3 * interval '1 millisecond')
+             WHERE id = $1 AND status = 'analyzing' AND attempts = $2`,
+            [id, attempt, visibilityTimeoutMs]
+        );
+        return (rowCount ?? 0) > 0;
+    }
+
+    async complete(id: string, attempt: number, result: AnalysisJobResult): Promise<boolean> {
+        await ensureTable(this.pool);
+
+        const { rows } = await this.pool.query(
+            `UPDATE analysis_jobs
+             SET status = 'complete', completed_at = now(), lease_expires_at = NULL,
+                 score = $3, roadmap = $4, failed_agents = $5, error_message = NULL
+             WHERE id = $1 AND status = 'analyzing' AND attempts = $2
+             RETURNING *`,
+            [id, attempt, JSON.stringify(result.score), JSON.stringify(result.roadmap), result.failedAgents]
+        );
+
+        if (rows.length === 0) return false;
+        await this.persistTerminal(rowToJob(rows[0]));
+        return true;
+    }
+
+    async fail(id: string, attempt: number, errorMessage: string, retry: boolean): Promise<boolean> {
+        await ensureTable(this.pool);
+
+        if (retry) {
+            const { rowCount } = await this.pool.query(
+                `UPDATE analysis_jobs
+                 SET status = 'queued', lease_expires_at = NULL, error_message = $3
+                 WHERE id = $1 AND status = 'analyzing' AND attempts = $2`,
+                [id, attempt, errorMessage]
+            );
+            return (rowCount ?? 0) > 0;
+        }
+
+        const { rows } = await this.pool.query(
+            `UPDATE analysis_jobs
+             SET status = 'error', completed_at = now(), lease_expires_at = NULL, error_message = $3
+             WHERE id = $1 AND status = 'analyzing' AND attempts = $2
+             RETURNING *`,
+            [id, attempt, errorMessage]
+        );
+
+        if (rows.length === 0) return false;
+        await this.persistTerminal(rowToJob(rows[0]));
+        return true;
+    }
+
+    async getJob(id: string): Promise<AnalysisJob | undefined> {
+        await ensureTable(this.pool);
+
+        const { rows } = await this.pool.query('SELECT * FROM analysis_jobs WHERE id = $1', [id]);
+        return rows.length > 0 ? rowToJob(rows[0]) : undefined;
+    }
+
+    async close(): Promise<void> {
+        // The pool is shared with analysis-store — leave it open
+    }
+
+    private async persistTerminal(job: AnalysisJob): Promise<void> {
+        if (job.status === 'complete') {
+            await persistAnalysis({
+                id: job.id,
+                companyId: job.companyId,
+                status: job.status,
+                createdAt: job.createdAt,
+                completedAt: job.completedAt,
+                score: job.score,
+                roadmap: job.roadmap,
+                failedAgents: job.failedAgents,
+                reuseInsightsFrom: job.reuseInsightsFrom,
+            });
+        } else if (job.status === 'error') {
+            await persistAnalysis({
+                id: job.id,
+                companyId: job.companyId,
+                status: job.status,
+                createdAt: job.createdAt,
+                completedAt: job.completedAt,
+                errorMessage: job.errorMessage,
+                reuseInsightsFrom: job.reuseInsightsFrom,
+            });
+        }
+    }
+}
+
+function rowToJob(row: Record<string, any>): AnalysisJob {
+    const job: MutableJob = {
+        id: row.id,
+        companyId: row.company_id,
+        sessionId: row.session_id ?? undefined,
+        policyId: row.policy_id ?? undefined,
+        reuseInsightsFrom: row.reuse_insights_from ?? undefined,
+        attempts: row.attempts,
+        status: row.status,
+        createdAt: new Date(row.created_at),
+        leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : undefined,
+        completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+        score: row.score ?? undefined,
+        roadmap: row.roadmap ?? undefined,
+        failedAgents: row.failed_agents ?? undefined,
+        errorMessage: row.error_message ?? undefined,
+    };
+    return job as unknown as AnalysisJob;
+}
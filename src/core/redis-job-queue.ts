@@ -0,0 +1,281 @@
+/**
+ * Redis Job Queue
+ *
+ * Durable JobQueue shared by every API instance and worker pointed at the same Redis.
+ *
+ * Keys:
+ *
+ *   analysis-job:<id>        STRING  JSON job record
+ *   analysis-jobs:queued     LIST    job ids waiting to be claimed (LPUSH in, RPOP out)
+ *   analysis-jobs:leases     ZSET    claimed job ids scored by lease expiry (epoch ms)
+ *
+ * Claiming pops a queued id and records its lease in one Lua script, so a job is
+ * always either queued or leased. Leases that expire (worker crashed) are moved
+ * back onto the queue by the next claim(), also in one script.
+ *
+ * Record changes are compare-and-set: the new record (and any lease or queue
+ * change that goes with it) is written by a Lua script only if the record is
+ * still exactly what was read, and re-read and retried otherwise. Worker
+ * writes are also fenced on the claimed attempt, so a lease heartbeat can't
+ * overwrite a completed record and a worker whose lease lapsed can't
+ * overwrite the attempt that reclaimed the job.
+ *
+ * Terminal jobs are also written to PostgreSQL via analysis-store when configured.
+ */
+
+import { Redis } from 'ioredis';
+import type { AnalysisJob, MutableJob } from './job-store.js';
+import type { AnalysisJobPayload, AnalysisJobResult, JobQueue } from './job-queue.js';
+import { persistAnalysis } from './analysis-store.js';
+
+const JOB_KEY_PREFIX = 'analysis-job:';
+const QUEUED_KEY = 'analysis-jobs:queued';
+const LEASES_KEY = 'analysis-jobs:leases';
+
+/** Terminal job records expire after this long, matching the in-memory TTL */
+const TERMINAL_TTL_SECONDS = 2 * 60 * 60;
+
+/** Compare-and-set attempts before giving up on a record that keeps changing */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+const CLAIM_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if id then
+    redis.call('ZADD', KEYS[2], ARGV[1], id)
+end
+return id
+`;
+
+/**
+ * KEYS: leases, queued. ARGV: now (epoch ms). Moves every job whose lease has
+ * run out back onto the claim end of the queue, so abandoned work goes first.
+ */
+const REQUEUE_EXPIRED_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+    if redis.call('ZREM', KEYS[1], id) == 1 then
+        redis.call('RPUSH', KEYS[2], id)
+    end
+end
+return #expired
+`;
+
+/**
+ * KEYS: job record, leases, queued. ARGV: record as read, new record, TTL
+ * seconds (0 = none), lease change ('none' | 'extend' | 'release' | 'requeue'),
+ * lease expiry (epoch ms, for 'extend'), job id. Returns 1 when written.
+ */
+const UPDATE_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+    return 0
+end
+if ARGV[3] ~= '0' then
+    redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+else
+    redis.call('SET', KEYS[1], ARGV[2])
+end
+if ARGV[4] == 'extend' then
+    redis.call('ZADD', KEYS[2], 'XX', ARGV[5], ARGV[6])
+elseif ARGV[4] == 'release' then
+    redis.call('ZREM', KEYS[2], ARGV[6])
+elseif ARGV[4] == 'requeue' then
+    redis.call('ZREM', KEYS[2], ARGV[6])
+    redis.call('LPUSH', KEYS[3], ARGV[6])
+end
+return 1
+`;
+
+type LeaseChange = 'none' | 'extend' | 'release' | 'requeue';
+
+export class RedisJobQueue implements JobQueue {
+    readonly backend = 'redis' as const;
+
+    private redis: Redis;
+
+    constructor(redisUrl?: string) {
+        const url = redisUrl || process.env.REDIS_URL;
+        if (!url) {
+            throw new Error('REDIS_URL required for the redis job queue');
+        }
+
+        this.redis = new Redis(url, { maxRetriesPerRequest: 3 });
+        this.redis.on('error', (err: Error) => {
+            console.error('[redis-job-queue] connection error:', err.message);
+        });
+    }
+
+    async enqueue(id: string, payload: AnalysisJobPayload): Promise<AnalysisJob> {
+        const job: MutableJob = {
+            id,
+            companyId: payload.companyId,
+            sessionId: payload.sessionId,
+            policyId: payload.policyId,
+            reuseInsightsFrom: payload.reuseInsightsFrom,
+            attempts: 0,
+            status: 'queued',
+            createdAt: new Date(),
+        };
+
+        await this.save(job);
+        await this.redis.lpush(QUEUED_KEY, id);
+        return job as unknown as AnalysisJob;
+    }
+
+    async claim(visibilityTimeoutMs: number): Promise<AnalysisJob | null> {
+        await this.requeueExpiredLeases();
+
+        const leaseExpiresAt = new Date(Date.now() + visibilityTimeoutMs);
+        const id = await this.redis.eval(CLAIM_SCRIPT, 2, QUEUED_KEY, LEASES_KEY, leaseExpiresAt.getTime()) as string | null;
+        if (!id) return null;
+
+        const job = await this.updateRecord(id, 'none', current => {
+            // Finished while its id sat in the queue (its worker completed after the lease lapsed)
+            if (current.status === 'complete' || current.status === 'error') return false;
+            current.status = 'analyzing';
+            current.attempts++;
+            current.leaseExpiresAt = leaseExpiresAt;
+            return true;
+        });
+        if (!job) {
+            // Record expired, was removed or already finished — drop the orphaned lease
+            await this.redis.zrem(LEASES_KEY, id);
+            return null;
+        }
+
+        return job as unknown as AnalysisJob;
+    }
+
+    async extendLease(id: string, attempt: number, visibilityTimeoutMs: number): Promise<boolean> {
+        const leaseExpiresAt = new Date(Date.now() + visibilityTimeoutMs);
+        const job = await this.updateLeased(id, attempt, 'extend', { leaseExpiresAt });
+        return job !== null;
+    }
+
+    async complete(id: string, attempt: number, result: AnalysisJobResult): Promise<boolean> {
+        const job = await this.updateLeased(id, attempt, 'release', {
+            status: 'complete',
+            completedAt: new Date(),
+            leaseExpiresAt: undefined,
+            errorMessage: undefined,
+            ...result,
+        });
+        if (!job) return false;
+        await this.persistTerminal(job);
+        return true;
+    }
+
+    async fail(id: string, attempt: number, errorMessage: string, retry: boolean): Promise<boolean> {
+        if (retry) {
+            const job = await this.updateLeased(id, attempt, 'requeue', { status: 'queued', leaseExpiresAt: undefined, errorMessage });
+            return job !== null;
+        }
+
+        const job = await this.updateLeased(id, attempt, 'release', {
+            status: 'error',
+            completedAt: new Date(),
+            leaseExpiresAt: undefined,
+            errorMessage,
+        });
+        if (!job) return false;
+        await this.persistTerminal(job);
+        return true;
+    }
+
+    async getJob(id: string): Promise<AnalysisJob | undefined> {
+        const job = await this.load(id);
+        return job ? job as unknown as AnalysisJob : undefined;
+    }
+
+    async close(): Promise<void> {
+        await this.redis.quit();
+    }
+
+    // ============================================
+    // PRIVATE METHODS
+    // ============================================
+
+    /** Move jobs whose lease has run out back onto the queue */
+    private async requeueExpiredLeases(): Promise<void> {
+        // One script, so a job can't be dropped between leaving the leases and joining the queue
+        await this.redis.eval(REQUEUE_EXPIRED_SCRIPT, 2, LEASES_KEY, QUEUED_KEY, Date.now());
+    }
+
+    /** Apply a worker's update only while the job is analyzing under its attempt */
+    private async updateLeased(
+        id: string,
+        attempt: number,
+        lease: LeaseChange,
+        update: Partial<MutableJob>
+    ): Promise<MutableJob | null> {
+        return this.updateRecord(id, lease, job => {
+            if (job.status !== 'analyzing' || job.attempts !== attempt) return false;
+            Object.assign(job, update);
+            return true;
+        });
+    }
+
+    /**
+     * Read-modify-write a job record atomically. apply() mutates the record or
+     * returns false to leave it alone; the write (with its lease change) only
+     * lands if nobody changed the record since it was read.
+     */
+    private async updateRecord(
+        id: string,
+        lease: LeaseChange,
+        apply: (job: MutableJob) => boolean
+    ): Promise<MutableJob | null> {
+        const key = JOB_KEY_PREFIX + id;
+
+        for (let i = 0; i < MAX_UPDATE_ATTEMPTS; i++) {
+            const raw = await this.redis.get(key);
+            if (!raw) return null;
+
+            const job = parseJob(raw);
+            if (!apply(job)) return null;
+
+            const terminal = job.status === 'complete' || job.status === 'error';
+            const written = await this.redis.eval(
+                UPDATE_SCRIPT, 3, key, LEASES_KEY, QUEUED_KEY,
+                raw, JSON.stringify(job), terminal ? TERMINAL_TTL_SECONDS : 0,
+                lease, job.leaseExpiresAt?.getTime() ?? 0, id,
+            );
+            if (written === 1) return job;
+        }
+
+        throw new Error(`Job ${id} kept changing during update`);
+    }
+
+    private async load(id: string): Promise<MutableJob | null> {
+        const raw = await this.redis.get(JOB_KEY_PREFIX + id);
+        return raw ? parseJob(raw) : null;
+    }
+
+    private async save(job: MutableJob): Promise<void> {
+        await this.redis.set(JOB_KEY_PREFIX + job.id, JSON.stringify(job));
+    }
+
+    private async persistTerminal(job: MutableJob): Promise<void> {
+        if (job.status !== 'complete' && job.status !== 'error') return;
+
+        await persistAnalysis({
+            id: job.id,
+            companyId: job.companyId,
+            status: job.status,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt!,
+            score: job.score,
+            roadmap: job.roadmap,
+            failedAgents: job.failedAgents,
+            errorMessage: job.errorMessage,
+            reuseInsightsFrom: job.reuseInsightsFrom,
+        });
+    }
+}
+
+function parseJob(raw: string): MutableJob {
+    const job = JSON.parse(raw);
+    job.createdAt = new Date(job.createdAt);
+    if (job.completedAt) job.completedAt = new Date(job.completedAt);
+    if (job.leaseExpiresAt) job.leaseExpiresAt = new Date(job.leaseExpiresAt);
+    return job as MutableJob;
+}
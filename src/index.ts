@@ -12,6 +12,10 @@ import helmet from 'helmet';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { apiRouter } from './api/routes.js';
+import { JOB_QUEUE, MONITORING } from './config/index.js';
+import { getJobQueue } from './core/job-queue.js';
+import { AnalysisWorker } from './core/analysis-worker.js';
+import { MonitoringScheduler } from './core/monitoring-scheduler.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -54,6 +58,18 @@ app.get('*', (req, res) => {
     res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
+// Analysis worker — in-process unless dedicated workers (src/worker.ts) are deployed
+if (JOB_QUEUE.inProcessWorker) {
+    new AnalysisWorker(getJobQueue()).start();
+} else if (JOB_QUEUE.backend === 'memory') {
+    console.warn('[worker] In-process worker disabled with the memory queue — jobs will never run');
+}
+
+// Scheduled re-analysis of monitored companies — here, in a worker, or both
+if (MONITORING.schedulerEnabled) {
+    new MonitoringScheduler(getJobQueue()).start();
+}
+
 // Start server
 app.listen(PORT, () => {
     console.log(`
@@ -0,0 +1,170 @@
+/**
+ * Aging Report
+ *
+ * Reads aged receivables and aged payables reports (debitor- and
+ * kreditorsaldolister) into the canonical AgingReport shape:
+ *
+ *   - bucket layouts: one row per counterparty with Current | 1-30 | 31-60 |
+ *     61-90 | 90+ columns
+ *   - invoice layouts: one row per open invoice with its due date and open
+ *     amount, aged to the report date
+ *
+ * Whether a report covers receivables or payables, its date and currency are
+ * read from its text. A vision-extracted PDF report is validated into the
+ * same shape, and open Stripe invoices are aged the same way.
+ */
+
+import type { AgingBuckets, AgingCounterparty, AgingReport } from '../types/index.js';
+import { AgingReportSchema } from '../validation/schemas.js';
+import { parseAmount } from './statement-normalizer.js';
+import { parseDate } from '../utils/dates.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rows searched for the column header */
+const HEADER_ROWS = 10;
+
+type AgingCell = string | number | null;
+
+const BUCKET_HEADERS: Record<keyof AgingBuckets, RegExp> = {
+    current: /^(?:current|not (?:yet )?due|ikke forfalden?|ej forfalden|løbende)/,
+    days1to30: /^[01]\s*[-–]\s*30\b/,
+    days31to60: /^31\s*[-–]\s*60\b/,
+    days61to90: /^61\s*[-–]\s*90\b/,
+    over90: /^(?:over|more than|>)\s*90\b|^9[01]\s*\+|^91\b/,
+};
+
+const NAME_HEADER = /^(?:customer|client|debtor|supplier|vendor|creditor|counterparty|name|kunde|debitor|leverandør|kreditor|navn)/;
+const DUE_DATE_HEADER = /^(?:due(?: date)?|forfald(?:sdato)?|forfalder)/;
+const AMOUNT_HEADER = /^(?:open amount|outstanding|amount|balance|restbeløb|åbent beløb|beløb|saldo)/;
+
+const TOTAL_ROW = /^(?:total|i alt|sum)\b/i;
+const PAYABLES_TEXT = /payable|creditor|supplier|vendor|kreditor|leverandør/i;
+const AS_OF_TEXT = /\b(?:as of|as at|aged to|per|pr\.|dato|date)\s*:?\s*(\d{4}-\d{2}-\d{2}|\d{1,2}[./-]\d{1,2}[./-]\d{4})/i;
+const CURRENCY_TEXT = /\b(DKK|EUR|USD|SEK|NOK|GBP|CHF)\b/;
+
+/**
+ * Read an aging report from sheet rows. Returns null when no bucket or
+ * invoice header row is found.
+ */
+export function readAgingReport(rows: AgingCell[][], text: string, parsedAt: Date = new Date()): AgingReport | null {
+    const headerIndex = rows.slice(0, HEADER_ROWS).findIndex(row => readHeader(row) !== null);
+    if (headerIndex < 0) return null;
+
+    const header = readHeader(rows[headerIndex]!)!;
+    const asOf = readAsOf(text) ?? parsedAt;
+    const body = rows.slice(headerIndex + 1).filter(row => {
+        const name = row[header.name];
+        return typeof name === 'string' && !TOTAL_ROW.test(name);
+    });
+
+    const counterparties = 'buckets' in header
+        ? body.map(row => {
+            const counterparty: AgingCounterparty = { name: String(row[header.name]), ...emptyBuckets() };
+            for (const [bucket, column] of Object.entries(header.buckets) as Array<[keyof AgingBuckets, number]>) {
+                counterparty[bucket] = openAmount(row[column]);
+            }
+            return counterparty;
+        })
+        : ageInvoices(body.flatMap(row => {
+            const dueDate = parseDate(row[header.dueDate]);
+            return dueDate ? [{ name: String(row[header.name]), dueDate, amount: openAmount(row[header.amount]) }] : [];
+        }), asOf);
+
+    return {
+        side: PAYABLES_TEXT.test(text) ? 'payables' : 'receivables',
+        asOf: asOf.toISOString().slice(0, 10),
+        currency: text.match(CURRENCY_TEXT)?.[1],
+        counterparties: counterparties.filter(c => bucketTotal(c) > 0),
+    };
+}
+
+/**
+ * Validate model-extracted aging report data, filling the side, date and
+ * currency from the document text where the extraction left them out
+ */
+export function normalizeAgingReport(data: Record<string, unknown>, text: string, parsedAt: Date = new Date()): AgingReport | null {
+    const result = AgingReportSchema.safeParse({
+        side: PAYABLES_TEXT.test(text) ? 'payables' : 'receivables',
+        asOf: (readAsOf(text) ?? parsedAt).toISOString().slice(0, 10),
+        currency: text.match(CURRENCY_TEXT)?.[1],
+        ...data,
+    });
+    return result.success ? result.data : null;
+}
+
+/**
+ * Sum open invoices into per-counterparty buckets by days past due on a date
+ */
+export function ageInvoices(invoices: Array<{ name: string; dueDate: Date; amount: number }>, asOf: Date): AgingCounterparty[] {
+    const byName = new Map<string, AgingCounterparty>();
+    for (const invoice of invoices) {
+        const counterparty = byName.get(invoice.name) ?? { name: invoice.name, ...emptyBuckets() };
+        byName.set(invoice.name, counterparty);
+
+        const daysPastDue = Math.floor((asOf.getTime() - invoice.dueDate.getTime()) / DAY_MS);
+        counterparty[agingBucket(daysPastDue)] += invoice.amount;
+    }
+    return [...byName.values()];
+}
+
+/**
+ * Sum of a counterparty's (or report's) buckets
+ */
+export function bucketTotal(buckets: AgingBuckets): number {
+    return buckets.current + buckets.days1to30 + buckets.days31to60 + buckets.days61to90 + buckets.over90;
+}
+
+function agingBucket(daysPastDue: number): keyof AgingBuckets {
+    if (daysPastDue <= 0) return 'current';
+    if (daysPastDue <= 30) return 'days1to30';
+    if (daysPastDue <= 60) return 'days31to60';
+    if (daysPastDue <= 90) return 'days61to90';
+    return 'over90';
+}
+
+function emptyBuckets(): AgingBuckets {
+    return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+}
+
+type AgingHeader =
+    | { name: number; buckets: Partial<Record<keyof AgingBuckets, number>> }
+    | { name: number; dueDate: number; amount: number };
+
+/**
+ * Column positions of a bucket header (two or more buckets) or an invoice
+ * header (due date and amount)
+ */
+function readHeader(row: AgingCell[]): AgingHeader | null {
+    const cells = row.map(cell => typeof cell === 'string' ? cell.trim().toLowerCase() : '');
+    const find = (pattern: RegExp) => {
+        const index = cells.findIndex(cell => pattern.test(cell));
+        return index >= 0 ? index : undefined;
+    };
+
+    const name = find(NAME_HEADER);
+    if (name === undefined) return null;
+
+    const buckets: Partial<Record<keyof AgingBuckets, number>> = {};
+    for (const [bucket, pattern] of Object.entries(BUCKET_HEADERS) as Array<[keyof AgingBuckets, RegExp]>) {
+        const index = find(pattern);
+        if (index !== undefined) buckets[bucket] = index;
+    }
+    if (Object.keys(buckets).length >= 2) return { name, buckets };
+
+    const dueDate = find(DUE_DATE_HEADER);
+    const amount = find(AMOUNT_HEADER);
+    return dueDate !== undefined && amount !== undefined ? { name, dueDate, amount } : null;
+}
+
+/**
+ * An open amount; kreditorlister show payables as negative (credit) balances
+ */
+function openAmount(cell: AgingCell | undefined): number {
+    return Math.abs(parseAmount(cell) ?? 0);
+}
+
+function readAsOf(text: string): Date | undefined {
+    const match = text.match(AS_OF_TEXT);
+    return match ? parseDate(match[1]) : undefined;
+}
@@ -0,0 +1,385 @@
+/**
+ * Bank Statement Importer
+ *
+ * Builds a PlaidSnapshot from uploaded bank exports, for banks Plaid does
+ * not cover (Plaid Link is US-only here) or clients who would rather not
+ * link an account:
+ *
+ *   - CSV transaction exports, with the date, amount (or debit/credit) and
+ *     balance columns found by their usual Nordic and English headers, or
+ *     named in a column mapping
+ *   - ISO 20022 CAMT.053 end-of-day statements (XML), one per account
+ *
+ * Only booked transactions count. Balances are the statement's closing
+ * balance, or in a CSV the running balance on its latest row.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type { BankAccount, BankTransaction, PlaidSnapshot } from '../types/index.js';
+import { calculateCashFlow, summarizeTransactions } from './bank-transactions.js';
+import { analyzeTransactions } from './transaction-analytics.js';
+import { readCsv } from './spreadsheet-parser.js';
+import { parseAmount } from './statement-normalizer.js';
+import { parseDate } from '../utils/dates.js';
+import { xmlElement, xmlElements, xmlText } from '../utils/xml.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days per month when averaging flows over a statement period */
+const DAYS_PER_MONTH = 30;
+
+/** Elements that repeat in CAMT.053, read as arrays even when only one is present */
+const REPEATED_ELEMENTS = new Set(['Stmt', 'Bal', 'Ntry', 'NtryDtls', 'TxDtls', 'Ustrd']);
+
+/**
+ * Column headers recognised for each field, in order of preference.
+ * Matching ignores case and surrounding spaces.
+ */
+const COLUMN_HEADERS: Record<keyof BankCsvColumns, string[]> = {
+    date: ['date', 'booking date', 'posting date', 'transaction date', 'bogføringsdato', 'dato', 'bokføringsdato',
+        'bokföringsdag', 'transaktionsdatum', 'datum', 'rentedato', 'valørdato'],
+    amount: ['amount', 'beløb', 'beløp', 'belopp', 'amount (dkk)'],
+    debit: ['debit', 'money out', 'withdrawal', 'withdrawals', 'ud', 'udbetaling', 'ut fra konto', 'uttak'],
+    credit: ['credit', 'money in', 'deposit', 'deposits', 'ind', 'indbetaling', 'inn på konto', 'innskudd'],
+    description: ['description', 'text', 'tekst', 'beskrivelse', 'forklaring', 'narrative', 'details', 'meddelelse',
+        'text/mottagare', 'payee', 'name', 'navn', 'modtager'],
+    balance: ['balance', 'saldo', 'bokført saldo', 'running balance'],
+    currency: ['currency', 'valuta'],
+    accountId: ['account', 'account number', 'konto', 'kontonummer', 'kontonr', 'iban'],
+    category: ['category', 'kategori'],
+};
+
+/** ISO 20022 bank transaction (sub)family codes, most specific first */
+const TRANSACTION_CODE_CATEGORIES: Record<string, string> = {
+    SALA: 'Payroll',
+    TAXS: 'Taxes',
+    INTR: 'Interest',
+    CHRG: 'Bank Fees',
+    FEES: 'Bank Fees',
+    CCRD: 'Card Payments',
+    RDDT: 'Direct Debits',
+    IDDT: 'Direct Debits',
+    ICDT: 'Transfers',
+    RCDT: 'Transfers',
+    CNTR: 'Cash',
+    LDAS: 'Loans',
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Header (or zero-based index) of each CSV column */
+export interface BankCsvColumns {
+    date: string | number;
+    /** Signed amount; or give debit and credit columns */
+    amount: string | number;
+    debit: string | number;
+    credit: string | number;
+    description: string | number;
+    balance: string | number;
+    currency: string | number;
+    accountId: string | number;
+    category: string | number;
+}
+
+export interface BankStatementOptions {
+    /** Columns to read in a CSV, overriding the recognised headers */
+    columns?: Partial<BankCsvColumns>;
+    /** Order of day and month in CSV dates that are not ISO ('dmy' unless set) */
+    dateOrder?: 'dmy' | 'mdy';
+    /** Account ID for a CSV without an account column (the filename otherwise) */
+    accountId?: string;
+    /** ISO 4217 currency for a CSV without a currency column */
+    currency?: string;
+    /** Closing balance for a CSV without a balance column */
+    closingBalance?: number;
+    accountType?: BankAccount['type'];
+}
+
+interface StatementAccount {
+    account: BankAccount;
+    transactions: BankTransaction[];
+    period?: { start: Date; end: Date };
+}
+
+/**
+ * Whether an upload is a CAMT.053 statement rather than a CSV export
+ */
+export function isCamtStatement(filename: string, content: Buffer): boolean {
+    return /\.xml$/i.test(filename) || content.subarray(0, 512).toString('utf-8').includes('camt.053');
+}
+
+export class BankStatementImporter {
+    /**
+     * Import a CSV export or CAMT.053 statement into a PlaidSnapshot
+     */
+    async import(buffer: Buffer, filename: string, options: BankStatementOptions = {}): Promise<PlaidSnapshot> {
+        const statements = isCamtStatement(filename, buffer)
+            ? readCamt053(buffer, filename, options)
+            : [readCsvStatement(buffer, filename, options)];
+
+        const accounts = statements.map(s => s.account);
+        const transactions = statements.flatMap(s => s.transactions);
+        const currency = accounts[0]!.currency;
+        const period = statementPeriod(statements);
+        const days = Math.floor((period.end.getTime() - period.start.getTime()) / DAY_MS) + 1;
+        const months = Math.max(1, days / DAYS_PER_MONTH);
+
+        const summary = summarizeTransactions(transactions, period, currency);
+
+        return {
+            fetchedAt: new Date(),
+            currency,
+            accounts,
+            transactions: summary,
+            cashFlow: calculateCashFlow(summary, accounts, currency, months),
+            source: 'bank_statement',
+            transactionList: transactions,
+            analytics: analyzeTransactions(transactions, accounts, currency, period),
+        };
+    }
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function readCsvStatement(buffer: Buffer, filename: string, options: BankStatementOptions): StatementAccount {
+    const [header, ...rows] = readCsv(buffer);
+    if (!header || rows.length === 0) {
+        throw new Error(`${filename} has no transactions`);
+    }
+
+    const headers = header.map(cell => String(cell ?? '').trim().toLowerCase());
+    const column = (field: keyof BankCsvColumns): number | undefined => {
+        const configured = options.columns?.[field];
+        if (typeof configured === 'number') return configured;
+        if (configured !== undefined) {
+            const index = headers.indexOf(configured.trim().toLowerCase());
+            if (index < 0) throw new Error(`${filename} has no "${configured}" column`);
+            return index;
+        }
+        for (const name of COLUMN_HEADERS[field]) {
+            const index = headers.indexOf(name);
+            if (index >= 0) return index;
+        }
+        return undefined;
+    };
+
+    const columns = {
+        date: column('date'),
+        amount: column('amount'),
+        debit: column('debit'),
+        credit: column('credit'),
+        description: column('description'),
+        balance: column('balance'),
+        currency: column('currency'),
+        accountId: column('accountId'),
+        category: column('category'),
+    };
+    if (columns.date === undefined) {
+        throw new Error(`${filename}: no date column found; name it in the column mapping`);
+    }
+    if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+        throw new Error(`${filename}: no amount or debit/credit columns found; name them in the column mapping`);
+    }
+
+    const cell = (row: Array<string | number | null>, index: number | undefined) =>
+        index === undefined ? undefined : row[index] ?? undefined;
+    const accountId = options.accountId ?? String(cell(rows[0]!, columns.accountId) ?? filename);
+    const fallbackCurrency = options.currency?.toUpperCase();
+
+    const booked: Array<{ transaction: BankTransaction; balance?: number; order: number }> = [];
+    rows.forEach((row, order) => {
+        const date = parseDate(cell(row, columns.date), options.dateOrder ?? 'dmy');
+        const amount = columns.amount !== undefined
+            ? parseAmount(cell(row, columns.amount))
+            : (parseAmount(cell(row, columns.credit)) ?? 0) - Math.abs(parseAmount(cell(row, columns.debit)) ?? 0);
+        if (!date || amount === undefined) return;
+
+        const currency = String(cell(row, columns.currency) ?? fallbackCurrency ?? '').toUpperCase();
+        if (!currency) {
+            throw new Error(`${filename}: no currency column; pass the account currency`);
+        }
+
+        booked.push({
+            transaction: {
+                accountId,
+                date,
+                amount,
+                currency,
+                description: String(cell(row, columns.description) ?? ''),
+                category: String(cell(row, columns.category) ?? 'Other'),
+            },
+            balance: parseAmount(cell(row, columns.balance)),
+            order,
+        });
+    });
+
+    if (booked.length === 0) {
+        throw new Error(`${filename}: no rows with a readable date and amount`);
+    }
+
+    // Exports list newest or oldest first; the running balance after the last booking is the closing balance
+    const newestFirst = booked[0]!.transaction.date > booked[booked.length - 1]!.transaction.date;
+    const latest = booked.reduce((a, b) => {
+        const byDate = b.transaction.date.getTime() - a.transaction.date.getTime();
+        return byDate > 0 || (byDate === 0 && (newestFirst ? b.order < a.order : b.order > a.order)) ? b : a;
+    });
+    const closingBalance = columns.balance !== undefined ? latest.balance : options.closingBalance;
+    if (closingBalance === undefined) {
+        throw new Error(`${filename}: no balance column; pass the closing balance`);
+    }
+
+    return {
+        account: {
+            accountId,
+            type: options.accountType ?? 'checking',
+            currency: latest.transaction.currency,
+            currentBalance: closingBalance,
+            availableBalance: closingBalance,
+        },
+        transactions: booked.map(b => b.transaction),
+    };
+}
+
+// ============================================
+// CAMT.053
+// ============================================
+
+function readCamt053(buffer: Buffer, filename: string, options: BankStatementOptions): StatementAccount[] {
+    const xml = new XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: '',
+        removeNSPrefix: true,
+        parseTagValue: false,
+        isArray: name => REPEATED_ELEMENTS.has(name),
+    }).parse(buffer.toString('utf-8'));
+
+    const statements = xmlElements(xmlElement(xmlElement(xml.Document)?.BkToCstmrStmt)?.Stmt);
+    if (statements.length === 0) {
+        throw new Error(`${filename} is not a CAMT.053 bank statement`);
+    }
+
+    return statements.map(statement => {
+        const account = xmlElement(statement.Acct) ?? {};
+        const id = xmlElement(account.Id) ?? {};
+        const accountId = xmlText(id.IBAN) ?? xmlText(xmlElement(id.Othr)?.Id) ?? filename;
+        const balances = xmlElements(statement.Bal);
+        const closing = readBalance(balances, 'CLBD');
+        const currency = xmlText(account.Ccy) ?? closing?.currency ?? options.currency?.toUpperCase();
+        if (!currency) {
+            throw new Error(`${filename}: statement for ${accountId} names no currency`);
+        }
+
+        const transactions = xmlElements(statement.Ntry)
+            .filter(entry => (xmlText(entry.Sts) ?? xmlText(xmlElement(entry.Sts)?.Cd) ?? 'BOOK') === 'BOOK')
+            .flatMap(entry => {
+                const amount = readAmount(entry.Amt, entry.CdtDbtInd);
+                const date = readDate(entry.BookgDt) ?? readDate(entry.ValDt);
+                if (!amount || !date) return [];
+                return [{
+                    accountId,
+                    date,
+                    amount: amount.value,
+                    currency: amount.currency ?? currency,
+                    description: describeEntry(entry),
+                    category: categorizeEntry(entry),
+                }];
+            });
+
+        const range = xmlElement(statement.FrToDt);
+        const start = readDateTime(range?.FrDtTm);
+        const end = readDateTime(range?.ToDtTm);
+        const currentBalance = closing?.value ?? 0;
+
+        return {
+            account: {
+                accountId,
+                type: options.accountType ?? 'checking',
+                currency,
+                currentBalance,
+                availableBalance: readBalance(balances, 'CLAV')?.value ?? currentBalance,
+            },
+            transactions,
+            period: start && end ? { start, end } : undefined,
+        };
+    });
+}
+
+function readBalance(balances: Record<string, unknown>[], code: string): { value: number; currency?: string } | undefined {
+    const balance = balances.find(b => xmlText(xmlElement(xmlElement(b.Tp)?.CdOrPrtry)?.Cd) === code);
+    if (!balance) return undefined;
+    const amount = readAmount(balance.Amt, balance.CdtDbtInd);
+    return amount ? { value: amount.value, currency: amount.currency } : undefined;
+}
+
+/** A CAMT amount, negative when debited */
+function readAmount(amt: unknown, indicator: unknown): { value: number; currency?: string } | undefined {
+    const value = parseAmount(xmlText(xmlElement(amt)?.['#text'] ?? amt));
+    if (value === undefined) return undefined;
+    return {
+        value: xmlText(indicator) === 'DBIT' ? -Math.abs(value) : Math.abs(value),
+        currency: xmlText(xmlElement(amt)?.Ccy),
+    };
+}
+
+function readDate(value: unknown): Date | undefined {
+    const record = xmlElement(value);
+    return readDateTime(record?.Dt ?? record?.DtTm);
+}
+
+function readDateTime(value: unknown): Date | undefined {
+    const raw = xmlText(value);
+    if (!raw) return undefined;
+    const date = new Date(raw.length === 10 ? `${raw}T00:00:00Z` : raw);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Remittance text, else the counterparty, else the bank's additional entry information */
+function describeEntry(entry: Record<string, unknown>): string {
+    const details = xmlElements(xmlElement(xmlElements(entry.NtryDtls)[0])?.TxDtls)[0] ?? {};
+    const remittance = xmlElement(details.RmtInf)?.Ustrd;
+    const unstructured = (Array.isArray(remittance) ? remittance : []).map(xmlText).filter(Boolean).join(' ');
+    const parties = xmlElement(details.RltdPties) ?? {};
+    const party = xmlElement(xmlText(entry.CdtDbtInd) === 'DBIT' ? parties.Cdtr : parties.Dbtr);
+    const counterparty = xmlText(party?.Nm) ?? xmlText(xmlElement(party?.Pty)?.Nm);
+    return unstructured || counterparty || xmlText(entry.AddtlNtryInf) || '';
+}
+
+function categorizeEntry(entry: Record<string, unknown>): string {
+    const code = xmlElement(entry.BkTxCd) ?? {};
+    const domain = xmlElement(code.Domn);
+    const family = xmlElement(domain?.Fmly);
+    const candidates = [xmlText(family?.SubFmlyCd), xmlText(family?.Cd), xmlText(domain?.Cd)];
+    for (const candidate of candidates) {
+        if (candidate && TRANSACTION_CODE_CATEGORIES[candidate]) return TRANSACTION_CODE_CATEGORIES[candidate]!;
+    }
+    return xmlText(xmlElement(code.Prtry)?.Cd) ?? 'Other';
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * The period the statements cover: the stated range where every statement
+ * has one, otherwise the first to the last transaction
+ */
+function statementPeriod(statements: StatementAccount[]): { start: Date; end: Date } {
+    const ranges = statements.map(s => s.period);
+    if (ranges.every(Boolean)) {
+        return {
+            start: new Date(Math.min(...ranges.map(r => r!.start.getTime()))),
+            end: new Date(Math.max(...ranges.map(r => r!.end.getTime()))),
+        };
+    }
+
+    const dates = statements.flatMap(s => s.transactions.map(t => t.date.getTime()));
+    if (dates.length === 0) {
+        const now = new Date();
+        return { start: now, end: now };
+    }
+    return { start: new Date(Math.min(...dates)), end: new Date(Math.max(...dates)) };
+}
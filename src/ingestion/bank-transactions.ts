@@ -0,0 +1,67 @@
+/**
+ * Bank Transactions
+ *
+ * Turns booked bank transactions into the totals and cash flow metrics of a
+ * PlaidSnapshot. Shared by the Plaid adapter and the bank statement
+ * importer, so live and uploaded bank data are scored the same way.
+ */
+
+import type { BankAccount, BankTransaction, CashFlowMetrics, TransactionSummary } from '../types/index.js';
+import { convertAmount } from '../core/currency.js';
+
+/** Runway reported when there is no burn */
+const MAX_RUNWAY_MONTHS = 99;
+
+/**
+ * Total inflows and outflows over a period in one currency (each converted
+ * at its transaction date), with outflows broken down by category
+ */
+export function summarizeTransactions(
+    transactions: BankTransaction[],
+    period: { start: Date; end: Date },
+    currency: string
+): TransactionSummary {
+    let totalInflow = 0;
+    let totalOutflow = 0;
+    const categoryBreakdown: Record<string, number> = {};
+
+    for (const tx of transactions) {
+        const amount = convertAmount(tx.amount, tx.currency, currency, tx.date);
+        if (amount > 0) {
+            totalInflow += amount;
+        } else {
+            totalOutflow += Math.abs(amount);
+            categoryBreakdown[tx.category] = (categoryBreakdown[tx.category] || 0) + Math.abs(amount);
+        }
+    }
+
+    return { period, totalInflow, totalOutflow, categoryBreakdown };
+}
+
+/**
+ * Average monthly flows, burn and runway on the cash held in non-credit accounts
+ */
+export function calculateCashFlow(
+    transactions: TransactionSummary,
+    accounts: BankAccount[],
+    currency: string,
+    monthsInPeriod: number
+): CashFlowMetrics {
+    const avgMonthlyInflow = transactions.totalInflow / monthsInPeriod;
+    const avgMonthlyOutflow = transactions.totalOutflow / monthsInPeriod;
+
+    const burnRate = Math.max(0, avgMonthlyOutflow - avgMonthlyInflow);
+
+    const totalCash = accounts
+        .filter(a => a.type !== 'credit')
+        .reduce((sum, a) => sum + convertAmount(a.currentBalance, a.currency, currency), 0);
+
+    const runwayMonths = burnRate > 0 ? totalCash / burnRate : MAX_RUNWAY_MONTHS;
+
+    return {
+        averageMonthlyInflow: avgMonthlyInflow,
+        averageMonthlyOutflow: avgMonthlyOutflow,
+        burnRate,
+        runwayMonths: Math.min(MAX_RUNWAY_MONTHS, runwayMonths),
+    };
+}
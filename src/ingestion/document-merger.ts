@@ -0,0 +1,226 @@
+/**
+ * Document Merger
+ *
+ * Combines a session's documents after a batch upload:
+ *
+ *   - identical files are recognised by a SHA-256 hash of their bytes, so a
+ *     re-sent PDF is neither parsed nor counted twice
+ *   - several statements of the same kind (e.g. P&Ls for 2022 and 2024, or
+ *     two annual reports that both cover 2023) become one year-keyed document
+ *
+ * When two statements disagree on a figure for the same period, the figure
+ * from the higher-trust document is kept (the earlier document on a tie) and
+ * the disagreement is returned as a Contradiction. Amounts in a different
+ * currency are converted before comparing, at the rate for the period end.
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuid } from 'uuid';
+import type { Contradiction, ParsedDocument } from '../types/index.js';
+import { findFxRate, formatMoney } from '../core/currency.js';
+import { isStatementKind } from './statement-normalizer.js';
+import { getSortedYearKeys } from '../utils/document-extraction.js';
+import { StatementPeriodKeySchema } from '../validation/schemas.js';
+
+/** Relative difference (0–1) below which two figures are the same figure */
+const MERGE_TOLERANCE = 0.01;
+
+export interface MergeResult {
+    /** The documents with each statement kind merged into one */
+    documents: ParsedDocument[];
+    /** Conflicting figures found while merging */
+    contradictions: Contradiction[];
+}
+
+type StatementPeriods = Record<string, Record<string, unknown>>;
+
+// ============================================
+// DEDUPLICATION
+// ============================================
+
+/**
+ * SHA-256 hash of a file's bytes
+ */
+export function hashContent(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Content hashes already present among the documents, including those of
+ * documents folded into a merged statement, mapped to the document holding them
+ */
+export function indexContentHashes(documents: ParsedDocument[]): Map<string, ParsedDocument> {
+    const index = new Map<string, ParsedDocument>();
+    for (const doc of documents) {
+        if (doc.contentHash) index.set(doc.contentHash, doc);
+        for (const source of doc.mergedFrom ?? []) {
+            if (source.contentHash) index.set(source.contentHash, doc);
+        }
+    }
+    return index;
+}
+
+// ============================================
+// MERGING
+// ============================================
+
+/**
+ * Merge every statement kind that has more than one document. Other
+ * documents, and statements that could not be normalized, pass through.
+ */
+export function mergeStatements(documents: ParsedDocument[]): MergeResult {
+    const groups = new Map<string, ParsedDocument[]>();
+    for (const doc of documents) {
+        if (!isMergeable(doc)) continue;
+        groups.set(doc.type, [...(groups.get(doc.type) ?? []), doc]);
+    }
+
+    const merged = new Map<ParsedDocument, ParsedDocument | null>();
+    const contradictions: Contradiction[] = [];
+
+    for (const group of groups.values()) {
+        if (group.length < 2) continue;
+        const result = mergeGroup(group);
+        contradictions.push(...result.contradictions);
+
+        // The merged document takes the place of the first of its sources
+        group.forEach((doc, i) => merged.set(doc, i === 0 ? result.document : null));
+    }
+
+    return {
+        documents: documents.flatMap(doc => {
+            if (!merged.has(doc)) return [doc];
+            const replacement = merged.get(doc);
+            return replacement ? [replacement] : [];
+        }),
+        contradictions,
+    };
+}
+
+function mergeGroup(group: ParsedDocument[]): { document: ParsedDocument; contradictions: Contradiction[] } {
+    const type = group[0]!.type;
+    const data: StatementPeriods = {};
+    const keptFrom = new Map<string, ParsedDocument>();
+    const contradictions: Contradiction[] = [];
+
+    // Visit documents by trust so the first figure seen is the one kept
+    const byTrust = [...group].sort((a, b) => b.trustScore - a.trustScore);
+
+    for (const doc of byTrust) {
+        for (const [period, entry] of Object.entries(doc.data as StatementPeriods)) {
+            const target = data[period] ??= {};
+            const sourceCurrency = readCurrency(entry, doc);
+            const targetCurrency = typeof target.currency === 'string' ? target.currency : undefined;
+            if (sourceCurrency && !targetCurrency) target.currency = sourceCurrency;
+
+            for (const [field, value] of Object.entries(entry)) {
+                if (field === 'currency' || typeof value !== 'number') continue;
+
+                const amount = convert(value, sourceCurrency, targetCurrency, period);
+                const key = `${period}.${field}`;
+                const existing = target[field];
+
+                if (typeof existing !== 'number') {
+                    target[field] = amount;
+                    keptFrom.set(key, doc);
+                } else if (Math.abs(existing - amount) > Math.abs(existing) * MERGE_TOLERANCE) {
+                    contradictions.push(buildConflict(type, period, field, {
+                        kept: { doc: keptFrom.get(key)!, value: existing },
+                        other: { doc, value: amount },
+                        currency: typeof target.currency === 'string' ? target.currency : undefined,
+                    }));
+                }
+            }
+        }
+    }
+
+    const periods = getSortedYearKeys(data);
+    const latest = data[periods[0] ?? 'latest'];
+
+    const document: ParsedDocument = {
+        id: uuid(),
+        type,
+        filename: group.map(d => d.filename).join(', '),
+        parsedAt: new Date(),
+        confidence: Math.min(...group.map(d => d.confidence)),
+        data: Object.fromEntries([...periods, ...('latest' in data ? ['latest'] : [])].map(p => [p, data[p]])),
+        rawText: group.map(d => d.rawText).filter(Boolean).join('\n\n'),
+        currency: typeof latest?.currency === 'string' ? latest.currency : group[0]!.currency,
+        trustScore: Math.min(...group.map(d => d.trustScore)),
+        validationErrors: Array.from(new Set(group.flatMap(d => d.validationErrors ?? []))),
+        mergedFrom: group.flatMap(d => d.mergedFrom ?? [{ id: d.id, filename: d.filename, contentHash: d.contentHash }]),
+    };
+
+    return { document, contradictions };
+}
+
+interface ConflictingFigure {
+    doc: ParsedDocument;
+    value: number;
+}
+
+function buildConflict(
+    type: string,
+    period: string,
+    field: string,
+    conflict: { kept: ConflictingFigure; other: ConflictingFigure; currency: string | undefined },
+): Contradiction {
+    const { kept, other, currency } = conflict;
+    const describe = (figure: ConflictingFigure) =>
+        `${figure.doc.filename} shows ${currency ? formatMoney(figure.value, currency) : figure.value}`;
+    const tie = kept.doc.trustScore === other.doc.trustScore;
+
+    return {
+        id: uuid(),
+        detectedAt: new Date(),
+        sources: [kept, other].map(figure => ({
+            source: 'document' as const,
+            documentId: figure.doc.id,
+            field: `${type}.${period}.${field}`,
+            value: figure.value,
+            currency,
+            trustScore: figure.doc.trustScore,
+        })),
+        description: `Conflicting ${type} figures for ${period} ${field}: ${describe(kept)} vs ${describe(other)}.`,
+        detectedBy: 'document_merge',
+        resolution: {
+            resolvedAt: new Date(),
+            method: 'trust_ranking',
+            acceptedValue: kept.value,
+            currency,
+            reasoning: tie
+                ? 'Both documents have the same trust; kept the figure from the earlier upload.'
+                : `Kept the figure from ${kept.doc.filename}, the higher-trust document.`,
+        },
+    };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * A normalized statement: every key a fiscal year or 'latest', each an object of figures
+ */
+function isMergeable(doc: ParsedDocument): boolean {
+    if (!isStatementKind(doc.type)) return false;
+    const entries = Object.entries(doc.data ?? {});
+    return entries.length > 0 && entries.every(([key, value]) =>
+        StatementPeriodKeySchema.safeParse(key).success && typeof value === 'object' && value !== null && !Array.isArray(value)
+    );
+}
+
+function readCurrency(entry: Record<string, unknown>, doc: ParsedDocument): string | undefined {
+    return typeof entry.currency === 'string' ? entry.currency : doc.currency;
+}
+
+/**
+ * Convert a figure into the currency already used for its period. Unknown
+ * currencies, or a pair without a rate, are compared as stated.
+ */
+function convert(value: number, from: string | undefined, to: string | undefined, period: string): number {
+    if (!from || !to || from === to) return value;
+    const on = period === 'latest' ? new Date() : new Date(`${period}-12-31`);
+    const rate = findFxRate(from, to, on);
+    return rate === undefined ? value : Math.round(value * rate * 100) / 100;
+}
@@ -0,0 +1,44 @@
+/**
+ * Integration Refresh
+ *
+ * Fetches fresh Stripe and Plaid snapshots for a company with the
+ * credentials stored in the vault when it first linked them, so periodic
+ * refreshes need no re-linking. A provider that fails is reported, not thrown,
+ * so the other one still refreshes.
+ */
+
+import type { PlaidSnapshot, StripeSnapshot } from '../types/index.js';
+import { getCredential, listCredentials, type IntegrationProvider } from '../core/credential-vault.js';
+import { StripeAdapter } from './stripe-adapter.js';
+import { PlaidAdapter } from './plaid-adapter.js';
+
+export interface RefreshedSnapshots {
+    stripe?: StripeSnapshot;
+    plaid?: PlaidSnapshot;
+    /** Providers with a stored credential that could not be refreshed */
+    errors: Array<{ provider: IntegrationProvider; message: string }>;
+}
+
+/**
+ * Fetch a snapshot from every provider the company has a stored credential for
+ */
+export async function refreshStoredIntegrations(companyId: string): Promise<RefreshedSnapshots> {
+    const result: RefreshedSnapshots = { errors: [] };
+    const stored = await listCredentials(companyId);
+
+    for (const { provider } of stored) {
+        try {
+            if (provider === 'stripe') {
+                const credential = await getCredential(companyId, 'stripe');
+                if (credential) result.stripe = await new StripeAdapter(credential).fetchSnapshot();
+            } else {
+                const credential = await getCredential(companyId, 'plaid');
+                if (credential) result.plaid = await new PlaidAdapter().fetchSnapshot(credential.accessToken);
+            }
+        } catch (error) {
+            result.errors.push({ provider, message: (error as Error).message });
+        }
+    }
+
+    return result;
+}
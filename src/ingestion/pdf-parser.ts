@@ -1,56 +1,106 @@
 /**
  * PDF Parser
  * 
- * Extracts structured data from PDFs using Gemini Vision.
+ * Extracts structured data from PDFs. The embedded text layer is read and
+ * classified locally first; standard statement layouts are parsed without
+ * any model call. The vision-capable LLM provider is used only when the
+ * document type is unclear (detection) or the content is not a statement it
+ * can read deterministically (extraction).
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { v4 as uuid } from 'uuid';
 import type { ParsedDocument, DocumentType } from '../types/index.js';
 import { VISION_MODEL_CONFIG } from '../config/index.js';
+import { createLLMProvider, type LLMProvider } from '../llm/provider.js';
+import {
+    countLineItems,
+    isStatementKind,
+    normalizeDocument,
+    normalizeStatement,
+    type StatementKind,
+} from './statement-normalizer.js';
+import { classifyText, extractTextLayer, parseStatementText } from './text-layer.js';
+import { hashContent } from './document-merger.js';
+import { normalizeAgingReport } from './aging-report.js';
+
+/** Classification confidence needed to skip LLM type detection */
+const MIN_CLASSIFICATION_CONFIDENCE = 0.6;
+
+/** Canonical line items a locally parsed statement needs in its latest period */
+const MIN_LINE_ITEMS = 3;
+
+/** Layout hint for statements, so the normalizer sees one object per fiscal year */
+const STATEMENT_LAYOUT = `Key the figures by fiscal year (e.g. {"2024": {...}, "2023": {...}}) and include
+        the currency and the unit amounts are stated in (e.g. "DKK thousands").`;
 
 export class PDFParser {
-    private genAI: GoogleGenerativeAI;
-    private model: ReturnType<GoogleGenerativeAI['getGenerativeModel']>;
+    private llm: LLMProvider;
 
-    constructor() {
-        const apiKey = process.env.GOOGLE_API_KEY;
-        if (!apiKey) {
-            throw new Error('GOOGLE_API_KEY required for PDF parsing');
-        }
-
-        this.genAI = new GoogleGenerativeAI(apiKey);
-        this.model = this.genAI.getGenerativeModel({
-            model: VISION_MODEL_CONFIG.name,
-            generationConfig: {
-                temperature: VISION_MODEL_CONFIG.temperature,
-                maxOutputTokens: VISION_MODEL_CONFIG.maxOutputTokens,
-            },
-        });
+    /**
+     * @param llm - Provider to use; defaults to the one selected by VISION_MODEL_CONFIG
+     */
+    constructor(llm?: LLMProvider) {
+        this.llm = llm ?? createLLMProvider(VISION_MODEL_CONFIG);
     }
 
     /**
-     * Parse a PDF buffer and extract structured data
+     * Parse a PDF buffer and extract structured data. Financial statements are
+     * normalized into the canonical statement schema.
      */
     async parse(pdfBuffer: Buffer, filename: string): Promise<ParsedDocument> {
+        const text = await extractTextLayer(pdfBuffer);
+        const classification = classifyText(text, filename);
+        const classified = classification.confidence >= MIN_CLASSIFICATION_CONFIDENCE;
+        const contentHash = hashContent(pdfBuffer);
+
+        if (classified && isStatementKind(classification.type)) {
+            const local = this.parseStatementLocally(text, classification.type, filename);
+            if (local) return { ...local, contentHash };
+        }
+
         const base64Data = pdfBuffer.toString('base64');
 
         // Detect document type
-        const docType = await this.detectDocumentType(base64Data, filename);
+        const docType = classified ? classification.type : await this.detectDocumentType(base64Data, filename);
 
         // Extract structured data based on type
         const extractedData = await this.extractData(base64Data, docType);
+        const agingReport = docType === 'aging_report' ? normalizeAgingReport(extractedData.data, text) : null;
 
-        return {
+        return normalizeDocument({
             id: uuid(),
             type: docType,
             filename,
             parsedAt: new Date(),
             confidence: extractedData.confidence,
-            data: extractedData.data,
-            rawText: extractedData.rawText,
+            data: agingReport ? { ...agingReport } : extractedData.data,
+            rawText: text || extractedData.rawText,
+            currency: agingReport?.currency,
             trustScore: 0.7, // PDFs have moderate trust
-        };
+            contentHash,
+        });
+    }
+
+    /**
+     * Parse a statement from its text layer. Returns null when too few line
+     * items were recognised to trust it over the LLM.
+     */
+    private parseStatementLocally(text: string, kind: StatementKind, filename: string): ParsedDocument | null {
+        const raw = parseStatementText(text);
+        const { data, errors } = normalizeStatement(kind, raw);
+        if (countLineItems(data) < MIN_LINE_ITEMS) return null;
+
+        return normalizeDocument({
+            id: uuid(),
+            type: kind,
+            filename,
+            parsedAt: new Date(),
+            // Subtotals that do not add up suggest a misread layout
+            confidence: errors.length === 0 ? 0.9 : 0.75,
+            data: raw,
+            rawText: text,
+            trustScore: 0.7, // PDFs have moderate trust
+        });
     }
 
     private async detectDocumentType(base64Data: string, filename: string): Promise<DocumentType> {
@@ -61,22 +111,24 @@ Filename: ${filename}
 Respond with ONLY one of these exact values:
 - profit_and_loss
 - balance_sheet
+- cash_flow_statement
 - contract
 - bank_statement
 - tax_filing
 - insurance_certificate
+- aging_report (aged receivables or payables)
 - other`;
 
-        const result = await this.model.generateContent([
+        const result = await this.llm.generateWithParts([
             { text: prompt },
             { inlineData: { mimeType: 'application/pdf', data: base64Data } },
-        ]);
+        ], { source: 'pdf-parser', analysisType: 'detect_type' });
 
-        const type = result.response.text().trim().toLowerCase();
+        const type = result.text.trim().toLowerCase();
 
         const validTypes: DocumentType[] = [
-            'profit_and_loss', 'balance_sheet', 'contract',
-            'bank_statement', 'tax_filing', 'insurance_certificate', 'other'
+            'profit_and_loss', 'balance_sheet', 'cash_flow_statement', 'contract',
+            'bank_statement', 'tax_filing', 'insurance_certificate', 'aging_report', 'other'
         ];
 
         return validTypes.includes(type as DocumentType) ? type as DocumentType : 'other';
@@ -94,14 +146,27 @@ Respond with ONLY one of these exact values:
         - Operating Expenses (categories)
         - Operating Income
         - Net Income
-        - Period covered`,
+        - Period covered
+        ${STATEMENT_LAYOUT}`,
 
             balance_sheet: `Extract the following from this balance sheet:
         - Assets (current, fixed, total)
         - Liabilities (current, long-term, total)
         - Equity
         - Cash position
-        - Date`,
+        - Date
+        ${STATEMENT_LAYOUT}`,
+
+            cash_flow_statement: `Extract the following from this cash flow statement:
+        - Cash flow from operating activities
+        - Cash flow from investing activities
+        - Cash flow from financing activities
+        - Capital expenditure (purchase of property, plant and equipment)
+        - Repayments of loans and borrowings
+        - Free cash flow (if stated)
+        - Net change in cash
+        - Period covered
+        ${STATEMENT_LAYOUT}`,
 
             contract: `Extract the following contract terms:
         - Parties involved
@@ -138,6 +203,12 @@ Respond with ONLY one of these exact values:
         - Premium
         - Key exclusions`,
 
+            aging_report: `Extract this aged receivables or payables report as:
+        {"side": "receivables" | "payables", "asOf": "YYYY-MM-DD", "currency": "DKK",
+         "counterparties": [{"name": "...", "current": 0, "days1to30": 0, "days31to60": 0, "days61to90": 0, "over90": 0}]}
+        with one entry per customer or supplier (leave out total rows) and each amount a positive number
+        in whole currency units.`,
+
             other: `Extract all relevant structured data from this document.
         Identify the document purpose and key information.`,
         };
@@ -147,12 +218,12 @@ Respond with ONLY one of these exact values:
 Respond in JSON format with the extracted data. Include a "confidence" field (0-1) indicating extraction reliability.
 Also include a "raw_text_excerpt" field with the first 2000 characters of text content.`;
 
-        const result = await this.model.generateContent([
+        const result = await this.llm.generateWithParts([
             { text: prompt },
             { inlineData: { mimeType: 'application/pdf', data: base64Data } },
-        ]);
+        ], { source: 'pdf-parser', analysisType: `extract:${docType}` });
 
-        let text = result.response.text().trim();
+        let text = result.text.trim();
 
         // Clean up markdown formatting
         text = text.replace(/^```json\s*/i, '').replace(/\s*```$/i, '');
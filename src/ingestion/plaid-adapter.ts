@@ -2,15 +2,30 @@
  * Plaid Adapter
  * 
  * Fetches and transforms Plaid data into platform format.
+ * Each account keeps its own currency; transaction and cash flow totals are
+ * in the currency of the first account (converted at the transaction date).
  */
 
 import { PlaidApi, Configuration, PlaidEnvironments, Products, CountryCode } from 'plaid';
-import type { PlaidSnapshot, BankAccount, TransactionSummary, CashFlowMetrics } from '../types/index.js';
+import type { PlaidSnapshot, BankAccount, BankTransaction } from '../types/index.js';
+import { calculateCashFlow, summarizeTransactions } from './bank-transactions.js';
+import { analyzeTransactions } from './transaction-analytics.js';
+
+/** Plaid's default when an institution reports no ISO currency */
+const DEFAULT_CURRENCY = 'USD';
+
+/** Transactions requested per page (Plaid's maximum) */
+const TRANSACTIONS_PAGE_SIZE = 500;
+
+export interface PlaidAdapterOptions {
+    /** API host to call instead of the PLAID_ENV one, e.g. a local fixture server (PLAID_API_BASE_URL) */
+    baseUrl?: string;
+}
 
 export class PlaidAdapter {
     private client: PlaidApi;
 
-    constructor() {
+    constructor(options: PlaidAdapterOptions = {}) {
         const clientId = process.env.PLAID_CLIENT_ID;
         const secret = process.env.PLAID_SECRET;
         const env = process.env.PLAID_ENV || 'sandbox';
@@ -20,7 +35,7 @@ export class PlaidAdapter {
         }
 
         const configuration = new Configuration({
-            basePath: PlaidEnvironments[env as keyof typeof PlaidEnvironments],
+            basePath: options.baseUrl ?? process.env.PLAID_API_BASE_URL ?? PlaidEnvironments[env as keyof typeof PlaidEnvironments],
             baseOptions: {
                 headers: {
                     'PLAID-CLIENT-ID': clientId,
@@ -62,18 +77,24 @@ export class PlaidAdapter {
      * Fetch a complete snapshot of Plaid data
      */
     async fetchSnapshot(accessToken: string): Promise<PlaidSnapshot> {
-        const [accounts, transactions] = await Promise.all([
-            this.getAccounts(accessToken),
-            this.getTransactions(accessToken),
-        ]);
+        const accounts = await this.getAccounts(accessToken);
+        const currency = accounts[0]?.currency ?? DEFAULT_CURRENCY;
+        const now = new Date();
+        const period = { start: new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000), end: now };
+        const transactionList = await this.getTransactions(accessToken, period);
 
-        const cashFlow = this.calculateCashFlow(transactions, accounts);
+        const transactions = summarizeTransactions(transactionList, period, currency);
+        const cashFlow = calculateCashFlow(transactions, accounts, currency, 3);
 
         return {
-            fetchedAt: new Date(),
+            fetchedAt: now,
+            currency,
             accounts,
             transactions,
             cashFlow,
+            source: 'plaid',
+            transactionList,
+            analytics: analyzeTransactions(transactionList, accounts, currency, period),
         };
     }
 
@@ -85,6 +106,7 @@ export class PlaidAdapter {
         return response.data.accounts.map(account => ({
             accountId: account.account_id,
             type: this.mapAccountType(account.type),
+            currency: account.balances.iso_currency_code ?? DEFAULT_CURRENCY,
             currentBalance: account.balances.current || 0,
             availableBalance: account.balances.available || 0,
         }));
@@ -101,62 +123,34 @@ export class PlaidAdapter {
         }
     }
 
-    private async getTransactions(accessToken: string): Promise<TransactionSummary> {
-        const now = new Date();
-        const threeMonthsAgo = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-
-        const response = await this.client.transactionsGet({
-            access_token: accessToken,
-            start_date: threeMonthsAgo.toISOString().split('T')[0]!,
-            end_date: now.toISOString().split('T')[0]!,
-        });
-
-        const transactions = response.data.transactions;
-
-        let totalInflow = 0;
-        let totalOutflow = 0;
-        const categoryBreakdown: Record<string, number> = {};
-
-        for (const tx of transactions) {
-            if (tx.amount < 0) {
-                totalInflow += Math.abs(tx.amount);
-            } else {
-                totalOutflow += tx.amount;
-
-                const category = tx.category?.[0] || 'Other';
-                categoryBreakdown[category] = (categoryBreakdown[category] || 0) + tx.amount;
-            }
+    /**
+     * All transactions of the period, fetched page by page
+     */
+    private async getTransactions(accessToken: string, period: { start: Date; end: Date }): Promise<BankTransaction[]> {
+        const transactions: BankTransaction[] = [];
+        let total = Infinity;
+
+        while (transactions.length < total) {
+            const response = await this.client.transactionsGet({
+                access_token: accessToken,
+                start_date: period.start.toISOString().split('T')[0]!,
+                end_date: period.end.toISOString().split('T')[0]!,
+                options: { count: TRANSACTIONS_PAGE_SIZE, offset: transactions.length },
+            });
+            total = response.data.total_transactions;
+            if (response.data.transactions.length === 0) break;
+
+            // Plaid amounts are positive for money leaving the account
+            transactions.push(...response.data.transactions.map(tx => ({
+                accountId: tx.account_id,
+                date: new Date(tx.date),
+                amount: -tx.amount,
+                currency: tx.iso_currency_code ?? DEFAULT_CURRENCY,
+                description: tx.name,
+                category: tx.category?.[0] || 'Other',
+            })));
         }
 
-        return {
-            period: { start: threeMonthsAgo, end: now },
-            totalInflow,
-            totalOutflow,
-            categoryBreakdown,
-        };
-    }
-
-    private calculateCashFlow(
-        transactions: TransactionSummary,
-        accounts: BankAccount[]
-    ): CashFlowMetrics {
-        const monthsInPeriod = 3;
-        const avgMonthlyInflow = transactions.totalInflow / monthsInPeriod;
-        const avgMonthlyOutflow = transactions.totalOutflow / monthsInPeriod;
-
-        const burnRate = Math.max(0, avgMonthlyOutflow - avgMonthlyInflow);
-
-        const totalCash = accounts
-            .filter(a => a.type !== 'credit')
-            .reduce((sum, a) => sum + a.currentBalance, 0);
-
-        const runwayMonths = burnRate > 0 ? totalCash / burnRate : 99;
-
-        return {
-            averageMonthlyInflow: avgMonthlyInflow,
-            averageMonthlyOutflow: avgMonthlyOutflow,
-            burnRate,
-            runwayMonths: Math.min(99, runwayMonths),
-        };
+        return transactions;
     }
 }
@@ -0,0 +1,568 @@
+/**
+ * SAF-T Parser
+ *
+ * Reads a SAF-T Financial audit file (the standard XML bookkeeping export in
+ * Denmark, Norway and other EU countries) into general ledger totals, and
+ * derives a profit and loss statement and a balance sheet per fiscal year
+ * from them. The figures come straight from the books, so these documents
+ * rank above spreadsheets and PDFs in trust.
+ *
+ * Per account the file holds opening and closing balances and, usually, the
+ * posted journal lines:
+ *
+ *   - with journal lines: P&L = the year's postings, balance = opening
+ *     balance plus every posting up to the year's end
+ *   - without: the closing balances, for the year the selection ends in
+ *
+ * Each account is mapped to a ledger category by its Norwegian standard
+ * account (NS 4102), or else by its description, within the section its
+ * AccountType names when it names one. Accounts that cannot be mapped are
+ * reported as validation errors and left out of the statements.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { v4 as uuid } from 'uuid';
+import type { DocumentType, ParsedDocument } from '../types/index.js';
+import { normalizeDocument, type StatementKind } from './statement-normalizer.js';
+import { hashContent } from './document-merger.js';
+import { xmlElement, xmlElements, xmlText } from '../utils/xml.js';
+
+/** Ledger-grade data: every figure is the sum of the posted entries */
+const SAFT_TRUST_SCORE = 0.9;
+
+/** Difference tolerated between a derived and a stated closing balance */
+const BALANCE_TOLERANCE = 1;
+
+const SAFT_EXTENSIONS = /\.xml$/i;
+const SAFT_MIME_TYPES = new Set(['application/xml', 'text/xml']);
+
+/** Elements that repeat, and must be read as arrays even when only one is present */
+const REPEATED_ELEMENTS = new Set(['Account', 'Journal', 'Transaction', 'Line']);
+
+// ============================================
+// LEDGER CATEGORIES
+// ============================================
+
+const PROFIT_AND_LOSS_CATEGORIES = [
+    'revenue', 'costOfGoodsSold', 'staffCosts', 'otherOperatingExpenses', 'depreciation',
+    'financialIncome', 'financialExpenses', 'tax',
+] as const;
+
+const BALANCE_SHEET_CATEGORIES = [
+    'intangibleAssets', 'propertyPlantEquipment', 'financialFixedAssets', 'inventory', 'receivables',
+    'otherCurrentAssets', 'cash', 'shareCapital', 'otherEquity', 'provisions', 'longTermDebt',
+    'shortTermDebt', 'payables', 'otherCurrentLiabilities',
+] as const;
+
+type ProfitAndLossCategory = (typeof PROFIT_AND_LOSS_CATEGORIES)[number];
+type BalanceSheetCategory = (typeof BALANCE_SHEET_CATEGORIES)[number];
+type LedgerCategory = ProfitAndLossCategory | BalanceSheetCategory;
+
+/**
+ * Year-end transfers of the result (NS 4102 88xx–89xx): left out, as they
+ * would cancel the year's result
+ */
+const APPROPRIATION = 'appropriation';
+
+const ASSET_CATEGORIES = new Set<LedgerCategory>([
+    'intangibleAssets', 'propertyPlantEquipment', 'financialFixedAssets', 'inventory', 'receivables',
+    'otherCurrentAssets', 'cash',
+]);
+const PROFIT_AND_LOSS_SET = new Set<LedgerCategory>(PROFIT_AND_LOSS_CATEGORIES);
+const INCOME_CATEGORIES = new Set<LedgerCategory>(['revenue', 'financialIncome']);
+
+/**
+ * NS 4102 standard account classes by their first two digits
+ */
+const NS4102_CLASSES: Array<[from: number, to: number, category: LedgerCategory | typeof APPROPRIATION]> = [
+    [10, 10, 'intangibleAssets'],
+    [11, 12, 'propertyPlantEquipment'],
+    [13, 13, 'financialFixedAssets'],
+    [14, 14, 'inventory'],
+    [15, 15, 'receivables'],
+    [16, 18, 'otherCurrentAssets'],
+    [19, 19, 'cash'],
+    [20, 20, 'otherEquity'],
+    [21, 21, 'provisions'],
+    [22, 22, 'longTermDebt'],
+    [23, 23, 'shortTermDebt'],
+    [24, 24, 'payables'],
+    [25, 29, 'otherCurrentLiabilities'],
+    [30, 39, 'revenue'],
+    [40, 49, 'costOfGoodsSold'],
+    [50, 59, 'staffCosts'],
+    [60, 60, 'depreciation'],
+    [61, 79, 'otherOperatingExpenses'],
+    [80, 80, 'financialIncome'],
+    [81, 82, 'financialExpenses'],
+    [83, 87, 'tax'],
+    [88, 89, APPROPRIATION],
+];
+
+/**
+ * Account descriptions (Danish, Norwegian, English) by category. Order
+ * matters: "Skyldig løn" is a liability before it is a staff cost, and
+ * "Akkumulerede afskrivninger, inventar" an asset before it is depreciation.
+ */
+const DESCRIPTION_RULES: Array<[LedgerCategory, RegExp]> = [
+    ['propertyPlantEquipment', /akkumulere|accumulated/],
+    ['otherCurrentLiabilities', /skyldig|accrued|moms|\bvat\b|\bmva\b|a-skat|am-bidrag|skattetræk|skattetrekk|feriepengeforpligtelse|modtagne deposita|deposits received/],
+    ['financialIncome', /renteindtægt|renteinntekt|interest income|finansielle indtægter|finansinntekt|kursgevinst|udbytte fra/],
+    ['financialExpenses', /rente|interest|finansielle omkostninger|finansielle udgifter|finanskostnad|kurstab|bankgebyr|bank charges/],
+    ['tax', /skat af årets|årets skat|selskabsskat|skattekostnad|income tax|tax expense|regulering af udskudt skat|ændring i udskudt skat/],
+    ['provisions', /hensættelse|udskudt skat|deferred tax|provision|avsetning|utsatt skatt/],
+    ['shortTermDebt', /kassekredit|overtræk|overdraft|driftskreditt/],
+    ['longTermDebt', /realkredit|prioritetsgæld|mortgage|langfristet|long-term|langsiktig|banklån|bank loan|\blån\b|\bloan|leasingforpligtelse/],
+    ['shareCapital', /selskabskapital|anpartskapital|aktiekapital|share capital|aksjekapital/],
+    ['otherEquity', /egenkapital|overført resultat|årets resultat|retained earnings|reserve|equity|opptjent|foreslået udbytte/],
+    ['payables', /leverandør|kreditor|payable|supplier/],
+    ['receivables', /debitor|tilgodehavende|receivable|kundefordring|fordring/],
+    ['costOfGoodsSold', /vareforbrug|varekøb|kostpris|fremmed arbejde|underleverand|cost of (?:goods|sales)|purchases|varekostnad|varekjøp|materialer|direct cost/],
+    ['otherOperatingExpenses', /salgsomkostning|salgsfremme|selling expense/],
+    ['revenue', /salg|omsætning|revenue|sales|turnover|inntekt|indtægt|income|honorar|fees/],
+    ['staffCosts', /løn|gage|personale|pension|feriepenge|\batp\b|wage|salar|payroll|staff|employee|arbejdsgiver|arbeidsgiver|sociale/],
+    ['depreciation', /afskrivning|nedskrivning|avskrivning|depreciation|amorti[sz]ation|impairment/],
+    ['otherOperatingExpenses', /udgift|omkostning|kostnad|reparation|vedligehold|leje|leasing|forsikring|kontor|reklame|marketing|rejse|transport|telefon|revision|konsulent|repair|maintenance|\brent\b|expense|insurance|cost/],
+    ['cash', /bank|kasse|likvid|cash|kontant|giro/],
+    ['inventory', /varelager|varebeholdning|lagerbeholdning|inventory|\bstock\b|beholdning/],
+    ['otherCurrentAssets', /forudbetal|periodeafgrænsning|prepaid|prepayment|forskudd/],
+    ['intangibleAssets', /goodwill|immateriel|udviklingsprojekt|intangible|software|patent|rettigheder/],
+    ['financialFixedAssets', /kapitalandel|deposita|værdipapir|securities|investment|aksjer i/],
+    ['propertyPlantEquipment', /grund|bygning|ejendom|inventar|driftsmidler|maskin|equipment|machinery|building|\bland\b|property|vehicle|\bbil(?:er)?\b|indretning|tomter/],
+];
+
+/** What an AccountType says about the account's section, for file variants that set one */
+const ACCOUNT_TYPE_SECTIONS: Array<[RegExp, 'asset' | 'liability' | 'equity' | 'income' | 'expense']> = [
+    [/^(asset|aktiv)/i, 'asset'],
+    [/^(liabilit|passiv|gæld|gjeld)/i, 'liability'],
+    [/^(equity|egenkapital)/i, 'equity'],
+    [/^(income|revenue|indtægt|inntekt)/i, 'income'],
+    [/^(expense|cost|udgift|omkostning|kostnad)/i, 'expense'],
+];
+
+/** Category for an account whose section is known but whose description says nothing more */
+const SECTION_DEFAULTS = {
+    asset: 'otherCurrentAssets',
+    liability: 'otherCurrentLiabilities',
+    equity: 'otherEquity',
+    income: 'revenue',
+    expense: 'otherOperatingExpenses',
+} as const;
+
+// ============================================
+// TYPES
+// ============================================
+
+interface LedgerAccount {
+    id: string;
+    description: string;
+    category: LedgerCategory | typeof APPROPRIATION | null;
+    /** Net balances, debit positive */
+    opening: number;
+    closing?: number;
+}
+
+interface AuditFileHeader {
+    companyName?: string;
+    registrationNumber?: string;
+    country?: string;
+    currency?: string;
+    software?: string;
+    periodStart?: string;
+    periodEnd?: string;
+    /** Fiscal year the selection ends in */
+    endYear?: string;
+}
+
+/** Net debit movement per account, per fiscal year */
+type Movements = Map<string, Map<string, number>>;
+
+/**
+ * Whether an upload is an XML file this parser reads
+ */
+export function isSaftFile(filename: string, mimetype: string): boolean {
+    return SAFT_EXTENSIONS.test(filename) || SAFT_MIME_TYPES.has(mimetype);
+}
+
+export class SaftParser {
+    /**
+     * Parse a SAF-T Financial file into a profit and loss statement and a
+     * balance sheet, each year-keyed and normalized into the canonical schema
+     */
+    async parse(buffer: Buffer, filename: string): Promise<ParsedDocument[]> {
+        const xml = new XMLParser({
+            ignoreAttributes: true,
+            removeNSPrefix: true,
+            parseTagValue: false,
+            isArray: name => REPEATED_ELEMENTS.has(name),
+        }).parse(buffer.toString('utf-8'));
+
+        const auditFile = xmlElement(xml.AuditFile);
+        if (!auditFile) {
+            throw new Error(`${filename} is not a SAF-T audit file`);
+        }
+
+        const header = readHeader(xmlElement(auditFile.Header) ?? {});
+        const accounts = readAccounts(xmlElement(xmlElement(auditFile.MasterFiles)?.GeneralLedgerAccounts), header);
+        const movements = readMovements(xmlElement(auditFile.GeneralLedgerEntries));
+        const errors: string[] = [];
+
+        const years = movements.size > 0 ? [...movements.keys()].sort() : header.endYear ? [header.endYear] : [];
+        if (years.length === 0) {
+            throw new Error(`${filename} names no fiscal year and has no journal entries`);
+        }
+
+        for (const account of accounts.values()) {
+            if (account.category === null) {
+                const balance = cumulativeBalance(account, movements, years[years.length - 1]!);
+                errors.push(`Account ${account.id} "${account.description}" (balance ${balance}) could not be mapped and was left out`);
+            }
+        }
+        if (movements.size > 0) errors.push(...checkClosingBalances(accounts, movements, years[years.length - 1]!));
+
+        const totals = new Map(years.map(year => [year, sumByCategory(accounts, movements, year)]));
+        const contentHash = hashContent(buffer);
+        const rawText = describeLedger(header, accounts, movements, years[years.length - 1]!);
+
+        const statements: Array<[StatementKind, Record<string, unknown>]> = [
+            ['profit_and_loss', Object.fromEntries(years.map(year => [year, profitAndLoss(totals.get(year)!, header.currency)]))],
+            ['balance_sheet', Object.fromEntries(years.map(year =>
+                [year, balanceSheet(totals.get(year)!, unclosedResult(accounts, movements, year), header.currency)]
+            ))],
+        ];
+
+        return statements
+            .filter(([, data]) => Object.values(data).some(period => Object.keys(period as object).length > 1))
+            .map(([type, data]) => {
+                const document = normalizeDocument(this.document(type, filename, data, rawText, header, accounts));
+                const validationErrors = [...(document.validationErrors ?? []), ...errors];
+                return {
+                    ...document,
+                    confidence: validationErrors.length === 0 ? 0.98 : 0.9,
+                    validationErrors,
+                    contentHash,
+                };
+            });
+    }
+
+    private document(
+        type: DocumentType,
+        filename: string,
+        data: Record<string, unknown>,
+        rawText: string,
+        header: AuditFileHeader,
+        accounts: Map<string, LedgerAccount>,
+    ): ParsedDocument {
+        const section = type === 'profit_and_loss' ? PROFIT_AND_LOSS_SET : new Set<LedgerCategory>(BALANCE_SHEET_CATEGORIES);
+        const accountsByCategory: Record<string, string[]> = {};
+        for (const account of accounts.values()) {
+            if (account.category === null || account.category === APPROPRIATION || !section.has(account.category)) continue;
+            (accountsByCategory[account.category] ??= []).push(account.id);
+        }
+
+        return {
+            id: uuid(),
+            type,
+            filename,
+            parsedAt: new Date(),
+            confidence: 0.98,
+            data,
+            rawText,
+            currency: header.currency,
+            trustScore: SAFT_TRUST_SCORE,
+            provenance: {
+                format: 'saf-t',
+                software: header.software,
+                companyName: header.companyName,
+                registrationNumber: header.registrationNumber,
+                periodStart: header.periodStart,
+                periodEnd: header.periodEnd,
+                accounts: accountsByCategory,
+            },
+        };
+    }
+}
+
+// ============================================
+// READING
+// ============================================
+
+function readHeader(header: Record<string, unknown>): AuditFileHeader {
+    const company = xmlElement(header.Company) ?? {};
+    const selection = xmlElement(header.SelectionCriteria) ?? {};
+    const month = (year: unknown, value: unknown) =>
+        xmlText(year) && xmlText(value) ? `${xmlText(year)}-${xmlText(value)!.padStart(2, '0')}` : undefined;
+
+    const periodStart = xmlText(selection.SelectionStartDate) ?? month(selection.PeriodStartYear, selection.PeriodStart);
+    const periodEnd = xmlText(selection.SelectionEndDate) ?? month(selection.PeriodEndYear, selection.PeriodEnd);
+
+    return {
+        companyName: xmlText(company.Name),
+        registrationNumber: xmlText(company.RegistrationNumber),
+        country: xmlText(header.AuditFileCountry)?.toUpperCase(),
+        currency: xmlText(header.DefaultCurrencyCode)?.toUpperCase(),
+        software: [xmlText(header.SoftwareCompanyName), xmlText(header.SoftwareID), xmlText(header.SoftwareVersion)]
+            .filter(Boolean).join(' ') || undefined,
+        periodStart,
+        periodEnd,
+        endYear: periodEnd?.slice(0, 4) ?? xmlText(header.AuditFileDateCreated)?.slice(0, 4),
+    };
+}
+
+function readAccounts(ledger: Record<string, unknown> | undefined, header: AuditFileHeader): Map<string, LedgerAccount> {
+    const accounts = new Map<string, LedgerAccount>();
+    for (const entry of xmlElements(ledger?.Account)) {
+        const id = xmlText(entry.AccountID);
+        if (!id) continue;
+        const description = xmlText(entry.AccountDescription) ?? '';
+        const closing = readBalance(entry.ClosingDebitBalance, entry.ClosingCreditBalance);
+
+        accounts.set(id, {
+            id,
+            description,
+            category: classifyAccount(entry, description, header),
+            opening: readBalance(entry.OpeningDebitBalance, entry.OpeningCreditBalance) ?? 0,
+            closing,
+        });
+    }
+    return accounts;
+}
+
+/**
+ * Net debit postings per account and fiscal year. The year is the line's
+ * PeriodYear when the file states one, else the year of its date.
+ */
+function readMovements(entries: Record<string, unknown> | undefined): Movements {
+    const movements: Movements = new Map();
+    for (const journal of xmlElements(entries?.Journal)) {
+        for (const transaction of xmlElements(journal.Transaction)) {
+            const year = xmlText(transaction.PeriodYear)
+                ?? (xmlText(transaction.TransactionDate) ?? xmlText(transaction.GLPostingDate))?.slice(0, 4);
+            if (!year) continue;
+
+            const byAccount = movements.get(year) ?? new Map<string, number>();
+            movements.set(year, byAccount);
+
+            for (const line of xmlElements(transaction.Line)) {
+                const account = xmlText(line.AccountID);
+                if (!account) continue;
+                const amount = (readMoney(line.DebitAmount) ?? 0) - (readMoney(line.CreditAmount) ?? 0);
+                byAccount.set(account, (byAccount.get(account) ?? 0) + amount);
+            }
+        }
+    }
+    return movements;
+}
+
+function classifyAccount(entry: Record<string, unknown>, description: string, header: AuditFileHeader): LedgerAccount['category'] {
+    const standardAccount = xmlText(entry.StandardAccountID) ?? (header.country === 'NO' ? xmlText(entry.AccountID) : undefined);
+    if (header.country === 'NO' && standardAccount && /^\d{4}/.test(standardAccount)) {
+        const accountClass = Number(standardAccount.slice(0, 2));
+        const match = NS4102_CLASSES.find(([from, to]) => accountClass >= from && accountClass <= to);
+        if (match) {
+            // Share capital is the first group of the equity class
+            return accountClass === 20 && Number(standardAccount.slice(0, 4)) < 2020 ? 'shareCapital' : match[2];
+        }
+    }
+
+    const accountType = xmlText(entry.AccountType) ?? xmlText(entry.GroupingCategory) ?? '';
+    const section = ACCOUNT_TYPE_SECTIONS.find(([pattern]) => pattern.test(accountType))?.[1];
+    const lower = description.toLowerCase();
+
+    for (const [category, pattern] of DESCRIPTION_RULES) {
+        if (pattern.test(lower) && (!section || inSection(category, section))) return category;
+    }
+    return section ? SECTION_DEFAULTS[section] : null;
+}
+
+// ============================================
+// STATEMENTS
+// ============================================
+
+/**
+ * Balance of an account at the end of a fiscal year, debit positive. P&L
+ * accounts hold only that year's postings; balance accounts carry forward.
+ */
+function balanceAt(account: LedgerAccount, movements: Movements, year: string): number {
+    if (movements.size === 0 || !isProfitAndLoss(account)) return cumulativeBalance(account, movements, year);
+
+    const first = [...movements.keys()].sort()[0];
+    return round((year === first ? account.opening : 0) + (movements.get(year)?.get(account.id) ?? 0));
+}
+
+/**
+ * Opening balance plus every posting up to a fiscal year's end
+ */
+function cumulativeBalance(account: LedgerAccount, movements: Movements, year: string): number {
+    if (movements.size === 0) return account.closing ?? account.opening;
+
+    let balance = account.opening;
+    for (const [y, byAccount] of movements) {
+        if (y <= year) balance += byAccount.get(account.id) ?? 0;
+    }
+    return round(balance);
+}
+
+/**
+ * Result posted to the P&L accounts and not yet closed to equity by a
+ * year's end, as a credit: the year's result in an export taken before
+ * closing, plus any earlier year in the file that was never closed
+ */
+function unclosedResult(accounts: Map<string, LedgerAccount>, movements: Movements, year: string): number {
+    let result = 0;
+    for (const account of accounts.values()) {
+        if (isProfitAndLoss(account) || account.category === APPROPRIATION) {
+            result -= cumulativeBalance(account, movements, year);
+        }
+    }
+    return round(result);
+}
+
+/**
+ * Totals per category at a year's end, each in its natural sign: assets and
+ * expenses as debits, income, liabilities and equity as credits
+ */
+function sumByCategory(accounts: Map<string, LedgerAccount>, movements: Movements, year: string): Map<LedgerCategory, number> {
+    const totals = new Map<LedgerCategory, number>();
+    for (const account of accounts.values()) {
+        if (account.category === null || account.category === APPROPRIATION) continue;
+        const balance = balanceAt(account, movements, year);
+        const natural = isDebitCategory(account.category) ? balance : -balance;
+        totals.set(account.category, round((totals.get(account.category) ?? 0) + natural));
+    }
+    return totals;
+}
+
+function profitAndLoss(totals: Map<LedgerCategory, number>, currency: string | undefined): Record<string, unknown> {
+    const has = (...categories: ProfitAndLossCategory[]) => categories.some(c => totals.has(c));
+    const get = (category: ProfitAndLossCategory) => totals.get(category) ?? 0;
+    const entry: Record<string, unknown> = currency ? { currency } : {};
+    if (!has(...PROFIT_AND_LOSS_CATEGORIES)) return entry;
+
+    const grossProfit = get('revenue') - get('costOfGoodsSold');
+    const operatingExpenses = get('staffCosts') + get('otherOperatingExpenses');
+    const ebitda = grossProfit - operatingExpenses;
+    const ebit = ebitda - get('depreciation');
+    const profitBeforeTax = ebit + get('financialIncome') - get('financialExpenses');
+
+    if (has('revenue')) entry.revenue = get('revenue');
+    if (has('costOfGoodsSold')) entry.costOfGoodsSold = get('costOfGoodsSold');
+    entry.grossProfit = round(grossProfit);
+    if (has('staffCosts', 'otherOperatingExpenses')) entry.operatingExpenses = round(operatingExpenses);
+    entry.ebitda = round(ebitda);
+    if (has('depreciation')) entry.depreciationAndAmortization = get('depreciation');
+    entry.ebit = round(ebit);
+    if (has('financialExpenses')) entry.interestExpense = get('financialExpenses');
+    entry.profitBeforeTax = round(profitBeforeTax);
+    if (has('tax')) entry.taxExpense = get('tax');
+    entry.netIncome = round(profitBeforeTax - get('tax'));
+    return entry;
+}
+
+/**
+ * The balance sheet at a year's end, with the result not yet closed to
+ * equity added to retained earnings
+ */
+function balanceSheet(totals: Map<LedgerCategory, number>, unclosed: number, currency: string | undefined): Record<string, unknown> {
+    const has = (...categories: BalanceSheetCategory[]) => categories.some(c => totals.has(c));
+    const get = (category: BalanceSheetCategory) => totals.get(category) ?? 0;
+    const entry: Record<string, unknown> = currency ? { currency } : {};
+    if (!has(...BALANCE_SHEET_CATEGORIES)) return entry;
+
+    const fixedAssets = get('intangibleAssets') + get('propertyPlantEquipment') + get('financialFixedAssets');
+    const currentAssets = get('inventory') + get('receivables') + get('otherCurrentAssets') + get('cash');
+    const retainedEarnings = get('otherEquity') + unclosed;
+    const currentLiabilities = get('shortTermDebt') + get('payables') + get('otherCurrentLiabilities');
+
+    if (has('cash')) entry.cash = get('cash');
+    if (has('receivables')) entry.receivables = get('receivables');
+    if (has('inventory')) entry.inventory = get('inventory');
+    entry.currentAssets = round(currentAssets);
+    if (has('propertyPlantEquipment')) entry.propertyPlantEquipment = get('propertyPlantEquipment');
+    if (has('intangibleAssets')) entry.intangibleAssets = get('intangibleAssets');
+    entry.fixedAssets = round(fixedAssets);
+    entry.totalAssets = round(fixedAssets + currentAssets);
+    if (has('payables')) entry.payables = get('payables');
+    if (has('shortTermDebt')) entry.shortTermDebt = get('shortTermDebt');
+    entry.currentLiabilities = round(currentLiabilities);
+    if (has('longTermDebt')) entry.longTermDebt = get('longTermDebt');
+    entry.totalLiabilities = round(currentLiabilities + get('longTermDebt') + get('provisions'));
+    if (has('shareCapital')) entry.shareCapital = get('shareCapital');
+    entry.retainedEarnings = round(retainedEarnings);
+    entry.equity = round(get('shareCapital') + retainedEarnings);
+    return entry;
+}
+
+/**
+ * Closing balances stated in the file that the opening balances and journal
+ * lines do not add up to, meaning the export is incomplete
+ */
+function checkClosingBalances(accounts: Map<string, LedgerAccount>, movements: Movements, lastYear: string): string[] {
+    const errors: string[] = [];
+    for (const account of accounts.values()) {
+        if (account.closing === undefined) continue;
+        const derived = cumulativeBalance(account, movements, lastYear);
+        if (Math.abs(derived - account.closing) > BALANCE_TOLERANCE) {
+            errors.push(`Account ${account.id} "${account.description}": journal lines add up to ${derived}, but the closing balance is ${account.closing}`);
+        }
+    }
+    return errors;
+}
+
+/**
+ * Trial balance as text, for embedding alongside the statements
+ */
+function describeLedger(header: AuditFileHeader, accounts: Map<string, LedgerAccount>, movements: Movements, year: string): string {
+    const title = [header.companyName, header.registrationNumber && `(${header.registrationNumber})`].filter(Boolean).join(' ');
+    const lines = [
+        `SAF-T general ledger${title ? `: ${title}` : ''}`,
+        `Period: ${header.periodStart ?? '?'} – ${header.periodEnd ?? '?'}${header.currency ? ` (${header.currency})` : ''}`,
+    ];
+    for (const account of accounts.values()) {
+        lines.push(`${account.id} ${account.description}: ${balanceAt(account, movements, year)}`);
+    }
+    return lines.join('\n');
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function inSection(category: LedgerCategory, section: keyof typeof SECTION_DEFAULTS): boolean {
+    switch (section) {
+        case 'asset': return ASSET_CATEGORIES.has(category);
+        case 'liability': return !ASSET_CATEGORIES.has(category) && !PROFIT_AND_LOSS_SET.has(category)
+            && category !== 'shareCapital' && category !== 'otherEquity';
+        case 'equity': return category === 'shareCapital' || category === 'otherEquity';
+        case 'income': return INCOME_CATEGORIES.has(category);
+        case 'expense': return PROFIT_AND_LOSS_SET.has(category) && !INCOME_CATEGORIES.has(category);
+    }
+}
+
+function isProfitAndLoss(account: LedgerAccount): boolean {
+    return account.category !== null && account.category !== APPROPRIATION && PROFIT_AND_LOSS_SET.has(account.category);
+}
+
+function isDebitCategory(category: LedgerCategory): boolean {
+    return ASSET_CATEGORIES.has(category) || (PROFIT_AND_LOSS_SET.has(category) && !INCOME_CATEGORIES.has(category));
+}
+
+/** Net debit balance from a debit/credit pair, undefined when neither is stated */
+function readBalance(debit: unknown, credit: unknown): number | undefined {
+    const d = readMoney(debit);
+    const c = readMoney(credit);
+    if (d === undefined && c === undefined) return undefined;
+    return round((d ?? 0) - (c ?? 0));
+}
+
+/** An amount given directly or, as in DebitAmount, under an Amount element */
+function readMoney(value: unknown): number | undefined {
+    const raw = xmlText(xmlElement(value)?.Amount ?? value);
+    if (raw === undefined) return undefined;
+    const amount = Number(raw);
+    return Number.isFinite(amount) ? amount : undefined;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,474 @@
+/**
+ * Statement Normalizer
+ *
+ * Maps the free-form JSON extracted from a financial statement onto the
+ * canonical statement schemas in validation/schemas.ts:
+ *
+ *   - line-item synonyms and Danish/English labels become canonical fields
+ *     ("Nettoomsætning", "Total revenue", "sales" → revenue)
+ *   - amounts stated in thousands or millions ("t.kr.", "DKK '000", "mio.")
+ *     are scaled to whole units, and expense lines are made positive
+ *   - periods are keyed by fiscal year, or 'latest' when none is named
+ *
+ * Problems are reported as validation errors rather than thrown, so a
+ * partially readable statement still reaches the agents.
+ */
+
+import type { z } from 'zod';
+import type { ParsedDocument } from '../types/index.js';
+import {
+    BalanceSheetPeriodSchema,
+    BalanceSheetStatementSchema,
+    CashFlowPeriodSchema,
+    CashFlowStatementSchema,
+    ProfitAndLossPeriodSchema,
+    ProfitAndLossStatementSchema,
+} from '../validation/schemas.js';
+import { getSortedYearKeys } from '../utils/document-extraction.js';
+import { isSupportedCurrency } from '../core/currency.js';
+
+// ============================================
+// STATEMENT DEFINITIONS
+// ============================================
+
+const STATEMENT_SCHEMAS = {
+    profit_and_loss: { period: ProfitAndLossPeriodSchema, statement: ProfitAndLossStatementSchema },
+    balance_sheet: { period: BalanceSheetPeriodSchema, statement: BalanceSheetStatementSchema },
+    cash_flow_statement: { period: CashFlowPeriodSchema, statement: CashFlowStatementSchema },
+} as const;
+
+export type StatementKind = keyof typeof STATEMENT_SCHEMAS;
+
+type StatementField<K extends StatementKind> =
+    Exclude<keyof z.infer<(typeof STATEMENT_SCHEMAS)[K]['period']>, 'currency'> & string;
+
+const PRINCIPAL_REPAYMENT_LABELS = [
+    'principal repayments', 'debt repayments', 'loan repayments', 'afdrag', 'afdrag på gæld', 'afdrag på lån',
+];
+
+/**
+ * Labels accepted for each canonical field. Matching ignores case, spacing
+ * and punctuation, a leading "total" and a trailing "i alt".
+ */
+const STATEMENT_LABELS: { [K in StatementKind]: Record<StatementField<K>, string[]> } = {
+    profit_and_loss: {
+        revenue: ['revenue', 'sales', 'turnover', 'net sales', 'net revenue', 'operating revenue',
+            'omsætning', 'nettoomsætning', 'salg', 'indtægter'],
+        costOfGoodsSold: ['cost of goods sold', 'COGS', 'cost of sales', 'cost of revenue', 'direct costs',
+            'vareforbrug', 'vareforbrug og fremmed arbejde', 'produktionsomkostninger'],
+        grossProfit: ['gross profit', 'gross result', 'bruttofortjeneste', 'bruttoresultat', 'dækningsbidrag'],
+        operatingExpenses: ['operating expenses', 'opex', 'operating costs', 'driftsomkostninger',
+            'kapacitetsomkostninger'],
+        ebitda: ['EBITDA'],
+        depreciationAndAmortization: ['depreciation and amortization', 'depreciation', 'amortization',
+            'afskrivninger', 'af- og nedskrivninger', 'afskrivninger og nedskrivninger'],
+        ebit: ['EBIT', 'operating income', 'operating profit', 'operating result',
+            'resultat før renter', 'primært resultat', 'driftsresultat', 'resultat af primær drift'],
+        interestExpense: ['interest expense', 'interest', 'finance costs', 'finance expenses', 'financial expenses',
+            'finansielle omkostninger', 'finansielle udgifter', 'renteudgifter', 'renteomkostninger'],
+        profitBeforeTax: ['profit before tax', 'pre-tax income', 'income before tax', 'earnings before tax', 'EBT',
+            'resultat før skat', 'ordinært resultat før skat'],
+        taxExpense: ['tax expense', 'income tax', 'tax', 'taxes', 'skat af årets resultat', 'selskabsskat', 'skat'],
+        netIncome: ['net income', 'net profit', 'profit', 'profit for the year', 'net earnings', 'net result',
+            'årets resultat', 'nettoresultat', 'periodens resultat'],
+        principalRepayments: PRINCIPAL_REPAYMENT_LABELS,
+    },
+    balance_sheet: {
+        cash: ['cash', 'cash and cash equivalents', 'cash and equivalents', 'likvide beholdninger', 'likvider',
+            'kassebeholdning'],
+        receivables: ['receivables', 'accounts receivable', 'trade receivables', 'tilgodehavender',
+            'tilgodehavender fra salg og tjenesteydelser', 'debitorer'],
+        inventory: ['inventory', 'inventories', 'stock', 'varebeholdninger', 'varelager'],
+        currentAssets: ['current assets', 'omsætningsaktiver'],
+        propertyPlantEquipment: ['property plant equipment', 'property, plant and equipment', 'PP&E',
+            'materielle anlægsaktiver'],
+        intangibleAssets: ['intangible assets', 'intangibles', 'immaterielle anlægsaktiver'],
+        fixedAssets: ['fixed assets', 'non-current assets', 'anlægsaktiver'],
+        totalAssets: ['assets', 'aktiver', 'balance sum', 'balancesum'],
+        payables: ['payables', 'accounts payable', 'trade payables', 'leverandører af varer og tjenesteydelser',
+            'leverandørgæld', 'kreditorer'],
+        shortTermDebt: ['short-term debt', 'short-term borrowings', 'bank overdraft', 'kassekredit'],
+        currentLiabilities: ['current liabilities', 'short-term liabilities', 'kortfristede gældsforpligtelser',
+            'kortfristet gæld'],
+        longTermDebt: ['long-term debt', 'long-term liabilities', 'long-term borrowings', 'non-current liabilities',
+            'langfristede gældsforpligtelser', 'langfristet gæld'],
+        totalLiabilities: ['liabilities', 'gældsforpligtelser', 'gæld'],
+        shareCapital: ['share capital', 'common stock', 'selskabskapital', 'aktiekapital', 'anpartskapital'],
+        retainedEarnings: ['retained earnings', 'overført resultat'],
+        equity: ['equity', 'shareholders equity', 'stockholders equity', 'egenkapital'],
+    },
+    cash_flow_statement: {
+        operatingCashFlow: ['operating cash flow', 'cash flow from operating activities', 'cash flow from operations',
+            'cash from operations', 'net cash from operating activities', 'pengestrømme fra driftsaktivitet',
+            'pengestrømme fra drift'],
+        investingCashFlow: ['investing cash flow', 'cash flow from investing activities',
+            'net cash used in investing activities', 'pengestrømme fra investeringsaktivitet'],
+        financingCashFlow: ['financing cash flow', 'cash flow from financing activities',
+            'net cash from financing activities', 'pengestrømme fra finansieringsaktivitet'],
+        capitalExpenditure: ['capital expenditure', 'capex', 'purchase of property, plant and equipment',
+            'køb af materielle anlægsaktiver'],
+        principalRepayments: PRINCIPAL_REPAYMENT_LABELS,
+        freeCashFlow: ['free cash flow', 'FCF', 'frit cash flow'],
+        netChangeInCash: ['net change in cash', 'change in cash', 'net increase in cash', 'ændring i likvider',
+            'ændring i likvide beholdninger', 'periodens pengestrøm'],
+    },
+};
+
+/** Fields reported as (negative) costs in many statements but stored as positive amounts */
+const EXPENSE_FIELDS = new Set([
+    'costOfGoodsSold', 'operatingExpenses', 'depreciationAndAmortization', 'interestExpense', 'taxExpense',
+    'principalRepayments', 'capitalExpenditure',
+]);
+
+/**
+ * Subtotals that must reconcile with their parts (within 1%)
+ */
+const RECONCILIATIONS: Record<StatementKind, Array<{ total: string; parts: Array<[field: string, sign: 1 | -1]> }>> = {
+    profit_and_loss: [
+        { total: 'grossProfit', parts: [['revenue', 1], ['costOfGoodsSold', -1]] },
+    ],
+    balance_sheet: [
+        { total: 'totalAssets', parts: [['totalLiabilities', 1], ['equity', 1]] },
+    ],
+    cash_flow_statement: [
+        { total: 'netChangeInCash', parts: [['operatingCashFlow', 1], ['investingCashFlow', 1], ['financingCashFlow', 1]] },
+    ],
+};
+
+// ============================================
+// METADATA LABELS
+// ============================================
+
+const CURRENCY_LABELS = new Set(['currency', 'valuta']);
+const UNIT_LABELS = new Set(['unit', 'units', 'scale', 'amountsin', 'denomination', 'currencyunit', 'enhed', 'beloebi']);
+const PERIOD_LABELS = new Set([
+    'period', 'periodcovered', 'reportingperiod', 'periodend', 'year', 'fiscalyear', 'date', 'asof',
+    'periode', 'regnskabsaar', 'aar',
+]);
+
+/** Child labels that mean "the parent's total", e.g. { assets: { total: 920 } } */
+const TOTAL_LABELS = new Set(['total', 'ialt', 'sum', 'value', 'amount', 'beloeb']);
+
+const SCALE_WORDS: Record<string, number> = {
+    t: 1e3, k: 1e3, '000': 1e3, thousand: 1e3, thousands: 1e3, tusind: 1e3, tusinde: 1e3,
+    m: 1e6, mn: 1e6, mio: 1e6, mill: 1e6, million: 1e6, millions: 1e6,
+    bn: 1e9, mia: 1e9, mrd: 1e9, billion: 1e9, billions: 1e9,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP' };
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+export interface StatementNormalization {
+    /** Canonical statement data keyed by period (empty when nothing was recognised) */
+    data: Record<string, Record<string, unknown>>;
+    errors: string[];
+}
+
+interface Unit {
+    currency?: string;
+    scale?: number;
+}
+
+interface Reading {
+    value: number;
+    path: string;
+    /** Scale stated on the label itself, overriding the period's unit */
+    scale?: number;
+}
+
+export function isStatementKind(type: string): type is StatementKind {
+    return Object.prototype.hasOwnProperty.call(STATEMENT_SCHEMAS, type);
+}
+
+/**
+ * Normalize a statement document, recording validation errors on it.
+ * Other document types are returned unchanged.
+ */
+export function normalizeDocument(doc: ParsedDocument): ParsedDocument {
+    if (!isStatementKind(doc.type)) return doc;
+
+    const { data, errors } = normalizeStatement(doc.type, doc.data);
+    const latestPeriod = data[getSortedYearKeys(data)[0] ?? 'latest'];
+
+    return {
+        ...doc,
+        data: Object.keys(data).length > 0 ? data : doc.data,
+        currency: typeof latestPeriod?.currency === 'string' ? latestPeriod.currency : doc.currency,
+        validationErrors: errors,
+    };
+}
+
+/**
+ * Map free-form statement data onto the canonical schema for its kind
+ */
+export function normalizeStatement(kind: StatementKind, raw: Record<string, unknown>): StatementNormalization {
+    const errors: string[] = [];
+    const labels = buildLabelIndex(kind);
+    const readings = new Map<string, Map<string, Reading>>();
+    const periodUnits = new Map<string, Unit>();
+
+    const record = (period: string, field: string, value: unknown, path: string, scale?: number) => {
+        const amount = parseAmount(value);
+        if (amount === undefined) {
+            if (value !== null && value !== '') {
+                errors.push(`${period}.${field}: could not read an amount from ${JSON.stringify(value)} (${path})`);
+            }
+            return;
+        }
+
+        const fields = readings.get(period) ?? new Map<string, Reading>();
+        readings.set(period, fields);
+
+        const existing = fields.get(field);
+        if (!existing) {
+            fields.set(field, { value: amount, path, scale });
+        } else if (Math.abs(existing.value * (existing.scale ?? 1) - amount * (scale ?? 1)) > 0.5) {
+            errors.push(`${period}.${field}: ${existing.path} (${existing.value}) conflicts with ${path} (${amount}); kept the first`);
+        }
+    };
+
+    const collect = (period: string, section: Record<string, unknown>, parentLabel: string | null, path: string) => {
+        for (const [key, value] of Object.entries(section)) {
+            const { label, unit } = parseLabel(key);
+            const childPath = path ? `${path}.${key}` : key;
+            const field = resolveField(labels, label, parentLabel);
+
+            if (isRecord(value)) {
+                const years = getSortedYearKeys(value);
+                if (field && years.length > 0 && years.length === Object.keys(value).length) {
+                    // Field-major layout: { revenue: { "2024": ..., "2023": ... } }
+                    for (const year of years) record(year, field, value[year], `${childPath}.${year}`, unit.scale);
+                } else {
+                    collect(period, value, label, childPath);
+                }
+            } else if (field) {
+                record(period, field, value, childPath, unit.scale);
+            }
+        }
+    };
+
+    const years = getSortedYearKeys(raw);
+    if (years.length > 0) {
+        for (const year of years) {
+            const section = raw[year];
+            if (!isRecord(section)) continue;
+            periodUnits.set(year, readUnit(section));
+            collect(year, section, null, year);
+        }
+    } else {
+        collect(detectPeriod(raw) ?? 'latest', raw, null, '');
+    }
+
+    const documentUnit = readUnit(raw);
+    const fieldOrder = Object.keys(STATEMENT_SCHEMAS[kind].period.shape);
+    const data: Record<string, Record<string, unknown>> = {};
+
+    for (const [period, fields] of readings) {
+        const unit = { ...documentUnit, ...definedOnly(periodUnits.get(period) ?? {}) };
+        const entry: Record<string, unknown> = {};
+        if (unit.currency) entry.currency = unit.currency;
+
+        for (const field of fieldOrder) {
+            const reading = fields.get(field);
+            if (!reading) continue;
+            const amount = roundAmount(reading.value * (reading.scale ?? unit.scale ?? 1));
+            entry[field] = EXPENSE_FIELDS.has(field) ? Math.abs(amount) : amount;
+        }
+        data[period] = entry;
+    }
+
+    if (Object.keys(data).length === 0) {
+        errors.push(`No recognised ${kind} line items`);
+        return { data, errors };
+    }
+
+    const parsed = STATEMENT_SCHEMAS[kind].statement.safeParse(data);
+    if (!parsed.success) {
+        errors.push(...parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`));
+    }
+    errors.push(...checkReconciliations(kind, data));
+
+    return { data, errors };
+}
+
+/**
+ * Canonical line items in the latest period of normalized statement data
+ */
+export function countLineItems(data: Record<string, unknown>): number {
+    const latest = data[getSortedYearKeys(data)[0] ?? 'latest'];
+    if (!isRecord(latest)) return 0;
+    return Object.keys(latest).filter(key => key !== 'currency').length;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function buildLabelIndex(kind: StatementKind): Map<string, string> {
+    const index = new Map<string, string>();
+    for (const [field, labels] of Object.entries(STATEMENT_LABELS[kind]) as Array<[string, string[]]>) {
+        index.set(normalizeLabel(field), field);
+        for (const label of labels) index.set(normalizeLabel(label), field);
+    }
+    return index;
+}
+
+function resolveField(labels: Map<string, string>, label: string, parentLabel: string | null): string | undefined {
+    if (parentLabel && TOTAL_LABELS.has(label)) return labels.get(parentLabel);
+    return labels.get(label)
+        ?? (parentLabel ? labels.get(label + parentLabel) ?? labels.get(parentLabel + label) : undefined);
+}
+
+/**
+ * Fold a label to lowercase ASCII letters and digits, e.g.
+ * "Aktiver i alt" → "aktiver", "totalCurrentAssets" → "currentassets"
+ */
+function normalizeLabel(label: string): string {
+    const folded = label
+        .toLowerCase()
+        .replace(/æ/g, 'ae').replace(/ø/g, 'oe').replace(/å/g, 'aa')
+        .normalize('NFKD')
+        .replace(/[^a-z0-9]/g, '');
+    return folded.replace(/^total(?=.)/, '').replace(/(?<=.)ialt$/, '');
+}
+
+/**
+ * Split a unit stated in parentheses off a label: "Revenue (t.kr.)". A label
+ * naming only a currency ("Revenue (DKK)") is in whole units.
+ */
+function parseLabel(key: string): { label: string; unit: Unit } {
+    const match = key.match(/^(.*?)\s*\(([^)]*)\)\s*$/);
+    if (!match) return { label: normalizeLabel(key), unit: {} };
+
+    const unit = parseUnit(match[2]!);
+    if (unit.currency) unit.scale ??= 1;
+    return { label: normalizeLabel(match[1]!), unit };
+}
+
+/**
+ * Read the currency and scale declared directly on an object
+ */
+function readUnit(obj: Record<string, unknown>): Unit {
+    const unit: Unit = {};
+    for (const [key, value] of Object.entries(obj)) {
+        const label = normalizeLabel(key);
+        if (!CURRENCY_LABELS.has(label) && !UNIT_LABELS.has(label)) continue;
+
+        if (typeof value === 'string') {
+            Object.assign(unit, definedOnly(parseUnit(value)));
+        } else if (typeof value === 'number' && UNIT_LABELS.has(label) && [1, 1e3, 1e6, 1e9].includes(value)) {
+            unit.scale = value;
+        }
+    }
+    return unit;
+}
+
+/**
+ * Parse unit text such as "DKK '000", "t.kr.", "mio. kr." or "USD in millions".
+ * Only currency codes the FX rate tables quote are recognised.
+ */
+function parseUnit(text: string): Unit {
+    const unit: Unit = {};
+    for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+        if (text.includes(symbol)) unit.currency = code;
+    }
+
+    for (const token of text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+        const upper = token.toUpperCase();
+        if (SCALE_WORDS[token]) {
+            unit.scale = SCALE_WORDS[token];
+        } else if (isSupportedCurrency(upper)) {
+            unit.currency = upper;
+        } else if (token === 'kr') {
+            unit.currency ??= 'DKK';
+        } else if (token.length === 4 && SCALE_WORDS[token[0]!] && isSupportedCurrency(upper.slice(1))) {
+            // "TDKK", "MEUR"
+            unit.scale = SCALE_WORDS[token[0]!];
+            unit.currency = upper.slice(1);
+        }
+    }
+    return unit;
+}
+
+/**
+ * The fiscal year a flat statement covers: the last year named in its period field
+ */
+function detectPeriod(raw: Record<string, unknown>): string | undefined {
+    for (const [key, value] of Object.entries(raw)) {
+        if (!PERIOD_LABELS.has(normalizeLabel(key))) continue;
+        if (typeof value !== 'string' && typeof value !== 'number') continue;
+
+        const years = String(value).match(/(?:19|20)\d{2}/g);
+        if (years) return years[years.length - 1];
+    }
+    return undefined;
+}
+
+/**
+ * Read an amount from a number or a formatted string: "1.234.567",
+ * "1,234,567.50", "(12 500)", "-1.234,5"
+ */
+export function parseAmount(value: unknown): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value !== 'string') return undefined;
+
+    const trimmed = value.trim();
+    const negative = /^\(.*\)$/.test(trimmed) || /^[-−–]/.test(trimmed);
+    const digits = trimmed.replace(/[^\d.,]/g, '');
+    if (!/\d/.test(digits)) return undefined;
+
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+    let decimal: string | null = null;
+
+    if (lastDot >= 0 && lastComma >= 0) {
+        decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastDot >= 0 || lastComma >= 0) {
+        // A lone separator followed by exactly three digits groups thousands
+        const separator = lastDot >= 0 ? '.' : ',';
+        const parts = digits.split(separator);
+        if (parts.length === 2 && (parts[1]!.length !== 3 || parts[0] === '0' || parts[0] === '')) {
+            decimal = separator;
+        }
+    }
+
+    const grouping = decimal === '.' ? ',' : decimal === ',' ? '.' : /[.,]/g;
+    const amount = Number(digits.replaceAll(grouping, '').replace(',', '.'));
+    if (!Number.isFinite(amount)) return undefined;
+    return negative ? -amount : amount;
+}
+
+function checkReconciliations(kind: StatementKind, data: Record<string, Record<string, unknown>>): string[] {
+    const errors: string[] = [];
+
+    for (const [period, entry] of Object.entries(data)) {
+        for (const { total, parts } of RECONCILIATIONS[kind]) {
+            const stated = entry[total];
+            const values = parts.map(([field]) => entry[field]);
+            if (typeof stated !== 'number' || values.some(v => typeof v !== 'number')) continue;
+
+            const computed = parts.reduce((sum, [, sign], i) => sum + sign * (values[i] as number), 0);
+            if (Math.abs(stated - computed) > Math.max(1, Math.abs(stated) * 0.01)) {
+                const formula = parts.map(([field, sign], i) => `${i === 0 ? '' : sign > 0 ? ' + ' : ' - '}${field}`).join('');
+                errors.push(`${period}: ${total} (${stated}) does not reconcile with ${formula} (${computed})`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function definedOnly(unit: Unit): Unit {
+    return Object.fromEntries(Object.entries(unit).filter(([, v]) => v !== undefined));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
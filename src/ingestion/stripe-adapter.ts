@@ -2,70 +2,88 @@
  * Stripe Adapter
  * 
  * Fetches and transforms Stripe data into platform format.
+ * Amounts are reported in the account's default currency; prices and
+ * invoices in other currencies are converted at the current FX rate, and
+ * those in a currency the FX tables do not quote are left out of the figures
+ * and listed on the snapshot. Every list is read to the end, page by page.
  */
 
 import Stripe from 'stripe';
-import type { StripeSnapshot, CustomerRevenue, PaymentSummary } from '../types/index.js';
+import type { StripeSnapshot, CustomerRevenue, PaymentSummary, AgingReport } from '../types/index.js';
+import { findFxRate } from '../core/currency.js';
+import { ageInvoices } from './aging-report.js';
+import { analyzeSubscriptionRevenue, type RecurringPeriod } from './subscription-revenue.js';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface StripeAdapterOptions {
+    /** API host to call instead of api.stripe.com, e.g. a local fixture server (STRIPE_API_BASE_URL) */
+    baseUrl?: string;
+    /** The company's own (restricted) key instead of the platform STRIPE_SECRET_KEY */
+    secretKey?: string;
+    /** Connect account to read on behalf of, with the platform key */
+    accountId?: string;
+}
 
 export class StripeAdapter {
     private stripe: Stripe;
 
-    constructor() {
-        const secretKey = process.env.STRIPE_SECRET_KEY;
+    constructor(options: StripeAdapterOptions = {}) {
+        const secretKey = options.secretKey ?? process.env.STRIPE_SECRET_KEY;
         if (!secretKey) {
             throw new Error('STRIPE_SECRET_KEY required');
         }
 
-        this.stripe = new Stripe(secretKey);
+        const baseUrl = options.baseUrl ?? process.env.STRIPE_API_BASE_URL;
+        this.stripe = new Stripe(secretKey, {
+            ...(baseUrl && hostConfig(baseUrl)),
+            ...(options.accountId && { stripeAccount: options.accountId }),
+        });
     }
 
     /**
      * Fetch a complete snapshot of Stripe data
      */
     async fetchSnapshot(): Promise<StripeSnapshot> {
-        const [mrr, customers, paymentHistory] = await Promise.all([
-            this.calculateMRR(),
-            this.getTopCustomers(),
-            this.getPaymentHistory(),
+        const currency = accountCurrency(await this.getAccountCurrency());
+        const [subscriptions, invoices, charges] = await Promise.all([
+            listAll(this.stripe.subscriptions.list({ status: 'all', limit: 100 })),
+            listAll(this.stripe.invoices.list({ limit: 100 })),
+            listAll(this.stripe.charges.list({ limit: 100 })),
         ]);
 
-        const arrGrowthRate = await this.calculateGrowthRate();
-        const churnRate = await this.calculateChurnRate();
+        const customers = this.getTopCustomers(invoices, currency);
+        const { mrrSeries, cohorts } = analyzeSubscriptionRevenue(await this.getRecurringPeriods(invoices, currency));
 
         return {
             fetchedAt: new Date(),
-            mrr,
-            arrGrowthRate,
+            currency: currency.code,
+            mrr: this.calculateMRR(subscriptions, currency),
+            arrGrowthRate: this.calculateGrowthRate(invoices, currency),
             customerCount: customers.length,
-            churnRate,
+            churnRate: this.calculateChurnRate(subscriptions),
             topCustomers: customers,
-            paymentHistory,
+            paymentHistory: this.getPaymentHistory(charges, invoices),
+            receivables: this.getReceivables(invoices, currency),
+            mrrSeries,
+            cohorts,
+            ...(currency.unconverted.size > 0 && { unconvertedCurrencies: Array.from(currency.unconverted) }),
         };
     }
 
-    private async calculateMRR(): Promise<number> {
-        // Fetch all active subscriptions
-        const subscriptions = await this.stripe.subscriptions.list({
-            status: 'active',
-            limit: 100,
-        });
+    private async getAccountCurrency(): Promise<string> {
+        const account = await this.stripe.accounts.retrieve();
+        return (account.default_currency ?? 'usd').toUpperCase();
+    }
 
+    private calculateMRR(subscriptions: Stripe.Subscription[], currency: AccountCurrency): number {
         let mrr = 0;
-        for (const sub of subscriptions.data) {
+        for (const sub of subscriptions.filter(s => s.status === 'active')) {
             for (const item of sub.items.data) {
                 const price = item.price;
                 if (price.recurring) {
-                    const amount = price.unit_amount || 0;
-                    const interval = price.recurring.interval;
-
-                    // Normalize to monthly
-                    if (interval === 'year') {
-                        mrr += amount / 12;
-                    } else if (interval === 'month') {
-                        mrr += amount;
-                    } else if (interval === 'week') {
-                        mrr += amount * 4.33;
-                    }
+                    const amount = currency.convert((price.unit_amount || 0) * (item.quantity ?? 1), price.currency);
+                    if (amount !== undefined) mrr += toMonthly(amount, price.recurring);
                 }
             }
         }
@@ -73,20 +91,18 @@ export class StripeAdapter {
         return mrr / 100; // Convert from cents
     }
 
-    private async getTopCustomers(): Promise<CustomerRevenue[]> {
-        // Fetch recent invoices to calculate customer revenue
-        const invoices = await this.stripe.invoices.list({
-            limit: 100,
-            status: 'paid',
-        });
-
-        // Aggregate by customer
+    private getTopCustomers(invoices: Stripe.Invoice[], currency: AccountCurrency): CustomerRevenue[] {
+        // Paid invoices from the last 3 months give each customer's revenue
+        const threeMonthsAgo = Math.floor(Date.now() / 1000) - (90 * DAY_SECONDS);
         const customerRevenue = new Map<string, { name?: string; total: number }>();
 
-        for (const invoice of invoices.data) {
+        for (const invoice of invoices) {
+            if (invoice.status !== 'paid' || invoice.created < threeMonthsAgo) continue;
+            const amount = currency.convert(invoice.amount_paid, invoice.currency);
+            if (amount === undefined) continue;
             const customerId = invoice.customer as string;
             const existing = customerRevenue.get(customerId) || { total: 0 };
-            existing.total += invoice.amount_paid;
+            existing.total += amount;
             existing.name = invoice.customer_name || undefined;
             customerRevenue.set(customerId, existing);
         }
@@ -108,79 +124,179 @@ export class StripeAdapter {
         return customers;
     }
 
-    private async getPaymentHistory(): Promise<PaymentSummary> {
-        const charges = await this.stripe.charges.list({
-            limit: 100,
-        });
-
-        const successful = charges.data.filter((c: Stripe.Charge) => c.status === 'succeeded');
-        const failed = charges.data.filter((c: Stripe.Charge) => c.status === 'failed');
-        const disputed = charges.data.filter((c: Stripe.Charge) => c.disputed);
+    private getPaymentHistory(charges: Stripe.Charge[], invoices: Stripe.Invoice[]): PaymentSummary {
+        const successful = charges.filter((c: Stripe.Charge) => c.status === 'succeeded');
+        const disputed = charges.filter((c: Stripe.Charge) => c.disputed);
 
         return {
-            successRate: charges.data.length > 0
-                ? successful.length / charges.data.length
+            successRate: charges.length > 0
+                ? successful.length / charges.length
                 : 1,
-            averagePaymentDelay: 0, // Would need invoice data to calculate
-            disputeRate: charges.data.length > 0
-                ? disputed.length / charges.data.length
+            averagePaymentDelay: averagePaymentDelay(invoices.filter(invoice => invoice.status === 'paid')),
+            disputeRate: charges.length > 0
+                ? disputed.length / charges.length
                 : 0,
         };
     }
 
-    private async calculateGrowthRate(): Promise<number> {
+    /**
+     * Open invoices aged by days past their due date (invoices charged
+     * automatically have no due date and count from when they were created)
+     */
+    private getReceivables(invoices: Stripe.Invoice[], currency: AccountCurrency): AgingReport {
+        const now = new Date();
+        const open: Array<{ name: string; dueDate: Date; amount: number }> = [];
+        for (const invoice of invoices) {
+            if (invoice.status !== 'open') continue;
+            const amount = currency.convert(invoice.amount_remaining, invoice.currency);
+            if (amount === undefined) continue;
+            open.push({
+                name: invoice.customer_name || (invoice.customer as string),
+                dueDate: new Date((invoice.due_date ?? invoice.created) * 1000),
+                amount: amount / 100,
+            });
+        }
+
+        return {
+            side: 'receivables',
+            asOf: now.toISOString().slice(0, 10),
+            currency: currency.code,
+            counterparties: ageInvoices(open, now),
+        };
+    }
+
+    /**
+     * The subscription periods billed on paid and open invoices, prorations
+     * left out; invoices with more lines than the list embeds are read in full
+     */
+    private async getRecurringPeriods(invoices: Stripe.Invoice[], currency: AccountCurrency): Promise<RecurringPeriod[]> {
+        const periods: RecurringPeriod[] = [];
+        for (const invoice of invoices) {
+            if ((invoice.status !== 'paid' && invoice.status !== 'open') || !invoice.customer) continue;
+            const lines = invoice.lines.has_more
+                ? await listAll(this.stripe.invoices.listLineItems(invoice.id, { limit: 100 }))
+                : invoice.lines.data;
+
+            for (const line of lines) {
+                const recurring = line.price?.recurring;
+                if (line.type !== 'subscription' || line.proration || !recurring) continue;
+                const amount = currency.convert(line.amount, line.currency);
+                if (amount === undefined) continue;
+                periods.push({
+                    customerId: typeof invoice.customer === 'string' ? invoice.customer : invoice.customer.id,
+                    start: new Date(line.period.start * 1000),
+                    end: new Date(line.period.end * 1000),
+                    monthlyAmount: toMonthly(amount, recurring) / 100,
+                });
+            }
+        }
+        return periods;
+    }
+
+    private calculateGrowthRate(invoices: Stripe.Invoice[], currency: AccountCurrency): number {
         // Compare invoice revenue from the last 90 days vs the prior 90-day period
         const now = Math.floor(Date.now() / 1000);
-        const ninetyDaysAgo = now - (90 * 24 * 60 * 60);
-        const oneEightyDaysAgo = now - (180 * 24 * 60 * 60);
-
-        try {
-            const [recentInvoices, priorInvoices] = await Promise.all([
-                this.stripe.invoices.list({
-                    status: 'paid',
-                    created: { gte: ninetyDaysAgo },
-                    limit: 100,
-                }),
-                this.stripe.invoices.list({
-                    status: 'paid',
-                    created: { gte: oneEightyDaysAgo, lt: ninetyDaysAgo },
-                    limit: 100,
-                }),
-            ]);
-
-            const recentRevenue = recentInvoices.data.reduce((sum, inv) => sum + inv.amount_paid, 0);
-            const priorRevenue = priorInvoices.data.reduce((sum, inv) => sum + inv.amount_paid, 0);
-
-            if (priorRevenue === 0) {
-                // No prior data to compare — can't calculate growth
-                return recentRevenue > 0 ? 1.0 : 0;
-            }
+        const ninetyDaysAgo = now - (90 * DAY_SECONDS);
+        const oneEightyDaysAgo = now - (180 * DAY_SECONDS);
 
-            return (recentRevenue - priorRevenue) / priorRevenue;
-        } catch {
-            // If Stripe API fails, return 0 rather than a fake number
-            return 0;
+        let recentRevenue = 0;
+        let priorRevenue = 0;
+        for (const invoice of invoices) {
+            if (invoice.status !== 'paid' || invoice.created < oneEightyDaysAgo) continue;
+            const amount = currency.convert(invoice.amount_paid, invoice.currency);
+            if (amount === undefined) continue;
+            if (invoice.created >= ninetyDaysAgo) recentRevenue += amount;
+            else priorRevenue += amount;
         }
+
+        if (priorRevenue === 0) {
+            // No prior data to compare — can't calculate growth
+            return recentRevenue > 0 ? 1.0 : 0;
+        }
+
+        return (recentRevenue - priorRevenue) / priorRevenue;
     }
 
-    private async calculateChurnRate(): Promise<number> {
-        // Fetch canceled subscriptions in last 30 days
-        const now = Math.floor(Date.now() / 1000);
-        const thirtyDaysAgo = now - (30 * 24 * 60 * 60);
-
-        const [canceled, active] = await Promise.all([
-            this.stripe.subscriptions.list({
-                status: 'canceled',
-                created: { gte: thirtyDaysAgo },
-                limit: 100,
-            }),
-            this.stripe.subscriptions.list({
-                status: 'active',
-                limit: 100,
-            }),
-        ]);
+    private calculateChurnRate(subscriptions: Stripe.Subscription[]): number {
+        // Subscriptions canceled in the last 30 days against those still active
+        const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * DAY_SECONDS);
+
+        const canceled = subscriptions.filter(s => s.status === 'canceled' && (s.canceled_at ?? 0) >= thirtyDaysAgo);
+        const active = subscriptions.filter(s => s.status === 'active');
+
+        const totalCustomers = active.length + canceled.length;
+        return totalCustomers > 0 ? canceled.length / totalCustomers : 0;
+    }
+}
+
+/**
+ * SDK host settings for a base URL
+ */
+function hostConfig(baseUrl: string): Stripe.StripeConfig {
+    const url = new URL(baseUrl);
+    const protocol = url.protocol === 'http:' ? 'http' : 'https';
+    return {
+        host: url.hostname,
+        port: url.port || (protocol === 'http' ? 80 : 443),
+        protocol,
+    };
+}
 
-        const totalCustomers = active.data.length + canceled.data.length;
-        return totalCustomers > 0 ? canceled.data.length / totalCustomers : 0;
+/**
+ * Read a list to the end, however many pages it takes
+ */
+async function listAll<T>(list: Stripe.ApiListPromise<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of list) {
+        items.push(item);
     }
+    return items;
+}
+
+/**
+ * Normalize a recurring amount to a month
+ */
+function toMonthly(amount: number, recurring: Stripe.Price.Recurring): number {
+    const perInterval = { day: 30.4, week: 4.33, month: 1, year: 1 / 12 }[recurring.interval];
+    return (amount * perInterval) / recurring.interval_count;
+}
+
+/**
+ * Average days paid invoices were settled after their due date, counting
+ * early payments as on time
+ */
+function averagePaymentDelay(invoices: Stripe.Invoice[]): number {
+    const delays = invoices
+        .filter(invoice => invoice.due_date && invoice.status_transitions.paid_at)
+        .map(invoice => Math.max(0, (invoice.status_transitions.paid_at! - invoice.due_date!) / DAY_SECONDS));
+
+    return delays.length > 0 ? delays.reduce((sum, d) => sum + d, 0) / delays.length : 0;
+}
+
+/**
+ * The account currency and a converter into it
+ */
+interface AccountCurrency {
+    /** ISO 4217 code, uppercase */
+    code: string;
+    /** Convert a Stripe amount (lowercase currency code); undefined without an FX rate */
+    convert(amount: number, currency: string): number | undefined;
+    /** Currencies met without an FX rate, whose amounts were left out */
+    unconverted: Set<string>;
+}
+
+function accountCurrency(code: string): AccountCurrency {
+    const unconverted = new Set<string>();
+    return {
+        code,
+        unconverted,
+        convert(amount, currency) {
+            const rate = findFxRate(currency.toUpperCase(), code);
+            if (rate === undefined) {
+                unconverted.add(currency.toUpperCase());
+                return undefined;
+            }
+            return amount * rate;
+        },
+    };
 }
@@ -0,0 +1,191 @@
+/**
+ * Subscription Revenue
+ *
+ * Rebuilds recurring revenue history from the subscription periods a billing
+ * system has invoiced, which point-in-time MRR cannot show:
+ *
+ *   - month-end MRR and ARR per calendar month, split into new, expansion,
+ *     contraction and churned MRR
+ *   - logo and net revenue retention of each signup cohort: the customers
+ *     whose first MRR fell in the same month, followed month by month
+ *
+ * A customer's MRR at a month end is the sum of the recurring periods that
+ * cover it. Amounts are in the currency of the periods passed in.
+ */
+
+import type { CohortRetention, MrrMovement } from '../types/index.js';
+
+/** Months in the MRR series */
+const SERIES_MONTHS = 24;
+
+/** Signup cohorts followed, counting back from the current month */
+const COHORT_MONTHS = 12;
+
+/** An invoiced recurring period, normalized to a monthly amount */
+export interface RecurringPeriod {
+    customerId: string;
+    start: Date;
+    /** Exclusive */
+    end: Date;
+    monthlyAmount: number;
+}
+
+export interface SubscriptionRevenue {
+    mrrSeries: MrrMovement[];
+    cohorts: CohortRetention[];
+}
+
+/**
+ * MRR movements and cohort retention from the first invoiced period up to now
+ */
+export function analyzeSubscriptionRevenue(periods: RecurringPeriod[], now = new Date()): SubscriptionRevenue {
+    if (periods.length === 0) return { mrrSeries: [], cohorts: [] };
+
+    const earliest = periods.reduce((min, p) => (p.start < min ? p.start : min), periods[0]!.start);
+    const months = monthsBetween(earliest, now);
+    const mrrByMonth = months.map(month => customerMrrAt(periods, monthEnd(month, now)));
+
+    const firstMonth = new Map<string, string>();
+    months.forEach((month, i) => {
+        for (const customerId of mrrByMonth[i]!.keys()) {
+            if (!firstMonth.has(customerId)) firstMonth.set(customerId, month);
+        }
+    });
+
+    const mrrSeries = months
+        .map((month, i) => movement(month, i > 0 ? mrrByMonth[i - 1]! : new Map(), mrrByMonth[i]!))
+        .slice(-SERIES_MONTHS);
+
+    const cohorts = months
+        .map((cohort, i) => ({ cohort, i }))
+        .slice(-COHORT_MONTHS)
+        .map(({ cohort, i }) => followCohort(cohort, months.slice(i), mrrByMonth.slice(i), firstMonth))
+        .filter((cohort): cohort is CohortRetention => cohort !== null);
+
+    return { mrrSeries, cohorts };
+}
+
+// ============================================
+// MRR
+// ============================================
+
+/**
+ * Each paying customer's MRR at an instant, rounded to cents
+ */
+function customerMrrAt(periods: RecurringPeriod[], at: Date): Map<string, number> {
+    const mrr = new Map<string, number>();
+    for (const period of periods) {
+        if (period.start <= at && at < period.end) {
+            mrr.set(period.customerId, (mrr.get(period.customerId) ?? 0) + period.monthlyAmount);
+        }
+    }
+    for (const [customerId, amount] of mrr) {
+        const rounded = round(amount);
+        if (rounded > 0) mrr.set(customerId, rounded);
+        else mrr.delete(customerId);
+    }
+    return mrr;
+}
+
+function movement(month: string, previous: Map<string, number>, current: Map<string, number>): MrrMovement {
+    const result: MrrMovement = {
+        month,
+        mrr: 0,
+        arr: 0,
+        newMrr: 0,
+        expansionMrr: 0,
+        contractionMrr: 0,
+        churnedMrr: 0,
+        customers: current.size,
+        newCustomers: 0,
+        churnedCustomers: 0,
+    };
+
+    for (const [customerId, amount] of current) {
+        result.mrr += amount;
+        const before = previous.get(customerId);
+        if (before === undefined) {
+            result.newMrr += amount;
+            result.newCustomers++;
+        } else if (amount > before) {
+            result.expansionMrr += amount - before;
+        } else {
+            result.contractionMrr += before - amount;
+        }
+    }
+    for (const [customerId, before] of previous) {
+        if (!current.has(customerId)) {
+            result.churnedMrr += before;
+            result.churnedCustomers++;
+        }
+    }
+
+    return {
+        ...result,
+        mrr: round(result.mrr),
+        arr: round(result.mrr * 12),
+        newMrr: round(result.newMrr),
+        expansionMrr: round(result.expansionMrr),
+        contractionMrr: round(result.contractionMrr),
+        churnedMrr: round(result.churnedMrr),
+    };
+}
+
+// ============================================
+// COHORTS
+// ============================================
+
+/**
+ * Retention of the customers who signed up in a month, over that month and
+ * the ones after it; null when nobody signed up
+ */
+function followCohort(
+    cohort: string,
+    months: string[],
+    mrrByMonth: Array<Map<string, number>>,
+    firstMonth: Map<string, string>
+): CohortRetention | null {
+    const members = [...firstMonth].filter(([, first]) => first === cohort).map(([customerId]) => customerId);
+    if (members.length === 0) return null;
+
+    const cohortMrr = (mrr: Map<string, number>) => members.reduce((sum, id) => sum + (mrr.get(id) ?? 0), 0);
+    const startingMrr = cohortMrr(mrrByMonth[0]!);
+
+    return {
+        cohort,
+        customers: members.length,
+        startingMrr: round(startingMrr),
+        months: months.map((month, i) => ({
+            month,
+            logoRetention: round(members.filter(id => mrrByMonth[i]!.has(id)).length / members.length, 4),
+            netRevenueRetention: round(cohortMrr(mrrByMonth[i]!) / startingMrr, 4),
+        })),
+    };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** Calendar months (YYYY-MM, UTC) from one date's month to another's */
+function monthsBetween(from: Date, to: Date): string[] {
+    const months: string[] = [];
+    const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+    while (cursor <= to) {
+        months.push(cursor.toISOString().slice(0, 7));
+        cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+    return months;
+}
+
+/** The last instant of a month, or now for the current month */
+function monthEnd(month: string, now: Date): Date {
+    const [year, monthIndex] = month.split('-').map(Number) as [number, number];
+    const end = new Date(Date.UTC(year, monthIndex, 1) - 1);
+    return end < now ? end : now;
+}
+
+function round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
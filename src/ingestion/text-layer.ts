@@ -0,0 +1,306 @@
+/**
+ * Text Layer
+ *
+ * Local, deterministic first pass over a PDF's embedded text, so digitally
+ * produced documents never need the vision model:
+ *
+ *   - extractTextLayer reads the text with pdf-parse (empty for scanned PDFs)
+ *   - classifyText scores title and vocabulary keywords per document type
+ *   - parseStatementText reads "Label: amount" lines and year-column tables
+ *     into the year-keyed shape the statement normalizer expects
+ *
+ * Everything here is heuristic; PDFParser decides from the confidence and
+ * the number of recognised line items whether to escalate to the LLM.
+ */
+
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import type { DocumentType } from '../types/index.js';
+
+// ============================================
+// TEXT EXTRACTION
+// ============================================
+
+/**
+ * Extract the embedded text of a PDF. Returns an empty string when the PDF
+ * has no text layer or cannot be read.
+ */
+export async function extractTextLayer(pdfBuffer: Buffer): Promise<string> {
+    try {
+        // pdf.js rejects Node Buffers ("bad XRef entry"); hand it a plain copy
+        const result = await pdfParse(new Uint8Array(pdfBuffer));
+        return result.text.trim();
+    } catch (error) {
+        console.warn(`[text-layer] Could not read PDF text: ${(error as Error).message}`);
+        return '';
+    }
+}
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+interface TypeKeywords {
+    /** Document titles, scored highest when they head the document */
+    titles: string[];
+    /** Vocabulary typical of the document body */
+    terms: string[];
+}
+
+const TYPE_KEYWORDS: Record<Exclude<DocumentType, 'other'>, TypeKeywords> = {
+    profit_and_loss: {
+        titles: ['profit and loss', 'income statement', 'statement of profit or loss', 'resultatopgørelse'],
+        terms: ['revenue', 'net income', 'gross profit', 'ebit', 'cost of goods sold', 'operating expenses',
+            'nettoomsætning', 'bruttofortjeneste', 'årets resultat', 'vareforbrug'],
+    },
+    balance_sheet: {
+        titles: ['balance sheet', 'statement of financial position', 'balance'],
+        terms: ['total assets', 'total liabilities', 'total equity', 'current assets', 'current liabilities',
+            'aktiver i alt', 'passiver i alt', 'egenkapital', 'omsætningsaktiver'],
+    },
+    cash_flow_statement: {
+        titles: ['cash flow statement', 'statement of cash flows', 'pengestrømsopgørelse'],
+        terms: ['operating activities', 'investing activities', 'financing activities', 'free cash flow',
+            'driftsaktivitet', 'investeringsaktivitet', 'finansieringsaktivitet'],
+    },
+    contract: {
+        titles: ['agreement', 'contract', 'kontrakt', 'aftale'],
+        terms: ['parties', 'termination', 'governing law', 'hereinafter', 'notice period', 'term of',
+            'opsigelse', 'parterne'],
+    },
+    bank_statement: {
+        titles: ['bank statement', 'account statement', 'kontoudtog'],
+        terms: ['opening balance', 'closing balance', 'iban', 'account number', 'saldo', 'kontonummer'],
+    },
+    tax_filing: {
+        titles: ['tax return', 'tax assessment', 'selvangivelse', 'årsopgørelse', 'skatteansættelse'],
+        terms: ['taxable income', 'tax payable', 'tax year', 'skattepligtig indkomst', 'indkomstår'],
+    },
+    insurance_certificate: {
+        titles: ['certificate of insurance', 'insurance certificate', 'forsikringsbevis', 'forsikringspolice'],
+        terms: ['insured', 'policy number', 'coverage', 'premium', 'policenummer', 'præmie', 'dækning'],
+    },
+    aging_report: {
+        titles: ['aged receivables', 'aged payables', 'aged debtors', 'aged creditors', 'aging report', 'ageing report',
+            'debitorsaldoliste', 'kreditorsaldoliste', 'aldersfordelt'],
+        terms: ['days past due', 'overdue', '31-60', '61-90', 'over 90', 'not due', 'forfalden', 'forfaldsdato'],
+    },
+};
+
+/** Lines at the top of a document searched for its title */
+const HEADING_LINES = 5;
+
+export interface TextClassification {
+    type: DocumentType;
+    /** How clearly the best type beats the others (0-1) */
+    confidence: number;
+}
+
+/**
+ * Guess the document type from its text and filename
+ */
+export function classifyText(text: string, filename: string): TextClassification {
+    const body = text.toLowerCase();
+    if (!body.trim()) return { type: 'other', confidence: 0 };
+
+    const heading = body.split('\n').filter(line => line.trim()).slice(0, HEADING_LINES).join('\n');
+    const name = filename.toLowerCase().replace(/[_\-.]+/g, ' ');
+
+    const scores = (Object.entries(TYPE_KEYWORDS) as Array<[DocumentType, TypeKeywords]>).map(([type, keywords]) => {
+        const titleScore = keywords.titles.some(t => heading.includes(t)) ? 3
+            : keywords.titles.some(t => body.includes(t)) ? 2
+            : 0;
+        const filenameScore = name.includes(type.replace(/_/g, ' ')) || keywords.titles.some(t => name.includes(t)) ? 2 : 0;
+        const termScore = keywords.terms.filter(t => body.includes(t)).length;
+        return { type, score: titleScore + filenameScore + termScore };
+    }).sort((a, b) => b.score - a.score);
+
+    const [best, second] = scores;
+    if (!best || best.score === 0) return { type: 'other', confidence: 0 };
+
+    // Full confidence needs a clear winner with title-level evidence
+    const margin = (best.score - (second?.score ?? 0)) / best.score;
+    const strength = Math.min(1, best.score / 6);
+    return { type: best.type, confidence: Math.round(margin * strength * 100) / 100 };
+}
+
+// ============================================
+// STATEMENT LAYOUT PARSING
+// ============================================
+
+const YEAR = /^(?:19|20)\d{2}$/;
+
+/** "Fiscal Year 2024", "As of 31 December 2024", "Regnskabsåret 2023", "01.01.2023 - 31.12.2023" */
+const PERIOD_HEADING = new RegExp(
+    '^(?:(?:fiscal|financial)\\s+year|year(?:\\s+ended)?|fy|as\\s+(?:of|at)|balance\\s+at|regnskabsåret?|pr\\.?|per)\\b.*?((?:19|20)\\d{2})$'
+    + '|^\\d{1,2}[./-]\\d{1,2}[./-](?:19|20)\\d{2}\\s*[-–]\\s*\\d{1,2}[./-]\\d{1,2}[./-]((?:19|20)\\d{2})$',
+    'i',
+);
+
+/** "Amounts in DKK thousands", "Beløb i t.kr.", "Currency: EUR" */
+const UNIT_LINE = /^(?:all\s+)?(?:amounts?|figures)\s+(?:are\s+)?(?:stated\s+|presented\s+)?in\s+(.+)$|^(?:beløb\s+i|unit:?|currency:?|valuta:?)\s+(.+)$/i;
+
+/** An amount with an optional scale suffix and currency: "8.5M DKK", "(1.234)", "-45,0 mio." */
+const AMOUNT = /(?<![\w.,])(\()?([-−–]\s?)?(\d{1,3}(?:[.,]\d{3})+(?:[.,]\d+)?|\d+(?:[.,]\d+)?)(?:\s?(k|m|b|bn|mio\.?|mia\.?|mrd\.?)(?![a-zæøå]))?(\))?(?:\s?(dkk|eur|usd|sek|nok|gbp|chf|pln|isk|kr\.?)(?![a-zæøå]))?/gi;
+
+const SUFFIX_SCALES: Record<string, number> = { k: 1e3, m: 1e6, mio: 1e6, b: 1e9, bn: 1e9, mia: 1e9, mrd: 1e9 };
+
+/** Short amount-free lines are section headings ("ASSETS", "Kortfristede gældsforpligtelser") */
+const MAX_SECTION_LENGTH = 40;
+
+interface TextAmount {
+    value: number;
+    currency?: string;
+}
+
+/**
+ * Read statement lines into raw year-keyed data, e.g.
+ *
+ *   Fiscal Year 2024            →  { "2024": { currency: "DKK", Revenue: 8500000,
+ *   Revenue: 8.5M DKK                           ASSETS: { Cash: 95000 } } }
+ *   ASSETS
+ *     Cash: 95K DKK
+ *
+ * Tables with a header row of years ("Note  2024  2023") assign each row's
+ * trailing amounts to those years. Amounts carry their stated scale; plain
+ * numbers are scaled by a document-level unit line ("Amounts in DKK '000").
+ * Labels are left as printed for the statement normalizer to map.
+ */
+export function parseStatementText(text: string): Record<string, unknown> {
+    const periods = new Map<string, Record<string, unknown>>();
+    let unit: { scale?: number; currency?: string } = {};
+    let period = '';
+    let columns: string[] = [];
+    let section: string | null = null;
+
+    const periodData = (key: string) => {
+        const data = periods.get(key) ?? {};
+        periods.set(key, data);
+        return data;
+    };
+
+    const store = (key: string, label: string, amount: TextAmount, scaled: boolean) => {
+        const data = periodData(key);
+        const currency = amount.currency ?? unit.currency;
+        if (currency && data.currency === undefined) data.currency = currency;
+
+        const target = section ? (data[section] ??= {}) as Record<string, unknown> : data;
+        if (!(label in target)) target[label] = scaled ? amount.value : amount.value * (unit.scale ?? 1);
+    };
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        const unitLine = line.match(UNIT_LINE);
+        if (unitLine) {
+            unit = { ...unit, ...parseTextUnit(unitLine[1] ?? unitLine[2]!) };
+            continue;
+        }
+
+        const tokens = line.split(/\s+/);
+        const years = tokens.filter(t => YEAR.test(t));
+        if (years.length >= 2 && years.length >= tokens.length - 3) {
+            // Column header: "2024 2023", "Note 2024 2023", "DKK '000 2024 2023"
+            columns = years;
+            unit = { ...unit, ...parseTextUnit(tokens.filter(t => !YEAR.test(t)).join(' ')) };
+            section = null;
+            continue;
+        }
+
+        const heading = line.match(PERIOD_HEADING) ?? (YEAR.test(line) ? [line, line] : null);
+        if (heading) {
+            period = heading[1] ?? heading[2]!;
+            columns = [];
+            section = null;
+            continue;
+        }
+
+        const { label, amounts } = splitLine(line);
+        if (amounts.length === 0) {
+            if (line.length <= MAX_SECTION_LENGTH && /[a-zæøå]/i.test(line) && !line.includes(':')) section = line;
+            continue;
+        }
+        if (!label) continue;
+
+        if (columns.length > 0) {
+            // Leading extras are note references
+            const values = amounts.slice(-columns.length);
+            values.forEach((amount, i) => store(columns[i]!, label, amount.parsed, amount.scaled));
+        } else {
+            store(period, label, amounts[0]!.parsed, amounts[0]!.scaled);
+        }
+    }
+
+    const years = Array.from(periods.keys()).filter(key => YEAR.test(key));
+    if (years.length === 0) return periods.get('') ?? {};
+
+    // Amounts read before any period heading are letterhead (registration numbers and the like)
+    return Object.fromEntries(years.map(year => [year, periods.get(year)!]));
+}
+
+/**
+ * Split a line into its label and the amounts that follow it
+ */
+function splitLine(line: string): { label: string; amounts: Array<{ parsed: TextAmount; scaled: boolean }> } {
+    const colon = line.lastIndexOf(':');
+    const labelEnd = colon >= 0 ? colon : line.search(/\s[-−–(]?\d/);
+    if (labelEnd <= 0) return { label: '', amounts: [] };
+
+    const label = line.slice(0, labelEnd).trim();
+    const rest = line.slice(labelEnd + 1);
+    const amounts = Array.from(rest.matchAll(AMOUNT)).map(match => {
+        const [, openParen, minus, digits, suffix, closeParen, currency] = match;
+        const suffixScale = suffix ? SUFFIX_SCALES[suffix.toLowerCase().replace('.', '')] : undefined;
+        const magnitude = readNumber(digits!) * (suffixScale ?? 1);
+        const negative = !!minus || (!!openParen && !!closeParen);
+        return {
+            parsed: {
+                value: negative ? -magnitude : magnitude,
+                currency: currency ? normalizeCurrency(currency) : undefined,
+            },
+            scaled: suffixScale !== undefined,
+        };
+    });
+
+    return { label, amounts };
+}
+
+/**
+ * Read digits with Danish or English separators: "1.234.567", "12,345.75", "8.5", "45,0"
+ */
+function readNumber(digits: string): number {
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+
+    if (lastDot >= 0 && lastComma >= 0) {
+        const decimal = lastDot > lastComma ? '.' : ',';
+        const grouping = decimal === '.' ? ',' : '.';
+        return Number(digits.replaceAll(grouping, '').replace(',', '.'));
+    }
+
+    const separator = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+    if (!separator) return Number(digits);
+
+    // A separator before exactly three digits groups thousands
+    const parts = digits.split(separator);
+    const grouped = parts.slice(1).every(part => part.length === 3);
+    return Number(grouped ? parts.join('') : digits.replace(',', '.'));
+}
+
+function parseTextUnit(text: string): { scale?: number; currency?: string } {
+    const lower = text.toLowerCase();
+    const unit: { scale?: number; currency?: string } = {};
+
+    if (/\b(?:t\.?\s?kr|tdkk|teur|tusind|thousands?|'000|000s?)\b|'000/.test(lower)) unit.scale = 1e3;
+    else if (/\b(?:mio|mn|millions?|mdkk|meur)\b/.test(lower)) unit.scale = 1e6;
+    else if (/\b(?:mia|mrd|bn|billions?)\b/.test(lower)) unit.scale = 1e9;
+
+    const currency = lower.match(/\b(dkk|eur|usd|sek|nok|gbp|chf|pln|isk)\b|\b[tm](dkk|eur|usd)\b|\bkr\b/);
+    if (currency) unit.currency = normalizeCurrency(currency[1] ?? currency[2] ?? 'kr');
+    return unit;
+}
+
+function normalizeCurrency(token: string): string {
+    const code = token.toUpperCase().replace('.', '');
+    return code === 'KR' ? 'DKK' : code;
+}
@@ -0,0 +1,313 @@
+/**
+ * Transaction Analytics
+ *
+ * Reads patterns out of a bank transaction list that the period totals hide:
+ *
+ *   - inflow and outflow per calendar month
+ *   - recurring outflows (payroll, rent, loan repayments, taxes), found by
+ *     payee, a regular interval and a stable amount
+ *   - the debt service already being paid: recurring loan and lease repayments
+ *   - the end-of-day balance, worked back from each account's current balance,
+ *     with its volatility and lowest days
+ *   - overdraft events: days an account was overdrawn, and returned-payment
+ *     (NSF) or overdraft fees
+ *
+ * Amounts are in the snapshot currency, converted at the transaction date.
+ */
+
+import type {
+    BalanceMetrics,
+    BankAccount,
+    BankTransaction,
+    MonthlyCashFlow,
+    OverdraftEvent,
+    RecurringPayment,
+    RecurringPaymentKind,
+    TransactionAnalytics,
+} from '../types/index.js';
+import { convertAmount } from '../core/currency.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Median interval (days) of each cadence, and the fewest payments that establish it */
+const CADENCES = [
+    { cadence: 'weekly', from: 5, to: 9, perMonth: 52 / 12, minOccurrences: 3 },
+    { cadence: 'monthly', from: 25, to: 35, perMonth: 1, minOccurrences: 3 },
+    { cadence: 'quarterly', from: 80, to: 100, perMonth: 1 / 3, minOccurrences: 2 },
+] as const;
+
+/** How far an interval or amount may stray from the payee's median and still recur */
+const INTERVAL_TOLERANCE = 0.4;
+const AMOUNT_TOLERANCE = 0.3;
+
+/** Lowest balance days reported */
+const LOWEST_DAYS = 5;
+
+/** Words that identify a recurring payment's purpose, checked in order */
+const PAYMENT_KINDS: Array<[RecurringPaymentKind, RegExp]> = [
+    ['loan_repayment', /\blån\b|\blan\b|loan|afdrag|realkredit|mortgage|leasing|\blease\b|kreditforening|\bloans?\b/i],
+    ['payroll', /løn|salary|salaries|payroll|wages|gehalt/i],
+    ['rent', /husleje|husleie|\bleje\b|\brent\b|lokaleleje|hyra/i],
+    ['tax', /\bskat|\bmoms\b|\btax|\bvat\b/i],
+];
+
+const RETURNED_PAYMENT = /\bnsf\b|insufficient funds|returned (?:item|payment)|afvist|manglende dækning|ikke dækning|retur(?:neret)? betaling/i;
+const OVERDRAFT_FEE = /overdraft|overtræk|overtrekk/i;
+
+/** Month names that change between otherwise identical payment descriptions */
+const MONTH_NAMES = /\b(january|januar|jan|february|februar|feb|march|marts|mars|mar|april|apr|may|maj|mai|june|juni|jun|july|juli|jul|august|aug|september|sept|sep|october|oktober|oct|okt|november|nov|december|desember|dec|des)\b/g;
+
+/**
+ * Analyze the transactions of a bank snapshot over the period they cover
+ */
+export function analyzeTransactions(
+    transactions: BankTransaction[],
+    accounts: BankAccount[],
+    currency: string,
+    period: { start: Date; end: Date }
+): TransactionAnalytics {
+    const converted = transactions.map(tx => ({
+        ...tx,
+        date: new Date(tx.date),
+        amount: convertAmount(tx.amount, tx.currency, currency, new Date(tx.date)),
+    }));
+
+    const recurringPayments = findRecurringPayments(converted);
+    const loans = recurringPayments.filter(p => p.kind === 'loan_repayment');
+    const balances = workBackBalances(transactions, accounts, currency, period);
+
+    return {
+        monthly: monthlySeries(converted, period),
+        recurringPayments,
+        debtService: {
+            monthlyAmount: round(loans.reduce((sum, p) => sum + p.monthlyAmount, 0)),
+            payees: loans.map(p => p.payee),
+        },
+        balance: balances && balanceMetrics(balances),
+        overdraftEvents: [...(balances?.events ?? []), ...findFeeEvents(converted)]
+            .sort((a, b) => a.date.localeCompare(b.date)),
+    };
+}
+
+// ============================================
+// MONTHLY SERIES
+// ============================================
+
+function monthlySeries(transactions: BankTransaction[], period: { start: Date; end: Date }): MonthlyCashFlow[] {
+    const months = new Map<string, { inflow: number; outflow: number }>();
+
+    // Every month of the period, so a month without transactions shows as zero
+    const cursor = new Date(Date.UTC(period.start.getUTCFullYear(), period.start.getUTCMonth(), 1));
+    while (cursor <= period.end) {
+        months.set(cursor.toISOString().slice(0, 7), { inflow: 0, outflow: 0 });
+        cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+
+    for (const tx of transactions) {
+        const month = tx.date.toISOString().slice(0, 7);
+        const totals = months.get(month) ?? { inflow: 0, outflow: 0 };
+        months.set(month, totals);
+        if (tx.amount > 0) totals.inflow += tx.amount;
+        else totals.outflow += Math.abs(tx.amount);
+    }
+
+    return [...months.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, { inflow, outflow }]) => ({
+            month,
+            inflow: round(inflow),
+            outflow: round(outflow),
+            net: round(inflow - outflow),
+        }));
+}
+
+// ============================================
+// RECURRING PAYMENTS
+// ============================================
+
+function findRecurringPayments(transactions: BankTransaction[]): RecurringPayment[] {
+    const byPayee = new Map<string, BankTransaction[]>();
+    for (const tx of transactions) {
+        if (tx.amount >= 0) continue;
+        const key = payeeKey(tx.description);
+        if (!key) continue;
+        byPayee.set(key, [...(byPayee.get(key) ?? []), tx]);
+    }
+
+    const payments: RecurringPayment[] = [];
+    for (const group of byPayee.values()) {
+        const sorted = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+        const intervals = sorted.slice(1).map((tx, i) => (tx.date.getTime() - sorted[i]!.date.getTime()) / DAY_MS);
+        if (intervals.length === 0) continue;
+
+        const interval = median(intervals);
+        const cadence = CADENCES.find(c => interval >= c.from && interval <= c.to);
+        if (!cadence || sorted.length < cadence.minOccurrences) continue;
+        if (!intervals.every(days => Math.abs(days - interval) <= interval * INTERVAL_TOLERANCE)) continue;
+
+        const amounts = sorted.map(tx => Math.abs(tx.amount));
+        const typical = median(amounts);
+        if (!amounts.every(amount => Math.abs(amount - typical) <= typical * AMOUNT_TOLERANCE)) continue;
+
+        const latest = sorted[sorted.length - 1]!;
+        const averageAmount = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+        const purpose = `${latest.description} ${latest.category}`;
+
+        payments.push({
+            payee: latest.description,
+            kind: PAYMENT_KINDS.find(([, pattern]) => pattern.test(purpose))?.[0] ?? 'other',
+            cadence: cadence.cadence,
+            averageAmount: round(averageAmount),
+            monthlyAmount: round(averageAmount * cadence.perMonth),
+            occurrences: sorted.length,
+            lastPaid: dateKey(latest.date),
+        });
+    }
+
+    return payments.sort((a, b) => b.monthlyAmount - a.monthlyAmount);
+}
+
+/**
+ * A payee's description without references, dates and amounts, e.g.
+ * "Husleje marts 2024 ref 88213" and "HUSLEJE april" → "husleje"
+ */
+function payeeKey(description: string): string {
+    return description
+        .toLowerCase()
+        .replace(/\d+/g, ' ')
+        .replace(MONTH_NAMES, ' ')
+        .replace(/\b(ref|nr|no|id|faktura|invoice)\b/g, ' ')
+        .replace(/[^a-zæøåäöü]+/g, ' ')
+        .trim()
+        .split(' ')
+        .slice(0, 3)
+        .join(' ');
+}
+
+// ============================================
+// BALANCES
+// ============================================
+
+interface BalanceSeries {
+    /** Total end-of-day balance of the non-credit accounts, in the snapshot currency */
+    daily: Array<{ date: string; balance: number }>;
+    daysOverdrawn: number;
+    events: OverdraftEvent[];
+}
+
+/**
+ * End-of-day balances for each day of the period, worked back from each
+ * account's current balance by undoing the transactions after that day
+ */
+function workBackBalances(
+    transactions: BankTransaction[],
+    accounts: BankAccount[],
+    currency: string,
+    period: { start: Date; end: Date }
+): BalanceSeries | null {
+    const depository = accounts.filter(a => a.type !== 'credit');
+    if (depository.length === 0) return null;
+
+    const days: string[] = [];
+    for (let day = startOfDay(period.start); day <= period.end.getTime(); day += DAY_MS) {
+        days.push(dateKey(new Date(day)));
+    }
+    if (days.length === 0) return null;
+
+    const totals = new Map(days.map(day => [day, 0]));
+    const overdrawnDays = new Set<string>();
+    const events: OverdraftEvent[] = [];
+
+    for (const account of depository) {
+        const movements = new Map<string, number>();
+        for (const tx of transactions) {
+            if (tx.accountId !== account.accountId) continue;
+            const date = new Date(tx.date);
+            const key = dateKey(date);
+            movements.set(key, (movements.get(key) ?? 0) + convertAmount(tx.amount, tx.currency, account.currency, date));
+        }
+
+        const balances: number[] = [];
+        let balance = account.currentBalance;
+        for (let i = days.length - 1; i >= 0; i--) {
+            balances[i] = balance;
+            balance -= movements.get(days[i]!) ?? 0;
+        }
+
+        days.forEach((day, i) => {
+            const dayBalance = round(balances[i]!);
+            totals.set(day, totals.get(day)! + convertAmount(dayBalance, account.currency, currency, new Date(day)));
+            if (dayBalance >= 0) return;
+
+            overdrawnDays.add(day);
+            // One event per overdrawn stretch, on its first day
+            if (i === 0 || balances[i - 1]! >= 0) {
+                events.push({ date: day, accountId: account.accountId, type: 'negative_balance', amount: dayBalance });
+            }
+        });
+    }
+
+    return {
+        daily: days.map(date => ({ date, balance: round(totals.get(date)!) })),
+        daysOverdrawn: overdrawnDays.size,
+        events,
+    };
+}
+
+function balanceMetrics(series: BalanceSeries): BalanceMetrics {
+    const values = series.daily.map(d => d.balance);
+    const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const deviation = Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / values.length);
+
+    return {
+        averageBalance: round(average),
+        minimumBalance: Math.min(...values),
+        volatility: average > 0 ? round(deviation / average, 4) : null,
+        lowestBalanceDays: [...series.daily]
+            .sort((a, b) => a.balance - b.balance || a.date.localeCompare(b.date))
+            .slice(0, LOWEST_DAYS),
+        daysOverdrawn: series.daysOverdrawn,
+    };
+}
+
+function findFeeEvents(transactions: BankTransaction[]): OverdraftEvent[] {
+    const events: OverdraftEvent[] = [];
+    for (const tx of transactions) {
+        const text = `${tx.description} ${tx.category}`;
+        const type = RETURNED_PAYMENT.test(text) ? 'returned_payment'
+            : tx.amount < 0 && OVERDRAFT_FEE.test(text) ? 'overdraft_fee'
+            : null;
+        if (!type) continue;
+        events.push({
+            date: dateKey(tx.date),
+            accountId: tx.accountId,
+            type,
+            amount: round(Math.abs(tx.amount)),
+            description: tx.description,
+        });
+    }
+    return events;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function dateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function startOfDay(date: Date): number {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+function round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,49 @@
+/**
+ * Gemini Provider
+ *
+ * LLMProvider backed by Google Gemini.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ModelConfig } from '../config/index.js';
+import type { LLMProvider, LLMPart, LLMResult } from './provider.js';
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini' as const;
+    readonly model: string;
+
+    private client: ReturnType<GoogleGenerativeAI['getGenerativeModel']>;
+
+    constructor(config: ModelConfig) {
+        const apiKey = process.env.GOOGLE_API_KEY;
+        if (!apiKey) {
+            throw new Error('GOOGLE_API_KEY environment variable is required');
+        }
+
+        this.model = config.name;
+        this.client = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+            model: config.name,
+            generationConfig: {
+                temperature: config.temperature,
+                topP: config.topP,
+                maxOutputTokens: config.maxOutputTokens,
+            },
+        });
+    }
+
+    async generate(prompt: string): Promise<LLMResult> {
+        const result = await this.client.generateContent(prompt);
+        return {
+            text: result.response.text(),
+            usage: result.response.usageMetadata,
+        };
+    }
+
+    async generateWithParts(parts: LLMPart[]): Promise<LLMResult> {
+        const result = await this.client.generateContent(parts);
+        return {
+            text: result.response.text(),
+            usage: result.response.usageMetadata,
+        };
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * LLM Provider Interface
+ *
+ * Abstraction over the model backend so agents and the PDF parser never
+ * construct an SDK client directly. The concrete provider is selected
+ * through ModelConfig.provider:
+ *
+ *   gemini  → Google Gemini via @google/generative-ai (requires GOOGLE_API_KEY)
+ *   mock    → deterministic canned responses, no network (CI / offline runs)
+ */
+
+import type { ModelConfig } from '../config/index.js';
+import { GeminiProvider } from './gemini-provider.js';
+import { MockProvider } from './mock-provider.js';
+
+// ============================================
+// PROVIDER TYPES
+// ============================================
+
+export type LLMProviderName = 'gemini' | 'mock';
+
+/** A prompt fragment: plain text or an inline binary file (e.g. a PDF) */
+export type LLMPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+/** Token usage reported by the backend (fields absent when unreported) */
+export interface LLMUsage {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+}
+
+export interface LLMResult {
+    text: string;
+    usage?: LLMUsage;
+}
+
+/**
+ * Identifies who is calling and why. Real providers ignore this;
+ * the mock provider uses it to select a canned response.
+ */
+export interface LLMRequestMeta {
+    /** Caller key — an AgentId or an ingestion component such as 'pdf-parser' */
+    source: string;
+    /** Kind of call, e.g. 'full_analysis', 'detect_type', 'extract:balance_sheet' */
+    analysisType: string;
+}
+
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    /** Model identifier recorded in the audit trail */
+    readonly model: string;
+
+    /** Generate a completion from a text prompt */
+    generate(prompt: string, meta: LLMRequestMeta): Promise<LLMResult>;
+
+    /** Generate a completion from mixed text and file parts */
+    generateWithParts(parts: LLMPart[], meta: LLMRequestMeta): Promise<LLMResult>;
+}
+
+// ============================================
+// FACTORY FUNCTION
+// ============================================
+
+/**
+ * Create the provider named by the given model config.
+ */
+export function createLLMProvider(config: ModelConfig): LLMProvider {
+    switch (config.provider) {
+        case 'mock':
+            return new MockProvider();
+        case 'gemini':
+            return new GeminiProvider(config);
+    }
+}
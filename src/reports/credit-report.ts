@@ -0,0 +1,308 @@
+/**
+ * Credit Report
+ *
+ * Renders a lender-ready, multi-page PDF from an analysis result:
+ *
+ *   1. Cover          — company, score, grade, summary, strengths/weaknesses
+ *   2. Risk factors   — each factor with its components and interpretations
+ *   3. Score details  — penalties, critical issues, reasoning chain
+ *   4. Contradictions — conflicting data sources and how they were resolved
+ *   5. Roadmap        — timeline summary and the prioritized task list
+ */
+
+import PDFDocument from 'pdfkit';
+import type {
+    AgentId,
+    BankabilityScore,
+    Contradiction,
+    RemediationRoadmap,
+    RiskFactorMap,
+} from '../types/index.js';
+import { formatMoney } from '../core/currency.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CreditReportInput {
+    jobId: string;
+    companyId: string;
+    completedAt: Date;
+    score: BankabilityScore;
+    roadmap: RemediationRoadmap;
+    /** Undefined when the analysis session is no longer available */
+    contradictions?: Contradiction[];
+    failedAgents?: AgentId[];
+}
+
+// ============================================
+// LAYOUT
+// ============================================
+
+const COLORS = {
+    text: '#111827',
+    muted: '#6b7280',
+    accent: '#4f46e5',
+    success: '#16a34a',
+    warning: '#d97706',
+    danger: '#dc2626',
+    rule: '#e5e7eb',
+};
+
+const FACTOR_ORDER: (keyof RiskFactorMap)[] = ['serviceability', 'concentration', 'retention', 'compliance', 'growth'];
+
+type Doc = PDFKit.PDFDocument;
+
+// ============================================
+// RENDERING
+// ============================================
+
+/**
+ * Render the credit report to a PDF buffer
+ */
+export function renderCreditReport(input: CreditReportInput): Promise<Buffer> {
+    const doc = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        bufferPages: true,
+        info: {
+            Title: `Bankability Credit Report — ${input.companyId}`,
+            Author: 'Bankable.ai',
+            Subject: `Analysis ${input.jobId}`,
+        },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    renderCover(doc, input);
+    doc.addPage();
+    renderRiskFactors(doc, input.score);
+    doc.addPage();
+    renderScoreDetails(doc, input.score);
+    doc.addPage();
+    renderContradictions(doc, input.contradictions);
+    doc.addPage();
+    renderRoadmap(doc, input.roadmap);
+    renderFooters(doc, input);
+
+    doc.end();
+    return done;
+}
+
+function renderCover(doc: Doc, input: CreditReportInput): void {
+    const { score } = input;
+
+    doc.fillColor(COLORS.accent).fontSize(12).text('BANKABLE.AI', { characterSpacing: 2 });
+    doc.moveDown(4);
+
+    doc.fillColor(COLORS.text).fontSize(28).text('Bankability Credit Report');
+    doc.moveDown(0.5);
+    doc.fillColor(COLORS.muted).fontSize(12)
+        .text(`Company: ${input.companyId}`)
+        .text(`Analysis: ${input.jobId}`)
+        .text(`Completed: ${formatDate(input.completedAt)}`);
+    doc.moveDown(3);
+
+    doc.fillColor(gradeColor(score.score)).fontSize(72).text(score.grade, { continued: true });
+    doc.fillColor(COLORS.muted).fontSize(24).text(`   ${score.score}/100`);
+    doc.moveDown(1);
+
+    doc.fillColor(COLORS.text).fontSize(12).text(score.summary);
+    doc.moveDown(2);
+
+    bulletSection(doc, 'Strengths', score.explanation.strengths, COLORS.success);
+    bulletSection(doc, 'Weaknesses', score.explanation.weaknesses, COLORS.warning);
+
+    if (input.failedAgents && input.failedAgents.length > 0) {
+        doc.moveDown();
+        doc.fillColor(COLORS.danger).fontSize(10)
+            .text(`Note: the ${input.failedAgents.join(', ')} analysis did not complete; affected factors use fallback scores.`);
+    }
+}
+
+function renderRiskFactors(doc: Doc, score: BankabilityScore): void {
+    heading(doc, 'Risk Factor Breakdown');
+
+    for (const key of FACTOR_ORDER) {
+        const factor = score.riskFactors[key];
+
+        doc.fillColor(gradeColor(factor.score)).fontSize(14)
+            .text(`${factor.name}  ${Math.round(factor.score)}/100`, { continued: true })
+            .fillColor(COLORS.muted).fontSize(10)
+            .text(`   weight ${Math.round(factor.weight * 100)}%`);
+        if (factor.explanation) {
+            doc.fillColor(COLORS.text).fontSize(10).text(factor.explanation);
+        }
+        doc.moveDown(0.3);
+
+        for (const component of factor.components) {
+            doc.fillColor(COLORS.text).fontSize(10)
+                .text(`• ${component.name}: ${Math.round(component.value)}/100`, { indent: 10, continued: true })
+                .fillColor(COLORS.muted)
+                .text(` (weight ${Math.round(component.weight * 100)}%)`);
+            if (component.interpretation) {
+                doc.fillColor(COLORS.muted).fontSize(9).text(component.interpretation, { indent: 22 });
+            }
+        }
+
+        doc.moveDown();
+        rule(doc);
+    }
+}
+
+function renderScoreDetails(doc: Doc, score: BankabilityScore): void {
+    heading(doc, 'Penalties');
+    if (score.penalties.length === 0) {
+        paragraph(doc, 'No penalties were applied.');
+    }
+    for (const penalty of score.penalties) {
+        doc.fillColor(COLORS.danger).fontSize(10)
+            .text(`• ${penalty.reason}: -${penalty.impactPoints} points (×${penalty.multiplier})`, { indent: 10 });
+    }
+    doc.moveDown();
+
+    bulletSection(doc, 'Critical Issues', score.explanation.criticalIssues, COLORS.danger);
+
+    heading(doc, 'Reasoning');
+    paragraph(doc, score.explanation.reasoningChain || 'No reasoning chain was recorded.');
+}
+
+function renderContradictions(doc: Doc, contradictions?: Contradiction[]): void {
+    heading(doc, 'Data Contradictions');
+
+    if (!contradictions) {
+        paragraph(doc, 'Contradiction details are no longer available for this analysis.');
+        return;
+    }
+    if (contradictions.length === 0) {
+        paragraph(doc, 'No contradictions were detected between data sources.');
+        return;
+    }
+
+    for (const contradiction of contradictions) {
+        doc.fillColor(COLORS.text).fontSize(11).text(contradiction.description);
+        for (const source of contradiction.sources) {
+            doc.fillColor(COLORS.muted).fontSize(9).text(
+                `• ${source.source}${source.documentId ? ` (${source.documentId})` : ''} — ` +
+                `${source.field}: ${formatValue(source.value, source.currency)} (trust ${source.trustScore.toFixed(2)})`,
+                { indent: 10 }
+            );
+        }
+
+        const resolution = contradiction.resolution;
+        if (resolution) {
+            doc.fillColor(COLORS.success).fontSize(9).text(
+                `Resolved by ${resolution.method.replace(/_/g, ' ')}: accepted ${formatValue(resolution.acceptedValue, resolution.currency)}. ${resolution.reasoning}`,
+                { indent: 10 }
+            );
+        } else {
+            doc.fillColor(COLORS.warning).fontSize(9).text('Unresolved', { indent: 10 });
+        }
+
+        doc.moveDown();
+    }
+}
+
+function renderRoadmap(doc: Doc, roadmap: RemediationRoadmap): void {
+    heading(doc, 'Remediation Roadmap');
+
+    paragraph(doc, `Current score ${roadmap.currentScore}, projected ${roadmap.projectedScore} if every task is completed.`);
+
+    const { quickWins, shortTerm, longTerm } = roadmap.timeline;
+    for (const [label, bucket] of [['Quick wins', quickWins], ['Short term', shortTerm], ['Long term', longTerm]] as const) {
+        doc.fillColor(COLORS.muted).fontSize(10)
+            .text(`${label}: ${bucket.tasks} tasks, ~${bucket.days} days, +${bucket.scoreGain} points`, { indent: 10 });
+    }
+    doc.moveDown();
+
+    if (roadmap.tasks.length === 0) {
+        paragraph(doc, 'No remediation tasks were identified.');
+        return;
+    }
+
+    roadmap.tasks.forEach((task, index) => {
+        doc.fillColor(COLORS.text).fontSize(12).text(`${index + 1}. ${task.title}`);
+        doc.fillColor(COLORS.muted).fontSize(9).text(
+            `${task.targetFactor} · +${task.expectedScoreGain} points · ${task.difficulty} effort · ` +
+            `~${task.estimatedDays} days · ${task.category.replace(/_/g, ' ')}`
+        );
+        doc.fillColor(COLORS.text).fontSize(10).text(task.description);
+        for (const item of task.actionItems) {
+            doc.fontSize(9).text(`• ${item}`, { indent: 10 });
+        }
+        doc.moveDown();
+    });
+}
+
+function renderFooters(doc: Doc, input: CreditReportInput): void {
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        // Drop the bottom margin so writing in it doesn't trigger a new page
+        const bottomMargin = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.fillColor(COLORS.muted).fontSize(8).text(
+            `${input.companyId} · ${input.jobId} · Page ${i + 1} of ${range.count}`,
+            doc.page.margins.left,
+            doc.page.height - 30,
+            { align: 'center', width: doc.page.width - doc.page.margins.left - doc.page.margins.right }
+        );
+        doc.page.margins.bottom = bottomMargin;
+    }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function heading(doc: Doc, text: string): void {
+    doc.fillColor(COLORS.accent).fontSize(18).text(text);
+    doc.moveDown(0.5);
+}
+
+function paragraph(doc: Doc, text: string): void {
+    doc.fillColor(COLORS.text).fontSize(10).text(text);
+    doc.moveDown();
+}
+
+function bulletSection(doc: Doc, title: string, items: string[], color: string): void {
+    if (items.length === 0) return;
+
+    doc.fillColor(COLORS.text).fontSize(13).text(title);
+    doc.moveDown(0.3);
+    for (const item of items) {
+        doc.fillColor(color).fontSize(10).text(`• ${item}`, { indent: 10 });
+    }
+    doc.moveDown();
+}
+
+function rule(doc: Doc): void {
+    const y = doc.y;
+    doc.strokeColor(COLORS.rule).lineWidth(0.5)
+        .moveTo(doc.page.margins.left, y)
+        .lineTo(doc.page.width - doc.page.margins.right, y)
+        .stroke();
+    doc.moveDown(0.5);
+}
+
+function gradeColor(score: number): string {
+    if (score >= 70) return COLORS.success;
+    if (score >= 50) return COLORS.warning;
+    return COLORS.danger;
+}
+
+function formatDate(date: Date): string {
+    return new Date(date).toISOString().slice(0, 10);
+}
+
+function formatValue(value: unknown, currency?: string): string {
+    if (typeof value === 'number') return currency ? formatMoney(value, currency) : value.toLocaleString('en-US');
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value);
+}
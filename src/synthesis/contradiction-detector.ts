@@ -14,8 +14,17 @@
  *   │  Cash position check                                        │
  *   │  Balance sheet cash  vs  Plaid account balance sum          │
  *   │  Flag if |doc − plaid| / max(doc, plaid) > 25%             │
+ *   │                                                             │
+ *   │  Earnings quality check                                     │
+ *   │  P&L net income  vs  cash flow statement operating cash    │
+ *   │  flow, same fiscal year                                     │
+ *   │  Flag if signs differ or |ni − ocf| / max(|ni|, |ocf|)     │
+ *   │  > 50%                                                      │
  *   └─────────────────────────────────────────────────────────────┘
  *
+ * Amounts are converted to the analysis' reporting currency (at the rate for
+ * the statement period or snapshot date) before they are compared.
+ *
  * Resolution: trust_ranking — documents outrank API snapshots.
  */
 
@@ -24,13 +33,21 @@ import type {
     GlobalContext,
     Contradiction,
     ConflictSource,
+    ParsedDocument,
 } from '../types/index.js';
-import { extractLatestNumericValue } from '../utils/document-extraction.js';
+import { extractLatestNumericValue, getSortedYearKeys } from '../utils/document-extraction.js';
 import type { GlobalContextService } from '../core/global-context.js';
+import { convertAmount, formatMoney, getReportingCurrency } from '../core/currency.js';
 
 /** Maximum relative discrepancy (0–1) before a contradiction is flagged. */
 const DISCREPANCY_THRESHOLD = 0.25;
 
+/**
+ * Earnings and operating cash flow differ by working capital and non-cash
+ * items even in healthy companies, so they get a wider band.
+ */
+const EARNINGS_CASH_THRESHOLD = 0.5;
+
 /**
  * Detect cross-source contradictions in the context and record them.
  * Non-fatal: any error is logged and detection continues.
@@ -39,7 +56,7 @@ export async function detectContradictions(
     context: GlobalContext,
     contextService: GlobalContextService,
 ): Promise<void> {
-    const detectors = [checkRevenueContradiction, checkCashContradiction];
+    const detectors = [checkRevenueContradiction, checkCashContradiction, checkCashFlowContradiction];
 
     // Run detectors in parallel (each is synchronous; only addContradiction is async)
     const contradictions = await Promise.all(
@@ -72,13 +89,18 @@ function checkRevenueContradiction(context: GlobalContext): Contradiction | null
     const stripeSnapshot = context.apiSnapshots?.stripe;
     if (!stripeSnapshot || (stripeSnapshot.mrr ?? 0) <= 0) return null;
 
-    const docRevenue = extractLatestNumericValue(
-        plDoc.data as Record<string, unknown>,
-        'revenue', 'totalRevenue', 'total_revenue', 'sales', 'totalSales',
-    );
-    if (docRevenue === undefined || docRevenue <= 0) return null;
+    const reportingCurrency = getReportingCurrency(context);
+    const revenue = readDocumentAmount(plDoc, reportingCurrency, 'revenue', 'totalRevenue', 'total_revenue', 'sales', 'totalSales');
+    if (!revenue || revenue.amount <= 0) return null;
 
-    const stripeAnnual = stripeSnapshot.mrr * 12;
+    const docRevenue = toReportingCurrency(revenue, reportingCurrency);
+    const stripeRevenue: Money = {
+        amount: stripeSnapshot.mrr * 12,
+        // Snapshots stored before currencies were tracked
+        currency: stripeSnapshot.currency ?? reportingCurrency,
+        on: new Date(stripeSnapshot.fetchedAt),
+    };
+    const stripeAnnual = toReportingCurrency(stripeRevenue, reportingCurrency);
     const discrepancy = Math.abs(docRevenue - stripeAnnual) / Math.max(docRevenue, stripeAnnual);
 
     if (discrepancy <= DISCREPANCY_THRESHOLD) return null;
@@ -89,20 +111,24 @@ function checkRevenueContradiction(context: GlobalContext): Contradiction | null
             documentId: plDoc.id,
             field: 'annual_revenue',
             value: docRevenue,
+            currency: reportingCurrency,
             trustScore: plDoc.trustScore,
         },
         {
             source: 'stripe',
             field: 'mrr_annualized',
             value: stripeAnnual,
+            currency: reportingCurrency,
             trustScore: 0.7,
         },
     ];
 
     return buildContradiction(
         sources,
-        `Revenue discrepancy: P&L shows $${fmt(docRevenue)} vs Stripe annualized $${fmt(stripeAnnual)} (${pct(discrepancy)} difference).`,
+        `Revenue discrepancy: P&L shows ${describeAmount(revenue, docRevenue, reportingCurrency)} vs Stripe annualized ` +
+        `${describeAmount(stripeRevenue, stripeAnnual, reportingCurrency)} (${pct(discrepancy)} difference).`,
         docRevenue,
+        reportingCurrency,
         'Documents reflect reported revenue; Stripe reflects processed payments. Difference may indicate unprocessed revenue streams, refunds, or data lag.',
     );
 }
@@ -114,14 +140,19 @@ function checkCashContradiction(context: GlobalContext): Contradiction | null {
     const plaidSnapshot = context.apiSnapshots?.plaid;
     if (!plaidSnapshot?.accounts || plaidSnapshot.accounts.length === 0) return null;
 
-    const docCash = extractLatestNumericValue(
-        bsDoc.data as Record<string, unknown>,
-        'cash', 'cashAndEquivalents', 'cash_and_equivalents', 'currentAssets',
-    );
-    if (docCash === undefined || docCash <= 0) return null;
+    const reportingCurrency = getReportingCurrency(context);
+    const cash = readDocumentAmount(bsDoc, reportingCurrency, 'cash', 'cashAndEquivalents', 'cash_and_equivalents', 'currentAssets');
+    if (!cash || cash.amount <= 0) return null;
+
+    const docCash = toReportingCurrency(cash, reportingCurrency);
 
-    const plaidCash = plaidSnapshot.accounts
-        .reduce((sum, acc) => sum + (acc.currentBalance ?? 0), 0);
+    const fetchedAt = new Date(plaidSnapshot.fetchedAt);
+    const plaidCash = plaidSnapshot.accounts.reduce((sum, acc) => sum + toReportingCurrency({
+        amount: acc.currentBalance ?? 0,
+        // Snapshots stored before currencies were tracked
+        currency: acc.currency ?? plaidSnapshot.currency ?? reportingCurrency,
+        on: fetchedAt,
+    }, reportingCurrency), 0);
     if (plaidCash <= 0) return null;
 
     const discrepancy = Math.abs(docCash - plaidCash) / Math.max(docCash, plaidCash);
@@ -133,24 +164,82 @@ function checkCashContradiction(context: GlobalContext): Contradiction | null {
             documentId: bsDoc.id,
             field: 'cash_position',
             value: docCash,
+            currency: reportingCurrency,
             trustScore: bsDoc.trustScore,
         },
         {
             source: 'plaid',
             field: 'account_balance_sum',
             value: plaidCash,
+            currency: reportingCurrency,
             trustScore: 0.8,
         },
     ];
 
     return buildContradiction(
         sources,
-        `Cash discrepancy: balance sheet shows $${fmt(docCash)} vs Plaid accounts $${fmt(plaidCash)} (${pct(discrepancy)} difference).`,
+        `Cash discrepancy: balance sheet shows ${describeAmount(cash, docCash, reportingCurrency)} vs ` +
+        `${plaidSnapshot.source === 'bank_statement' ? 'imported bank statements' : 'Plaid accounts'} ` +
+        `${formatMoney(plaidCash, reportingCurrency)} (${pct(discrepancy)} difference).`,
         docCash,
+        reportingCurrency,
         'Balance sheet may reflect a period-end snapshot while Plaid reflects live balances. Large gaps can indicate off-balance-sheet accounts or timing differences.',
     );
 }
 
+function checkCashFlowContradiction(context: GlobalContext): Contradiction | null {
+    const plDoc = context.documents?.find(d => d.type === 'profit_and_loss');
+    const cfDoc = context.documents?.find(d => d.type === 'cash_flow_statement');
+    if (!plDoc?.data || !cfDoc?.data) return null;
+
+    const reportingCurrency = getReportingCurrency(context);
+    const netIncome = readDocumentAmount(plDoc, reportingCurrency, 'netIncome', 'net_income', 'profit', 'netProfit');
+    const operatingCash = readDocumentAmount(cfDoc, reportingCurrency, 'operatingCashFlow', 'operating_cash_flow', 'cashFromOperations');
+    if (!netIncome || !operatingCash) return null;
+
+    // Only compare statements for the same fiscal year
+    if (netIncome.on.getTime() !== operatingCash.on.getTime()) return null;
+
+    const docEarnings = toReportingCurrency(netIncome, reportingCurrency);
+    const docCashFlow = toReportingCurrency(operatingCash, reportingCurrency);
+    const scale = Math.max(Math.abs(docEarnings), Math.abs(docCashFlow));
+    if (scale === 0) return null;
+
+    const signsDiffer = Math.sign(docEarnings) * Math.sign(docCashFlow) < 0;
+    const discrepancy = Math.abs(docEarnings - docCashFlow) / scale;
+    if (!signsDiffer && discrepancy <= EARNINGS_CASH_THRESHOLD) return null;
+
+    const sources: ConflictSource[] = [
+        {
+            source: 'document',
+            documentId: plDoc.id,
+            field: 'net_income',
+            value: docEarnings,
+            currency: reportingCurrency,
+            trustScore: plDoc.trustScore,
+        },
+        {
+            source: 'document',
+            documentId: cfDoc.id,
+            field: 'operating_cash_flow',
+            value: docCashFlow,
+            currency: reportingCurrency,
+            trustScore: cfDoc.trustScore,
+        },
+    ];
+
+    const gap = signsDiffer ? 'opposite signs' : `${pct(discrepancy)} difference`;
+
+    return buildContradiction(
+        sources,
+        `Earnings vs cash discrepancy: P&L net income ${describeAmount(netIncome, docEarnings, reportingCurrency)} vs ` +
+        `operating cash flow ${describeAmount(operatingCash, docCashFlow, reportingCurrency)} (${gap}).`,
+        docCashFlow,
+        reportingCurrency,
+        'Operating cash flow is accepted as the measure of debt-servicing capacity. Profits that do not turn into cash can indicate aggressive revenue recognition, growing receivables or inventory build-up.',
+    );
+}
+
 // ============================================
 // HELPERS
 // ============================================
@@ -159,6 +248,7 @@ function buildContradiction(
     sources: ConflictSource[],
     description: string,
     acceptedValue: number,
+    currency: string,
     reasoning: string,
 ): Contradiction {
     // Trust-rank: highest trustScore wins
@@ -169,17 +259,56 @@ function buildContradiction(
         detectedAt: new Date(),
         sources: sorted,
         description,
+        detectedBy: 'analysis',
         resolution: {
             resolvedAt: new Date(),
             method: 'trust_ranking',
             acceptedValue,
+            currency,
             reasoning,
         },
     };
 }
 
-function fmt(n: number): string {
-    return n.toLocaleString('en-US', { maximumFractionDigits: 0 });
+interface Money {
+    amount: number;
+    currency: string;
+    /** Date the amount applies to, which picks the FX rate */
+    on: Date;
+}
+
+/**
+ * Read an amount from the latest period of a document, with its currency and
+ * period-end date. Documents without a known currency are assumed to be in
+ * the reporting currency.
+ */
+function readDocumentAmount(doc: ParsedDocument, reportingCurrency: string, ...keys: string[]): Money | undefined {
+    const data = doc.data as Record<string, unknown>;
+    const amount = extractLatestNumericValue(data, ...keys);
+    if (amount === undefined) return undefined;
+
+    const latestYear = getSortedYearKeys(data)[0];
+    const period = latestYear ? data[latestYear] as Record<string, unknown> : data;
+    const periodCurrency = typeof period?.currency === 'string' ? period.currency : undefined;
+
+    return {
+        amount,
+        currency: doc.currency ?? periodCurrency ?? reportingCurrency,
+        on: latestYear ? new Date(`${latestYear}-12-31`) : new Date(doc.parsedAt),
+    };
+}
+
+function toReportingCurrency(money: Money, reportingCurrency: string): number {
+    return convertAmount(money.amount, money.currency, reportingCurrency, money.on);
+}
+
+/**
+ * "DKK 820,000", or "DKK 820,000 (USD 120,000)" when the amount was converted
+ */
+function describeAmount(money: Money, converted: number, reportingCurrency: string): string {
+    const formatted = formatMoney(converted, reportingCurrency);
+    if (money.currency === reportingCurrency) return formatted;
+    return `${formatted} (${formatMoney(money.amount, money.currency)})`;
 }
 
 function pct(ratio: number): string {
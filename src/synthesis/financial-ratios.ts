@@ -0,0 +1,182 @@
+/**
+ * Financial Ratios
+ *
+ * Deterministic ratio engine over parsed P&L, balance sheet and cash flow
+ * statement data. Computes
+ * a typed, year-by-year FinancialRatios set once so agents (via their
+ * analysis data) and the risk synthesizer work from the same numbers instead
+ * of recomputing them — or asking the LLM to.
+ *
+ * Every ratio cites the document fields it was computed from. A ratio whose
+ * inputs are missing, or whose denominator is not positive, is null.
+ */
+
+import type { FinancialRatios, ParsedDocument, PeriodRatios, RatioValue } from '../types/index.js';
+import { extractNumericField, getSortedYearKeys } from '../utils/document-extraction.js';
+
+// ============================================
+// FIELD SYNONYMS
+// ============================================
+
+/**
+ * Accepted keys for each statement line item, in lookup order
+ */
+export const FINANCIAL_FIELDS = {
+    revenue: ['revenue', 'totalRevenue', 'total_revenue', 'sales', 'totalSales'],
+    costOfGoodsSold: ['costOfGoodsSold', 'cost_of_goods_sold', 'cogs', 'costOfSales'],
+    operatingExpenses: ['operatingExpenses', 'operating_expenses', 'opex'],
+    grossProfit: ['grossProfit', 'gross_profit'],
+    ebit: ['ebit', 'operatingIncome', 'operating_income', 'operatingProfit'],
+    netIncome: ['netIncome', 'net_income', 'profit', 'netProfit'],
+    interestExpense: ['interestExpense', 'interest_expense'],
+    depreciation: ['depreciationAndAmortization', 'depreciation', 'depreciation_and_amortization'],
+    principalRepayments: ['principalRepayments', 'principal_repayments', 'debtRepayments', 'loanRepayments'],
+    totalAssets: ['totalAssets', 'total_assets', 'assets'],
+    totalLiabilities: ['totalLiabilities', 'total_liabilities', 'liabilities'],
+    equity: ['equity', 'totalEquity', 'total_equity', 'shareholdersEquity'],
+    currentAssets: ['currentAssets', 'current_assets', 'totalCurrentAssets'],
+    currentLiabilities: ['currentLiabilities', 'current_liabilities', 'totalCurrentLiabilities'],
+    inventory: ['inventory', 'inventories'],
+    receivables: ['receivables', 'accountsReceivable', 'accounts_receivable', 'tradeReceivables'],
+    payables: ['payables', 'accountsPayable', 'accounts_payable', 'tradePayables'],
+    operatingCashFlow: ['operatingCashFlow', 'operating_cash_flow', 'cashFromOperations', 'netCashFromOperatingActivities'],
+    capitalExpenditure: ['capitalExpenditure', 'capital_expenditure', 'capex'],
+    freeCashFlow: ['freeCashFlow', 'free_cash_flow', 'fcf'],
+} as const;
+
+export type FinancialField = keyof typeof FINANCIAL_FIELDS;
+
+interface Figure {
+    value: number;
+    sources: string[];
+}
+
+type PeriodFigures = Partial<Record<FinancialField, Figure>>;
+
+// ============================================
+// RATIO ENGINE
+// ============================================
+
+/**
+ * Compute ratios for every reporting period in the company's financial statements
+ */
+export function computeFinancialRatios(documents: ParsedDocument[]): FinancialRatios {
+    const statements = (['profit_and_loss', 'balance_sheet', 'cash_flow_statement'] as const)
+        .map(type => documents.find(d => d.type === type))
+        .filter((doc): doc is ParsedDocument => !!doc?.data);
+
+    const years = Array.from(new Set(statements.flatMap(doc => getSortedYearKeys(doc.data)))).sort().reverse();
+    const periods = years.length > 0 ? years : statements.length > 0 ? ['latest'] : [];
+
+    const figures = periods.map(period => readFigures(statements, period, periods[0]!));
+    const periodRatios = periods.map((period, i) => computePeriodRatios(period, figures[i]!, figures[i + 1]));
+
+    return {
+        periods: periodRatios,
+        latest: periodRatios[0] ?? null,
+        revenueCagr: computeRevenueCagr(years, figures),
+    };
+}
+
+function computePeriodRatios(period: string, current: PeriodFigures, previous: PeriodFigures | undefined): PeriodRatios {
+    const { revenue, ebit, interestExpense, currentAssets, currentLiabilities } = current;
+
+    const grossProfit = current.grossProfit
+        ?? (revenue && current.costOfGoodsSold ? difference(revenue, current.costOfGoodsSold) : undefined);
+
+    const cashAvailableForDebt = ebit && current.depreciation ? sum(ebit, current.depreciation) : ebit;
+    const debtService = interestExpense && current.principalRepayments
+        ? sum(interestExpense, current.principalRepayments)
+        : interestExpense;
+
+    const quickAssets = currentAssets && current.inventory ? difference(currentAssets, current.inventory) : undefined;
+
+    const { operatingCashFlow } = current;
+    const freeCashFlow = current.freeCashFlow
+        ?? (operatingCashFlow && current.capitalExpenditure ? difference(operatingCashFlow, current.capitalExpenditure) : undefined);
+
+    return {
+        period,
+        grossMargin: ratio(grossProfit, revenue),
+        netMargin: ratio(current.netIncome, revenue),
+        ebitMargin: ratio(ebit, revenue),
+        dscr: ratio(cashAvailableForDebt, debtService),
+        interestCoverage: ratio(ebit, interestExpense),
+        currentRatio: ratio(currentAssets, currentLiabilities),
+        quickRatio: ratio(quickAssets, currentLiabilities),
+        workingCapital: currentAssets && currentLiabilities ? difference(currentAssets, currentLiabilities) : null,
+        leverage: ratio(current.totalLiabilities, current.equity),
+        equityRatio: ratio(current.equity, current.totalAssets),
+        debtRatio: ratio(current.totalLiabilities, current.totalAssets),
+        revenueGrowth: revenue && previous?.revenue && previous.revenue.value > 0
+            ? {
+                value: (revenue.value - previous.revenue.value) / previous.revenue.value,
+                sources: [...revenue.sources, ...previous.revenue.sources],
+            }
+            : null,
+        operatingCashFlowMargin: ratio(operatingCashFlow, revenue),
+        cashFlowCoverage: ratio(operatingCashFlow, debtService),
+        cashConversion: ratio(operatingCashFlow, current.netIncome),
+        freeCashFlow: freeCashFlow ?? null,
+    };
+}
+
+function computeRevenueCagr(years: string[], figures: PeriodFigures[]): RatioValue | null {
+    const withRevenue = years
+        .map((year, i) => ({ year: Number(year), revenue: figures[i]?.revenue }))
+        .filter((entry): entry is { year: number; revenue: Figure } => !!entry.revenue);
+
+    const latest = withRevenue[0];
+    const earliest = withRevenue[withRevenue.length - 1];
+    if (!latest || !earliest || latest.year === earliest.year || earliest.revenue.value <= 0 || latest.revenue.value < 0) {
+        return null;
+    }
+
+    return {
+        value: Math.pow(latest.revenue.value / earliest.revenue.value, 1 / (latest.year - earliest.year)) - 1,
+        sources: [...latest.revenue.sources, ...earliest.revenue.sources],
+    };
+}
+
+// ============================================
+// FIGURE EXTRACTION
+// ============================================
+
+/**
+ * Look up every line item for one period. Documents that are not year-keyed
+ * count as the most recent period.
+ */
+function readFigures(statements: ParsedDocument[], period: string, latestPeriod: string): PeriodFigures {
+    const figures: PeriodFigures = {};
+
+    for (const field of Object.keys(FINANCIAL_FIELDS) as FinancialField[]) {
+        for (const doc of statements) {
+            const yearKeyed = getSortedYearKeys(doc.data).length > 0;
+            const section = yearKeyed
+                ? doc.data[period] as Record<string, unknown> | undefined
+                : period === latestPeriod ? doc.data : undefined;
+
+            const found = extractNumericField(section, ...FINANCIAL_FIELDS[field]);
+            if (found) {
+                const prefix = yearKeyed ? `${doc.type}.${period}` : doc.type;
+                figures[field] = { value: found.value, sources: [`${prefix}.${found.path}`] };
+                break;
+            }
+        }
+    }
+
+    return figures;
+}
+
+function ratio(numerator: Figure | undefined, denominator: Figure | undefined): RatioValue | null {
+    if (!numerator || !denominator || denominator.value <= 0) return null;
+    return { value: numerator.value / denominator.value, sources: [...numerator.sources, ...denominator.sources] };
+}
+
+function sum(a: Figure, b: Figure): Figure {
+    return { value: a.value + b.value, sources: [...a.sources, ...b.sources] };
+}
+
+function difference(a: Figure, b: Figure): Figure {
+    return { value: a.value - b.value, sources: [...a.sources, ...b.sources] };
+}
@@ -0,0 +1,160 @@
+/**
+ * Material Change Detection
+ *
+ * Reduces the data an analysis runs on to a small fingerprint — a hash of the
+ * documents plus the headline Stripe and Plaid metrics — and compares two
+ * fingerprints against the MONITORING.materialChange thresholds. Monitoring
+ * uses it to decide whether a scheduled re-analysis needs the agents again or
+ * can reuse the last run's insights and recompute only deterministic factors.
+ *
+ * Pure functions — no I/O.
+ */
+
+import { createHash } from 'crypto';
+import type { GlobalContext, ParsedDocument } from '../types/index.js';
+import { MONITORING } from '../config/index.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface StripeFingerprint {
+    currency: string;
+    mrr: number;
+    customerCount: number;
+    churnRate: number;
+    /** Largest customer's share of revenue (0 with no customers) */
+    topCustomerShare: number;
+}
+
+export interface PlaidFingerprint {
+    currency: string;
+    /** Summed current balance of the non-credit accounts */
+    balance: number;
+    averageMonthlyInflow: number;
+    averageMonthlyOutflow: number;
+}
+
+export interface DataFingerprint {
+    /** SHA-256 over each document's type, period data and currency */
+    documents: string;
+    stripe?: StripeFingerprint;
+    plaid?: PlaidFingerprint;
+}
+
+export type MaterialChangeThresholds = typeof MONITORING.materialChange;
+
+// ============================================
+// FINGERPRINTING
+// ============================================
+
+/**
+ * Fingerprint the documents and API snapshots an analysis would run on
+ */
+export function fingerprintData(context: Pick<GlobalContext, 'documents' | 'apiSnapshots'>): DataFingerprint {
+    const { stripe, plaid } = context.apiSnapshots;
+
+    return {
+        documents: hashDocuments(context.documents),
+        ...(stripe && {
+            stripe: {
+                currency: stripe.currency,
+                mrr: stripe.mrr,
+                customerCount: stripe.customerCount,
+                churnRate: stripe.churnRate,
+                topCustomerShare: stripe.topCustomers[0]?.percentOfTotal ?? 0,
+            },
+        }),
+        ...(plaid && {
+            plaid: {
+                currency: plaid.currency,
+                balance: plaid.accounts
+                    .filter(account => account.type !== 'credit')
+                    .reduce((sum, account) => sum + account.currentBalance, 0),
+                averageMonthlyInflow: plaid.cashFlow.averageMonthlyInflow,
+                averageMonthlyOutflow: plaid.cashFlow.averageMonthlyOutflow,
+            },
+        }),
+    };
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+/**
+ * Describe every material difference between two fingerprints, e.g.
+ * "Stripe MRR changed 12.5%". Empty when nothing changed materially.
+ */
+export function describeMaterialChanges(
+    previous: DataFingerprint,
+    current: DataFingerprint,
+    thresholds: MaterialChangeThresholds = MONITORING.materialChange
+): string[] {
+    const changes: string[] = [];
+
+    if (previous.documents !== current.documents) {
+        changes.push('Documents changed');
+    }
+
+    changes.push(...compareSource('Stripe', previous.stripe, current.stripe, (from, to) => [
+        relativeChange('MRR', from.mrr, to.mrr, thresholds.relativeChange),
+        relativeChange('customer count', from.customerCount, to.customerCount, thresholds.relativeChange),
+        pointChange('churn rate', from.churnRate, to.churnRate, thresholds.churnRatePoints),
+        pointChange('top customer share', from.topCustomerShare, to.topCustomerShare, thresholds.topCustomerSharePoints),
+    ]));
+
+    changes.push(...compareSource('Plaid', previous.plaid, current.plaid, (from, to) => [
+        relativeChange('balance', from.balance, to.balance, thresholds.relativeChange),
+        relativeChange('monthly inflow', from.averageMonthlyInflow, to.averageMonthlyInflow, thresholds.relativeChange),
+        relativeChange('monthly outflow', from.averageMonthlyOutflow, to.averageMonthlyOutflow, thresholds.relativeChange),
+    ]));
+
+    return changes;
+}
+
+function compareSource<T extends { currency: string }>(
+    label: string,
+    previous: T | undefined,
+    current: T | undefined,
+    compare: (from: T, to: T) => Array<string | null>
+): string[] {
+    if (!previous && !current) return [];
+    if (!previous) return [`${label} data added`];
+    if (!current) return [`${label} data no longer available`];
+    if (previous.currency !== current.currency) {
+        return [`${label} currency changed from ${previous.currency} to ${current.currency}`];
+    }
+
+    return compare(previous, current)
+        .filter((change): change is string => change !== null)
+        .map(change => `${label} ${change}`);
+}
+
+function relativeChange(metric: string, from: number, to: number, threshold: number): string | null {
+    if (from === to) return null;
+
+    // From zero, any movement is material
+    const change = from === 0 ? Infinity : Math.abs(to - from) / Math.abs(from);
+    if (change < threshold) return null;
+
+    return Number.isFinite(change)
+        ? `${metric} changed ${(change * 100).toFixed(1)}%`
+        : `${metric} changed from 0`;
+}
+
+function pointChange(metric: string, from: number, to: number, threshold: number): string | null {
+    const change = Math.abs(to - from);
+    return change < threshold ? null : `${metric} changed ${(change * 100).toFixed(1)} points`;
+}
+
+function hashDocuments(documents: ParsedDocument[]): string {
+    const hash = createHash('sha256');
+    const canonical = documents
+        .map(doc => JSON.stringify([doc.type, doc.currency ?? null, doc.data]))
+        .sort();
+    for (const entry of canonical) {
+        hash.update(entry).update('\n');
+    }
+    return hash.digest('hex');
+}
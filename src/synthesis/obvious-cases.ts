@@ -2,18 +2,22 @@
  * Obvious Cases Validation
  * 
  * Pre-analysis validation layer that detects obvious edge cases
- * and returns hardcoded scores without invoking LLM analysis.
+ * and returns hardcoded scores without invoking LLM analysis. The score
+ * itself is fixed; its factor weights and grade come from the scoring policy.
  */
 
 import type {
     GlobalContext,
-    Grade,
     BankabilityScore,
     RiskFactorMap,
     RemediationRoadmap,
     RiskFactor,
+    ScoringPolicy,
 } from '../types/index.js';
+import { getScoringPolicy } from './scoring-policies.js';
+import { scoreToGrade } from './score-calculator.js';
 import { extractNumericValue, extractLatestNumericValue, getSortedYearKeys } from '../utils/document-extraction.js';
+import { FINANCIAL_FIELDS } from './financial-ratios.js';
 
 // ============================================
 // OBVIOUS CASE TYPES
@@ -38,13 +42,14 @@ export type ObviousCaseType =
 // ============================================
 
 /**
- * Check if the context represents an obvious case
+ * Check if the context represents an obvious case, scored under the policy
+ * (the default policy unless one is given)
  * Returns null if LLM analysis should proceed
  */
-export function checkObviousCases(context: GlobalContext): ObviousCaseResult | null {
+export function checkObviousCases(context: GlobalContext, policy: ScoringPolicy = getScoringPolicy()): ObviousCaseResult | null {
     // Case 1: No data whatsoever
     if (isNoDataCase(context)) {
-        return createObviousResult('no_data', 0, 'F', context, {
+        return createObviousResult('no_data', 0, context, policy, {
             summary: 'Unable to calculate score — no financial data provided.',
             explanation: 'No documents, Stripe data, or Plaid data were provided. Please upload financial documents (P&L, balance sheet) or connect financial APIs to enable analysis.'
         });
@@ -52,7 +57,7 @@ export function checkObviousCases(context: GlobalContext): ObviousCaseResult | n
 
     // Case 2: Documents exist but are empty/unparseable
     if (isEmptyDocumentsCase(context)) {
-        return createObviousResult('empty_documents', 0, 'F', context, {
+        return createObviousResult('empty_documents', 0, context, policy, {
             summary: 'Unable to calculate score — documents contain no analyzable data.',
             explanation: 'Documents were uploaded but no financial data could be extracted. Please ensure documents are readable P&L statements, balance sheets, or other financial records.'
         });
@@ -61,7 +66,7 @@ export function checkObviousCases(context: GlobalContext): ObviousCaseResult | n
     // Case 3: All financial periods show losses
     const allNegative = isAllNegativeCase(context);
     if (allNegative) {
-        return createObviousResult('all_negative', 15, 'F', context, {
+        return createObviousResult('all_negative', 15, context, policy, {
             summary: 'Critical: All periods show financial losses.',
             explanation: 'Every financial period analyzed shows negative net income. This indicates severe financial distress requiring immediate attention.',
             serviceabilityOverride: 10,
@@ -71,7 +76,7 @@ export function checkObviousCases(context: GlobalContext): ObviousCaseResult | n
     // Case 4: Negative equity (liabilities > assets)
     const negativeEquity = isNegativeEquityCase(context);
     if (negativeEquity) {
-        return createObviousResult('negative_equity', 12, 'F', context, {
+        return createObviousResult('negative_equity', 12, context, policy, {
             summary: 'Critical: Negative equity position.',
             explanation: 'Total liabilities exceed total assets, indicating insolvency. Immediate financial restructuring required.',
             serviceabilityOverride: 8,
@@ -80,7 +85,7 @@ export function checkObviousCases(context: GlobalContext): ObviousCaseResult | n
 
     // Case 5: Zero revenue
     if (isZeroRevenueCase(context)) {
-        return createObviousResult('zero_revenue', 5, 'F', context, {
+        return createObviousResult('zero_revenue', 5, context, policy, {
             summary: 'Critical: No revenue recorded.',
             explanation: 'Financial records show zero or no revenue. This may indicate a pre-revenue startup or data extraction issues.',
             serviceabilityOverride: 5,
@@ -135,14 +140,14 @@ function isAllNegativeCase(context: GlobalContext): boolean {
     if (years.length > 0) {
         const allNegative = years.every(year => {
             const yearData = data[year] as Record<string, unknown>;
-            const netIncome = extractNumericValue(yearData, 'netIncome', 'net_income', 'profit', 'netProfit');
+            const netIncome = extractNumericValue(yearData, ...FINANCIAL_FIELDS.netIncome);
             return netIncome !== undefined && netIncome < 0;
         });
         return allNegative && years.length > 0;
     }
 
     // Check flat structure
-    const netIncome = extractNumericValue(data, 'netIncome', 'net_income', 'profit', 'netProfit');
+    const netIncome = extractNumericValue(data, ...FINANCIAL_FIELDS.netIncome);
     return netIncome !== undefined && netIncome < 0;
 }
 
@@ -153,9 +158,9 @@ function isNegativeEquityCase(context: GlobalContext): boolean {
     const data = bsDoc.data as Record<string, unknown>;
 
     // Try to get latest values
-    const equity = extractLatestNumericValue(data, 'equity', 'totalEquity', 'total_equity', 'shareholdersEquity');
-    const totalAssets = extractLatestNumericValue(data, 'totalAssets', 'total_assets', 'assets');
-    const totalLiabilities = extractLatestNumericValue(data, 'totalLiabilities', 'total_liabilities', 'liabilities');
+    const equity = extractLatestNumericValue(data, ...FINANCIAL_FIELDS.equity);
+    const totalAssets = extractLatestNumericValue(data, ...FINANCIAL_FIELDS.totalAssets);
+    const totalLiabilities = extractLatestNumericValue(data, ...FINANCIAL_FIELDS.totalLiabilities);
 
     // Direct negative equity
     if (equity !== undefined && equity < 0) {
@@ -175,7 +180,7 @@ function isZeroRevenueCase(context: GlobalContext): boolean {
     if (!plDoc?.data) return false;
 
     const data = plDoc.data as Record<string, unknown>;
-    const revenue = extractLatestNumericValue(data, 'revenue', 'totalRevenue', 'total_revenue', 'sales', 'totalSales');
+    const revenue = extractLatestNumericValue(data, ...FINANCIAL_FIELDS.revenue);
 
     return revenue !== undefined && revenue === 0;
 }
@@ -197,16 +202,16 @@ interface ObviousResultOptions {
 function createObviousResult(
     caseType: ObviousCaseType,
     score: number,
-    grade: Grade,
     context: GlobalContext,
+    policy: ScoringPolicy,
     options: ObviousResultOptions
 ): ObviousCaseResult {
     // Create minimal risk factors
-    const riskFactors = createMinimalRiskFactors(score, options);
+    const riskFactors = createMinimalRiskFactors(score, policy, options);
 
     const bankabilityScore: BankabilityScore = {
         score,
-        grade,
+        grade: scoreToGrade(score, policy.grades),
         riskFactors,
         penalties: [],
         summary: options.summary,
@@ -217,6 +222,7 @@ function createObviousResult(
             reasoningChain: `Obvious case detected: ${caseType}. ${options.explanation}`,
         },
         calculatedAt: new Date(),
+        policyId: policy.id,
     };
 
     const roadmap = createMinimalRoadmap(context, score, caseType);
@@ -229,21 +235,21 @@ function createObviousResult(
     };
 }
 
-function createMinimalRiskFactors(baseScore: number, options: ObviousResultOptions): RiskFactorMap {
-    const createFactor = (name: string, override?: number): RiskFactor => ({
+function createMinimalRiskFactors(baseScore: number, policy: ScoringPolicy, options: ObviousResultOptions): RiskFactorMap {
+    const createFactor = (key: keyof RiskFactorMap, name: string, override?: number): RiskFactor => ({
         name,
         score: override ?? baseScore,
-        weight: 0.25,
+        weight: policy.weights[key],
         components: [],
         explanation: `Score set to ${override ?? baseScore} due to ${options.summary.toLowerCase()}`,
     });
 
     return {
-        serviceability: createFactor('Serviceability', options.serviceabilityOverride),
-        concentration: createFactor('Concentration', options.concentrationOverride),
-        retention: createFactor('Retention', options.retentionOverride),
-        compliance: createFactor('Compliance', options.complianceOverride),
-        growth: createFactor('Growth', options.growthOverride),
+        serviceability: createFactor('serviceability', 'Serviceability', options.serviceabilityOverride),
+        concentration: createFactor('concentration', 'Concentration', options.concentrationOverride),
+        retention: createFactor('retention', 'Retention', options.retentionOverride),
+        compliance: createFactor('compliance', 'Compliance', options.complianceOverride),
+        growth: createFactor('growth', 'Growth', options.growthOverride),
     };
 }
 
@@ -12,21 +12,42 @@ import type {
     ScoreDrag,
     RemediationTask,
     RemediationRoadmap,
+    ScoringPolicy,
+    WorkingCapitalAnalysis,
 } from '../types/index.js';
+import { getScoringPolicy } from './scoring-policies.js';
+import { analyzeWorkingCapital } from './working-capital.js';
+import { formatMoney, getReportingCurrency } from '../core/currency.js';
+
+/** DSO above which receivables collection is worth a task */
+const SLOW_DSO_DAYS = 45;
+
+/** DPO above which suppliers are being stretched */
+const STRETCHED_DPO_DAYS = 75;
+
+/** Share of a balance past due (over 60 days for payables) worth a task */
+const OVERDUE_SHARE_LIMIT = 0.1;
 
 /**
- * Generate a remediation roadmap based on score analysis
+ * Generate a remediation roadmap based on score analysis.
+ * Score drags are measured against the policy's drag target score.
+ * Working capital is analyzed from the context unless the caller has it
+ * already (re-scoring a stored analysis).
  */
 export async function generateRemediationRoadmap(
     score: BankabilityScore,
     riskFactors: RiskFactorMap,
-    context: GlobalContext
+    context: GlobalContext,
+    policy: ScoringPolicy = getScoringPolicy(),
+    workingCapital: WorkingCapitalAnalysis = analyzeWorkingCapital(context)
 ): Promise<RemediationRoadmap> {
+    const reportingCurrency = getReportingCurrency(context);
+
     // Identify score drags
-    const scoreDrags = identifyScoreDrags(riskFactors);
+    const scoreDrags = identifyScoreDrags(riskFactors, policy.dragTargetScore);
 
     // Generate tasks for each drag
-    const tasks = await generateTasks(scoreDrags, riskFactors, context);
+    const tasks = await generateTasks(scoreDrags, riskFactors, workingCapital, reportingCurrency);
 
     // Sort by priority
     tasks.sort((a, b) => b.priority - a.priority);
@@ -48,12 +69,13 @@ export async function generateRemediationRoadmap(
         scoreDrags,
         tasks,
         timeline,
+        reportingCurrency,
+        workingCapital,
     };
 }
 
-function identifyScoreDrags(riskFactors: RiskFactorMap): ScoreDrag[] {
+function identifyScoreDrags(riskFactors: RiskFactorMap, targetScore: number): ScoreDrag[] {
     const drags: ScoreDrag[] = [];
-    const targetScore = 75; // Target for "good" bankability
 
     for (const [key, factor] of Object.entries(riskFactors) as [keyof RiskFactorMap, typeof riskFactors.serviceability][]) {
         if (factor.score < targetScore) {
@@ -116,7 +138,8 @@ function getDifficultyWeight(difficulty: 'low' | 'medium' | 'high'): number {
 async function generateTasks(
     scoreDrags: ScoreDrag[],
     riskFactors: RiskFactorMap,
-    context: GlobalContext
+    workingCapital: WorkingCapitalAnalysis,
+    reportingCurrency: string
 ): Promise<RemediationTask[]> {
     const tasks: RemediationTask[] = [];
 
@@ -128,7 +151,7 @@ async function generateTasks(
             compliance: { score: drag.currentScore },
             growth: { score: drag.currentScore },
         }[drag.factor];
-        const dragTasks = generateTasksForDrag(drag, factorData, context);
+        const dragTasks = generateTasksForDrag(drag, factorData, workingCapital, reportingCurrency);
         tasks.push(...dragTasks);
     }
 
@@ -143,7 +166,8 @@ async function generateTasks(
 function generateTasksForDrag(
     drag: ScoreDrag,
     factor: { score: number },
-    context: GlobalContext
+    workingCapital: WorkingCapitalAnalysis,
+    reportingCurrency: string
 ): RemediationTask[] {
     const tasks: RemediationTask[] = [];
 
@@ -163,19 +187,7 @@ function generateTasksForDrag(
                     'Review staffing efficiency',
                 ],
             },
-            {
-                title: 'Accelerate accounts receivable',
-                description: 'Reduce days sales outstanding (DSO) to improve cash position.',
-                category: 'quick_win',
-                difficulty: 'low',
-                estimatedDays: 14,
-                actionItems: [
-                    'Review payment terms with customers',
-                    'Implement early payment discounts',
-                    'Automate invoice reminders',
-                    'Consider invoice factoring',
-                ],
-            },
+            ...workingCapitalTasks(workingCapital, reportingCurrency),
             {
                 title: 'Establish credit line',
                 description: 'Secure a revolving credit facility to buffer cash flow volatility.',
@@ -338,6 +350,78 @@ function generateTasksForDrag(
     return tasks;
 }
 
+/**
+ * Receivables and payables tasks that name the figures behind them. Without
+ * working capital data the generic receivables task stands; when collection
+ * is already fast and current it is left out.
+ */
+function workingCapitalTasks(workingCapital: WorkingCapitalAnalysis, currency: string): Array<Partial<RemediationTask>> {
+    const tasks: Array<Partial<RemediationTask>> = [];
+    const { dso, dpo, receivables, payables } = workingCapital;
+
+    if (dso === null && !receivables) {
+        tasks.push({
+            title: 'Accelerate accounts receivable',
+            description: 'Reduce days sales outstanding (DSO) to improve cash position.',
+            category: 'quick_win',
+            difficulty: 'low',
+            estimatedDays: 14,
+            actionItems: [
+                'Review payment terms with customers',
+                'Implement early payment discounts',
+                'Automate invoice reminders',
+                'Consider invoice factoring',
+            ],
+        });
+    } else if ((dso ?? 0) > SLOW_DSO_DAYS || (receivables?.overdueShare ?? 0) > OVERDUE_SHARE_LIMIT) {
+        const findings = [
+            dso !== null ? `Customers take ${Math.round(dso)} days to pay` : null,
+            receivables ? `${formatShare(receivables.overdueShare)} of receivables (${formatMoney(receivables.overdue, currency)}) is past due` : null,
+        ].filter(Boolean);
+
+        tasks.push({
+            title: 'Accelerate accounts receivable',
+            description: `${findings.join(' and ')}. Collecting faster frees cash for debt service.`,
+            category: 'quick_win',
+            difficulty: 'low',
+            estimatedDays: 14,
+            actionItems: [
+                ...(receivables?.overdueConcentration.slice(0, 3).map(c =>
+                    `Chase ${c.name} for ${formatMoney(c.overdue, currency)} overdue (${formatShare(c.share)} of overdue receivables)`
+                ) ?? []),
+                'Shorten payment terms on new invoices and automate reminders',
+                ...((receivables?.over60Share ?? 0) > 0.1 ? ['Consider invoice factoring or credit insurance for invoices over 60 days'] : []),
+            ],
+        });
+    }
+
+    if ((dpo ?? 0) > STRETCHED_DPO_DAYS || (payables?.over60Share ?? 0) > OVERDUE_SHARE_LIMIT) {
+        tasks.push({
+            title: 'Clear overdue supplier payments',
+            description: [
+                dpo !== null ? `Suppliers wait ${Math.round(dpo)} days to be paid` : null,
+                payables ? `${formatMoney(payables.overdue, currency)} of payables is past due` : null,
+            ].filter(Boolean).join(' and ') + '. Lenders read stretched payables as a sign the business is short of cash.',
+            category: 'structural',
+            difficulty: 'medium',
+            estimatedDays: 30,
+            actionItems: [
+                ...(payables?.overdueConcentration.slice(0, 3).map(c =>
+                    `Agree a payment plan with ${c.name} for ${formatMoney(c.overdue, currency)} overdue`
+                ) ?? []),
+                'Pay suppliers within their terms once receivables are collected faster',
+                'Keep a working capital facility for seasonal gaps instead of delaying suppliers',
+            ],
+        });
+    }
+
+    return tasks;
+}
+
+function formatShare(share: number): string {
+    return `${Math.round(share * 100)}%`;
+}
+
 function calculatePriority(task: RemediationTask): number {
     // Priority = (Impact × 100) / (Difficulty Weight × Days)
     const difficultyWeight = getDifficultyWeight(task.difficulty);
@@ -0,0 +1,106 @@
+/**
+ * Re-scoring
+ *
+ * Scores a stored analysis again under a different policy or weight set.
+ * Once the RiskFactorMap exists, scoring and the remediation roadmap are
+ * deterministic, so no agents (and no LLM calls) are rerun: the persisted
+ * risk factors and insights are replayed into a context and scored afresh.
+ * The roadmap's working capital tasks come from the figures stored with the
+ * original roadmap, as the session's documents may be gone.
+ */
+
+import type {
+    AgentId,
+    AgentInsight,
+    BankabilityScore,
+    GlobalContext,
+    RemediationRoadmap,
+    RiskFactorMap,
+    ScoringPolicy,
+} from '../types/index.js';
+import { calculateBankabilityScore } from './score-calculator.js';
+import { generateRemediationRoadmap } from './remediation.js';
+import { analyzeWorkingCapital } from './working-capital.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** The parts of a completed analysis re-scoring needs */
+export interface RescorableAnalysis {
+    companyId: string;
+    score: BankabilityScore;
+    roadmap: RemediationRoadmap;
+    /** Missing on analyses persisted before insights were stored */
+    insights?: AgentInsight[];
+}
+
+export interface RescoreResult {
+    score: BankabilityScore;
+    roadmap: RemediationRoadmap;
+}
+
+// ============================================
+// RE-SCORING
+// ============================================
+
+/**
+ * Recompute score, penalties and roadmap for a stored analysis under the given policy
+ */
+export async function rescoreAnalysis(
+    analysis: RescorableAnalysis,
+    policy: ScoringPolicy
+): Promise<RescoreResult> {
+    const context = buildStoredContext(analysis);
+
+    const score = calculateBankabilityScore(context.riskFactors, context, policy);
+    const roadmap = await generateRemediationRoadmap(
+        score,
+        score.riskFactors,
+        context,
+        policy,
+        analysis.roadmap.workingCapital ?? analyzeWorkingCapital(context),
+    );
+
+    return { score, roadmap };
+}
+
+/**
+ * Derive a policy that scores with custom factor weights, keeping the base
+ * policy's penalties, grade bands and drag target
+ */
+export function withCustomWeights(
+    policy: ScoringPolicy,
+    weights: Record<keyof RiskFactorMap, number>
+): ScoringPolicy {
+    return {
+        ...policy,
+        id: `${policy.id}-custom-weights`,
+        name: `${policy.name} (custom weights)`,
+        weights,
+    };
+}
+
+/**
+ * Rebuild the slice of GlobalContext scoring reads from a stored analysis
+ */
+function buildStoredContext(analysis: RescorableAnalysis): GlobalContext {
+    const agentInsights = new Map<AgentId, AgentInsight[]>();
+    for (const insight of analysis.insights ?? []) {
+        const list = agentInsights.get(insight.agentId) ?? [];
+        list.push(insight);
+        agentInsights.set(insight.agentId, list);
+    }
+
+    return {
+        sessionId: analysis.roadmap.sessionId,
+        companyId: analysis.companyId,
+        startedAt: new Date(analysis.score.calculatedAt),
+        documents: [],
+        apiSnapshots: {},
+        agentInsights,
+        riskFactors: analysis.score.riskFactors,
+        contradictions: [],
+        reportingCurrency: analysis.roadmap.reportingCurrency,
+    };
+}
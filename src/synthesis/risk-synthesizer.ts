@@ -6,31 +6,42 @@
 
 import type {
     AgentInsight,
+    FinancialRatios,
     GlobalContext,
     RiskFactorMap,
     RiskFactor,
     RiskComponent,
 } from '../types/index.js';
 import { SCORING } from '../config/index.js';
-import { extractNumericValue, extractLatestNumericValue, getSortedYearKeys } from '../utils/document-extraction.js';
+import { computeFinancialRatios } from './financial-ratios.js';
+import { analyzeWorkingCapital } from './working-capital.js';
 
 /**
  * Synthesize agent insights into risk factors
  */
 export async function synthesizeRiskFactors(
     insights: AgentInsight[],
-    context: GlobalContext
+    context: GlobalContext,
+    weights: Record<keyof RiskFactorMap, number> = SCORING.weights
 ): Promise<RiskFactorMap> {
-    return {
-        serviceability: synthesizeServiceability(insights, context),
+    const ratios = computeFinancialRatios(context.documents);
+
+    const factors: RiskFactorMap = {
+        serviceability: synthesizeServiceability(insights, context, ratios),
         concentration: synthesizeConcentration(insights, context),
-        retention: synthesizeRetention(insights, context),
+        retention: synthesizeRetention(insights, context, ratios),
         compliance: synthesizeCompliance(insights, context),
-        growth: synthesizeGrowth(insights, context),
+        growth: synthesizeGrowth(insights, context, ratios),
     };
+
+    for (const key of Object.keys(factors) as (keyof RiskFactorMap)[]) {
+        factors[key].weight = weights[key];
+    }
+
+    return factors;
 }
 
-function synthesizeServiceability(insights: AgentInsight[], context: GlobalContext): RiskFactor {
+function synthesizeServiceability(insights: AgentInsight[], context: GlobalContext, ratios: FinancialRatios): RiskFactor {
     const relevantInsights = insights.filter(i =>
         i.category === 'financial_health' ||
         i.category === 'risk_exposure'
@@ -50,25 +61,13 @@ function synthesizeServiceability(insights: AgentInsight[], context: GlobalConte
             interpretation: coverage >= 1.5 ? 'Healthy' : coverage >= 1.0 ? 'Adequate' : 'Insufficient',
         });
     } else {
-        // Fallback: Calculate from parsed documents (P&L data)
-        const plDoc = context.documents.find(d => d.type === 'profit_and_loss');
-        const bsDoc = context.documents.find(d => d.type === 'balance_sheet');
-
-        if (plDoc?.data || bsDoc?.data) {
-            // Extract latest year's metrics from document data
-            const plData = plDoc?.data as Record<string, unknown> | undefined;
-            const bsData = bsDoc?.data as Record<string, unknown> | undefined;
-
-            // Try to get profitability indicators
-            const netIncome = extractLatestNumericValue(plData, 'netIncome') ?? 0;
-            const revenue = extractLatestNumericValue(plData, 'revenue') ?? 1;
-            const totalAssets = extractLatestNumericValue(bsData, 'totalAssets', 'assets') ?? 1;
-            const totalLiabilities = extractLatestNumericValue(bsData, 'totalLiabilities', 'liabilities') ?? 0;
-            const equity = extractLatestNumericValue(bsData, 'totalEquity', 'equity') ?? 0;
+        // Fallback: latest period's ratios from the parsed financial statements
+        const latest = ratios.latest;
 
+        if (latest) {
             // Profitability ratio (net income / revenue)
             // For manufacturing, 3-5% net margin is typical, 5-10% is good
-            const profitMargin = revenue > 0 ? netIncome / revenue : 0;
+            const profitMargin = latest.netMargin?.value ?? 0;
             const profitScore = Math.min(100, Math.max(0, profitMargin > 0 ? 60 + (profitMargin * 400) : 40 + (profitMargin * 200)));
 
             components.push({
@@ -81,7 +80,7 @@ function synthesizeServiceability(insights: AgentInsight[], context: GlobalConte
 
             // Equity ratio (equity / total assets)
             // 30%+ equity ratio is considered healthy for most industries
-            const equityRatio = totalAssets > 0 ? equity / totalAssets : 0;
+            const equityRatio = latest.equityRatio?.value ?? 0;
             const equityScore = Math.min(100, Math.max(0, equityRatio >= 0.4 ? 75 + (equityRatio * 50) : equityRatio * 200));
 
             components.push({
@@ -93,7 +92,8 @@ function synthesizeServiceability(insights: AgentInsight[], context: GlobalConte
             });
 
             // Debt serviceability (simplified: equity should cover debts)
-            const debtRatio = totalAssets > 0 ? totalLiabilities / totalAssets : 1;
+            // Unknown debt level counts as fully leveraged
+            const debtRatio = latest.debtRatio?.value ?? 1;
             const debtScore = Math.min(100, Math.max(0, (1 - debtRatio) * 100));
 
             components.push({
@@ -103,6 +103,28 @@ function synthesizeServiceability(insights: AgentInsight[], context: GlobalConte
                 rawMetric: debtRatio,
                 interpretation: debtRatio <= 0.4 ? 'Low debt' : debtRatio <= 0.6 ? 'Moderate' : 'High debt',
             });
+
+            // Cash flow statement: operating cash flow against debt service,
+            // or as a share of revenue when there is no debt service to cover
+            if (latest.cashFlowCoverage) {
+                const coverage = latest.cashFlowCoverage.value;
+                components.push({
+                    name: 'Operating Cash Flow Coverage',
+                    value: Math.min(100, Math.max(0, coverage * 50)),
+                    weight: 0.4,
+                    rawMetric: coverage,
+                    interpretation: coverage >= 1.5 ? 'Healthy' : coverage >= 1.0 ? 'Adequate' : 'Insufficient',
+                });
+            } else if (latest.operatingCashFlowMargin) {
+                const margin = latest.operatingCashFlowMargin.value;
+                components.push({
+                    name: 'Operating Cash Flow Margin',
+                    value: Math.min(100, Math.max(0, 50 + margin * 250)),
+                    weight: 0.4,
+                    rawMetric: margin,
+                    interpretation: margin >= 0.1 ? 'Healthy' : margin >= 0 ? 'Marginal' : 'Cash-consuming',
+                });
+            }
         }
     }
 
@@ -118,6 +140,80 @@ function synthesizeServiceability(insights: AgentInsight[], context: GlobalConte
         });
     }
 
+    // Transaction analytics: the loans already being repaid, overdrafts and balance swings
+    const analytics = plaid?.analytics;
+    if (analytics && plaid.cashFlow) {
+        const debtService = analytics.debtService.monthlyAmount;
+        if (debtService > 0) {
+            // Cash left for the existing loans once every other outflow is paid
+            const available = plaid.cashFlow.averageMonthlyInflow - (plaid.cashFlow.averageMonthlyOutflow - debtService);
+            const coverage = available / debtService;
+            components.push({
+                name: 'Existing Debt Service Coverage',
+                value: Math.min(100, Math.max(0, coverage * 50)),
+                weight: 0.3,
+                rawMetric: coverage,
+                interpretation: coverage >= 1.5 ? 'Healthy' : coverage >= 1.0 ? 'Adequate' : 'Insufficient',
+            });
+        }
+
+        const overdrafts = analytics.overdraftEvents.length;
+        components.push({
+            name: 'Overdraft Events',
+            value: Math.max(0, 100 - overdrafts * 25),
+            weight: 0.2,
+            rawMetric: overdrafts,
+            interpretation: overdrafts === 0 ? 'None' : overdrafts <= 2 ? 'Occasional' : 'Frequent',
+        });
+
+        const volatility = analytics.balance?.volatility;
+        if (volatility !== undefined && volatility !== null) {
+            components.push({
+                name: 'Balance Stability',
+                value: Math.max(0, 100 - volatility * 100),
+                weight: 0.2,
+                rawMetric: volatility,
+                interpretation: volatility <= 0.25 ? 'Stable' : volatility <= 0.5 ? 'Variable' : 'Volatile',
+            });
+        }
+    }
+
+    // Working capital: how fast customers pay, how much of it is overdue, and whether suppliers are being stretched
+    const workingCapital = analyzeWorkingCapital(context);
+    if (workingCapital.dso !== null) {
+        const dso = workingCapital.dso;
+        components.push({
+            name: 'Receivables Collection',
+            value: Math.min(100, Math.max(0, 100 - (dso - 30) * 1.5)),
+            weight: 0.2,
+            rawMetric: dso,
+            interpretation: dso <= 45 ? 'Fast collection' : dso <= 75 ? 'Typical' : 'Slow collection',
+        });
+    }
+
+    const receivables = workingCapital.receivables;
+    if (receivables && receivables.total > 0) {
+        // Debts more than 60 days overdue count twice: they are the ones that go bad
+        components.push({
+            name: 'Overdue Receivables',
+            value: Math.max(0, 100 - (receivables.overdueShare + receivables.over60Share) * 100),
+            weight: 0.2,
+            rawMetric: receivables.overdueShare,
+            interpretation: receivables.overdueShare <= 0.1 ? 'Current' : receivables.overdueShare <= 0.3 ? 'Some overdue' : 'Collection problems',
+        });
+    }
+
+    if (workingCapital.dpo !== null) {
+        const dpo = workingCapital.dpo;
+        components.push({
+            name: 'Payables Timeliness',
+            value: Math.min(100, Math.max(0, 100 - (dpo - 60) * 2)),
+            weight: 0.1,
+            rawMetric: dpo,
+            interpretation: dpo <= 45 ? 'Prompt' : dpo <= 75 ? 'Typical' : 'Stretched',
+        });
+    }
+
     // Insight-derived component
     const avgImpact = relevantInsights.length > 0
         ? relevantInsights.reduce((sum, i) => sum + i.impact, 0) / relevantInsights.length
@@ -207,7 +303,7 @@ function synthesizeConcentration(insights: AgentInsight[], context: GlobalContex
     };
 }
 
-function synthesizeRetention(insights: AgentInsight[], context: GlobalContext): RiskFactor {
+function synthesizeRetention(insights: AgentInsight[], context: GlobalContext, ratios: FinancialRatios): RiskFactor {
     const relevantInsights = insights.filter(i => i.category === 'contract_security');
     const components: RiskComponent[] = [];
 
@@ -240,30 +336,18 @@ function synthesizeRetention(insights: AgentInsight[], context: GlobalContext):
     }
 
     // Fallback: If no components yet, estimate from revenue trend in documents
-    if (components.length === 0) {
-        const plDoc = context.documents.find(d => d.type === 'profit_and_loss');
-        if (plDoc?.data) {
-            const data = plDoc.data as Record<string, unknown>;
-            const years = getSortedYearKeys(data);
-
-            if (years.length >= 2) {
-                const latest = extractNumericValue(data[years[0]!] as Record<string, unknown>, 'revenue') ?? 0;
-                const prior = extractNumericValue(data[years[1]!] as Record<string, unknown>, 'revenue') ?? 0;
-
-                if (prior > 0) {
-                    const growth = (latest - prior) / prior;
-                    // Revenue growing = good retention signal
-                    const retentionScore = Math.min(100, Math.max(0, 60 + (growth * 100)));
-                    components.push({
-                        name: 'Revenue Trend (retention proxy)',
-                        value: retentionScore,
-                        weight: 1.0,
-                        rawMetric: growth,
-                        interpretation: growth >= 0.1 ? 'Growing' : growth >= 0 ? 'Stable' : 'Declining',
-                    });
-                }
-            }
-        }
+    const revenueGrowth = ratios.latest?.revenueGrowth;
+    if (components.length === 0 && revenueGrowth) {
+        const growth = revenueGrowth.value;
+        // Revenue growing = good retention signal
+        const retentionScore = Math.min(100, Math.max(0, 60 + (growth * 100)));
+        components.push({
+            name: 'Revenue Trend (retention proxy)',
+            value: retentionScore,
+            weight: 1.0,
+            rawMetric: growth,
+            interpretation: growth >= 0.1 ? 'Growing' : growth >= 0 ? 'Stable' : 'Declining',
+        });
     }
 
     // Ultimate fallback: Neutral score if no data
@@ -318,7 +402,7 @@ function synthesizeCompliance(insights: AgentInsight[], context: GlobalContext):
 
     // Document completeness - check for financial documents rather than just specific types
     const docTypes = context.documents.map(d => d.type);
-    const financialDocs = ['profit_and_loss', 'balance_sheet', 'tax_filing', 'insurance_certificate'];
+    const financialDocs = ['profit_and_loss', 'balance_sheet', 'cash_flow_statement', 'tax_filing', 'insurance_certificate'];
     const presentDocs = financialDocs.filter(t => docTypes.includes(t as typeof docTypes[number]));
     const docScore = Math.min(100, (presentDocs.length / 2) * 100); // 2 docs = 100%
 
@@ -341,7 +425,7 @@ function synthesizeCompliance(insights: AgentInsight[], context: GlobalContext):
     };
 }
 
-function synthesizeGrowth(insights: AgentInsight[], context: GlobalContext): RiskFactor {
+function synthesizeGrowth(insights: AgentInsight[], context: GlobalContext, ratios: FinancialRatios): RiskFactor {
     const relevantInsights = insights.filter(i => i.category === 'growth_trajectory');
     const components: RiskComponent[] = [];
 
@@ -361,29 +445,19 @@ function synthesizeGrowth(insights: AgentInsight[], context: GlobalContext): Ris
     }
 
     // Revenue trend from documents (multi-year comparison)
-    const plDoc = context.documents.find(d => d.type === 'profit_and_loss');
-    if (plDoc?.data) {
-        const data = plDoc.data as Record<string, unknown>;
-        const years = getSortedYearKeys(data);
+    const revenueGrowth = ratios.latest?.revenueGrowth;
+    if (revenueGrowth) {
+        const yoyGrowth = revenueGrowth.value;
+        const yoyGrowthPct = yoyGrowth * 100;
+        const trendScore = Math.max(0, Math.min(100, 50 + yoyGrowthPct));
 
-        if (years.length >= 2) {
-            const latest = extractNumericValue(data[years[0]!] as Record<string, unknown>, 'revenue') ?? 0;
-            const prior = extractNumericValue(data[years[1]!] as Record<string, unknown>, 'revenue') ?? 0;
-
-            if (prior > 0) {
-                const yoyGrowth = (latest - prior) / prior;
-                const yoyGrowthPct = yoyGrowth * 100;
-                const trendScore = Math.max(0, Math.min(100, 50 + yoyGrowthPct));
-
-                components.push({
-                    name: 'YoY Revenue Growth',
-                    value: trendScore,
-                    weight: 0.5,
-                    rawMetric: yoyGrowth,
-                    interpretation: yoyGrowthPct >= 20 ? 'Strong growth' : yoyGrowthPct >= 5 ? 'Moderate' : yoyGrowthPct >= 0 ? 'Flat' : 'Declining',
-                });
-            }
-        }
+        components.push({
+            name: 'YoY Revenue Growth',
+            value: trendScore,
+            weight: 0.5,
+            rawMetric: yoyGrowth,
+            interpretation: yoyGrowthPct >= 20 ? 'Strong growth' : yoyGrowthPct >= 5 ? 'Moderate' : yoyGrowthPct >= 0 ? 'Flat' : 'Declining',
+        });
     }
 
     // Insight-derived growth signals
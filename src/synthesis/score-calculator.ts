@@ -2,7 +2,7 @@
  * Score Calculator
  * 
  * Synthesizes risk factors into a single 0-100 Bankability Score
- * with explainability.
+ * with explainability, under a lender's scoring policy.
  */
 
 import type {
@@ -12,92 +12,84 @@ import type {
     BankabilityScore,
     ScorePenalty,
     ScoreExplanation,
+    ScoringPolicy,
 } from '../types/index.js';
-import { SCORING } from '../config/index.js';
+import { getScoringPolicy } from './scoring-policies.js';
 
 /**
- * Calculate the final Bankability Score
+ * Calculate the final Bankability Score.
+ * Factor weights, penalties and grade bands come from the policy
+ * (the default policy unless one is given).
  */
 export function calculateBankabilityScore(
     riskFactors: RiskFactorMap,
-    context: GlobalContext
+    context: GlobalContext,
+    policy: ScoringPolicy = getScoringPolicy()
 ): BankabilityScore {
+    const weighted = applyPolicyWeights(riskFactors, policy);
+
     // Calculate weighted raw score
     const rawScore =
-        riskFactors.serviceability.score * riskFactors.serviceability.weight +
-        riskFactors.concentration.score * riskFactors.concentration.weight +
-        riskFactors.retention.score * riskFactors.retention.weight +
-        riskFactors.compliance.score * riskFactors.compliance.weight +
-        riskFactors.growth.score * riskFactors.growth.weight;
+        weighted.serviceability.score * weighted.serviceability.weight +
+        weighted.concentration.score * weighted.concentration.weight +
+        weighted.retention.score * weighted.retention.weight +
+        weighted.compliance.score * weighted.compliance.weight +
+        weighted.growth.score * weighted.growth.weight;
 
     // Apply penalty multipliers for critical failures
-    const penalties = calculatePenalties(riskFactors);
+    const penalties = calculatePenalties(weighted, policy);
     const penaltyMultiplier = penalties.reduce((mult, p) => mult * p.multiplier, 1);
 
     const finalScore = Math.round(Math.max(0, Math.min(100, rawScore * penaltyMultiplier)));
 
     // Determine grade
-    const grade = scoreToGrade(finalScore);
+    const grade = scoreToGrade(finalScore, policy.grades);
 
     // Generate explanation
-    const explanation = generateExplanation(riskFactors, penalties);
+    const explanation = generateExplanation(weighted, penalties);
 
     // Generate summary
-    const summary = generateSummary(finalScore, grade, riskFactors);
+    const summary = generateSummary(finalScore, grade, weighted);
 
     return {
         score: finalScore,
         grade,
-        riskFactors,
+        riskFactors: weighted,
         penalties,
         summary,
         explanation,
         calculatedAt: new Date(),
+        policyId: policy.id,
     };
 }
 
-function calculatePenalties(riskFactors: RiskFactorMap): ScorePenalty[] {
-    const penalties: ScorePenalty[] = [];
-
-    // Critical compliance failure
-    if (riskFactors.compliance.score < 40) {
-        const impactPoints = Math.round((1 - 0.8) * 100 * 0.2); // 20% penalty impact
-        penalties.push({
-            reason: 'Critical compliance gaps detected',
-            multiplier: 0.8,
-            impactPoints,
-        });
-    }
-
-    // Severe serviceability issues
-    if (riskFactors.serviceability.score < 30) {
-        const impactPoints = Math.round((1 - 0.7) * 100 * 0.3);
-        penalties.push({
-            reason: 'Cash flow insufficient to service obligations',
-            multiplier: 0.7,
-            impactPoints,
-        });
-    }
-
-    // Extreme concentration risk
-    if (riskFactors.concentration.score < 25) {
-        const impactPoints = Math.round((1 - 0.85) * 100 * 0.25);
-        penalties.push({
-            reason: 'Extreme revenue concentration risk',
-            multiplier: 0.85,
-            impactPoints,
-        });
+/**
+ * Copy of the risk factors carrying the policy's weights
+ */
+function applyPolicyWeights(riskFactors: RiskFactorMap, policy: ScoringPolicy): RiskFactorMap {
+    const weighted = { ...riskFactors };
+    for (const key of Object.keys(policy.weights) as (keyof RiskFactorMap)[]) {
+        weighted[key] = { ...riskFactors[key], weight: policy.weights[key] };
     }
+    return weighted;
+}
 
-    return penalties;
+function calculatePenalties(riskFactors: RiskFactorMap, policy: ScoringPolicy): ScorePenalty[] {
+    return policy.penalties
+        .filter(rule => riskFactors[rule.factor].score < rule.below)
+        .map(rule => ({
+            reason: rule.reason,
+            multiplier: rule.multiplier,
+            impactPoints: Math.round((1 - rule.multiplier) * 100 * rule.impactWeight),
+        }));
 }
 
 /**
- * Convert a numeric score to a 13-tier letter grade using SCORING.grades thresholds.
+ * Convert a numeric score to a 13-tier letter grade using the policy's grade thresholds.
  * Entries are sorted highest-to-lowest by threshold so the first match wins.
  */
-function scoreToGrade(score: number): Grade {
-    const entries = (Object.entries(SCORING.grades) as [Grade, number][])
+export function scoreToGrade(score: number, grades: Record<Grade, number>): Grade {
+    const entries = (Object.entries(grades) as [Grade, number][])
         .sort((a, b) => b[1] - a[1]);
     for (const [grade, threshold] of entries) {
         if (score >= threshold) return grade;
@@ -141,7 +133,13 @@ function generateExplanation(
 }
 
 function buildReasoningChain(riskFactors: RiskFactorMap, penalties: ScorePenalty[]): string {
-    const w = SCORING.weights;
+    const w = {
+        serviceability: riskFactors.serviceability.weight,
+        concentration: riskFactors.concentration.weight,
+        retention: riskFactors.retention.weight,
+        compliance: riskFactors.compliance.weight,
+        growth: riskFactors.growth.weight,
+    };
     const lines: string[] = [
         '## Score Calculation Breakdown',
         '',
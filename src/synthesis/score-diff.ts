@@ -0,0 +1,249 @@
+/**
+ * Score Diff Explainer
+ *
+ * Explains why a score changed between two analyses: factor and component
+ * movements, penalties added or removed, grade movement, critical issues
+ * raised or resolved, and roadmap tasks completed or added.
+ *
+ * Pure function — no I/O. Produces structured JSON plus a narrative.
+ */
+
+import type {
+    BankabilityScore,
+    Grade,
+    RemediationRoadmap,
+    RemediationTask,
+    RiskComponent,
+    ScorePenalty,
+} from '../types/index.js';
+import { RISK_FACTOR_KEYS, getGradeDirection, type GradeDirection, type RiskFactorKey } from './score-trend.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** One side of the comparison */
+export interface ScoreSnapshot {
+    score: BankabilityScore;
+    roadmap?: RemediationRoadmap;
+}
+
+export interface ComponentChange {
+    name: string;
+    change: 'added' | 'removed' | 'changed';
+    from: number | null;
+    to: number | null;
+    delta: number;
+}
+
+export interface FactorChange {
+    factor: RiskFactorKey;
+    from: number;
+    to: number;
+    delta: number;
+    components: ComponentChange[];
+}
+
+export interface TaskSummary {
+    title: string;
+    targetFactor: RiskFactorKey;
+    expectedScoreGain: number;
+}
+
+export interface ScoreDiff {
+    score: { from: number; to: number; delta: number };
+    grade: { from: Grade; to: Grade; direction: GradeDirection };
+    /** Only factors whose score or components moved */
+    factors: FactorChange[];
+    penalties: { added: ScorePenalty[]; removed: ScorePenalty[] };
+    criticalIssues: { added: string[]; resolved: string[] };
+    /** Empty when either side has no roadmap */
+    tasks: { completed: TaskSummary[]; added: TaskSummary[] };
+    narrative: string;
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+/**
+ * Compare a baseline analysis with a later one
+ */
+export function diffScores(before: ScoreSnapshot, after: ScoreSnapshot): ScoreDiff {
+    const factors = RISK_FACTOR_KEYS
+        .map(key => diffFactor(key, before.score, after.score))
+        .filter(change => change.delta !== 0 || change.components.length > 0);
+
+    const penalties = {
+        added: after.score.penalties.filter(p => !before.score.penalties.some(b => b.reason === p.reason)),
+        removed: before.score.penalties.filter(p => !after.score.penalties.some(a => a.reason === p.reason)),
+    };
+
+    const beforeIssues = before.score.explanation.criticalIssues;
+    const afterIssues = after.score.explanation.criticalIssues;
+    const beforeIssueKeys = new Set(beforeIssues.map(issueKey));
+    const afterIssueKeys = new Set(afterIssues.map(issueKey));
+    const criticalIssues = {
+        added: afterIssues.filter(issue => !beforeIssueKeys.has(issueKey(issue))),
+        resolved: beforeIssues.filter(issue => !afterIssueKeys.has(issueKey(issue))),
+    };
+
+    const tasks = before.roadmap && after.roadmap
+        ? diffTasks(before.roadmap.tasks, after.roadmap.tasks)
+        : { completed: [], added: [] };
+
+    const diff: Omit<ScoreDiff, 'narrative'> = {
+        score: { from: before.score.score, to: after.score.score, delta: round(after.score.score - before.score.score) },
+        grade: {
+            from: before.score.grade,
+            to: after.score.grade,
+            direction: getGradeDirection(before.score.grade, after.score.grade),
+        },
+        factors,
+        penalties,
+        criticalIssues,
+        tasks,
+    };
+
+    return { ...diff, narrative: renderNarrative(diff) };
+}
+
+/**
+ * Critical issues end with their current figure, e.g. "(35/100)" or "(-6 points)";
+ * ignore it so an issue whose figure moved isn't reported as resolved and re-added.
+ */
+function issueKey(issue: string): string {
+    return issue.replace(/\s*\([^)]*\)$/, '');
+}
+
+function diffFactor(factor: RiskFactorKey, before: BankabilityScore, after: BankabilityScore): FactorChange {
+    const from = before.riskFactors[factor];
+    const to = after.riskFactors[factor];
+
+    return {
+        factor,
+        from: from.score,
+        to: to.score,
+        delta: round(to.score - from.score),
+        components: diffComponents(from.components, to.components),
+    };
+}
+
+function diffComponents(before: RiskComponent[], after: RiskComponent[]): ComponentChange[] {
+    const changes: ComponentChange[] = [];
+
+    for (const component of after) {
+        const previous = before.find(c => c.name === component.name);
+        if (!previous) {
+            changes.push({ name: component.name, change: 'added', from: null, to: component.value, delta: component.value });
+        } else if (round(component.value - previous.value) !== 0) {
+            changes.push({
+                name: component.name,
+                change: 'changed',
+                from: previous.value,
+                to: component.value,
+                delta: round(component.value - previous.value),
+            });
+        }
+    }
+
+    for (const component of before) {
+        if (!after.some(c => c.name === component.name)) {
+            changes.push({ name: component.name, change: 'removed', from: component.value, to: null, delta: -component.value });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Task ids are regenerated on every run, so tasks are matched by title and target factor.
+ * A baseline task missing from the later roadmap is treated as completed.
+ */
+function diffTasks(before: RemediationTask[], after: RemediationTask[]): ScoreDiff['tasks'] {
+    const key = (task: RemediationTask) => `${task.targetFactor}:${task.title}`;
+    const beforeKeys = new Set(before.map(key));
+    const afterKeys = new Set(after.map(key));
+
+    return {
+        completed: before.filter(task => !afterKeys.has(key(task))).map(summarizeTask),
+        added: after.filter(task => !beforeKeys.has(key(task))).map(summarizeTask),
+    };
+}
+
+function summarizeTask(task: RemediationTask): TaskSummary {
+    return { title: task.title, targetFactor: task.targetFactor, expectedScoreGain: task.expectedScoreGain };
+}
+
+// ============================================
+// NARRATIVE
+// ============================================
+
+function renderNarrative(diff: Omit<ScoreDiff, 'narrative'>): string {
+    const lines: string[] = [];
+    const { score, grade } = diff;
+
+    if (score.delta === 0) {
+        lines.push(`Score unchanged at ${score.to}.`);
+    } else {
+        lines.push(`Score ${score.delta > 0 ? 'rose' : 'fell'} from ${score.from} to ${score.to} (${signed(score.delta)}).`);
+    }
+
+    if (grade.direction !== 'unchanged') {
+        lines.push(`Grade moved ${grade.direction} from ${grade.from} to ${grade.to}.`);
+    }
+
+    for (const factor of [...diff.factors].sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))) {
+        const drivers = factor.components.map(describeComponent).join('; ');
+        lines.push(
+            `${capitalize(factor.factor)}: ${factor.from} → ${factor.to} (${signed(factor.delta)})` +
+            (drivers ? ` — ${drivers}.` : '.')
+        );
+    }
+
+    for (const penalty of diff.penalties.added) {
+        lines.push(`New penalty: ${penalty.reason} (-${penalty.impactPoints} points).`);
+    }
+    for (const penalty of diff.penalties.removed) {
+        lines.push(`Penalty lifted: ${penalty.reason} (+${penalty.impactPoints} points).`);
+    }
+
+    for (const issue of diff.criticalIssues.added) {
+        lines.push(`New critical issue: ${issue}`);
+    }
+    for (const issue of diff.criticalIssues.resolved) {
+        lines.push(`Resolved critical issue: ${issue}`);
+    }
+
+    if (diff.tasks.completed.length > 0) {
+        lines.push(`No longer needed: ${diff.tasks.completed.map(t => t.title).join(', ')}.`);
+    }
+    if (diff.tasks.added.length > 0) {
+        lines.push(`New roadmap tasks: ${diff.tasks.added.map(t => t.title).join(', ')}.`);
+    }
+
+    return lines.join('\n');
+}
+
+function describeComponent(change: ComponentChange): string {
+    switch (change.change) {
+        case 'added':
+            return `${change.name} now assessed at ${change.to}`;
+        case 'removed':
+            return `${change.name} no longer assessed`;
+        case 'changed':
+            return `${change.name} ${change.from} → ${change.to}`;
+    }
+}
+
+function signed(value: number): string {
+    return value > 0 ? `+${value}` : `${value}`;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
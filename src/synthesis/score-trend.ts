@@ -0,0 +1,135 @@
+/**
+ * Score Trend
+ *
+ * Computes how a company's bankability moved across consecutive analyses:
+ * the overall score, the grade, and each RiskFactorMap factor.
+ */
+
+import { SCORING } from '../config/index.js';
+import type { BankabilityScore, Grade, RiskFactorMap } from '../types/index.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RiskFactorKey = keyof RiskFactorMap;
+
+export const RISK_FACTOR_KEYS: RiskFactorKey[] = [
+    'serviceability',
+    'concentration',
+    'retention',
+    'compliance',
+    'growth',
+];
+
+export type FactorScores = Record<RiskFactorKey, number>;
+
+export type GradeDirection = 'up' | 'down' | 'unchanged';
+
+/** One completed analysis, as read from the analysis store */
+export interface ScoredAnalysis {
+    id: string;
+    completedAt: Date;
+    score: BankabilityScore;
+}
+
+export interface TrendPoint {
+    analysisId: string;
+    completedAt: Date;
+    score: number;
+    grade: Grade;
+    factors: FactorScores;
+}
+
+export interface TrendDelta {
+    fromAnalysisId: string;
+    toAnalysisId: string;
+    from: Date;
+    to: Date;
+    score: number;
+    grade: { from: Grade; to: Grade; direction: GradeDirection };
+    factors: FactorScores;
+}
+
+export interface ScoreTrend {
+    points: TrendPoint[];
+    /** Changes between each consecutive pair of analyses */
+    deltas: TrendDelta[];
+    /** Change from the first to the latest analysis (null with fewer than two) */
+    overall: TrendDelta | null;
+}
+
+// ============================================
+// TREND CALCULATION
+// ============================================
+
+/**
+ * Build the score trend for a series of analyses (sorted by completion time)
+ */
+export function computeScoreTrend(analyses: ScoredAnalysis[]): ScoreTrend {
+    const sorted = [...analyses].sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+    const points: TrendPoint[] = sorted.map(analysis => ({
+        analysisId: analysis.id,
+        completedAt: analysis.completedAt,
+        score: analysis.score.score,
+        grade: analysis.score.grade,
+        factors: getFactorScores(analysis.score.riskFactors),
+    }));
+
+    const deltas: TrendDelta[] = [];
+    for (let i = 1; i < points.length; i++) {
+        deltas.push(diffPoints(points[i - 1]!, points[i]!));
+    }
+
+    const first = points[0];
+    const latest = points[points.length - 1];
+
+    return {
+        points,
+        deltas,
+        overall: first && latest && points.length > 1 ? diffPoints(first, latest) : null,
+    };
+}
+
+/**
+ * Extract the 0-100 score of every risk factor
+ */
+export function getFactorScores(riskFactors: RiskFactorMap): FactorScores {
+    const scores = {} as FactorScores;
+    for (const key of RISK_FACTOR_KEYS) {
+        scores[key] = riskFactors[key].score;
+    }
+    return scores;
+}
+
+/**
+ * Compare grades by their SCORING threshold
+ */
+export function getGradeDirection(from: Grade, to: Grade): GradeDirection {
+    const diff = SCORING.grades[to] - SCORING.grades[from];
+    if (diff > 0) return 'up';
+    if (diff < 0) return 'down';
+    return 'unchanged';
+}
+
+function diffPoints(from: TrendPoint, to: TrendPoint): TrendDelta {
+    const factors = {} as FactorScores;
+    for (const key of RISK_FACTOR_KEYS) {
+        factors[key] = round(to.factors[key] - from.factors[key]);
+    }
+
+    return {
+        fromAnalysisId: from.analysisId,
+        toAnalysisId: to.analysisId,
+        from: from.completedAt,
+        to: to.completedAt,
+        score: round(to.score - from.score),
+        grade: { from: from.grade, to: to.grade, direction: getGradeDirection(from.grade, to.grade) },
+        factors,
+    };
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,129 @@
+/**
+ * Scoring Policies
+ *
+ * Named scoring rule sets — weights, penalty rules, grade bands and the
+ * roadmap's drag target — so each lender can score the same risk factors
+ * its own way. An analysis picks a policy by id; the policy id is recorded
+ * on the resulting BankabilityScore.
+ *
+ * Policies come from (later entries override earlier ones with the same id):
+ *   built-in policies → JSON array at SCORING_POLICIES_FILE
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { SCORING } from '../config/index.js';
+import { ScoringPolicySchema } from '../validation/schemas.js';
+import type { ScoringPolicy } from '../types/index.js';
+
+// ============================================
+// BUILT-IN POLICIES
+// ============================================
+
+const BUILT_IN_POLICIES: ScoringPolicy[] = [
+    {
+        id: SCORING.defaultPolicyId,
+        name: 'Bankable.ai standard',
+        description: 'Balanced weighting used when no lender policy is specified.',
+        weights: SCORING.weights,
+        penalties: SCORING.penalties,
+        grades: SCORING.grades,
+        dragTargetScore: SCORING.dragTargetScore,
+    },
+    {
+        id: 'cash-flow-lender',
+        name: 'Cash-flow lender',
+        description: 'Repayment capacity dominates; lighter on documentation and compliance.',
+        weights: {
+            serviceability: 0.40,
+            concentration: 0.20,
+            retention: 0.15,
+            compliance: 0.10,
+            growth: 0.15,
+        },
+        penalties: [
+            { factor: 'serviceability', below: 40, multiplier: 0.7, impactWeight: 0.3, reason: 'Cash flow insufficient to service obligations' },
+            { factor: 'concentration', below: 25, multiplier: 0.85, impactWeight: 0.25, reason: 'Extreme revenue concentration risk' },
+            { factor: 'compliance', below: 30, multiplier: 0.85, impactWeight: 0.15, reason: 'Critical compliance gaps detected' },
+        ],
+        grades: SCORING.grades,
+        dragTargetScore: 75,
+    },
+    {
+        id: 'regulated-bank',
+        name: 'Regulated bank',
+        description: 'Compliance weighs as much as serviceability; compliance gaps are penalized early.',
+        weights: {
+            serviceability: 0.30,
+            concentration: 0.15,
+            retention: 0.15,
+            compliance: 0.30,
+            growth: 0.10,
+        },
+        penalties: [
+            { factor: 'compliance', below: 55, multiplier: 0.75, impactWeight: 0.25, reason: 'Compliance below regulatory expectations' },
+            { factor: 'serviceability', below: 30, multiplier: 0.7, impactWeight: 0.3, reason: 'Cash flow insufficient to service obligations' },
+            { factor: 'concentration', below: 25, multiplier: 0.85, impactWeight: 0.25, reason: 'Extreme revenue concentration risk' },
+        ],
+        grades: SCORING.grades,
+        dragTargetScore: 80,
+    },
+];
+
+// ============================================
+// REGISTRY
+// ============================================
+
+let registry: Map<string, ScoringPolicy> | null = null;
+
+function getRegistry(): Map<string, ScoringPolicy> {
+    if (!registry) {
+        registry = new Map();
+        for (const policy of [...BUILT_IN_POLICIES, ...loadPoliciesFile()]) {
+            registry.set(policy.id, policy);
+        }
+    }
+    return registry;
+}
+
+/**
+ * Load additional policies from the JSON file named by SCORING_POLICIES_FILE.
+ * An invalid file is a configuration error and fails loudly.
+ */
+function loadPoliciesFile(): ScoringPolicy[] {
+    const file = SCORING.policiesFile;
+    if (!file) return [];
+
+    const parsed = z.array(ScoringPolicySchema).safeParse(JSON.parse(readFileSync(file, 'utf-8')));
+    if (!parsed.success) {
+        const details = parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+        throw new Error(`Invalid scoring policies in ${file}: ${details}`);
+    }
+
+    return parsed.data;
+}
+
+/**
+ * All available policies
+ */
+export function listScoringPolicies(): ScoringPolicy[] {
+    return Array.from(getRegistry().values());
+}
+
+/**
+ * Look up a policy by id (undefined if unknown)
+ */
+export function findScoringPolicy(id: string): ScoringPolicy | undefined {
+    return getRegistry().get(id);
+}
+
+/**
+ * Resolve a policy by id, falling back to the default policy when no id is given
+ */
+export function getScoringPolicy(id: string = SCORING.defaultPolicyId): ScoringPolicy {
+    const policy = findScoringPolicy(id);
+    if (!policy) {
+        throw new Error(`Unknown scoring policy: ${id}`);
+    }
+    return policy;
+}
@@ -0,0 +1,205 @@
+/**
+ * Working Capital
+ *
+ * Measures how quickly the company collects from its customers and pays its
+ * suppliers, for the agents, the risk synthesizer and the remediation roadmap:
+ *
+ *   - DSO and DPO: receivables over annual revenue and payables over annual
+ *     costs, in days
+ *   - aging of receivables and payables: the open amount per days-past-due
+ *     bucket, the overdue share and the counterparties the overdue sits with
+ *
+ * Balances come from the latest aging report of each side, else from the
+ * balance sheet. Open Stripe invoices stand in for receivables when there is
+ * neither, measured against Stripe revenue. Amounts are in the reporting
+ * currency; a figure whose currency the FX tables cannot convert is left out
+ * and noted rather than failing the analysis.
+ */
+
+import type {
+    AgingAnalysis,
+    AgingBuckets,
+    AgingReport,
+    GlobalContext,
+    ParsedDocument,
+    WorkingCapitalAnalysis,
+} from '../types/index.js';
+import { AgingReportSchema } from '../validation/schemas.js';
+import { findFxRate, getReportingCurrency } from '../core/currency.js';
+import { bucketTotal } from '../ingestion/aging-report.js';
+import { extractLatestNumericValue } from '../utils/document-extraction.js';
+import { FINANCIAL_FIELDS, type FinancialField } from './financial-ratios.js';
+
+const DAYS_PER_YEAR = 365;
+
+/** Counterparties listed in the overdue concentration */
+const TOP_OVERDUE = 5;
+
+/**
+ * DSO, DPO and the aging of receivables and payables
+ */
+export function analyzeWorkingCapital(context: GlobalContext): WorkingCapitalAnalysis {
+    const notes: string[] = [];
+    const fxRate = fxRateLookup(getReportingCurrency(context), notes);
+    const figures = readAnnualFigures(context.documents, fxRate);
+    const stripe = context.apiSnapshots.stripe;
+
+    const aging = (report: AgingReport, source: AgingAnalysis['source'], documentId?: string) => {
+        const rate = fxRate(report.currency, `${source === 'stripe' ? 'Stripe ' : ''}${report.side} aging`, new Date(report.asOf));
+        return rate === undefined ? null : analyzeAging(report, rate, source, documentId);
+    };
+
+    const receivablesReport = latestAgingReport(context.documents, 'receivables');
+    const payablesReport = latestAgingReport(context.documents, 'payables');
+
+    const receivables = (receivablesReport && aging(receivablesReport.report, 'document', receivablesReport.documentId))
+        ?? (stripe?.receivables ? aging(stripe.receivables, 'stripe') : null);
+    const payables = payablesReport ? aging(payablesReport.report, 'document', payablesReport.documentId) : null;
+
+    // Stripe only sees the invoices it sends, so measure those against Stripe revenue
+    const onStripe = receivables?.source === 'stripe' && figures.receivables === undefined;
+    const stripeRate = onStripe ? fxRate(stripe!.currency, 'Stripe revenue') : undefined;
+    const dso = onStripe
+        ? days(receivables!.total, stripeRate === undefined ? undefined : stripe!.mrr * 12 * stripeRate)
+        : days(receivables?.source === 'document' ? receivables.total : figures.receivables, figures.revenue);
+
+    return {
+        dso,
+        dpo: days(payables?.total ?? figures.payables, figures.costs),
+        receivables,
+        payables,
+        averagePaymentDelay: stripe?.paymentHistory ? round(stripe.paymentHistory.averagePaymentDelay, 1) : null,
+        ...(notes.length > 0 && { notes }),
+    };
+}
+
+// ============================================
+// AGING
+// ============================================
+
+/**
+ * Buckets and overdue concentration of an aging report, converted at the given FX rate
+ */
+function analyzeAging(report: AgingReport, rate: number, source: AgingAnalysis['source'], documentId?: string): AgingAnalysis {
+    const convert = (amount: number) => amount * rate;
+
+    const buckets: AgingBuckets = { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+    const overdueBy: Array<{ name: string; overdue: number }> = [];
+    for (const counterparty of report.counterparties) {
+        for (const bucket of Object.keys(buckets) as Array<keyof AgingBuckets>) {
+            buckets[bucket] += convert(counterparty[bucket]);
+        }
+        const overdue = convert(bucketTotal(counterparty) - counterparty.current);
+        if (overdue > 0) overdueBy.push({ name: counterparty.name, overdue });
+    }
+
+    const total = bucketTotal(buckets);
+    const overdue = total - buckets.current;
+
+    return {
+        source,
+        ...(documentId && { documentId }),
+        asOf: report.asOf,
+        total: round(total),
+        buckets: {
+            current: round(buckets.current),
+            days1to30: round(buckets.days1to30),
+            days31to60: round(buckets.days31to60),
+            days61to90: round(buckets.days61to90),
+            over90: round(buckets.over90),
+        },
+        overdue: round(overdue),
+        overdueShare: total > 0 ? round(overdue / total, 4) : 0,
+        over60Share: total > 0 ? round((buckets.days61to90 + buckets.over90) / total, 4) : 0,
+        overdueConcentration: overdueBy
+            .sort((a, b) => b.overdue - a.overdue)
+            .slice(0, TOP_OVERDUE)
+            .map(({ name, overdue: amount }) => ({ name, overdue: round(amount), share: round(amount / overdue, 4) })),
+    };
+}
+
+/**
+ * The aging report of one side with the latest date
+ */
+function latestAgingReport(documents: ParsedDocument[], side: AgingReport['side']): { report: AgingReport; documentId: string } | null {
+    let latest: { report: AgingReport; documentId: string } | null = null;
+    for (const doc of documents) {
+        if (doc.type !== 'aging_report') continue;
+        const parsed = AgingReportSchema.safeParse(doc.data);
+        if (!parsed.success || parsed.data.side !== side) continue;
+        if (!latest || parsed.data.asOf > latest.report.asOf) {
+            latest = { report: { ...parsed.data, currency: parsed.data.currency ?? doc.currency }, documentId: doc.id };
+        }
+    }
+    return latest;
+}
+
+// ============================================
+// STATEMENT FIGURES
+// ============================================
+
+interface AnnualFigures {
+    revenue?: number;
+    /** Cost of goods sold plus operating expenses, or revenue less EBIT */
+    costs?: number;
+    receivables?: number;
+    payables?: number;
+}
+
+function readAnnualFigures(documents: ParsedDocument[], fxRate: FxRateLookup): AnnualFigures {
+    const read = (type: ParsedDocument['type'], field: FinancialField) => {
+        const doc = documents.find(d => d.type === type);
+        const value = doc && extractLatestNumericValue(doc.data, ...FINANCIAL_FIELDS[field]);
+        const rate = value === undefined ? undefined : fxRate(doc!.currency, `${type} figures`);
+        return rate === undefined ? undefined : value! * rate;
+    };
+
+    const revenue = read('profit_and_loss', 'revenue');
+    const costOfGoodsSold = read('profit_and_loss', 'costOfGoodsSold');
+    const operatingExpenses = read('profit_and_loss', 'operatingExpenses');
+    const ebit = read('profit_and_loss', 'ebit');
+
+    const costs = costOfGoodsSold !== undefined || operatingExpenses !== undefined
+        ? (costOfGoodsSold ?? 0) + (operatingExpenses ?? 0)
+        : revenue !== undefined && ebit !== undefined ? revenue - ebit : undefined;
+
+    return {
+        revenue,
+        costs,
+        receivables: read('balance_sheet', 'receivables'),
+        payables: read('balance_sheet', 'payables'),
+    };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Rate into the reporting currency from a source's currency (the reporting
+ * currency when the source states none), or undefined when no table quotes
+ * it; what the missing rate leaves out is added to the notes
+ */
+type FxRateLookup = (from: string | undefined, what: string, on?: Date) => number | undefined;
+
+function fxRateLookup(currency: string, notes: string[]): FxRateLookup {
+    return (from = currency, what, on) => {
+        const rate = findFxRate(from, currency, on);
+        const note = `${what} left out: no FX rate from ${from} to ${currency}`;
+        if (rate === undefined && !notes.includes(note)) notes.push(note);
+        return rate;
+    };
+}
+
+/**
+ * A balance in days of its annual flow; null without a positive flow
+ */
+function days(balance: number | undefined, annual: number | undefined): number | null {
+    if (balance === undefined || annual === undefined || annual <= 0) return null;
+    return round((balance / annual) * DAYS_PER_YEAR, 1);
+}
+
+function round(value: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
@@ -32,6 +32,12 @@ export interface GlobalContext {
 
     /** Detected contradictions between data sources */
     contradictions: Contradiction[];
+
+    /**
+     * ISO 4217 currency cross-source comparisons are converted to
+     * (CURRENCY.reportingCurrency when unset)
+     */
+    reportingCurrency?: string;
 }
 
 export type AgentId = 'counter' | 'lawyer' | 'forecaster' | 'market';
@@ -55,17 +61,55 @@ export interface ParsedDocument {
     /** Raw text content for vector embedding */
     rawText: string;
 
+    /** ISO 4217 currency of the document's amounts, when known */
+    currency?: string;
+
     /** Source of truth ranking */
     trustScore: number;
+
+    /**
+     * Problems found normalizing a financial statement into the canonical
+     * statement schema (empty when it validated cleanly)
+     */
+    validationErrors?: string[];
+
+    /** SHA-256 hash of the uploaded file, used to skip duplicate uploads */
+    contentHash?: string;
+
+    /** Documents combined into this one when statements were merged */
+    mergedFrom?: MergedDocumentSource[];
+
+    /** Where ledger-derived figures came from (set for SAF-T imports) */
+    provenance?: DocumentProvenance;
+}
+
+export interface MergedDocumentSource {
+    id: string;
+    filename: string;
+    contentHash?: string;
+}
+
+export interface DocumentProvenance {
+    format: 'saf-t';
+    /** Bookkeeping system that produced the export */
+    software?: string;
+    companyName?: string;
+    registrationNumber?: string;
+    periodStart?: string;
+    periodEnd?: string;
+    /** General ledger account IDs summed into each ledger category */
+    accounts: Record<string, string[]>;
 }
 
 export type DocumentType =
     | 'profit_and_loss'
     | 'balance_sheet'
+    | 'cash_flow_statement'
     | 'contract'
     | 'bank_statement'
     | 'tax_filing'
     | 'insurance_certificate'
+    | 'aging_report'
     | 'other';
 
 // ============================================
@@ -74,19 +118,37 @@ export type DocumentType =
 
 export interface StripeSnapshot {
     fetchedAt: Date;
+    /** ISO 4217 account currency all amounts are in */
+    currency: string;
     mrr: number;
     arrGrowthRate: number;
     customerCount: number;
     churnRate: number;
     topCustomers: CustomerRevenue[];
     paymentHistory: PaymentSummary;
+    /** Open invoices aged by days past due */
+    receivables?: AgingReport;
+    /** Month-end MRR and its movements per calendar month, oldest first */
+    mrrSeries?: MrrMovement[];
+    /** Logo and net revenue retention of each recent signup cohort */
+    cohorts?: CohortRetention[];
+    /** Currencies with no FX rate to the account currency, whose amounts are left out */
+    unconvertedCurrencies?: string[];
 }
 
 export interface PlaidSnapshot {
     fetchedAt: Date;
+    /** ISO 4217 currency of the transaction and cash flow totals */
+    currency: string;
     accounts: BankAccount[];
     transactions: TransactionSummary;
     cashFlow: CashFlowMetrics;
+    /** Where the bank data came from ('plaid' when unset) */
+    source?: 'plaid' | 'bank_statement';
+    /** The booked transactions the totals were computed from */
+    transactionList?: BankTransaction[];
+    /** Patterns found in the transaction list */
+    analytics?: TransactionAnalytics;
 }
 
 export interface CustomerRevenue {
@@ -98,17 +160,63 @@ export interface CustomerRevenue {
 
 export interface PaymentSummary {
     successRate: number;
+    /** Average days invoices were paid after their due date (0 when paid on time or early) */
     averagePaymentDelay: number;
     disputeRate: number;
 }
 
+/** MRR at the end of a calendar month (YYYY-MM) and what moved it since the month before */
+export interface MrrMovement {
+    month: string;
+    mrr: number;
+    arr: number;
+    /** MRR of customers without MRR the month before */
+    newMrr: number;
+    /** Increases from customers who already paid */
+    expansionMrr: number;
+    /** Decreases from customers who still pay; positive */
+    contractionMrr: number;
+    /** MRR of customers who stopped paying; positive */
+    churnedMrr: number;
+    customers: number;
+    newCustomers: number;
+    churnedCustomers: number;
+}
+
+/** Customers whose first MRR fell in the same month, followed month by month */
+export interface CohortRetention {
+    /** Signup month (YYYY-MM) */
+    cohort: string;
+    customers: number;
+    startingMrr: number;
+    /** From the signup month on; retention as a share of the signup month */
+    months: Array<{
+        month: string;
+        logoRetention: number;
+        netRevenueRetention: number;
+    }>;
+}
+
 export interface BankAccount {
     accountId: string;
     type: 'checking' | 'savings' | 'credit';
+    /** ISO 4217 currency of the balances */
+    currency: string;
     currentBalance: number;
     availableBalance: number;
 }
 
+/** A booked bank transaction, inflows positive */
+export interface BankTransaction {
+    accountId: string;
+    date: Date;
+    amount: number;
+    /** ISO 4217 currency of the amount */
+    currency: string;
+    description: string;
+    category: string;
+}
+
 export interface TransactionSummary {
     period: { start: Date; end: Date };
     totalInflow: number;
@@ -123,6 +231,125 @@ export interface CashFlowMetrics {
     runwayMonths: number;
 }
 
+export interface TransactionAnalytics {
+    /** Inflow and outflow per calendar month (YYYY-MM), oldest first */
+    monthly: MonthlyCashFlow[];
+    /** Outflows repeating at a regular interval for a similar amount */
+    recurringPayments: RecurringPayment[];
+    /** Loan and lease repayments already being paid */
+    debtService: {
+        monthlyAmount: number;
+        payees: string[];
+    };
+    /** Daily end-of-day balance statistics; null without balances to work back from */
+    balance: BalanceMetrics | null;
+    /** Days overdrawn and returned-payment or overdraft fees */
+    overdraftEvents: OverdraftEvent[];
+}
+
+export interface MonthlyCashFlow {
+    month: string;
+    inflow: number;
+    outflow: number;
+    net: number;
+}
+
+export type RecurringPaymentKind = 'payroll' | 'rent' | 'loan_repayment' | 'tax' | 'other';
+
+export interface RecurringPayment {
+    payee: string;
+    kind: RecurringPaymentKind;
+    cadence: 'weekly' | 'monthly' | 'quarterly';
+    /** Average payment, in the snapshot currency */
+    averageAmount: number;
+    /** Average payment spread over a month */
+    monthlyAmount: number;
+    occurrences: number;
+    /** Date of the latest payment (YYYY-MM-DD) */
+    lastPaid: string;
+}
+
+export interface BalanceMetrics {
+    averageBalance: number;
+    minimumBalance: number;
+    /** Standard deviation of the daily balance over its average; null when the average is not positive */
+    volatility: number | null;
+    /** The lowest end-of-day balances, lowest first */
+    lowestBalanceDays: Array<{ date: string; balance: number }>;
+    daysOverdrawn: number;
+}
+
+export interface OverdraftEvent {
+    date: string;
+    accountId: string;
+    type: 'negative_balance' | 'returned_payment' | 'overdraft_fee';
+    /** The balance, or the fee or returned amount */
+    amount: number;
+    description?: string;
+}
+
+// ============================================
+// WORKING CAPITAL TYPES
+// ============================================
+
+/** Open amounts by days past due */
+export interface AgingBuckets {
+    current: number;
+    days1to30: number;
+    days31to60: number;
+    days61to90: number;
+    over90: number;
+}
+
+/**
+ * Open receivables or payables per counterparty, as read from an aging
+ * report (the data of an 'aging_report' document) or from open invoices
+ */
+export interface AgingReport {
+    side: 'receivables' | 'payables';
+    /** Date the balances are aged to (YYYY-MM-DD) */
+    asOf: string;
+    /** ISO 4217 currency of the amounts, when known */
+    currency?: string;
+    counterparties: AgingCounterparty[];
+}
+
+export interface AgingCounterparty extends AgingBuckets {
+    name: string;
+}
+
+/**
+ * Aging of one side of working capital, in the reporting currency
+ */
+export interface AgingAnalysis {
+    source: 'document' | 'stripe';
+    documentId?: string;
+    asOf: string;
+    total: number;
+    buckets: AgingBuckets;
+    /** Amount past due */
+    overdue: number;
+    /** Share of the total past due */
+    overdueShare: number;
+    /** Share of the total more than 60 days past due */
+    over60Share: number;
+    /** Counterparties with the most overdue, largest first, with their share of all overdue */
+    overdueConcentration: Array<{ name: string; overdue: number; share: number }>;
+}
+
+export interface WorkingCapitalAnalysis {
+    /** Days sales outstanding: receivables over annual revenue × 365 */
+    dso: number | null;
+    /** Days payables outstanding: payables over annual costs × 365 */
+    dpo: number | null;
+    receivables: AgingAnalysis | null;
+    payables: AgingAnalysis | null;
+    /** Average days Stripe invoices were paid after their due date */
+    averagePaymentDelay: number | null;
+    /** Figures left out because no FX rate converts them into the reporting currency */
+    notes?: string[];
+}
+
 // ============================================
 // AGENT TYPES
 // ============================================
@@ -216,6 +443,13 @@ export interface Contradiction {
     /** Nature of the discrepancy */
     description: string;
 
+    /**
+     * Where it was found: merging uploaded statements, or the cross-source
+     * check each analysis re-runs. Unset on contradictions stored before this
+     * was tracked.
+     */
+    detectedBy?: 'document_merge' | 'analysis';
+
     /** How it was resolved */
     resolution?: ContradictionResolution;
 }
@@ -225,6 +459,8 @@ export interface ConflictSource {
     documentId?: string;
     field: string;
     value: unknown;
+    /** ISO 4217 currency when value is a monetary amount */
+    currency?: string;
     trustScore: number;
 }
 
@@ -232,6 +468,8 @@ export interface ContradictionResolution {
     resolvedAt: Date;
     method: 'trust_ranking' | 'llm_adjudication' | 'manual';
     acceptedValue: unknown;
+    /** ISO 4217 currency when acceptedValue is a monetary amount */
+    currency?: string;
     reasoning: string;
 }
 
@@ -262,6 +500,9 @@ export interface BankabilityScore {
 
     /** Generated at */
     calculatedAt: Date;
+
+    /** Scoring policy the score was calculated under */
+    policyId: string;
 }
 
 export interface ScorePenalty {
@@ -334,4 +575,131 @@ export interface RemediationRoadmap {
         shortTerm: { tasks: number; days: number; scoreGain: number };
         longTerm: { tasks: number; days: number; scoreGain: number };
     };
+
+    /** Currency the task figures are stated in (unset on roadmaps stored before it was kept) */
+    reportingCurrency?: string;
+
+    /**
+     * Working capital figures behind the receivables and payables tasks, kept
+     * so the roadmap can be regenerated without the session's documents
+     */
+    workingCapital?: WorkingCapitalAnalysis;
+}
+
+// ============================================
+// SCORING POLICY TYPES
+// ============================================
+
+/**
+ * Multiplies the score when a risk factor falls below a threshold
+ */
+export interface PenaltyRule {
+    factor: keyof RiskFactorMap;
+    /** Applies when the factor score is strictly below this */
+    below: number;
+    multiplier: number;
+    reason: string;
+    /** Share of the multiplier reported as lost points: (1 - multiplier) × 100 × impactWeight */
+    impactWeight: number;
+}
+
+/**
+ * A named set of scoring rules, so each lender can weigh risk its own way
+ */
+export interface ScoringPolicy {
+    id: string;
+    name: string;
+    description: string;
+
+    /** Risk factor weights (must sum to 1.0) */
+    weights: Record<keyof RiskFactorMap, number>;
+
+    /** Multipliers for critical failures */
+    penalties: PenaltyRule[];
+
+    /** Minimum score for each grade */
+    grades: Record<Grade, number>;
+
+    /** Factor score the remediation roadmap aims for */
+    dragTargetScore: number;
+}
+
+// ============================================
+// FINANCIAL RATIO TYPES
+// ============================================
+
+/**
+ * A ratio computed deterministically from document figures
+ */
+export interface RatioValue {
+    value: number;
+
+    /** Document fields it was computed from, e.g. "profit_and_loss.2024.netIncome" */
+    sources: string[];
+}
+
+/**
+ * Ratios for one reporting period (null when the inputs are missing)
+ */
+export interface PeriodRatios {
+    /** Fiscal year, or 'latest' for documents that are not year-keyed */
+    period: string;
+
+    grossMargin: RatioValue | null;
+    netMargin: RatioValue | null;
+    ebitMargin: RatioValue | null;
+
+    /** (EBIT + depreciation) / (interest + principal repayments) */
+    dscr: RatioValue | null;
+    /** EBIT / interest expense */
+    interestCoverage: RatioValue | null;
+
+    currentRatio: RatioValue | null;
+    quickRatio: RatioValue | null;
+    /** Current assets - current liabilities, in document currency */
+    workingCapital: RatioValue | null;
+
+    /** Total liabilities / equity */
+    leverage: RatioValue | null;
+    /** Equity / total assets */
+    equityRatio: RatioValue | null;
+    /** Total liabilities / total assets */
+    debtRatio: RatioValue | null;
+
+    /** Revenue change versus the previous period */
+    revenueGrowth: RatioValue | null;
+
+    /** Operating cash flow / revenue */
+    operatingCashFlowMargin: RatioValue | null;
+    /** Operating cash flow / (interest + principal repayments) */
+    cashFlowCoverage: RatioValue | null;
+    /** Operating cash flow / net income */
+    cashConversion: RatioValue | null;
+    /** Stated free cash flow, or operating cash flow - capex, in document currency */
+    freeCashFlow: RatioValue | null;
+}
+
+export interface FinancialRatios {
+    /** Most recent period first */
+    periods: PeriodRatios[];
+
+    /** The most recent period (null when no financial documents) */
+    latest: PeriodRatios | null;
+
+    /** Compound annual revenue growth from the earliest to the latest year */
+    revenueCagr: RatioValue | null;
+}
+
+// ============================================
+// CURRENCY TYPES
+// ============================================
+
+/**
+ * Dated FX reference rates: units of each currency per one unit of base
+ */
+export interface FxRateTable {
+    /** YYYY-MM-DD the rates were fixed on */
+    date: string;
+    base: string;
+    rates: Record<string, number>;
 }
@@ -0,0 +1,26 @@
+/**
+ * Type declarations for pdf-parse, which ships none. Imported by its library
+ * entry point, which skips the package index's self-test.
+ */
+
+declare module 'pdf-parse/lib/pdf-parse.js' {
+    interface PDFParseResult {
+        numpages: number;
+        numrender: number;
+        info: unknown;
+        metadata: unknown;
+        text: string;
+        version: string | null;
+    }
+
+    interface PDFParseOptions {
+        /** Maximum number of pages to read (0 for all) */
+        max?: number;
+        /** Bundled pdf.js build, e.g. 'v1.10.100' */
+        version?: string;
+    }
+
+    function pdfParse(data: Uint8Array, options?: PDFParseOptions): Promise<PDFParseResult>;
+
+    export default pdfParse;
+}
@@ -0,0 +1,27 @@
+/**
+ * Date Utilities
+ *
+ * Readers for the dates found in bank and bookkeeping exports.
+ */
+
+/**
+ * Read an ISO date, or a day-month-year (month-day-year) date with ".", "-"
+ * or "/" between the parts, as a UTC date
+ */
+export function parseDate(value: unknown, order: 'dmy' | 'mdy' = 'dmy'): Date | undefined {
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+
+    let match = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    let [year, month, day] = match ? [match[1], match[2], match[3]] : [];
+
+    if (!match) {
+        match = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})$/);
+        if (!match) return undefined;
+        [day, month] = order === 'dmy' ? [match[1], match[2]] : [match[2], match[1]];
+        year = match[3]!.length === 2 ? `20${match[3]}` : match[3];
+    }
+
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    return Number.isNaN(date.getTime()) || date.getUTCDate() !== Number(day) ? undefined : date;
+}
@@ -17,16 +17,27 @@ export function extractNumericValue(
     obj: Record<string, unknown> | undefined | null,
     ...keys: string[]
 ): number | undefined {
+    return extractNumericField(obj, ...keys)?.value;
+}
+
+/**
+ * Like extractNumericValue, but also reports where the value was found as a
+ * dotted path (e.g. "income.netIncome") so derived figures can cite their source.
+ */
+export function extractNumericField(
+    obj: Record<string, unknown> | undefined | null,
+    ...keys: string[]
+): { value: number; path: string } | undefined {
     if (!obj) return undefined;
     for (const key of keys) {
         if (obj[key] !== undefined && typeof obj[key] === 'number') {
-            return obj[key] as number;
+            return { value: obj[key] as number, path: key };
         }
         for (const k of Object.keys(obj)) {
             const nested = obj[k];
             if (typeof nested === 'object' && nested !== null && !Array.isArray(nested)) {
-                const value = extractNumericValue(nested as Record<string, unknown>, key);
-                if (value !== undefined) return value;
+                const field = extractNumericField(nested as Record<string, unknown>, key);
+                if (field !== undefined) return { value: field.value, path: `${k}.${field.path}` };
             }
         }
     }
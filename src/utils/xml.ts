@@ -0,0 +1,28 @@
+/**
+ * XML Utilities
+ *
+ * Readers for the objects fast-xml-parser produces, where any element may be
+ * missing, a string, an object or (when repeated) an array.
+ */
+
+/**
+ * Trimmed text of an element, undefined when missing or blank
+ */
+export function xmlText(value: unknown): string | undefined {
+    if (typeof value === 'number') return String(value);
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * An element with children, undefined otherwise
+ */
+export function xmlElement(value: unknown): Record<string, unknown> | undefined {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+/**
+ * The child elements of a repeated element (parsed as an array)
+ */
+export function xmlElements(value: unknown): Record<string, unknown>[] {
+    return Array.isArray(value) ? value.filter((v): v is Record<string, unknown> => xmlElement(v) !== undefined) : [];
+}
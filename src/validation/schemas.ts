@@ -46,7 +46,7 @@ export const DocumentTypeResponseSchema = z.object({
     type: z.enum([
         'profit_and_loss',
         'balance_sheet',
-        'cash_flow',
+        'cash_flow_statement',
         'tax_return',
         'contract',
         'invoice',
@@ -63,6 +63,153 @@ export const DocumentTypeResponseSchema = z.object({
  */
 export const ExtractedDataSchema = z.record(z.string(), z.unknown());
 
+// ============================================
+// FINANCIAL STATEMENT SCHEMAS
+// ============================================
+
+/*
+ * Canonical shape of normalized statement data: one entry per period keyed
+ * by fiscal year (or 'latest' when the source names no period), amounts in
+ * whole currency units. Expense lines are positive amounts.
+ */
+
+const AmountSchema = z.number().finite();
+const ExpenseSchema = z.number().finite().nonnegative();
+const CurrencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code');
+
+export const StatementPeriodKeySchema = z.string().regex(/^(\d{4}|latest)$/, 'Expected a fiscal year or "latest"');
+
+export const ProfitAndLossPeriodSchema = z.object({
+    currency: CurrencyCodeSchema.optional(),
+    revenue: AmountSchema.optional(),
+    costOfGoodsSold: ExpenseSchema.optional(),
+    grossProfit: AmountSchema.optional(),
+    operatingExpenses: ExpenseSchema.optional(),
+    ebitda: AmountSchema.optional(),
+    depreciationAndAmortization: ExpenseSchema.optional(),
+    ebit: AmountSchema.optional(),
+    interestExpense: ExpenseSchema.optional(),
+    profitBeforeTax: AmountSchema.optional(),
+    taxExpense: ExpenseSchema.optional(),
+    netIncome: AmountSchema.optional(),
+    /** Debt service disclosed alongside the P&L */
+    principalRepayments: ExpenseSchema.optional(),
+}).strict();
+
+export const BalanceSheetPeriodSchema = z.object({
+    currency: CurrencyCodeSchema.optional(),
+    cash: AmountSchema.optional(),
+    receivables: AmountSchema.optional(),
+    inventory: AmountSchema.optional(),
+    currentAssets: AmountSchema.optional(),
+    propertyPlantEquipment: AmountSchema.optional(),
+    intangibleAssets: AmountSchema.optional(),
+    fixedAssets: AmountSchema.optional(),
+    totalAssets: AmountSchema.optional(),
+    payables: AmountSchema.optional(),
+    shortTermDebt: AmountSchema.optional(),
+    currentLiabilities: AmountSchema.optional(),
+    longTermDebt: AmountSchema.optional(),
+    totalLiabilities: AmountSchema.optional(),
+    shareCapital: AmountSchema.optional(),
+    retainedEarnings: AmountSchema.optional(),
+    equity: AmountSchema.optional(),
+}).strict();
+
+export const CashFlowPeriodSchema = z.object({
+    currency: CurrencyCodeSchema.optional(),
+    operatingCashFlow: AmountSchema.optional(),
+    investingCashFlow: AmountSchema.optional(),
+    financingCashFlow: AmountSchema.optional(),
+    capitalExpenditure: ExpenseSchema.optional(),
+    principalRepayments: ExpenseSchema.optional(),
+    freeCashFlow: AmountSchema.optional(),
+    netChangeInCash: AmountSchema.optional(),
+}).strict();
+
+export const ProfitAndLossStatementSchema = z.record(StatementPeriodKeySchema, ProfitAndLossPeriodSchema);
+export const BalanceSheetStatementSchema = z.record(StatementPeriodKeySchema, BalanceSheetPeriodSchema);
+export const CashFlowStatementSchema = z.record(StatementPeriodKeySchema, CashFlowPeriodSchema);
+
+// ============================================
+// AGING REPORT SCHEMAS
+// ============================================
+
+/** An aging bucket; buckets a report leaves out are empty */
+const AgingAmountSchema = z.number().finite().nonnegative().default(0);
+
+/**
+ * Canonical shape of aging report data (see AgingReport)
+ */
+export const AgingReportSchema = z.object({
+    side: z.enum(['receivables', 'payables']),
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+    currency: CurrencyCodeSchema.optional(),
+    counterparties: z.array(z.object({
+        name: z.string().min(1),
+        current: AgingAmountSchema,
+        days1to30: AgingAmountSchema,
+        days31to60: AgingAmountSchema,
+        days61to90: AgingAmountSchema,
+        over90: AgingAmountSchema,
+    })),
+});
+
+// ============================================
+// SCORING POLICY SCHEMAS
+// ============================================
+
+const RiskFactorKeySchema = z.enum(['serviceability', 'concentration', 'retention', 'compliance', 'growth']);
+
+const FactorWeightsSchema = z.object({
+    serviceability: z.number().min(0).max(1),
+    concentration: z.number().min(0).max(1),
+    retention: z.number().min(0).max(1),
+    compliance: z.number().min(0).max(1),
+    growth: z.number().min(0).max(1),
+}).refine(
+    weights => Math.abs(Object.values(weights).reduce((sum, w) => sum + w, 0) - 1) < 0.001,
+    { message: 'weights must sum to 1.0' }
+);
+
+/**
+ * Schema for a lender's scoring policy (see ScoringPolicy)
+ */
+export const ScoringPolicySchema = z.object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'id must be lowercase letters, digits and dashes'),
+    name: z.string().min(1),
+    description: z.string().optional().default(''),
+    weights: FactorWeightsSchema,
+    penalties: z.array(z.object({
+        factor: RiskFactorKeySchema,
+        below: z.number().min(0).max(100),
+        multiplier: z.number().gt(0).max(1),
+        reason: z.string().min(1),
+        impactWeight: z.number().min(0).max(1).optional().default(0.25),
+    })),
+    grades: z.object({
+        'A+': z.number(), 'A': z.number(), 'A-': z.number(),
+        'B+': z.number(), 'B': z.number(), 'B-': z.number(),
+        'C+': z.number(), 'C': z.number(), 'C-': z.number(),
+        'D+': z.number(), 'D': z.number(), 'D-': z.number(),
+        'F': z.number(),
+    }),
+    dragTargetScore: z.number().min(0).max(100),
+});
+
+// ============================================
+// FX RATE SCHEMAS
+// ============================================
+
+/**
+ * Schema for a dated FX rate table: units of each currency per one unit of base
+ */
+export const FxRateTableSchema = z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+    base: CurrencyCodeSchema,
+    rates: z.record(CurrencyCodeSchema, z.number().positive()),
+});
+
 // ============================================
 // SAFE PARSE HELPERS
 // ============================================
@@ -92,3 +239,81 @@ export function safeParseLLMResponse<T>(
 
     return { success: false, error: errorDetails };
 }
+
+// ============================================
+// API REQUEST SCHEMAS
+// ============================================
+
+const BankCsvColumnSchema = z.union([z.string().min(1), z.number().int().nonnegative()]);
+
+/**
+ * Schema for the form fields of a bank statement import. Multipart fields
+ * arrive as strings, so the column mapping is JSON and numbers are coerced.
+ */
+export const BankStatementImportSchema = z.object({
+    sessionId: z.string().min(1).optional(),
+    columns: z.preprocess(
+        value => {
+            if (typeof value !== 'string') return value;
+            try {
+                return JSON.parse(value);
+            } catch {
+                return value;
+            }
+        },
+        z.object({
+            date: BankCsvColumnSchema,
+            amount: BankCsvColumnSchema,
+            debit: BankCsvColumnSchema,
+            credit: BankCsvColumnSchema,
+            description: BankCsvColumnSchema,
+            balance: BankCsvColumnSchema,
+            currency: BankCsvColumnSchema,
+            accountId: BankCsvColumnSchema,
+            category: BankCsvColumnSchema,
+        }, { invalid_type_error: 'columns must be a JSON object of column names or indexes' }).partial().strict(),
+    ).optional(),
+    dateOrder: z.enum(['dmy', 'mdy']).optional(),
+    accountId: z.string().min(1).optional(),
+    currency: CurrencyCodeSchema.optional(),
+    closingBalance: z.coerce.number().finite().optional(),
+    accountType: z.enum(['checking', 'savings', 'credit']).optional(),
+});
+
+/**
+ * Schema for re-scoring a stored analysis: a policy, custom weights, or both
+ * (custom weights replace the policy's weights)
+ */
+export const RescoreRequestSchema = z.object({
+    policyId: z.string().min(1).optional(),
+    weights: FactorWeightsSchema.optional(),
+}).refine(
+    body => body.policyId !== undefined || body.weights !== undefined,
+    { message: 'policyId or weights is required' }
+);
+
+/**
+ * Schema for connecting Stripe: the platform account, a Connect account the
+ * platform key reads on behalf of, or the company's own restricted key
+ */
+export const StripeIntegrationSchema = z.object({
+    sessionId: z.string().min(1).optional(),
+    companyId: z.string().min(1).optional(),
+    accountId: z.string().regex(/^acct_\w+$/, 'accountId must be a Stripe account id (acct_...)').optional(),
+    restrictedKey: z.string().regex(/^(rk|sk)_(live|test)_\w+$/, 'restrictedKey must be a Stripe secret or restricted key').optional(),
+}).refine(
+    body => !(body.accountId && body.restrictedKey),
+    { message: 'Provide accountId or restrictedKey, not both' }
+);
+
+/**
+ * Schema for registering a company for monitoring or updating its settings.
+ * The session's documents become the documents every scheduled run is scored against.
+ */
+export const MonitoringRequestSchema = z.object({
+    sessionId: z.string().min(1).optional(),
+    cadenceDays: z.number().int().min(1, 'cadenceDays must be at least 1').max(366, 'cadenceDays must be at most 366').optional(),
+    policyId: z.string().min(1).optional(),
+    reuseInsights: z.boolean().optional(),
+    enabled: z.boolean().optional(),
+});
@@ -0,0 +1,41 @@
+/**
+ * Bankable.ai Analysis Worker Entry Point
+ *
+ * Standalone worker process that runs queued analysis jobs.
+ * Requires a shared queue backend (JOB_QUEUE_BACKEND=redis or postgres);
+ * run API instances with RUN_IN_PROCESS_WORKER=false to leave all work to workers.
+ */
+
+// Load environment variables FIRST (before other imports)
+import 'dotenv/config';
+
+import { JOB_QUEUE, MONITORING } from './config/index.js';
+import { getJobQueue } from './core/job-queue.js';
+import { AnalysisWorker } from './core/analysis-worker.js';
+import { MonitoringScheduler } from './core/monitoring-scheduler.js';
+import { closeJobProgress } from './core/job-progress.js';
+
+if (JOB_QUEUE.backend === 'memory') {
+    console.error('[worker] The memory queue is process-local; set REDIS_URL, DATABASE_URL or JOB_QUEUE_BACKEND');
+    process.exit(1);
+}
+
+const queue = getJobQueue();
+const worker = new AnalysisWorker(queue);
+worker.start();
+
+const scheduler = MONITORING.schedulerEnabled ? new MonitoringScheduler(queue) : null;
+scheduler?.start();
+
+// Finish in-flight jobs before exiting so they aren't left to lease expiry
+async function shutdown(signal: string): Promise<void> {
+    console.log(`[worker] ${signal} received, draining in-flight jobs...`);
+    await scheduler?.stop();
+    await worker.stop();
+    await queue.close();
+    await closeJobProgress();
+    process.exit(0);
+}
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
@@ -0,0 +1,202 @@
+/**
+ * Offline Stripe and Plaid API Fixtures
+ *
+ * A local HTTP server that stands in for api.stripe.com and the Plaid API,
+ * replaying recorded responses from a scenario pack so the adapters, the
+ * integration routes and the scoring pipeline run without network access.
+ * Point the adapters at it with { baseUrl } or STRIPE_API_BASE_URL /
+ * PLAID_API_BASE_URL.
+ *
+ * Each scenario directory holds stripe.json and/or plaid.json; a scenario
+ * without one of them serves the healthy pack's. The data is as recorded on
+ * its recordedAt date, so pin the clock there (fake Date timers) for
+ * time-window figures such as growth, churn and the 90-day bank period.
+ *
+ * Stripe lists honor limit, starting_after, status and created[gte|lt];
+ * Plaid /transactions/get honors the date range, count and offset. pageSize
+ * caps every page below what the adapter asks for, to exercise pagination.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express, { type Request, type Response } from 'express';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const SCENARIOS = ['healthy', 'high-churn', 'concentrated-customer', 'overdrawn-account', 'mixed-currency'] as const;
+export type ScenarioName = typeof SCENARIOS[number];
+
+type StripeObject = Record<string, unknown> & { id: string; created: number };
+
+export interface StripePack {
+    recordedAt: string;
+    account: Record<string, unknown>;
+    subscriptions: StripeObject[];
+    invoices: StripeObject[];
+    charges: StripeObject[];
+}
+
+type PlaidTransaction = Record<string, unknown> & { date: string };
+
+export interface PlaidPack {
+    recordedAt: string;
+    accounts: Array<Record<string, unknown>>;
+    transactions: PlaidTransaction[];
+}
+
+export interface FixtureServerOptions {
+    /** Most items served per page (default: whatever the client asks for) */
+    pageSize?: number;
+    /** Port to listen on (default: a free one) */
+    port?: number;
+}
+
+export interface FixtureServer {
+    /** Base URL for both adapters, e.g. http://127.0.0.1:54321 */
+    url: string;
+    /** When the scenario's responses were recorded */
+    recordedAt: Date;
+    /** Paths requested so far, in order */
+    requests: string[];
+    close(): Promise<void>;
+}
+
+export function loadScenario(scenario: ScenarioName): { stripe: StripePack; plaid: PlaidPack } {
+    const read = <T>(file: string): T => {
+        const path = join(__dirname, scenario, file);
+        return JSON.parse(readFileSync(existsSync(path) ? path : join(__dirname, 'healthy', file), 'utf-8')) as T;
+    };
+    return { stripe: read<StripePack>('stripe.json'), plaid: read<PlaidPack>('plaid.json') };
+}
+
+/**
+ * Serve a scenario on a local port
+ */
+export async function startFixtureServer(scenario: ScenarioName, options: FixtureServerOptions = {}): Promise<FixtureServer> {
+    const { stripe, plaid } = loadScenario(scenario);
+    const requests: string[] = [];
+    const app = express();
+
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: true }));
+    app.use((req, _res, next) => {
+        requests.push(`${req.method} ${req.path}`);
+        next();
+    });
+
+    mountStripe(app, stripe, options);
+    mountPlaid(app, plaid, scenario, options);
+
+    const server = await new Promise<Server>(resolve => {
+        const listening = app.listen(options.port ?? 0, '127.0.0.1', () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        recordedAt: new Date(stripe.recordedAt),
+        requests,
+        close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+    };
+}
+
+// ============================================
+// STRIPE
+// ============================================
+
+const STRIPE_LISTS = ['subscriptions', 'invoices', 'charges'] as const;
+
+function mountStripe(app: express.Express, pack: StripePack, options: FixtureServerOptions): void {
+    app.get('/v1/account', (_req, res) => {
+        res.json(pack.account);
+    });
+
+    app.get('/v1/invoices/:id/lines', (req, res) => {
+        const invoice = pack.invoices.find(i => i.id === req.params.id);
+        if (!invoice) {
+            stripeError(res, `No such invoice: '${req.params.id}'`);
+            return;
+        }
+        const lines = (invoice.lines as { data: StripeObject[] }).data;
+        res.json(stripePage(req, `/v1/invoices/${invoice.id}/lines`, lines, options));
+    });
+
+    for (const resource of STRIPE_LISTS) {
+        app.get(`/v1/${resource}`, (req, res) => {
+            let items = pack[resource];
+
+            // Stripe leaves canceled subscriptions out unless asked for them
+            const status = req.query.status as string | undefined;
+            if (status === undefined && resource === 'subscriptions') {
+                items = items.filter(s => s.status !== 'canceled');
+            } else if (status !== undefined && status !== 'all') {
+                items = items.filter(i => i.status === status);
+            }
+
+            const created = req.query.created as { gte?: string; lt?: string } | undefined;
+            if (created?.gte) items = items.filter(i => i.created >= Number(created.gte));
+            if (created?.lt) items = items.filter(i => i.created < Number(created.lt));
+
+            res.json(stripePage(req, `/v1/${resource}`, items, options));
+        });
+    }
+
+    app.use('/v1', (req, res) => {
+        stripeError(res, `Unrecognized request URL (${req.method}: /v1${req.path})`);
+    });
+}
+
+function stripePage(req: Request, url: string, items: Array<{ id: string }>, options: FixtureServerOptions) {
+    const limit = Math.min(Number(req.query.limit ?? 10), options.pageSize ?? Infinity);
+    const after = req.query.starting_after as string | undefined;
+    const start = after ? items.findIndex(i => i.id === after) + 1 : 0;
+    const data = items.slice(start, start + limit);
+
+    return { object: 'list', url, has_more: start + limit < items.length, data };
+}
+
+function stripeError(res: Response, message: string): void {
+    res.status(404).json({ error: { type: 'invalid_request_error', message } });
+}
+
+// ============================================
+// PLAID
+// ============================================
+
+function mountPlaid(app: express.Express, pack: PlaidPack, scenario: ScenarioName, options: FixtureServerOptions): void {
+    const item = { item_id: `item-fixture-${scenario}`, institution_id: 'ins_fixture' };
+
+    app.post('/link/token/create', (_req, res) => {
+        res.json({ link_token: `link-fixture-${scenario}`, expiration: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(), request_id: 'fixture' });
+    });
+
+    app.post('/item/public_token/exchange', (_req, res) => {
+        res.json({ access_token: `access-fixture-${scenario}`, item_id: item.item_id, request_id: 'fixture' });
+    });
+
+    app.post('/accounts/get', (_req, res) => {
+        res.json({ accounts: pack.accounts, item, request_id: 'fixture' });
+    });
+
+    app.post('/transactions/get', (req, res) => {
+        const { start_date: from, end_date: to, options: paging = {} } = req.body as {
+            start_date: string;
+            end_date: string;
+            options?: { count?: number; offset?: number };
+        };
+        const matching = pack.transactions.filter(tx => tx.date >= from && tx.date <= to);
+        const offset = paging.offset ?? 0;
+        const count = Math.min(paging.count ?? 100, options.pageSize ?? Infinity);
+
+        res.json({
+            accounts: pack.accounts,
+            transactions: matching.slice(offset, offset + count),
+            total_transactions: matching.length,
+            item,
+            request_id: 'fixture',
+        });
+    });
+}
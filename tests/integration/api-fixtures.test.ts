@@ -0,0 +1,333 @@
+/**
+ * Integration tests: Stripe and Plaid ingestion against offline fixture servers
+ *
+ * Runs the adapters, the integration routes and the scoring pipeline against
+ * recorded API responses (tests/fixtures/api-scenarios) without network access.
+ * The clock is pinned to when the scenarios were recorded. Credentials go to
+ * the in-memory vault.
+ */
+
+import { readFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { startFixtureServer, type FixtureServer, type ScenarioName } from '../fixtures/api-scenarios/index.js';
+import { StripeAdapter } from '../../src/ingestion/stripe-adapter.js';
+import { PlaidAdapter } from '../../src/ingestion/plaid-adapter.js';
+import { apiRouter } from '../../src/api/routes.js';
+import { loadSessionContext } from '../../src/core/analysis-runner.js';
+import { getJobQueue, type AnalysisJobResult } from '../../src/core/job-queue.js';
+import { claimMonitor, recordMonitorRun } from '../../src/core/monitoring-store.js';
+import { AgentOrchestrator } from '../../src/core/orchestrator.js';
+import { MockProvider } from '../../src/llm/mock-provider.js';
+import { CounterAgent } from '../../src/agents/counter-agent.js';
+import { LawyerAgent } from '../../src/agents/lawyer-agent.js';
+import { ForecasterAgent } from '../../src/agents/forecaster-agent.js';
+import { MarketAgent } from '../../src/agents/market-agent.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, '../fixtures/companies');
+
+/** Midday on the day the scenarios were recorded */
+const NOW = new Date('2024-06-30T12:00:00Z');
+
+let server: FixtureServer | undefined;
+
+async function serve(scenario: ScenarioName, pageSize?: number): Promise<FixtureServer> {
+    server = await startFixtureServer(scenario, { pageSize });
+    return server;
+}
+
+beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'], now: NOW });
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_fixture');
+    vi.stubEnv('PLAID_CLIENT_ID', 'fixture-client');
+    vi.stubEnv('PLAID_SECRET', 'fixture-secret');
+});
+
+afterEach(async () => {
+    await server?.close();
+    server = undefined;
+});
+
+afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+});
+
+describe('StripeAdapter against fixtures', () => {
+    it('reads every page of every list', async () => {
+        const { url, requests } = await serve('healthy', 4);
+        const snapshot = await new StripeAdapter({ baseUrl: url }).fetchSnapshot();
+
+        expect(snapshot.currency).toBe('DKK');
+        // All eight active subscriptions, two pages' worth
+        expect(snapshot.mrr).toBe(40_500);
+        expect(snapshot.customerCount).toBe(8);
+        expect(requests.filter(r => r === 'GET /v1/invoices').length).toBeGreaterThan(20);
+        expect(snapshot.receivables!.counterparties).toEqual([
+            { name: 'Skovgaard Byg ApS', current: 0, days1to30: 5_500, days31to60: 0, days61to90: 0, over90: 0 },
+        ]);
+    });
+
+    it('reads the same snapshot one object per page', async () => {
+        const { url } = await serve('healthy');
+        const unpaged = await new StripeAdapter({ baseUrl: url }).fetchSnapshot();
+        await server!.close();
+
+        const { url: pagedUrl, requests } = await serve('healthy', 1);
+        const paged = await new StripeAdapter({ baseUrl: pagedUrl }).fetchSnapshot();
+
+        const { fetchedAt: _, ...expected } = unpaged;
+        expect(paged).toMatchObject(expected);
+        // A page for each of the scenario's nine subscriptions
+        expect(requests.filter(r => r === 'GET /v1/subscriptions')).toHaveLength(9);
+    });
+
+    it('builds the MRR series and cohorts from invoiced periods', async () => {
+        const { url } = await serve('healthy');
+        const { mrrSeries, cohorts } = await new StripeAdapter({ baseUrl: url }).fetchSnapshot();
+        const month = (m: string) => mrrSeries!.find(s => s.month === m);
+
+        expect(mrrSeries!.map(s => s.month)).toHaveLength(12);
+        expect(month('2024-06')).toMatchObject({ mrr: 40_500, arr: 486_000, customers: 8 });
+        expect(month('2024-03')).toMatchObject({ newMrr: 5_000, newCustomers: 1 });
+        expect(month('2024-04')).toMatchObject({ expansionMrr: 1_500, newMrr: 0 });
+        expect(month('2023-11')).toMatchObject({ churnedMrr: 1_500, churnedCustomers: 1 });
+        expect(cohorts!.find(c => c.cohort === '2024-01')).toMatchObject({ customers: 1, startingMrr: 6_000 });
+    });
+
+    it('measures churn in the high-churn scenario', async () => {
+        const { url } = await serve('high-churn', 5);
+        const snapshot = await new StripeAdapter({ baseUrl: url }).fetchSnapshot();
+
+        expect(snapshot.churnRate).toBeCloseTo(7 / 12);
+        expect(snapshot.mrrSeries!.at(-1)).toMatchObject({ churnedCustomers: 7, churnedMrr: 21_000, mrr: 15_000 });
+        expect(snapshot.cohorts![0]!.months.at(-1)!.logoRetention).toBeCloseTo(5 / 12, 4);
+    });
+
+    it('finds the dominant customer in the concentrated-customer scenario', async () => {
+        const { url } = await serve('concentrated-customer');
+        const snapshot = await new StripeAdapter({ baseUrl: url }).fetchSnapshot();
+
+        expect(snapshot.topCustomers[0]).toMatchObject({ name: 'Nordic Retail A/S' });
+        expect(snapshot.topCustomers[0]!.percentOfTotal).toBeCloseTo(80 / 95, 3);
+    });
+
+    it('converts foreign-currency billing and leaves out currencies without an FX rate', async () => {
+        const { url } = await serve('mixed-currency');
+        const snapshot = await new StripeAdapter({ baseUrl: url }).fetchSnapshot();
+
+        // DKK 10,000 plus EUR 1,000 at the 2023 year-end rate; the CAD subscription is left out
+        expect(snapshot.currency).toBe('DKK');
+        expect(snapshot.mrr).toBeCloseTo(17_452.9, 1);
+        expect(snapshot.unconvertedCurrencies).toEqual(['CAD']);
+        expect(snapshot.topCustomers.map(c => c.name)).toEqual(['Nordlys Design ApS', 'Berliner Werkstatt GmbH']);
+        expect(snapshot.receivables!.counterparties).toEqual([]);
+        expect(snapshot.mrrSeries!.at(-1)).toMatchObject({ customers: 2 });
+    });
+
+    it('measures growth on invoices converted into the account currency', async () => {
+        const { url } = await serve('mixed-currency');
+        const snapshot = await new StripeAdapter({ baseUrl: url }).fetchSnapshot();
+
+        // DKK 30,000 a quarter, joined by EUR 3,000 (DKK 22,358.70) in the last one
+        expect(snapshot.arrGrowthRate).toBeCloseTo(0.74529, 5);
+    });
+});
+
+describe('PlaidAdapter against fixtures', () => {
+    it('pages through transactions and flags the overdrawn account', async () => {
+        const { url } = await serve('overdrawn-account', 5);
+        const adapter = new PlaidAdapter({ baseUrl: url });
+        const snapshot = await adapter.fetchSnapshot(await adapter.exchangeToken('public-fixture'));
+
+        expect(snapshot.currency).toBe('DKK');
+        expect(snapshot.transactionList).toHaveLength(22);
+        const events = snapshot.analytics!.overdraftEvents.map(e => e.type);
+        expect(events).toContain('negative_balance');
+        expect(events).toContain('returned_payment');
+    });
+});
+
+// ============================================
+// INGESTION TO SCORE
+// ============================================
+
+describe('integration routes to score', () => {
+    let api: Server;
+    let apiUrl: string;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.use('/api', apiRouter);
+        api = await new Promise<Server>(resolve => {
+            const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+        });
+        apiUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => api.close(resolve));
+    });
+
+    async function post(path: string, body: Record<string, unknown>, status = 200) {
+        const response = await fetch(`${apiUrl}/api${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        expect(response.status).toBe(status);
+        return response.json() as Promise<Record<string, any>>;
+    }
+
+    /** Connect Stripe and Plaid for a session through the API, then score it offline */
+    async function scoreScenario(scenario: ScenarioName) {
+        const { url } = await serve(scenario);
+        vi.stubEnv('STRIPE_API_BASE_URL', url);
+        vi.stubEnv('PLAID_API_BASE_URL', url);
+
+        const fixture = JSON.parse(readFileSync(join(fixturesDir, 'hydrema-produktion', 'input.json'), 'utf-8'));
+        const { sessionId } = await post('/sessions', { companyId: fixture.company.cvr, reportingCurrency: 'DKK' });
+        const stripe = await post('/integrations/stripe', { sessionId });
+        await post('/integrations/plaid/exchange', { sessionId, publicToken: 'public-fixture' });
+
+        const contextService = (await loadSessionContext(sessionId))!;
+        for (const type of ['profit_and_loss', 'balance_sheet'] as const) {
+            await contextService.addDocument({
+                id: `${type}-1`,
+                type,
+                filename: `${type}.json`,
+                parsedAt: new Date(),
+                confidence: 1.0,
+                data: fixture.documents[type],
+                rawText: '',
+                currency: 'DKK',
+                trustScore: 0.9,
+            });
+        }
+
+        const llm = new MockProvider();
+        const orchestrator = new AgentOrchestrator(contextService);
+        orchestrator.registerAgent(new CounterAgent(llm));
+        orchestrator.registerAgent(new LawyerAgent(llm));
+        orchestrator.registerAgent(new ForecasterAgent(llm));
+        orchestrator.registerAgent(new MarketAgent(llm));
+
+        const result = await orchestrator.analyze(fixture.company.cvr);
+        await server!.close();
+        server = undefined;
+        return { stripe, result };
+    }
+
+    it('attaches the snapshots to the session and scores each scenario on its weakness', async () => {
+        const healthy = await scoreScenario('healthy');
+        const churn = await scoreScenario('high-churn');
+        const concentrated = await scoreScenario('concentrated-customer');
+        const overdrawn = await scoreScenario('overdrawn-account');
+
+        expect(healthy.stripe.snapshot).toMatchObject({ currency: 'DKK', mrr: 40_500 });
+        expect(healthy.result.score.score).toBeGreaterThan(0);
+
+        const factor = (run: typeof healthy, name: 'retention' | 'concentration' | 'serviceability') =>
+            run.result.score.riskFactors[name].score;
+        expect(factor(churn, 'retention')).toBeLessThan(factor(healthy, 'retention'));
+        expect(factor(concentrated, 'concentration')).toBeLessThan(factor(healthy, 'concentration'));
+        expect(factor(overdrawn, 'serviceability')).toBeLessThan(factor(healthy, 'serviceability'));
+    });
+
+    it('stores linked credentials and refreshes a later session without re-linking', async () => {
+        vi.stubEnv('CREDENTIAL_VAULT_KEY', randomBytes(32).toString('base64'));
+        const { url } = await serve('overdrawn-account');
+        vi.stubEnv('STRIPE_API_BASE_URL', url);
+        vi.stubEnv('PLAID_API_BASE_URL', url);
+
+        const first = await post('/sessions', { companyId: 'vault-co' });
+        for (const [path, body] of [
+            ['/integrations/stripe', { accountId: 'acct_connected' }],
+            ['/integrations/plaid/exchange', { publicToken: 'public-fixture' }],
+        ] as const) {
+            const mismatched = await fetch(`${apiUrl}/api${path}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...body, sessionId: first.sessionId, companyId: 'other-co' }),
+            });
+            expect(mismatched.status).toBe(400);
+            expect(await mismatched.json()).toEqual({ error: 'Session belongs to another company' });
+        }
+
+        const plaid = await post('/integrations/plaid/exchange', { sessionId: first.sessionId, publicToken: 'public-fixture' });
+        const stripe = await post('/integrations/stripe', { sessionId: first.sessionId, accountId: 'acct_connected' });
+        expect([plaid.credentialStored, stripe.credentialStored]).toEqual([true, true]);
+
+        const later = await post('/sessions', { companyId: 'vault-co' });
+        const refresh = await post('/companies/vault-co/integrations/refresh', { sessionId: later.sessionId });
+
+        expect(refresh.refreshed).toEqual(['stripe', 'plaid']);
+        expect(refresh.errors).toEqual([]);
+        const { apiSnapshots } = (await loadSessionContext(later.sessionId))!.getContext();
+        expect(apiSnapshots.plaid!.analytics!.overdraftEvents.length).toBeGreaterThan(0);
+        expect(apiSnapshots.stripe!.mrr).toBe(40_500);
+
+        const listed = await (await fetch(`${apiUrl}/api/companies/vault-co/integrations`)).json();
+        expect(listed.integrations.map((c: { provider: string }) => c.provider)).toEqual(['plaid', 'stripe']);
+        expect(JSON.stringify(listed)).not.toContain('access-fixture');
+    });
+
+    it('monitors a company: refreshes from the vault and reuses insights while the data holds', async () => {
+        vi.stubEnv('CREDENTIAL_VAULT_KEY', randomBytes(32).toString('base64'));
+        const { url } = await serve('healthy');
+        vi.stubEnv('STRIPE_API_BASE_URL', url);
+        vi.stubEnv('PLAID_API_BASE_URL', url);
+
+        const { sessionId } = await post('/sessions', { companyId: 'monitored-co', reportingCurrency: 'DKK' });
+        await post('/integrations/stripe', { sessionId, accountId: 'acct_monitored' });
+        await post('/integrations/plaid/exchange', { sessionId, publicToken: 'public-fixture' });
+
+        const registered = await fetch(`${apiUrl}/api/companies/monitored-co/monitoring`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ sessionId, cadenceDays: 14, policyId: 'cash-flow-lender' }),
+        });
+        expect(registered.status).toBe(201);
+        expect((await registered.json()).monitoring).toMatchObject({ cadenceDays: 14, reuseInsights: true, enabled: true });
+
+        // A run already holds the company
+        await claimMonitor('monitored-co', new Date(), 60_000);
+        const busy = await fetch(`${apiUrl}/api/companies/monitored-co/monitoring/run`, { method: 'POST' });
+        expect(busy.status).toBe(409);
+        await recordMonitorRun('monitored-co', {});
+
+        const first = await post('/companies/monitored-co/monitoring/run', {}, 202);
+        expect(first).toMatchObject({ status: 'queued', changes: ['No earlier analysis to compare with'] });
+        const { apiSnapshots } = (await loadSessionContext(first.sessionId))!.getContext();
+        expect(apiSnapshots.stripe!.mrr).toBe(40_500);
+        expect(apiSnapshots.plaid).toBeDefined();
+
+        // A worker completes the full run
+        const queue = getJobQueue();
+        let job = await queue.claim(60_000);
+        while (job && job.id !== first.jobId) job = await queue.claim(60_000);
+        await queue.complete(first.jobId, job!.attempts, { score: {}, roadmap: {}, failedAgents: [] } as unknown as AnalysisJobResult);
+
+        const second = await post('/companies/monitored-co/monitoring/run', {}, 202);
+        expect(second).toMatchObject({ reusedInsightsFrom: first.jobId, changes: [] });
+        expect(await queue.getJob(second.jobId)).toMatchObject({ reuseInsightsFrom: first.jobId, policyId: 'cash-flow-lender' });
+
+        // The worker stored no artifacts, so there are no insights to re-score with
+        const rescore = await post(`/analyze/${first.jobId}/rescore`, { policyId: 'regulated-bank' }, 409);
+        expect(rescore.error).toMatch(/no longer available/);
+
+        const status = await (await fetch(`${apiUrl}/api/companies/monitored-co/monitoring`)).json();
+        expect(status.monitoring).toMatchObject({ lastJobId: second.jobId, baselineJobId: first.jobId });
+
+        const removed = await fetch(`${apiUrl}/api/companies/monitored-co/monitoring`, { method: 'DELETE' });
+        expect(removed.status).toBe(200);
+        expect((await fetch(`${apiUrl}/api/companies/monitored-co/monitoring`)).status).toBe(404);
+    });
+});
@@ -0,0 +1,255 @@
+/**
+ * Integration tests: Full orchestrator pipeline with the offline mock provider
+ *
+ * Runs agents → contradiction detection → synthesis → scoring → roadmap
+ * against fixture companies without network access or an API key.
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { describe, it, expect } from 'vitest';
+import { AgentOrchestrator, type AnalysisProgressEvent, type AnalyzeOptions } from '../../src/core/orchestrator.js';
+import { createGlobalContext, type GlobalContextService } from '../../src/core/global-context.js';
+import { MockProvider } from '../../src/llm/mock-provider.js';
+import { CounterAgent } from '../../src/agents/counter-agent.js';
+import { LawyerAgent } from '../../src/agents/lawyer-agent.js';
+import { ForecasterAgent } from '../../src/agents/forecaster-agent.js';
+import { MarketAgent } from '../../src/agents/market-agent.js';
+import { getScoringPolicy } from '../../src/synthesis/scoring-policies.js';
+import type { Contradiction, ScoringPolicy, StripeSnapshot } from '../../src/types/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, '../fixtures/companies');
+
+function loadFixture(company: string) {
+    return JSON.parse(readFileSync(join(fixturesDir, company, 'input.json'), 'utf-8'));
+}
+
+async function createFixtureSession(company: string) {
+    const fixture = loadFixture(company);
+    const contextService = createGlobalContext();
+    await contextService.createSession(fixture.company.cvr);
+
+    for (const type of ['profit_and_loss', 'balance_sheet'] as const) {
+        await contextService.addDocument({
+            id: `${type}-1`,
+            type,
+            filename: `${type}.json`,
+            parsedAt: new Date(),
+            confidence: 1.0,
+            data: fixture.documents[type],
+            rawText: '',
+            trustScore: 0.9,
+        });
+    }
+
+    return { fixture, contextService };
+}
+
+function createOrchestrator(contextService: GlobalContextService, llm: MockProvider) {
+    const orchestrator = new AgentOrchestrator(contextService);
+    orchestrator.registerAgent(new CounterAgent(llm));
+    orchestrator.registerAgent(new LawyerAgent(llm));
+    orchestrator.registerAgent(new ForecasterAgent(llm));
+    orchestrator.registerAgent(new MarketAgent(llm));
+    return orchestrator;
+}
+
+async function runFixture(
+    company: string,
+    llm: MockProvider,
+    progress: AnalysisProgressEvent[] = [],
+    options: AnalyzeOptions = {},
+) {
+    const { fixture, contextService } = await createFixtureSession(company);
+    const orchestrator = createOrchestrator(contextService, llm);
+    orchestrator.onProgress(event => progress.push(event));
+
+    const result = await orchestrator.analyze(fixture.company.cvr, undefined, options);
+    return { result, orchestrator };
+}
+
+describe('orchestrator with mock provider', () => {
+    it('runs every agent and produces a score and roadmap', async () => {
+        const llm = new MockProvider();
+        const { result } = await runFixture('hydrema-produktion', llm);
+
+        expect(result.failedAgents).toEqual([]);
+        expect(result.score.score).toBeGreaterThan(0);
+        expect(result.score.score).toBeLessThanOrEqual(100);
+        expect(result.roadmap.currentScore).toBe(result.score.score);
+        expect(llm.calls.map(c => c.source).sort()).toEqual(['counter', 'forecaster', 'lawyer', 'market']);
+    });
+
+    it('is deterministic across runs', async () => {
+        const first = await runFixture('novo-nordisk', new MockProvider());
+        const second = await runFixture('novo-nordisk', new MockProvider());
+
+        expect(second.result.score.score).toBe(first.result.score.score);
+        expect(second.result.score.grade).toBe(first.result.score.grade);
+    });
+
+    it('records mock calls in the audit trail', async () => {
+        const { orchestrator } = await runFixture('hydrema-produktion', new MockProvider());
+        const entries = orchestrator.getAuditTrail()!.getAllEntries();
+
+        expect(entries).toHaveLength(4);
+        expect(entries.every(e => e.modelUsed === 'mock')).toBe(true);
+    });
+
+    it('returns the insights, audit entries and message log behind the score', async () => {
+        const llm = new MockProvider({
+            'lawyer:full_analysis': {
+                insights: [{ category: 'compliance_status', title: 'Major gaps', impact: -40, confidence: 0.9 }],
+            },
+        });
+        const { result } = await runFixture('hydrema-produktion', llm);
+
+        expect(result.insights.length).toBeGreaterThan(0);
+        expect(result.auditEntries).toHaveLength(4);
+        expect(Array.isArray(result.contradictions)).toBe(true);
+
+        // Every insight links back to the LLM call that produced it
+        const entryIds = new Set(result.auditEntries.map(e => e.id));
+        expect(result.insights.every(i => i.auditEntryId && entryIds.has(i.auditEntryId))).toBe(true);
+        expect(result.messages).toContainEqual(expect.objectContaining({ from: 'lawyer', type: 'insight_update' }));
+    });
+
+    it('serves overridden responses keyed by agent and analysis type', async () => {
+        const llm = new MockProvider({
+            'lawyer:full_analysis': {
+                insights: [{ category: 'compliance_status', title: 'Major gaps', impact: -40, confidence: 0.9 }],
+            },
+        });
+        const { result } = await runFixture('hydrema-produktion', llm);
+
+        const compliance = result.score.riskFactors.compliance.components.find(c => c.name === 'Regulatory Compliance');
+        expect(compliance!.value).toBe(10);
+    });
+
+    it('marks an agent as failed when its canned response is not valid JSON', async () => {
+        const llm = new MockProvider({ 'counter:full_analysis': 'not json' });
+        const { result } = await runFixture('hydrema-produktion', llm);
+
+        expect(result.failedAgents).toEqual(['counter']);
+    });
+
+    it('emits phase, agent status and insight progress events', async () => {
+        const llm = new MockProvider({
+            'lawyer:full_analysis': {
+                insights: [{ category: 'compliance_status', title: 'Major gaps', impact: -40, confidence: 0.9 }],
+            },
+        });
+        const progress: AnalysisProgressEvent[] = [];
+        await runFixture('hydrema-produktion', llm, progress);
+
+        const phases = progress
+            .filter(e => e.type === 'phase' && e.state === 'started')
+            .map(e => e.type === 'phase' && e.phase);
+        expect(phases).toEqual(['obvious_case_check', 'agents', 'contradiction_detection', 'synthesis', 'scoring', 'roadmap']);
+
+        const lawyerStatuses = progress
+            .filter(e => e.type === 'agent_status' && e.agentId === 'lawyer')
+            .map(e => e.type === 'agent_status' && e.status);
+        expect(lawyerStatuses).toEqual(['pending', 'running', 'complete']);
+
+        expect(progress).toContainEqual({
+            type: 'insight_update',
+            from: 'lawyer',
+            category: 'compliance_status',
+            impact: -40,
+            summary: 'Major gaps',
+        });
+    });
+
+    it('reports a failed agent with an error status', async () => {
+        const progress: AnalysisProgressEvent[] = [];
+        await runFixture('hydrema-produktion', new MockProvider({ 'counter:full_analysis': 'not json' }), progress);
+
+        expect(progress).toContainEqual({ type: 'agent_status', agentId: 'counter', status: 'error' });
+    });
+
+    it('replays reused insights without calling the agents', async () => {
+        const full = await runFixture('hydrema-produktion', new MockProvider());
+
+        const llm = new MockProvider();
+        const progress: AnalysisProgressEvent[] = [];
+        const { result } = await runFixture('hydrema-produktion', llm, progress, { reuseInsights: full.result.insights });
+
+        expect(llm.calls).toEqual([]);
+        expect(result.auditEntries).toEqual([]);
+        expect(result.insights).toEqual(full.result.insights);
+        expect(result.score.score).toBe(full.result.score.score);
+        expect(progress).toContainEqual({
+            type: 'phase',
+            phase: 'agents',
+            state: 'complete',
+            detail: `reused ${full.result.insights.length} insights`,
+        });
+    });
+
+    it('replaces the insights and contradictions of an earlier run when a session is re-analyzed', async () => {
+        const { fixture, contextService } = await createFixtureSession('hydrema-produktion');
+        // Far below the P&L revenue, so each run finds a revenue contradiction
+        await contextService.setStripeSnapshot({
+            fetchedAt: new Date('2024-12-31'),
+            currency: 'DKK',
+            mrr: 1_000,
+            arrGrowthRate: 0,
+            customerCount: 1,
+            churnRate: 0,
+            topCustomers: [],
+            paymentHistory: { successRate: 1, averagePaymentDelay: 0, disputeRate: 0 },
+        } as StripeSnapshot);
+        const merged: Contradiction = {
+            id: 'merge-1',
+            detectedAt: new Date(),
+            sources: [],
+            description: 'Conflicting profit_and_loss figures for 2023 revenue',
+            detectedBy: 'document_merge',
+        };
+        await contextService.addContradiction(merged);
+
+        const orchestrator = createOrchestrator(contextService, new MockProvider());
+        const first = await orchestrator.analyze(fixture.company.cvr);
+        const second = await orchestrator.analyze(fixture.company.cvr);
+
+        expect(first.contradictions.filter(c => c.detectedBy === 'analysis')).toHaveLength(1);
+        expect(second.insights).toHaveLength(first.insights.length);
+        expect(second.contradictions).toHaveLength(first.contradictions.length);
+        expect(second.contradictions.filter(c => c.id === merged.id)).toHaveLength(1);
+        expect(contextService.getAllInsights()).toHaveLength(second.insights.length);
+    });
+
+    it('weights and grades an obvious case under the requested policy', async () => {
+        const contextService = createGlobalContext();
+        await contextService.createSession('loss-making');
+        await contextService.addDocument({
+            id: 'profit_and_loss-1',
+            type: 'profit_and_loss',
+            filename: 'profit_and_loss.json',
+            parsedAt: new Date(),
+            confidence: 1.0,
+            data: { '2023': { revenue: 1_000_000, netIncome: -50_000 }, '2024': { revenue: 900_000, netIncome: -80_000 } },
+            rawText: '',
+            trustScore: 0.9,
+        });
+        const lenient: ScoringPolicy = {
+            ...getScoringPolicy('cash-flow-lender'),
+            id: 'lenient',
+            grades: {
+                'A+': 95, 'A': 90, 'A-': 85, 'B+': 80, 'B': 75, 'B-': 70,
+                'C+': 65, 'C': 60, 'C-': 55, 'D+': 40, 'D': 25, 'D-': 10, 'F': 0,
+            },
+        };
+
+        const llm = new MockProvider();
+        const { score } = await createOrchestrator(contextService, llm).analyze('loss-making', lenient);
+
+        expect(score).toMatchObject({ score: 15, grade: 'D-', policyId: 'lenient' });
+        expect(score.riskFactors.serviceability.weight).toBe(lenient.weights.serviceability);
+        expect(score.riskFactors.compliance.weight).toBe(lenient.weights.compliance);
+        expect(llm.calls).toEqual([]);
+    });
+});
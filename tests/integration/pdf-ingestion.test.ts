@@ -0,0 +1,93 @@
+/**
+ * Integration tests: PDF ingestion against the fixture PDFs
+ *
+ * The fixture statements have a text layer, so they must parse without a
+ * single LLM call and match the figures they were generated from (which the
+ * PDFs print rounded, e.g. "8.5M DKK").
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { describe, it, expect } from 'vitest';
+import PDFDocument from 'pdfkit';
+import { PDFParser } from '../../src/ingestion/pdf-parser.js';
+import { MockProvider } from '../../src/llm/mock-provider.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, '../fixtures/companies');
+const companies = readdirSync(fixturesDir).filter(name => existsSync(join(fixturesDir, name, 'profit_and_loss.pdf')));
+
+/** Relative tolerance for figures printed with one decimal in millions/billions */
+const ROUNDING = 0.05;
+
+function expectRounded(actual: unknown, expected: number) {
+    expect(typeof actual).toBe('number');
+    expect(Math.abs((actual as number) - expected)).toBeLessThanOrEqual(Math.max(1000, Math.abs(expected) * ROUNDING));
+}
+
+function renderPdf(lines: string[]): Promise<Buffer> {
+    return new Promise(resolve => {
+        const doc = new PDFDocument();
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        for (const line of lines) doc.text(line);
+        doc.end();
+    });
+}
+
+describe('PDFParser text layer', () => {
+    it.each(companies)('parses the %s statements without the LLM', async (company) => {
+        const fixture = JSON.parse(readFileSync(join(fixturesDir, company, 'input.json'), 'utf-8'));
+        const llm = new MockProvider();
+        const parser = new PDFParser(llm);
+
+        const pl = await parser.parse(readFileSync(join(fixturesDir, company, 'profit_and_loss.pdf')), 'profit_and_loss.pdf');
+        const bs = await parser.parse(readFileSync(join(fixturesDir, company, 'balance_sheet.pdf')), 'balance_sheet.pdf');
+
+        expect(llm.calls).toEqual([]);
+        expect(pl.type).toBe('profit_and_loss');
+        expect(bs.type).toBe('balance_sheet');
+        expect(pl.currency).toBe('DKK');
+
+        for (const [year, expected] of Object.entries(fixture.documents.profit_and_loss) as Array<[string, Record<string, number>]>) {
+            const period = pl.data[year] as Record<string, number>;
+            expectRounded(period.revenue, expected.revenue!);
+            expectRounded(period.netIncome, expected.netIncome!);
+        }
+
+        const latestYear = Object.keys(fixture.documents.balance_sheet).sort().reverse()[0]!;
+        const expectedBs = fixture.documents.balance_sheet[latestYear];
+        const period = bs.data[latestYear] as Record<string, number>;
+        expectRounded(period.totalAssets, expectedBs.assets.totalAssets);
+        expectRounded(period.equity, expectedBs.equity.totalEquity);
+        expectRounded(period.cash, expectedBs.assets.cash);
+    });
+
+    it('falls back to the LLM when the text layer is not a recognisable document', async () => {
+        const llm = new MockProvider();
+        const parser = new PDFParser(llm);
+
+        const doc = await parser.parse(await renderPdf(['Minutes of the board meeting', 'Attendees: A. Jensen']), 'minutes.pdf');
+
+        expect(llm.calls.map(c => c.analysisType)).toEqual(['detect_type', 'extract:other']);
+        expect(doc.type).toBe('other');
+        expect(doc.rawText).toContain('Minutes of the board meeting');
+    });
+
+    it('skips LLM type detection for a clearly classified non-statement', async () => {
+        const llm = new MockProvider();
+        const parser = new PDFParser(llm);
+
+        const doc = await parser.parse(await renderPdf([
+            'SERVICE AGREEMENT',
+            'between the parties Example ApS (hereinafter "the Supplier") and Customer A/S',
+            'Termination: either party may terminate with a notice period of 3 months.',
+            'Governing law: Denmark',
+        ]), 'agreement.pdf');
+
+        expect(llm.calls.map(c => c.analysisType)).toEqual(['extract:contract']);
+        expect(doc.type).toBe('contract');
+    });
+});
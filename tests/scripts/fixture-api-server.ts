@@ -0,0 +1,25 @@
+/**
+ * Offline Stripe/Plaid API server
+ *
+ * Serves a scenario pack from tests/fixtures/api-scenarios so the API can be
+ * run against it by hand:
+ *
+ *   npx tsx tests/scripts/fixture-api-server.ts high-churn
+ *   STRIPE_API_BASE_URL=http://127.0.0.1:12111 PLAID_API_BASE_URL=http://127.0.0.1:12111 npm run dev
+ *
+ * Responses are as recorded; time-window figures (growth, churn, the 90-day
+ * bank period) are measured from today and come out empty or stale.
+ */
+
+import { SCENARIOS, startFixtureServer, type ScenarioName } from '../fixtures/api-scenarios/index.js';
+
+const scenario = (process.argv[2] ?? 'healthy') as ScenarioName;
+const port = Number(process.env.FIXTURE_API_PORT ?? 12111);
+
+if (!SCENARIOS.includes(scenario)) {
+    console.error(`Unknown scenario "${scenario}". Choose one of: ${SCENARIOS.join(', ')}`);
+    process.exit(1);
+}
+
+const server = await startFixtureServer(scenario, { port });
+console.log(`Serving the ${scenario} scenario (recorded ${server.recordedAt.toISOString().slice(0, 10)}) on ${server.url}`);
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for aging report reading
+ *
+ * Tests: bucket and invoice layouts, receivables vs payables, report date and
+ * currency, vision-extracted reports, aging sheets in the spreadsheet parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ageInvoices, normalizeAgingReport, readAgingReport } from '../../src/ingestion/aging-report.js';
+import { SpreadsheetParser } from '../../src/ingestion/spreadsheet-parser.js';
+
+const text = (rows: Array<Array<string | number | null>>) => rows.map(row => row.filter(c => c !== null).join('\t')).join('\n');
+
+describe('readAgingReport', () => {
+    it('reads a bucket layout, skipping the total row', () => {
+        const rows = [
+            ['Aldersfordelt debitorsaldoliste pr. 31.12.2024 (DKK)'],
+            ['Kunde', 'Ikke forfalden', '1-30', '31-60', '61-90', 'Over 90', 'I alt'],
+            ['Nordic Retail A/S', '120.000,00', '30.000,00', null, null, null, '150.000,00'],
+            ['Byg & Co ApS', '10.000,00', null, '15.000,00', null, '25.000,00', '50.000,00'],
+            ['I alt', '130.000,00', '30.000,00', '15.000,00', null, '25.000,00', '200.000,00'],
+        ];
+
+        expect(readAgingReport(rows, text(rows))).toEqual({
+            side: 'receivables',
+            asOf: '2024-12-31',
+            currency: 'DKK',
+            counterparties: [
+                { name: 'Nordic Retail A/S', current: 120_000, days1to30: 30_000, days31to60: 0, days61to90: 0, over90: 0 },
+                { name: 'Byg & Co ApS', current: 10_000, days1to30: 0, days31to60: 15_000, days61to90: 0, over90: 25_000 },
+            ],
+        });
+    });
+
+    it('ages an invoice layout to the report date and reads payables as positive amounts', () => {
+        const rows = [
+            ['Aged payables as of 2024-06-30'],
+            ['Supplier', 'Invoice', 'Due date', 'Open amount'],
+            ['Steel Supply AB', 'F-101', '2024-06-15', -8_000],
+            ['Steel Supply AB', 'F-099', '2024-03-01', -12_000],
+            ['Office Rent ApS', 'F-310', '2024-07-01', -20_000],
+        ];
+
+        expect(readAgingReport(rows, text(rows))).toEqual({
+            side: 'payables',
+            asOf: '2024-06-30',
+            currency: undefined,
+            counterparties: [
+                { name: 'Steel Supply AB', current: 0, days1to30: 8_000, days31to60: 0, days61to90: 0, over90: 12_000 },
+                { name: 'Office Rent ApS', current: 20_000, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 },
+            ],
+        });
+    });
+
+    it('returns null without an aging header', () => {
+        const rows = [['Konto', 'Saldo'], ['Bank', 1000]];
+        expect(readAgingReport(rows, text(rows))).toBeNull();
+    });
+});
+
+describe('ageInvoices', () => {
+    it('buckets by whole days past due', () => {
+        const asOf = new Date('2024-04-30T00:00:00Z');
+        const invoice = (dueDate: string) => ({ name: 'Acme', dueDate: new Date(`${dueDate}T00:00:00Z`), amount: 100 });
+
+        expect(ageInvoices(['2024-04-30', '2024-03-31', '2024-03-30', '2024-01-31', '2024-01-30'].map(invoice), asOf)).toEqual([
+            { name: 'Acme', current: 100, days1to30: 100, days31to60: 100, days61to90: 100, over90: 100 },
+        ]);
+    });
+});
+
+describe('normalizeAgingReport', () => {
+    it('fills the side and date from the document text', () => {
+        const report = normalizeAgingReport(
+            { counterparties: [{ name: 'Nordic Retail A/S', current: 5_000, over90: 1_000 }] },
+            'Kreditorsaldoliste\nDato: 31.03.2024',
+        );
+
+        expect(report).toEqual({
+            side: 'payables',
+            asOf: '2024-03-31',
+            counterparties: [{ name: 'Nordic Retail A/S', current: 5_000, days1to30: 0, days31to60: 0, days61to90: 0, over90: 1_000 }],
+        });
+    });
+
+    it('rejects data that is not an aging report', () => {
+        expect(normalizeAgingReport({ raw: 'unreadable' }, '')).toBeNull();
+    });
+});
+
+describe('SpreadsheetParser aging reports', () => {
+    it('reads an aged receivables CSV as an aging_report document', async () => {
+        const csv = [
+            'Aldersfordelt debitorsaldoliste pr. 31.12.2024',
+            'Kunde;Ikke forfalden;1-30;31-60;61-90;Over 90',
+            'Nordic Retail A/S;120.000,00;30.000,00;0;0;0',
+        ].join('\n');
+
+        const [doc] = await new SpreadsheetParser().parse(Buffer.from(csv, 'utf-8'), 'debitorer.csv');
+
+        expect(doc!.type).toBe('aging_report');
+        expect(doc!.data).toMatchObject({ side: 'receivables', asOf: '2024-12-31' });
+        expect(doc!.data.counterparties).toHaveLength(1);
+    });
+});
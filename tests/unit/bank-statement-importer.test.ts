@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the Bank Statement Importer
+ *
+ * Tests: Nordic CSV exports by header, column mappings with debit/credit
+ * columns, closing balances and runway, CAMT.053 statements
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BankStatementImporter } from '../../src/ingestion/bank-statement-importer.js';
+
+const importer = new BankStatementImporter();
+
+function csv(lines: string[]): Buffer {
+    return Buffer.from(lines.join('\n'), 'utf-8');
+}
+
+describe('BankStatementImporter CSV', () => {
+    it('reads a Danish export listed newest first', async () => {
+        const snapshot = await importer.import(csv([
+            'Dato;Tekst;Beløb;Saldo;Valuta',
+            '28.02.2024;Husleje;-20.000,00;150.000,00;DKK',
+            '15.02.2024;Faktura 1043;45.000,00;170.000,00;DKK',
+            '31.01.2024;Løn;-60.000,00;125.000,00;DKK',
+            '02.01.2024;Faktura 1042;35.000,00;185.000,00;DKK',
+        ]), 'danske_bank.csv');
+
+        expect(snapshot.source).toBe('bank_statement');
+        expect(snapshot.currency).toBe('DKK');
+        expect(snapshot.accounts).toEqual([{
+            accountId: 'danske_bank.csv', type: 'checking', currency: 'DKK', currentBalance: 150_000, availableBalance: 150_000,
+        }]);
+        expect(snapshot.transactions.totalInflow).toBe(80_000);
+        expect(snapshot.transactions.totalOutflow).toBe(80_000);
+        expect(snapshot.transactions.categoryBreakdown).toEqual({ Other: 80_000 });
+        expect(snapshot.transactions.period.start.toISOString().slice(0, 10)).toBe('2024-01-02');
+        expect(snapshot.transactions.period.end.toISOString().slice(0, 10)).toBe('2024-02-28');
+        // 58 days is just under two months of 30 days
+        expect(snapshot.cashFlow.averageMonthlyOutflow).toBeCloseTo(80_000 / (58 / 30));
+        expect(snapshot.cashFlow.burnRate).toBe(0);
+        expect(snapshot.cashFlow.runwayMonths).toBe(99);
+    });
+
+    it('reads mapped debit and credit columns and computes runway on the closing balance', async () => {
+        const snapshot = await importer.import(csv([
+            'When,Memo,Out,In,Type',
+            '2024-01-05,Rent,30000,,Rent',
+            '2024-02-05,Rent,30000,,Rent',
+            '2024-02-20,Customer,,15000,Sales',
+            '2024-03-05,Rent,30000,,Rent',
+        ]), 'export.csv', {
+            columns: { date: 'When', description: 'Memo', debit: 'Out', credit: 'In', category: 'Type' },
+            currency: 'eur',
+            closingBalance: 45_000,
+            accountId: 'DK5000400440116243',
+        });
+
+        expect(snapshot.accounts[0]).toMatchObject({ accountId: 'DK5000400440116243', currency: 'EUR', currentBalance: 45_000 });
+        expect(snapshot.transactions.categoryBreakdown).toEqual({ Rent: 90_000 });
+        // 90K out and 15K in over 61 days (5 Jan – 5 Mar)
+        expect(snapshot.cashFlow.burnRate).toBeCloseTo(75_000 / (61 / 30), 0);
+        expect(snapshot.cashFlow.runwayMonths).toBeCloseTo(45_000 / snapshot.cashFlow.burnRate);
+    });
+
+    it('explains what is missing', async () => {
+        await expect(importer.import(csv(['Foo;Bar', 'a;b']), 'x.csv')).rejects.toThrow('no date column found');
+        await expect(importer.import(csv(['Date;Amount', '2024-01-01;100']), 'x.csv', { currency: 'DKK' }))
+            .rejects.toThrow('no balance column; pass the closing balance');
+        await expect(importer.import(csv(['Date;Amount;Balance', '2024-01-01;100;100']), 'x.csv'))
+            .rejects.toThrow('no currency column');
+    });
+});
+
+describe('BankStatementImporter CAMT.053', () => {
+    const entry = (amount: string, indicator: string, date: string, family: string, sub: string, text: string, status = 'BOOK') => `
+        <Ntry>
+            <Amt Ccy="DKK">${amount}</Amt>
+            <CdtDbtInd>${indicator}</CdtDbtInd>
+            <Sts><Cd>${status}</Cd></Sts>
+            <BookgDt><Dt>${date}</Dt></BookgDt>
+            <BkTxCd><Domn><Cd>PMNT</Cd><Fmly><Cd>${family}</Cd><SubFmlyCd>${sub}</SubFmlyCd></Fmly></Domn></BkTxCd>
+            <NtryDtls><TxDtls><RmtInf><Ustrd>${text}</Ustrd></RmtInf></TxDtls></NtryDtls>
+        </Ntry>`;
+
+    const statement = Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+    <BkToCstmrStmt>
+        <GrpHdr><MsgId>STMT-1</MsgId><CreDtTm>2024-04-01T06:00:00</CreDtTm></GrpHdr>
+        <Stmt>
+            <Id>1</Id>
+            <FrToDt><FrDtTm>2024-01-01T00:00:00Z</FrDtTm><ToDtTm>2024-03-31T23:59:59Z</ToDtTm></FrToDt>
+            <Acct><Id><IBAN>DK5000400440116243</IBAN></Id><Ccy>DKK</Ccy></Acct>
+            <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="DKK">100000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+            <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="DKK">60000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+            ${entry('90000.00', 'DBIT', '2024-01-31', 'ICDT', 'SALA', 'Løn januar')}
+            ${entry('50000.00', 'CRDT', '2024-02-15', 'RCDT', 'ESCT', 'Faktura 2001')}
+            ${entry('1000.00', 'DBIT', '2024-03-31', 'CCRD', 'POSD', 'Kortkøb', 'PDNG')}
+        </Stmt>
+    </BkToCstmrStmt>
+</Document>`, 'utf-8');
+
+    it('reads closing balances and booked entries', async () => {
+        const snapshot = await importer.import(statement, 'camt053.xml');
+
+        expect(snapshot.accounts).toEqual([{
+            accountId: 'DK5000400440116243', type: 'checking', currency: 'DKK', currentBalance: 60_000, availableBalance: 60_000,
+        }]);
+        expect(snapshot.transactions.totalInflow).toBe(50_000);
+        expect(snapshot.transactions.totalOutflow).toBe(90_000);
+        expect(snapshot.transactions.categoryBreakdown).toEqual({ Payroll: 90_000 });
+        expect(snapshot.transactions.period.start.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+        expect(snapshot.cashFlow.burnRate).toBeCloseTo(40_000 / (91 / 30), 0);
+    });
+
+    it('rejects XML that is not a bank statement', async () => {
+        await expect(importer.import(Buffer.from('<AuditFile/>'), 'saft.xml')).rejects.toThrow('not a CAMT.053 bank statement');
+    });
+});
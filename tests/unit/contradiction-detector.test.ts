@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the Contradiction Detector
+ *
+ * Tests: revenue, cash and earnings quality checks, conversion to the reporting currency,
+ * currency-aware descriptions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectContradictions } from '../../src/synthesis/contradiction-detector.js';
+import type { GlobalContextService } from '../../src/core/global-context.js';
+import type { Contradiction, GlobalContext, ParsedDocument, RiskFactorMap } from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function doc(type: ParsedDocument['type'], data: Record<string, unknown>, currency?: string): ParsedDocument {
+    return { id: `${type}-1`, type, filename: `${type}.pdf`, parsedAt: new Date(), confidence: 0.9, data, rawText: '', trustScore: 0.9, currency };
+}
+
+function createContext(overrides: Partial<GlobalContext>): GlobalContext {
+    return {
+        sessionId: 'session-1',
+        companyId: 'company-1',
+        startedAt: new Date(),
+        documents: [],
+        apiSnapshots: {},
+        agentInsights: new Map(),
+        riskFactors: {} as RiskFactorMap,
+        contradictions: [],
+        ...overrides,
+    };
+}
+
+async function detect(context: GlobalContext): Promise<Contradiction[]> {
+    const found: Contradiction[] = [];
+    const service = { addContradiction: async (c: Contradiction) => { found.push(c); } } as unknown as GlobalContextService;
+    await detectContradictions(context, service);
+    return found;
+}
+
+const stripe = (mrr: number, currency: string) => ({
+    fetchedAt: new Date('2024-12-31'),
+    currency,
+    mrr,
+    arrGrowthRate: 0,
+    customerCount: 10,
+    churnRate: 0,
+    topCustomers: [],
+    paymentHistory: { successRate: 1, averagePaymentDelay: 0, disputeRate: 0 },
+});
+
+// ============================================
+// REVENUE
+// ============================================
+
+describe('detectContradictions revenue check', () => {
+    it('compares DKK statements with USD Stripe revenue in the reporting currency', async () => {
+        // USD 100,000 MRR ≈ DKK 8.6M a year at the 2024 year-end rate — consistent with the P&L
+        const context = createContext({
+            documents: [doc('profit_and_loss', { '2024': { currency: 'DKK', revenue: 8_500_000 } })],
+            apiSnapshots: { stripe: stripe(100_000, 'USD') },
+        });
+
+        expect(await detect(context)).toEqual([]);
+    });
+
+    it('describes a discrepancy with currency codes and the converted amount', async () => {
+        const context = createContext({
+            documents: [doc('profit_and_loss', { '2024': { currency: 'DKK', revenue: 20_000_000 } })],
+            apiSnapshots: { stripe: stripe(100_000, 'USD') },
+        });
+
+        const [contradiction] = await detect(context);
+
+        expect(contradiction!.description).toMatch(
+            /^Revenue discrepancy: P&L shows DKK 20,000,000 vs Stripe annualized DKK 8,61\d,\d{3} \(USD 1,200,000\) \(57% difference\)\.$/
+        );
+        expect(contradiction!.sources.map(s => s.currency)).toEqual(['DKK', 'DKK']);
+        expect(contradiction!.resolution).toMatchObject({ acceptedValue: 20_000_000, currency: 'DKK' });
+    });
+
+    it('reports in the session reporting currency', async () => {
+        const context = createContext({
+            reportingCurrency: 'EUR',
+            documents: [doc('profit_and_loss', { revenue: 745_780 }, 'DKK')],
+            apiSnapshots: { stripe: stripe(50_000, 'EUR') },
+        });
+
+        const [contradiction] = await detect(context);
+
+        expect(contradiction!.description).toContain('P&L shows EUR 100,000 (DKK 745,780) vs Stripe annualized EUR 600,000');
+        expect(contradiction!.sources[0]).toMatchObject({ value: expect.closeTo(100_000, 0), currency: 'EUR' });
+    });
+});
+
+// ============================================
+// CASH
+// ============================================
+
+describe('detectContradictions cash check', () => {
+    it('converts each Plaid account from its own currency', async () => {
+        const context = createContext({
+            documents: [doc('balance_sheet', { '2024': { currency: 'DKK', cash: 2_000_000 } })],
+            apiSnapshots: {
+                plaid: {
+                    fetchedAt: new Date('2024-12-31'),
+                    currency: 'USD',
+                    accounts: [
+                        { accountId: 'a', type: 'checking', currency: 'USD', currentBalance: 100_000, availableBalance: 100_000 },
+                        { accountId: 'b', type: 'savings', currency: 'DKK', currentBalance: 1_000_000, availableBalance: 1_000_000 },
+                    ],
+                    transactions: { period: { start: new Date(), end: new Date() }, totalInflow: 0, totalOutflow: 0, categoryBreakdown: {} },
+                    cashFlow: { averageMonthlyInflow: 0, averageMonthlyOutflow: 0, burnRate: 0, runwayMonths: 99 },
+                },
+            },
+        });
+
+        // USD 100,000 ≈ DKK 717,850 + DKK 1,000,000 — within 25% of DKK 2,000,000
+        expect(await detect(context)).toEqual([]);
+    });
+});
+
+// ============================================
+// EARNINGS QUALITY
+// ============================================
+
+describe('detectContradictions earnings quality check', () => {
+    it('accepts operating cash flow close to net income', async () => {
+        const context = createContext({
+            documents: [
+                doc('profit_and_loss', { '2024': { netIncome: 500_000 } }),
+                doc('cash_flow_statement', { '2024': { operatingCashFlow: 650_000 } }),
+            ],
+        });
+
+        expect(await detect(context)).toEqual([]);
+    });
+
+    it('flags profits that do not turn into operating cash', async () => {
+        const context = createContext({
+            documents: [
+                doc('profit_and_loss', { '2024': { currency: 'DKK', netIncome: 500_000 } }),
+                doc('cash_flow_statement', { '2024': { currency: 'DKK', operatingCashFlow: -200_000 } }),
+            ],
+        });
+
+        const [contradiction] = await detect(context);
+
+        expect(contradiction!.description).toBe(
+            'Earnings vs cash discrepancy: P&L net income DKK 500,000 vs operating cash flow DKK -200,000 (opposite signs).'
+        );
+        expect(contradiction!.sources.map(s => s.field)).toEqual(['net_income', 'operating_cash_flow']);
+        expect(contradiction!.resolution).toMatchObject({ acceptedValue: -200_000, currency: 'DKK' });
+    });
+
+    it('flags a large gap with the same sign', async () => {
+        const context = createContext({
+            documents: [
+                doc('profit_and_loss', { '2024': { netIncome: 1_000_000 } }),
+                doc('cash_flow_statement', { '2024': { operatingCashFlow: 300_000 } }),
+            ],
+        });
+
+        const [contradiction] = await detect(context);
+
+        expect(contradiction!.description).toContain('(70% difference)');
+    });
+
+    it('skips statements for different fiscal years', async () => {
+        const context = createContext({
+            documents: [
+                doc('profit_and_loss', { '2024': { netIncome: 500_000 } }),
+                doc('cash_flow_statement', { '2023': { operatingCashFlow: -200_000 } }),
+            ],
+        });
+
+        expect(await detect(context)).toEqual([]);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the integration credential vault
+ *
+ * Tests: sealing and opening secrets, tamper and context binding, tag length, key format,
+ * storing, replacing, listing and deleting credentials (in-memory store)
+ */
+
+import { randomBytes } from 'crypto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    decryptSecret,
+    deleteCredential,
+    encryptSecret,
+    getCredential,
+    isVaultConfigured,
+    listCredentials,
+    saveCredential,
+} from '../../src/core/credential-vault.js';
+
+const KEY = randomBytes(32).toString('base64');
+
+function uid() {
+    return `company-${Math.random().toString(36).slice(2)}`;
+}
+
+beforeEach(() => {
+    vi.stubEnv('DATABASE_URL', '');
+    vi.stubEnv('CREDENTIAL_VAULT_KEY', KEY);
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('encryptSecret / decryptSecret', () => {
+    it('opens what it sealed, with a fresh IV each time', () => {
+        const first = encryptSecret('access-sandbox-123', 'c1:plaid');
+        const second = encryptSecret('access-sandbox-123', 'c1:plaid');
+
+        expect(first).toMatch(/^v1:/);
+        expect(first).not.toContain('access-sandbox-123');
+        expect(first).not.toBe(second);
+        expect(decryptSecret(first, 'c1:plaid')).toBe('access-sandbox-123');
+    });
+
+    it('refuses a tampered value, another context or another key', () => {
+        const sealed = encryptSecret('access-sandbox-123', 'c1:plaid');
+        const [version, iv, tag, ciphertext] = sealed.split(':');
+        const flipped = Buffer.from(ciphertext!, 'base64');
+        flipped[0] = flipped[0]! ^ 1;
+
+        expect(() => decryptSecret([version, iv, tag, flipped.toString('base64')].join(':'), 'c1:plaid')).toThrow(/could not be decrypted/);
+        expect(() => decryptSecret(sealed, 'c2:plaid')).toThrow(/could not be decrypted/);
+
+        vi.stubEnv('CREDENTIAL_VAULT_KEY', randomBytes(32).toString('hex'));
+        expect(() => decryptSecret(sealed, 'c1:plaid')).toThrow(/could not be decrypted/);
+    });
+
+    it('refuses a truncated authentication tag', () => {
+        const sealed = encryptSecret('access-sandbox-123', 'c1:plaid');
+        const [version, iv, tag, ciphertext] = sealed.split(':');
+
+        for (const length of [4, 12, 15]) {
+            const truncated = Buffer.from(tag!, 'base64').subarray(0, length).toString('base64');
+            expect(() => decryptSecret([version, iv, truncated, ciphertext].join(':'), 'c1:plaid')).toThrow(/could not be decrypted/);
+        }
+    });
+
+    it('requires a 32-byte key', () => {
+        vi.stubEnv('CREDENTIAL_VAULT_KEY', 'too-short');
+        expect(() => encryptSecret('x', 'c1:plaid')).toThrow(/32 bytes/);
+
+        vi.stubEnv('CREDENTIAL_VAULT_KEY', '');
+        expect(isVaultConfigured()).toBe(false);
+        expect(() => encryptSecret('x', 'c1:plaid')).toThrow(/CREDENTIAL_VAULT_KEY required/);
+    });
+});
+
+describe('credential store', () => {
+    it('stores, replaces and returns a company credential', async () => {
+        const companyId = uid();
+        await saveCredential(companyId, 'stripe', { accountId: 'acct_123' });
+        await saveCredential(companyId, 'stripe', { secretKey: 'rk_test_abc' });
+
+        expect(await getCredential(companyId, 'stripe')).toEqual({ secretKey: 'rk_test_abc' });
+        expect(await getCredential(companyId, 'plaid')).toBeNull();
+        expect(await getCredential(uid(), 'stripe')).toBeNull();
+    });
+
+    it('lists providers without secrets and records use', async () => {
+        const companyId = uid();
+        await saveCredential(companyId, 'plaid', { accessToken: 'access-sandbox-123' });
+        await saveCredential(companyId, 'stripe', { accountId: 'acct_123' });
+        await getCredential(companyId, 'plaid');
+
+        const stored = await listCredentials(companyId);
+        expect(stored.map(c => c.provider)).toEqual(['plaid', 'stripe']);
+        expect(stored[0]!.lastUsedAt).toBeInstanceOf(Date);
+        expect(stored[1]!.lastUsedAt).toBeUndefined();
+        expect(JSON.stringify(stored)).not.toContain('access-sandbox-123');
+    });
+
+    it('deletes a credential', async () => {
+        const companyId = uid();
+        await saveCredential(companyId, 'plaid', { accessToken: 'access-sandbox-123' });
+
+        expect(await deleteCredential(companyId, 'plaid')).toBe(true);
+        expect(await deleteCredential(companyId, 'plaid')).toBe(false);
+        expect(await getCredential(companyId, 'plaid')).toBeNull();
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the PDF Credit Report
+ *
+ * Tests: renderCreditReport produces a multi-page PDF with or without contradictions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderCreditReport, type CreditReportInput } from '../../src/reports/credit-report.js';
+import type { BankabilityScore, RemediationRoadmap, RiskFactorMap } from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function createRiskFactors(): RiskFactorMap {
+    const factor = (name: string, score: number, weight: number) => ({
+        name,
+        score,
+        weight,
+        components: [
+            { name: `${name} Metric`, value: score, weight: 1, rawMetric: score, interpretation: `${name} is at ${score}` },
+        ],
+        explanation: `${name} explanation`,
+    });
+
+    return {
+        serviceability: factor('Serviceability', 78, 0.25),
+        concentration: factor('Concentration', 42, 0.20),
+        retention: factor('Retention', 65, 0.20),
+        compliance: factor('Compliance', 85, 0.15),
+        growth: factor('Growth', 70, 0.20),
+    };
+}
+
+function createInput(overrides: Partial<CreditReportInput> = {}): CreditReportInput {
+    const score: BankabilityScore = {
+        score: 68,
+        grade: 'C+',
+        riskFactors: createRiskFactors(),
+        penalties: [{ reason: 'High customer concentration', multiplier: 0.8, impactPoints: 4 }],
+        summary: 'Moderate bankability.',
+        explanation: {
+            strengths: ['Strong compliance'],
+            weaknesses: ['Customer concentration'],
+            criticalIssues: ['Critical concentration concern (42/100)'],
+            reasoningChain: 'Weighted factors, then penalties.',
+        },
+        calculatedAt: new Date('2026-01-15'),
+        policyId: 'default',
+    };
+
+    const roadmap: RemediationRoadmap = {
+        sessionId: 'session-1',
+        companyId: 'company-1',
+        generatedAt: new Date('2026-01-15'),
+        currentScore: 68,
+        projectedScore: 80,
+        scoreDrags: [],
+        tasks: Array.from({ length: 12 }, (_, i) => ({
+            id: `task-${i}`,
+            priority: 12 - i,
+            targetFactor: 'concentration' as const,
+            title: `Task ${i + 1}`,
+            description: 'Reduce reliance on the largest customers. '.repeat(5),
+            expectedScoreGain: 2,
+            difficulty: 'medium' as const,
+            estimatedDays: 30,
+            category: 'structural' as const,
+            actionItems: ['Identify new segments', 'Launch outreach'],
+        })),
+        timeline: {
+            quickWins: { tasks: 2, days: 14, scoreGain: 4 },
+            shortTerm: { tasks: 5, days: 60, scoreGain: 5 },
+            longTerm: { tasks: 5, days: 180, scoreGain: 3 },
+        },
+    };
+
+    return {
+        jobId: 'job-1',
+        companyId: 'company-1',
+        completedAt: new Date('2026-01-15'),
+        score,
+        roadmap,
+        ...overrides,
+    };
+}
+
+function countPages(pdf: Buffer): number {
+    return pdf.toString('latin1').match(/\/Type \/Page\b/g)?.length ?? 0;
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+describe('renderCreditReport', () => {
+    it('renders a PDF with one page per section and overflow for long roadmaps', async () => {
+        const pdf = await renderCreditReport(createInput({ contradictions: [] }));
+
+        expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+        expect(countPages(pdf)).toBeGreaterThan(5);
+    });
+
+    it('renders contradictions with and without resolutions', async () => {
+        const pdf = await renderCreditReport(createInput({
+            failedAgents: ['market'],
+            contradictions: [
+                {
+                    id: 'c1',
+                    detectedAt: new Date(),
+                    description: 'Revenue differs between P&L and Stripe',
+                    sources: [
+                        { source: 'document', documentId: 'pl-1', field: 'revenue', value: 1_200_000, trustScore: 0.7 },
+                        { source: 'stripe', field: 'revenue', value: 950_000, trustScore: 1.0 },
+                    ],
+                    resolution: {
+                        resolvedAt: new Date(),
+                        method: 'trust_ranking',
+                        acceptedValue: 950_000,
+                        reasoning: 'Stripe is the higher-trust source.',
+                    },
+                },
+                {
+                    id: 'c2',
+                    detectedAt: new Date(),
+                    description: 'Cash balance mismatch',
+                    sources: [{ source: 'plaid', field: 'cash', value: { amount: 10 }, trustScore: 1.0 }],
+                },
+            ],
+        }));
+
+        expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+        expect(countPages(pdf)).toBeGreaterThanOrEqual(5);
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for Currency
+ *
+ * Tests: dated FX rate lookup, conversion, unsupported currencies, formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convertAmount,
+    findFxRate,
+    formatMoney,
+    getReportingCurrency,
+    isSupportedCurrency,
+    listFxRateTables,
+} from '../../src/core/currency.js';
+import { FxRateTableSchema } from '../../src/validation/schemas.js';
+import type { GlobalContext } from '../../src/types/index.js';
+
+// ============================================
+// RATE TABLE
+// ============================================
+
+describe('FX rate tables', () => {
+    it('lists valid tables oldest first', () => {
+        const tables = listFxRateTables();
+
+        expect(tables.length).toBeGreaterThan(0);
+        expect(tables.map(t => t.date)).toEqual([...tables.map(t => t.date)].sort());
+        for (const table of tables) {
+            expect(FxRateTableSchema.safeParse(table).success).toBe(true);
+        }
+    });
+
+    it('knows which currencies it can convert', () => {
+        expect(isSupportedCurrency('DKK')).toBe(true);
+        expect(isSupportedCurrency('EUR')).toBe(true);
+        expect(isSupportedCurrency('XYZ')).toBe(false);
+    });
+});
+
+// ============================================
+// CONVERSION
+// ============================================
+
+describe('findFxRate', () => {
+    it('is 1 within a currency', () => {
+        expect(findFxRate('DKK', 'DKK')).toBe(1);
+        expect(findFxRate('XYZ', 'XYZ')).toBe(1);
+    });
+
+    it('uses the latest table dated on or before the date', () => {
+        expect(findFxRate('EUR', 'DKK', new Date('2024-06-30'))).toBe(7.4529);
+        expect(findFxRate('EUR', 'DKK', new Date('2024-12-31'))).toBe(7.4578);
+        expect(findFxRate('EUR', 'DKK', new Date('2030-01-01'))).toBe(7.4578);
+    });
+
+    it('falls back to the earliest table for older dates', () => {
+        expect(findFxRate('EUR', 'DKK', new Date('2015-01-01'))).toBe(7.4365);
+    });
+
+    it('crosses through the table base', () => {
+        expect(findFxRate('USD', 'DKK', new Date('2024-12-31'))).toBeCloseTo(7.4578 / 1.0389);
+        expect(findFxRate('DKK', 'USD', new Date('2024-12-31'))).toBeCloseTo(1.0389 / 7.4578);
+    });
+
+    it('is undefined for unknown currencies', () => {
+        expect(findFxRate('XYZ', 'DKK')).toBeUndefined();
+    });
+});
+
+describe('convertAmount', () => {
+    it('converts at the dated rate', () => {
+        expect(convertAmount(1000, 'EUR', 'DKK', new Date('2023-12-31'))).toBeCloseTo(7452.9);
+    });
+
+    it('throws when no rate exists', () => {
+        expect(() => convertAmount(1000, 'XYZ', 'DKK')).toThrow('No FX rate from XYZ to DKK');
+    });
+});
+
+// ============================================
+// REPORTING CURRENCY AND FORMATTING
+// ============================================
+
+describe('getReportingCurrency', () => {
+    it('prefers the session currency over the configured default', () => {
+        const context = { reportingCurrency: 'EUR' } as GlobalContext;
+
+        expect(getReportingCurrency(context)).toBe('EUR');
+        expect(getReportingCurrency({} as GlobalContext)).toBe('DKK');
+    });
+});
+
+describe('formatMoney', () => {
+    it('prefixes whole amounts with the currency code', () => {
+        expect(formatMoney(1_200_000.4, 'DKK')).toBe('DKK 1,200,000');
+        expect(formatMoney(-5000, 'USD')).toBe('USD -5,000');
+    });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { extractNumericValue, extractLatestNumericValue } from '../../src/utils/document-extraction.js';
+import { extractNumericValue, extractNumericField, extractLatestNumericValue } from '../../src/utils/document-extraction.js';
 
 describe('extractNumericValue', () => {
     it('extracts a top-level key', () => {
@@ -27,6 +27,19 @@ describe('extractNumericValue', () => {
     });
 });
 
+describe('extractNumericField', () => {
+    it('reports the dotted path of the matched key', () => {
+        expect(extractNumericField({ income: { netIncome: 50000 } }, 'profit', 'netIncome')).toEqual({
+            value: 50000,
+            path: 'income.netIncome',
+        });
+    });
+
+    it('returns undefined when no key matches', () => {
+        expect(extractNumericField({ revenue: 'n/a' }, 'revenue')).toBeUndefined();
+    });
+});
+
 describe('extractLatestNumericValue', () => {
     it('extracts from the most recent year in a year-keyed object', () => {
         const data = {
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the Document Merger
+ *
+ * Tests: content hashing and the duplicate index, merging statements across
+ * periods, conflicting figures, currency conversion, pass-through documents
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashContent, indexContentHashes, mergeStatements } from '../../src/ingestion/document-merger.js';
+import type { ParsedDocument } from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function doc(id: string, type: ParsedDocument['type'], data: Record<string, unknown>, overrides: Partial<ParsedDocument> = {}): ParsedDocument {
+    return {
+        id,
+        type,
+        filename: `${id}.pdf`,
+        parsedAt: new Date(),
+        confidence: 0.9,
+        data,
+        rawText: `${id} text`,
+        trustScore: 0.7,
+        contentHash: `hash-${id}`,
+        ...overrides,
+    };
+}
+
+// ============================================
+// DEDUPLICATION
+// ============================================
+
+describe('hashContent', () => {
+    it('hashes identical bytes identically', () => {
+        expect(hashContent(Buffer.from('%PDF-1.3 a'))).toBe(hashContent(Buffer.from('%PDF-1.3 a')));
+        expect(hashContent(Buffer.from('%PDF-1.3 a'))).not.toBe(hashContent(Buffer.from('%PDF-1.3 b')));
+    });
+});
+
+describe('indexContentHashes', () => {
+    it('indexes merged sources under the merged document', () => {
+        const { documents } = mergeStatements([
+            doc('pl-2023', 'profit_and_loss', { '2023': { revenue: 100 } }),
+            doc('pl-2024', 'profit_and_loss', { '2024': { revenue: 120 } }),
+        ]);
+        const index = indexContentHashes(documents);
+
+        expect(index.get('hash-pl-2023')).toBe(documents[0]);
+        expect(index.get('hash-pl-2024')).toBe(documents[0]);
+    });
+});
+
+// ============================================
+// MERGING
+// ============================================
+
+describe('mergeStatements', () => {
+    it('combines statements of the same kind into one year-keyed document', () => {
+        const { documents, contradictions } = mergeStatements([
+            doc('contract-1', 'contract', { counterparty: 'Acme' }),
+            doc('pl-2022', 'profit_and_loss', { '2022': { currency: 'DKK', revenue: 800 }, '2023': { currency: 'DKK', revenue: 900 } }, { currency: 'DKK' }),
+            doc('pl-2024', 'profit_and_loss', { '2024': { currency: 'DKK', revenue: 1000 }, '2023': { currency: 'DKK', revenue: 902, netIncome: 40 } }, { currency: 'DKK' }),
+        ]);
+
+        expect(documents.map(d => d.type)).toEqual(['contract', 'profit_and_loss']);
+        const merged = documents[1]!;
+        expect(merged.data).toEqual({
+            '2024': { currency: 'DKK', revenue: 1000 },
+            '2023': { currency: 'DKK', revenue: 900, netIncome: 40 },
+            '2022': { currency: 'DKK', revenue: 800 },
+        });
+        expect(merged.filename).toBe('pl-2022.pdf, pl-2024.pdf');
+        expect(merged.currency).toBe('DKK');
+        expect(merged.mergedFrom).toEqual([
+            { id: 'pl-2022', filename: 'pl-2022.pdf', contentHash: 'hash-pl-2022' },
+            { id: 'pl-2024', filename: 'pl-2024.pdf', contentHash: 'hash-pl-2024' },
+        ]);
+        // 900 vs 902 is within rounding
+        expect(contradictions).toEqual([]);
+    });
+
+    it('keeps the higher-trust figure and reports the conflict', () => {
+        const { documents, contradictions } = mergeStatements([
+            doc('bs-pdf', 'balance_sheet', { '2024': { currency: 'DKK', equity: 1_100_000 } }),
+            doc('bs-xlsx', 'balance_sheet', { '2024': { currency: 'DKK', equity: 1_250_000 } }, { trustScore: 0.85 }),
+        ]);
+
+        expect(documents[0]!.data).toEqual({ '2024': { currency: 'DKK', equity: 1_250_000 } });
+        expect(contradictions).toHaveLength(1);
+        expect(contradictions[0]!.description).toBe(
+            'Conflicting balance_sheet figures for 2024 equity: bs-xlsx.pdf shows DKK 1,250,000 vs bs-pdf.pdf shows DKK 1,100,000.'
+        );
+        expect(contradictions[0]!.sources).toMatchObject([
+            { source: 'document', documentId: 'bs-xlsx', field: 'balance_sheet.2024.equity', value: 1_250_000, currency: 'DKK' },
+            { source: 'document', documentId: 'bs-pdf', field: 'balance_sheet.2024.equity', value: 1_100_000, currency: 'DKK' },
+        ]);
+        expect(contradictions[0]!.resolution).toMatchObject({ method: 'trust_ranking', acceptedValue: 1_250_000 });
+    });
+
+    it('keeps the earlier figure when trust is equal', () => {
+        const { documents, contradictions } = mergeStatements([
+            doc('first', 'profit_and_loss', { '2024': { netIncome: 50 } }),
+            doc('second', 'profit_and_loss', { '2024': { netIncome: 70 } }),
+        ]);
+
+        expect(documents[0]!.data).toEqual({ '2024': { netIncome: 50 } });
+        expect(contradictions[0]!.resolution?.reasoning).toContain('earlier upload');
+    });
+
+    it('converts figures stated in another currency before comparing', () => {
+        const { documents, contradictions } = mergeStatements([
+            doc('dkk', 'profit_and_loss', { '2024': { currency: 'DKK', revenue: 7_457_800 } }),
+            doc('eur', 'profit_and_loss', { '2024': { currency: 'EUR', revenue: 1_000_000, netIncome: 100_000 } }),
+        ]);
+
+        expect(contradictions).toEqual([]);
+        expect(documents[0]!.data).toEqual({ '2024': { currency: 'DKK', revenue: 7_457_800, netIncome: 745_780 } });
+    });
+
+    it('passes single statements and unnormalized data through unchanged', () => {
+        const single = doc('pl', 'profit_and_loss', { '2024': { revenue: 1 } });
+        const raw = doc('bs-raw', 'balance_sheet', { raw: 'unreadable' });
+        const bs = doc('bs', 'balance_sheet', { '2024': { equity: 5 } });
+
+        const { documents } = mergeStatements([single, raw, bs]);
+
+        expect(documents).toEqual([single, raw, bs]);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the Financial Ratio engine
+ *
+ * Tests: per-period ratios, source fields, missing inputs, revenue growth and CAGR, flat documents,
+ * cash flow statement ratios
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeFinancialRatios } from '../../src/synthesis/financial-ratios.js';
+import type { DocumentType, ParsedDocument } from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function doc(type: DocumentType, data: Record<string, unknown>): ParsedDocument {
+    return {
+        id: `${type}-1`,
+        type,
+        filename: `${type}.json`,
+        parsedAt: new Date(),
+        confidence: 1.0,
+        data,
+        rawText: '',
+        trustScore: 0.9,
+    };
+}
+
+const profitAndLoss = doc('profit_and_loss', {
+    '2024': {
+        revenue: 1_200_000,
+        costOfGoodsSold: 840_000,
+        ebit: 90_000,
+        depreciationAndAmortization: 30_000,
+        interestExpense: 20_000,
+        principalRepayments: 40_000,
+        netIncome: 60_000,
+    },
+    '2023': { revenue: 1_000_000, grossProfit: 300_000, ebit: 50_000, interestExpense: 25_000, netIncome: 20_000 },
+    '2022': { revenue: 750_000, netIncome: -10_000 },
+});
+
+const balanceSheet = doc('balance_sheet', {
+    '2024': {
+        assets: 2_000_000,
+        liabilities: 1_200_000,
+        equity: 800_000,
+        currentAssets: 600_000,
+        currentLiabilities: 400_000,
+        inventory: 200_000,
+    },
+    '2023': { assets: 1_800_000, liabilities: 1_200_000, equity: 600_000 },
+});
+
+// ============================================
+// RATIOS
+// ============================================
+
+describe('computeFinancialRatios', () => {
+    const ratios = computeFinancialRatios([profitAndLoss, balanceSheet]);
+
+    it('returns one entry per reporting year, most recent first', () => {
+        expect(ratios.periods.map(p => p.period)).toEqual(['2024', '2023', '2022']);
+        expect(ratios.latest?.period).toBe('2024');
+    });
+
+    it('computes margins, coverage, liquidity and leverage for a period', () => {
+        const latest = ratios.latest!;
+
+        expect(latest.grossMargin?.value).toBeCloseTo(0.3);
+        expect(latest.netMargin?.value).toBeCloseTo(0.05);
+        expect(latest.ebitMargin?.value).toBeCloseTo(0.075);
+        expect(latest.dscr?.value).toBeCloseTo(2.0);
+        expect(latest.interestCoverage?.value).toBeCloseTo(4.5);
+        expect(latest.currentRatio?.value).toBeCloseTo(1.5);
+        expect(latest.quickRatio?.value).toBeCloseTo(1.0);
+        expect(latest.workingCapital?.value).toBe(200_000);
+        expect(latest.leverage?.value).toBeCloseTo(1.5);
+        expect(latest.equityRatio?.value).toBeCloseTo(0.4);
+        expect(latest.debtRatio?.value).toBeCloseTo(0.6);
+    });
+
+    it('cites the document fields each ratio was computed from', () => {
+        const latest = ratios.latest!;
+
+        expect(latest.netMargin?.sources).toEqual(['profit_and_loss.2024.netIncome', 'profit_and_loss.2024.revenue']);
+        expect(latest.grossMargin?.sources).toEqual([
+            'profit_and_loss.2024.revenue',
+            'profit_and_loss.2024.costOfGoodsSold',
+            'profit_and_loss.2024.revenue',
+        ]);
+        expect(latest.dscr?.sources).toEqual([
+            'profit_and_loss.2024.ebit',
+            'profit_and_loss.2024.depreciationAndAmortization',
+            'profit_and_loss.2024.interestExpense',
+            'profit_and_loss.2024.principalRepayments',
+        ]);
+        expect(latest.equityRatio?.sources).toEqual(['balance_sheet.2024.equity', 'balance_sheet.2024.assets']);
+    });
+
+    it('leaves ratios null when their inputs are missing', () => {
+        const [, previous, earliest] = ratios.periods;
+
+        expect(previous!.grossMargin?.value).toBeCloseTo(0.3);
+        expect(previous!.currentRatio).toBeNull();
+        expect(previous!.dscr?.value).toBeCloseTo(2.0);
+        expect(earliest!.ebitMargin).toBeNull();
+        expect(earliest!.equityRatio).toBeNull();
+        expect(earliest!.revenueGrowth).toBeNull();
+    });
+
+    it('computes year-over-year growth and revenue CAGR', () => {
+        expect(ratios.latest!.revenueGrowth?.value).toBeCloseTo(0.2);
+        expect(ratios.periods[1]!.revenueGrowth?.value).toBeCloseTo(1_000_000 / 750_000 - 1);
+        expect(ratios.revenueCagr?.value).toBeCloseTo(Math.sqrt(1.6) - 1);
+        expect(ratios.revenueCagr?.sources).toEqual(['profit_and_loss.2024.revenue', 'profit_and_loss.2022.revenue']);
+    });
+
+    it('treats flat documents as a single latest period and accepts field synonyms', () => {
+        const flat = computeFinancialRatios([
+            doc('profit_and_loss', { income: { totalRevenue: 500, net_income: 50 } }),
+            doc('balance_sheet', { totalAssets: 1000, total_equity: 250 }),
+        ]);
+
+        expect(flat.periods.map(p => p.period)).toEqual(['latest']);
+        expect(flat.latest!.netMargin?.value).toBeCloseTo(0.1);
+        expect(flat.latest!.netMargin?.sources).toEqual(['profit_and_loss.income.net_income', 'profit_and_loss.income.totalRevenue']);
+        expect(flat.latest!.equityRatio?.value).toBeCloseTo(0.25);
+        expect(flat.revenueCagr).toBeNull();
+    });
+
+    it('computes cash flow ratios from a cash flow statement', () => {
+        const cashFlow = doc('cash_flow_statement', {
+            '2024': { operatingCashFlow: 90_000, capitalExpenditure: 30_000 },
+            '2023': { operatingCashFlow: 10_000, freeCashFlow: -5_000 },
+        });
+        const withCashFlow = computeFinancialRatios([profitAndLoss, balanceSheet, cashFlow]);
+        const [latest, previous] = withCashFlow.periods;
+
+        expect(latest!.operatingCashFlowMargin?.value).toBeCloseTo(0.075);
+        // 90,000 / (20,000 interest + 40,000 principal)
+        expect(latest!.cashFlowCoverage?.value).toBeCloseTo(1.5);
+        expect(latest!.cashConversion?.value).toBeCloseTo(1.5);
+        expect(latest!.freeCashFlow).toEqual({
+            value: 60_000,
+            sources: ['cash_flow_statement.2024.operatingCashFlow', 'cash_flow_statement.2024.capitalExpenditure'],
+        });
+        expect(previous!.freeCashFlow?.value).toBe(-5_000);
+        expect(ratios.latest!.cashFlowCoverage).toBeNull();
+    });
+
+    it('returns no periods without financial statements', () => {
+        const none = computeFinancialRatios([doc('contract', { counterparty: 'Acme' })]);
+
+        expect(none.periods).toEqual([]);
+        expect(none.latest).toBeNull();
+        expect(none.revenueCagr).toBeNull();
+    });
+});
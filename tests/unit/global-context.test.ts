@@ -0,0 +1,77 @@
+/**
+ * Unit tests for session persistence in the global context service
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createGlobalContext } from '../../src/core/global-context.js';
+import type { ParsedDocument, StripeSnapshot } from '../../src/types/index.js';
+
+function createDocument(): ParsedDocument {
+    return {
+        id: 'pl-1',
+        type: 'profit_and_loss',
+        filename: 'pl.pdf',
+        parsedAt: new Date('2025-01-15T10:00:00Z'),
+        confidence: 0.9,
+        data: { '2024': { revenue: 1000000, netIncome: 80000 } },
+        rawText: '',
+        trustScore: 0.7,
+    };
+}
+
+function createStripeSnapshot(): StripeSnapshot {
+    return {
+        fetchedAt: new Date('2025-01-15T11:00:00Z'),
+        mrr: 50000,
+        arrGrowthRate: 0.2,
+        customerCount: 40,
+        churnRate: 0.02,
+        topCustomers: [],
+        paymentHistory: { successRate: 0.99, averagePaymentDelay: 0, disputeRate: 0 },
+    };
+}
+
+describe('GlobalContextService sessions', () => {
+    it('loads a session created by a different service instance', async () => {
+        const creator = createGlobalContext();
+        const session = await creator.createSession('company-abc');
+        await creator.addDocument(createDocument());
+        await creator.setStripeSnapshot(createStripeSnapshot());
+
+        const loader = createGlobalContext();
+        const loaded = await loader.loadSession(session.sessionId);
+
+        expect(loaded).not.toBeNull();
+        expect(loaded!.companyId).toBe('company-abc');
+        expect(loaded!.documents).toHaveLength(1);
+        expect(loaded!.apiSnapshots.stripe?.mrr).toBe(50000);
+    });
+
+    it('revives dates flattened by serialization', async () => {
+        const creator = createGlobalContext();
+        const session = await creator.createSession('company-abc');
+        await creator.addDocument(createDocument());
+        await creator.setStripeSnapshot(createStripeSnapshot());
+
+        const loaded = await createGlobalContext().loadSession(session.sessionId);
+
+        expect(loaded!.documents[0]!.parsedAt).toBeInstanceOf(Date);
+        expect(loaded!.apiSnapshots.stripe!.fetchedAt).toBeInstanceOf(Date);
+        expect(loaded!.apiSnapshots.stripe!.fetchedAt.toISOString()).toBe('2025-01-15T11:00:00.000Z');
+    });
+
+    it('returns null for an unknown session', async () => {
+        expect(await createGlobalContext().loadSession('does-not-exist')).toBeNull();
+    });
+
+    it('appends to a loaded session and persists the change', async () => {
+        const session = await createGlobalContext().createSession('company-abc');
+
+        const service = createGlobalContext();
+        await service.loadSession(session.sessionId);
+        await service.addDocument(createDocument());
+
+        const reloaded = await createGlobalContext().loadSession(session.sessionId);
+        expect(reloaded!.documents).toHaveLength(1);
+    });
+});
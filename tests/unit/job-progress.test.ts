@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the job progress hub's relay between processes
+ *
+ * Each "process" is its own module instance (vi.resetModules), so the only
+ * path between publisher and subscriber is the relay. PostgreSQL is replaced
+ * by an in-memory LISTEN/NOTIFY channel shared by every instance.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { JobProgressEvent } from '../../src/core/job-progress.js';
+
+type JobProgressModule = typeof import('../../src/core/job-progress.js');
+
+const notifications = vi.hoisted(() => ({
+    listeners: [] as Array<(channel: string, payload: string) => void>,
+}));
+
+vi.mock('pg', () => {
+    class Client {
+        private handlers: Record<string, Array<(arg: unknown) => void>> = {};
+        on(event: string, handler: (arg: unknown) => void) {
+            (this.handlers[event] ??= []).push(handler);
+            return this;
+        }
+        async connect() {}
+        async query(sql: string) {
+            const channel = /^LISTEN (\w+)$/.exec(sql)?.[1];
+            if (channel) {
+                notifications.listeners.push((notified, payload) => {
+                    if (notified !== channel) return;
+                    for (const handler of this.handlers.notification ?? []) handler({ channel: notified, payload });
+                });
+            }
+            return { rows: [] };
+        }
+        async end() {}
+    }
+
+    class Pool {
+        on() {
+            return this;
+        }
+        async query(sql: string, params: string[]) {
+            if (sql.includes('pg_notify')) {
+                for (const listener of notifications.listeners) listener(params[0]!, params[1]!);
+            }
+            return { rows: [] };
+        }
+    }
+
+    return { default: { Client, Pool } };
+});
+
+/** A fresh module instance, as if loaded by a separate process */
+async function loadProcess(): Promise<JobProgressModule> {
+    vi.resetModules();
+    return import('../../src/core/job-progress.js');
+}
+
+async function settle() {
+    await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+afterEach(() => {
+    notifications.listeners.length = 0;
+    vi.unstubAllEnvs();
+});
+
+describe('job progress across processes', () => {
+    it('relays a worker\'s events to the API process over the postgres queue', async () => {
+        vi.stubEnv('REDIS_URL', '');
+        vi.stubEnv('DATABASE_URL', 'postgres://localhost/bankable');
+        vi.stubEnv('JOB_QUEUE_BACKEND', 'postgres');
+
+        const api = await loadProcess();
+        const worker = await loadProcess();
+
+        const received: JobProgressEvent[] = [];
+        api.subscribeJobProgress('job-1', event => received.push(event));
+        await settle();
+
+        worker.publishJobProgress('job-1', { type: 'status', status: 'analyzing', attempts: 1 });
+        worker.publishJobProgress('job-2', { type: 'error', errorMessage: 'other job' });
+        worker.publishJobProgress('job-1', { type: 'complete', score: { score: 71, grade: 'B' } });
+        await settle();
+
+        expect(received).toEqual([
+            { type: 'status', status: 'analyzing', attempts: 1 },
+            { type: 'complete', score: { score: 71, grade: 'B' } },
+        ]);
+    });
+
+    it('delivers in-process only with the memory queue', async () => {
+        vi.stubEnv('REDIS_URL', '');
+        vi.stubEnv('DATABASE_URL', '');
+        vi.stubEnv('JOB_QUEUE_BACKEND', 'memory');
+
+        const api = await loadProcess();
+        const worker = await loadProcess();
+
+        const inApi: JobProgressEvent[] = [];
+        const inWorker: JobProgressEvent[] = [];
+        api.subscribeJobProgress('job-1', event => inApi.push(event));
+        worker.subscribeJobProgress('job-1', event => inWorker.push(event));
+
+        worker.publishJobProgress('job-1', { type: 'error', errorMessage: 'failed' });
+        await settle();
+
+        expect(inApi).toEqual([]);
+        expect(inWorker).toEqual([{ type: 'error', errorMessage: 'failed' }]);
+    });
+});
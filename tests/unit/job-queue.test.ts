@@ -0,0 +1,293 @@
+/**
+ * Unit tests for the in-memory job queue and the analysis worker
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryJobQueue } from '../../src/core/job-queue.js';
+import { AnalysisWorker } from '../../src/core/analysis-worker.js';
+import type { AnalysisRunResult } from '../../src/core/job-queue.js';
+import { subscribeJobProgress, type JobProgressEvent } from '../../src/core/job-progress.js';
+import { fetchInsights } from '../../src/core/analysis-artifacts.js';
+import type { AgentInsight } from '../../src/types/index.js';
+
+function uid() {
+    return `test-${Math.random().toString(36).slice(2)}`;
+}
+
+const fakeResult = {
+    score: { score: 72 },
+    roadmap: { tasks: [] },
+    insights: [],
+    contradictions: [],
+    auditEntries: [],
+    messages: [],
+    failedAgents: [],
+} as unknown as AnalysisRunResult;
+
+const queue = new InMemoryJobQueue();
+
+// The in-memory store is module-level, so clear out anything claimable between tests
+beforeEach(async () => {
+    let job = await queue.claim(60_000);
+    while (job) {
+        await queue.fail(job.id, job.attempts, 'cleanup', false);
+        job = await queue.claim(60_000);
+    }
+});
+
+describe('InMemoryJobQueue', () => {
+    it('enqueues a job in the queued state with its session', async () => {
+        const id = uid();
+        const job = await queue.enqueue(id, { companyId: 'company-abc', sessionId: 'session-1' });
+
+        expect(job.status).toBe('queued');
+        expect(job.sessionId).toBe('session-1');
+        expect(job.attempts).toBe(0);
+    });
+
+    it('claims jobs in FIFO order and leases them', async () => {
+        const first = uid();
+        const second = uid();
+        await queue.enqueue(first, { companyId: 'a' });
+        await queue.enqueue(second, { companyId: 'b' });
+
+        const claimed = await queue.claim(60_000);
+        expect(claimed?.id).toBe(first);
+        expect(claimed?.status).toBe('analyzing');
+        expect(claimed?.attempts).toBe(1);
+
+        expect((await queue.claim(60_000))?.id).toBe(second);
+        expect(await queue.claim(60_000)).toBeNull();
+    });
+
+    it('makes a job claimable again once its lease expires', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+
+        await queue.claim(0);
+        const reclaimed = await queue.claim(60_000);
+
+        expect(reclaimed?.id).toBe(id);
+        expect(reclaimed?.attempts).toBe(2);
+    });
+
+    it('requeues a failed job when retry is requested', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+        await queue.claim(60_000);
+
+        await queue.fail(id, 1, 'LLM timeout', true);
+
+        const job = await queue.getJob(id);
+        expect(job?.status).toBe('queued');
+        expect(job?.errorMessage).toBe('LLM timeout');
+    });
+
+    it('stores the result on completion', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+        await queue.claim(60_000);
+
+        expect(await queue.complete(id, 1, fakeResult)).toBe(true);
+
+        const job = await queue.getJob(id);
+        expect(job?.status).toBe('complete');
+        expect(job?.status === 'complete' && job.score).toBe(fakeResult.score);
+    });
+
+    it('ignores writes from an attempt whose lease was taken over', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+        await queue.claim(0);
+        await queue.claim(60_000);
+
+        expect(await queue.extendLease(id, 1, 60_000)).toBe(false);
+        expect(await queue.complete(id, 1, fakeResult)).toBe(false);
+        expect(await queue.fail(id, 1, 'stale worker', false)).toBe(false);
+        expect(await queue.getJob(id)).toMatchObject({ status: 'analyzing', attempts: 2 });
+
+        expect(await queue.extendLease(id, 2, 60_000)).toBe(true);
+        expect(await queue.complete(id, 2, fakeResult)).toBe(true);
+    });
+
+    it('ignores writes once the job has finished', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+        await queue.claim(60_000);
+        await queue.complete(id, 1, fakeResult);
+
+        expect(await queue.extendLease(id, 1, 60_000)).toBe(false);
+        expect(await queue.fail(id, 1, 'late failure', true)).toBe(false);
+
+        const job = await queue.getJob(id);
+        expect(job?.status).toBe('complete');
+        expect(job?.errorMessage).toBeUndefined();
+    });
+});
+
+describe('AnalysisWorker', () => {
+    const options = { pollIntervalMs: 10, visibilityTimeoutMs: 60_000, maxAttempts: 3 };
+
+    it('runs a queued job to completion', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'company-abc', sessionId: 'session-1' });
+
+        const seen: unknown[] = [];
+        const worker = new AnalysisWorker(queue, async (payload) => {
+            seen.push(payload);
+            return fakeResult;
+        }, { ...options, concurrency: 1 });
+
+        await worker.poll();
+        await worker.idle();
+
+        expect(seen).toEqual([{ companyId: 'company-abc', sessionId: 'session-1' }]);
+        expect((await queue.getJob(id))?.status).toBe('complete');
+    });
+
+    it('retries a failing job until maxAttempts, then marks it as error', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+
+        let calls = 0;
+        const worker = new AnalysisWorker(queue, async () => {
+            calls++;
+            throw new Error('boom');
+        }, { ...options, concurrency: 1 });
+
+        for (let i = 0; i < 5; i++) {
+            await worker.poll();
+            await worker.idle();
+        }
+
+        const job = await queue.getJob(id);
+        expect(calls).toBe(3);
+        expect(job?.status).toBe('error');
+        expect(job?.errorMessage).toBe('boom');
+    });
+
+    it('succeeds on a retry after a transient failure', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+
+        let calls = 0;
+        const worker = new AnalysisWorker(queue, async () => {
+            calls++;
+            if (calls === 1) throw new Error('transient');
+            return fakeResult;
+        }, { ...options, concurrency: 1 });
+
+        await worker.poll();
+        await worker.idle();
+        await worker.poll();
+        await worker.idle();
+
+        const job = await queue.getJob(id);
+        expect(job?.status).toBe('complete');
+        expect(job?.attempts).toBe(2);
+    });
+
+    it('never runs more jobs at once than its concurrency limit', async () => {
+        for (let i = 0; i < 5; i++) {
+            await queue.enqueue(uid(), { companyId: `company-${i}` });
+        }
+
+        let running = 0;
+        let peak = 0;
+        const worker = new AnalysisWorker(queue, async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            return fakeResult;
+        }, { ...options, concurrency: 2 });
+
+        const started = await worker.poll();
+        expect(started).toBe(2);
+
+        await worker.idle();
+        while (await worker.poll() > 0) {
+            await worker.idle();
+        }
+
+        expect(peak).toBe(2);
+    });
+
+    it('gives up on a reclaimed job that already used all its attempts', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+
+        // Simulate three workers dying mid-analysis
+        await queue.claim(0);
+        await queue.claim(0);
+        await queue.claim(0);
+
+        let calls = 0;
+        const worker = new AnalysisWorker(queue, async () => {
+            calls++;
+            return fakeResult;
+        }, { ...options, concurrency: 1 });
+
+        await worker.poll();
+        await worker.idle();
+
+        expect(calls).toBe(0);
+        expect((await queue.getJob(id))?.status).toBe('error');
+    });
+
+    it('publishes status, runner progress and the outcome for a job', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+
+        const events: JobProgressEvent[] = [];
+        const unsubscribe = subscribeJobProgress(id, event => events.push(event));
+
+        const worker = new AnalysisWorker(queue, async (_payload, onProgress) => {
+            onProgress?.({ type: 'agent_status', agentId: 'counter', status: 'running' });
+            return fakeResult;
+        }, { ...options, concurrency: 1 });
+
+        await worker.poll();
+        await worker.idle();
+        unsubscribe();
+
+        expect(events.map(e => e.type)).toEqual(['status', 'agent_status', 'complete']);
+        expect(events[2]).toEqual({ type: 'complete', score: { score: 72, grade: undefined } });
+    });
+
+    it('keeps insights, audit entries and messages off the completed job', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+        const insight = { id: 'insight-1', agentId: 'counter', timestamp: new Date(), title: 'Finding' } as AgentInsight;
+
+        const worker = new AnalysisWorker(queue, async () => ({ ...fakeResult, insights: [insight] }), { ...options, concurrency: 1 });
+        await worker.poll();
+        await worker.idle();
+
+        const job = await queue.getJob(id);
+        expect(job?.status).toBe('complete');
+        expect(await fetchInsights(id)).toEqual([insight]);
+        expect(job).not.toHaveProperty('insights');
+        expect(job).not.toHaveProperty('auditEntries');
+        expect(job).not.toHaveProperty('messages');
+        expect(job).not.toHaveProperty('contradictions');
+    });
+
+    it('publishes a retrying event when a failed job will be retried', async () => {
+        const id = uid();
+        await queue.enqueue(id, { companyId: 'a' });
+
+        const events: JobProgressEvent[] = [];
+        const unsubscribe = subscribeJobProgress(id, event => events.push(event));
+
+        const worker = new AnalysisWorker(queue, async () => {
+            throw new Error('boom');
+        }, { ...options, concurrency: 1 });
+
+        await worker.poll();
+        await worker.idle();
+        unsubscribe();
+
+        expect(events).toContainEqual({ type: 'retrying', attempts: 1, errorMessage: 'boom' });
+    });
+});
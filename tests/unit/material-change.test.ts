@@ -0,0 +1,110 @@
+/**
+ * Unit tests for material change detection
+ *
+ * Tests: fingerprinting documents and snapshots, per-metric thresholds,
+ * sources added or removed, currency changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeMaterialChanges, fingerprintData, type DataFingerprint } from '../../src/synthesis/material-change.js';
+import type { ParsedDocument, PlaidSnapshot, StripeSnapshot } from '../../src/types/index.js';
+
+function doc(type: ParsedDocument['type'], data: Record<string, unknown>): ParsedDocument {
+    return { id: `${type}-1`, type, filename: `${type}.json`, parsedAt: new Date(), confidence: 1, data, rawText: '', trustScore: 0.9 };
+}
+
+const stripe = {
+    currency: 'DKK',
+    mrr: 100_000,
+    customerCount: 40,
+    churnRate: 0.02,
+    topCustomers: [{ customerId: 'cus_1', monthlyRevenue: 20_000, percentOfTotal: 0.2 }],
+} as StripeSnapshot;
+
+const plaid = {
+    currency: 'DKK',
+    accounts: [
+        { accountId: 'a', type: 'checking', currency: 'DKK', currentBalance: 500_000, availableBalance: 500_000 },
+        { accountId: 'b', type: 'credit', currency: 'DKK', currentBalance: -50_000, availableBalance: 0 },
+    ],
+    cashFlow: { averageMonthlyInflow: 300_000, averageMonthlyOutflow: 250_000, burnRate: 0, runwayMonths: 24 },
+} as PlaidSnapshot;
+
+const baseline: DataFingerprint = fingerprintData({
+    documents: [doc('profit_and_loss', { '2023': { revenue: 1_000_000 } })],
+    apiSnapshots: { stripe, plaid },
+});
+
+function withChanges(changes: { stripe?: Partial<StripeSnapshot>; plaid?: Partial<PlaidSnapshot> }): DataFingerprint {
+    return fingerprintData({
+        documents: [doc('profit_and_loss', { '2023': { revenue: 1_000_000 } })],
+        apiSnapshots: { stripe: { ...stripe, ...changes.stripe }, plaid: { ...plaid, ...changes.plaid } },
+    });
+}
+
+describe('fingerprintData', () => {
+    it('keeps the headline metrics and ignores credit account balances', () => {
+        expect(baseline.stripe).toEqual({ currency: 'DKK', mrr: 100_000, customerCount: 40, churnRate: 0.02, topCustomerShare: 0.2 });
+        expect(baseline.plaid).toMatchObject({ balance: 500_000, averageMonthlyInflow: 300_000 });
+    });
+
+    it('hashes documents by content, not by id, filename or order', () => {
+        const a = doc('profit_and_loss', { '2023': { revenue: 1 } });
+        const b = doc('balance_sheet', { '2023': { totalAssets: 2 } });
+
+        const first = fingerprintData({ documents: [a, b], apiSnapshots: {} });
+        const reordered = fingerprintData({ documents: [b, { ...a, id: 'other', filename: 'pl.xlsx' }], apiSnapshots: {} });
+        const edited = fingerprintData({ documents: [a, doc('balance_sheet', { '2023': { totalAssets: 3 } })], apiSnapshots: {} });
+
+        expect(reordered.documents).toBe(first.documents);
+        expect(edited.documents).not.toBe(first.documents);
+    });
+});
+
+describe('describeMaterialChanges', () => {
+    it('finds nothing when metrics move within the thresholds', () => {
+        const drifted = withChanges({
+            stripe: { mrr: 105_000, churnRate: 0.03 },
+            plaid: { cashFlow: { ...plaid.cashFlow, averageMonthlyOutflow: 260_000 } },
+        });
+
+        expect(describeMaterialChanges(baseline, drifted)).toEqual([]);
+    });
+
+    it('reports every metric past its threshold', () => {
+        const changed = withChanges({
+            stripe: { mrr: 85_000, churnRate: 0.05 },
+            plaid: { accounts: [{ ...plaid.accounts[0]!, currentBalance: 200_000 }] },
+        });
+
+        expect(describeMaterialChanges(baseline, changed)).toEqual([
+            'Stripe MRR changed 15.0%',
+            'Stripe churn rate changed 3.0 points',
+            'Plaid balance changed 60.0%',
+        ]);
+    });
+
+    it('reports document edits, sources added or lost and currency changes', () => {
+        const current = fingerprintData({
+            documents: [doc('profit_and_loss', { '2023': { revenue: 900_000 } })],
+            apiSnapshots: { stripe: { ...stripe, currency: 'EUR' } },
+        });
+
+        expect(describeMaterialChanges(baseline, current)).toEqual([
+            'Documents changed',
+            'Stripe currency changed from DKK to EUR',
+            'Plaid data no longer available',
+        ]);
+        expect(describeMaterialChanges({ documents: baseline.documents }, baseline)).toEqual([
+            'Stripe data added',
+            'Plaid data added',
+        ]);
+    });
+
+    it('honors custom thresholds', () => {
+        const changed = withChanges({ stripe: { mrr: 105_000 } });
+        const strict = { relativeChange: 0.01, churnRatePoints: 0.001, topCustomerSharePoints: 0.01 };
+
+        expect(describeMaterialChanges(baseline, changed, strict)).toEqual(['Stripe MRR changed 5.0%']);
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the monitoring store and scheduler (in-memory store and queue)
+ *
+ * Tests: claiming due companies, cadence, full runs versus runs that reuse the
+ * baseline's insights, failed refreshes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryJobQueue, type AnalysisJobResult } from '../../src/core/job-queue.js';
+import { MonitoringScheduler } from '../../src/core/monitoring-scheduler.js';
+import {
+    claimDueMonitors,
+    claimMonitor,
+    deleteMonitor,
+    getMonitor,
+    listMonitors,
+    recordMonitorRun,
+    saveMonitor,
+    type MonitoringSettings,
+} from '../../src/core/monitoring-store.js';
+import { saveCredential } from '../../src/core/credential-vault.js';
+import type { ParsedDocument } from '../../src/types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-30T12:00:00Z');
+
+const fakeResult = {
+    score: { score: 72 },
+    roadmap: { tasks: [] },
+    failedAgents: [],
+} as unknown as AnalysisJobResult;
+
+function uid() {
+    return `company-${Math.random().toString(36).slice(2)}`;
+}
+
+function document(revenue: number): ParsedDocument {
+    return {
+        id: 'pl-1',
+        type: 'profit_and_loss',
+        filename: 'pl.json',
+        parsedAt: new Date(),
+        confidence: 1,
+        data: { '2023': { revenue } },
+        rawText: '',
+        trustScore: 0.9,
+    };
+}
+
+function settings(companyId: string, overrides: Partial<MonitoringSettings> = {}): MonitoringSettings {
+    return {
+        companyId,
+        cadenceDays: 30,
+        reuseInsights: true,
+        enabled: true,
+        documents: [document(1_000_000)],
+        nextRunAt: NOW,
+        ...overrides,
+    };
+}
+
+const queue = new InMemoryJobQueue();
+const scheduler = new MonitoringScheduler(queue, { claimTimeoutMs: 60 * 60 * 1000 });
+
+/** Let a worker finish the job as if the analysis ran */
+async function completeJob(jobId: string) {
+    let job = await queue.claim(60_000);
+    while (job && job.id !== jobId) {
+        await queue.fail(job.id, job.attempts, 'not under test', false);
+        job = await queue.claim(60_000);
+    }
+    await queue.complete(jobId, job!.attempts, fakeResult);
+}
+
+beforeEach(async () => {
+    vi.stubEnv('DATABASE_URL', '');
+    vi.stubEnv('CREDENTIAL_VAULT_KEY', '');
+    for (const monitor of await listMonitors()) {
+        await deleteMonitor(monitor.companyId);
+    }
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('monitoring store', () => {
+    it('claims enabled companies that are due and holds them from other schedulers', async () => {
+        const due = uid();
+        await saveMonitor(settings(due));
+        await saveMonitor(settings(uid(), { nextRunAt: new Date(NOW.getTime() + DAY_MS) }));
+        await saveMonitor(settings(uid(), { enabled: false }));
+
+        expect((await claimDueMonitors(NOW, 60_000)).map(m => m.companyId)).toEqual([due]);
+        expect(await claimDueMonitors(NOW, 60_000)).toEqual([]);
+        expect((await claimDueMonitors(new Date(NOW.getTime() + 60_000), 60_000)).map(m => m.companyId)).toEqual([due]);
+    });
+
+    it('claims a single company whether or not it is due, once at a time', async () => {
+        const companyId = uid();
+        await saveMonitor(settings(companyId, { nextRunAt: new Date(NOW.getTime() + DAY_MS) }));
+
+        expect(await claimMonitor(companyId, NOW, 60_000)).toMatchObject({ companyId, claimedUntil: new Date(NOW.getTime() + 60_000) });
+        expect(await claimMonitor(companyId, NOW, 60_000)).toBeNull();
+        expect(await claimMonitor(uid(), NOW, 60_000)).toBeNull();
+
+        // Re-registering doesn't release the claim to the scheduler
+        await saveMonitor(settings(companyId));
+        expect(await claimDueMonitors(NOW, 60_000)).toEqual([]);
+
+        await recordMonitorRun(companyId, { lastError: 'refresh failed' });
+        expect(await claimMonitor(companyId, NOW, 60_000)).not.toBeNull();
+    });
+
+    it('keeps the run history when settings are replaced', async () => {
+        const companyId = uid();
+        await saveMonitor(settings(companyId));
+        await scheduler.tick(NOW);
+        await saveMonitor(settings(companyId, { cadenceDays: 7 }));
+
+        const monitor = await getMonitor(companyId);
+        expect(monitor).toMatchObject({ cadenceDays: 7, lastRunAt: NOW });
+        expect(monitor!.baseline?.jobId).toBe(monitor!.lastJobId);
+    });
+});
+
+describe('MonitoringScheduler', () => {
+    it('runs a new company in full and schedules the next run a cadence later', async () => {
+        const companyId = uid();
+        await saveMonitor(settings(companyId, { policyId: 'regulated-bank' }));
+
+        const [run] = await scheduler.tick(NOW);
+        expect(run).toMatchObject({ companyId, reusedInsightsFrom: undefined, changes: ['No earlier analysis to compare with'] });
+
+        const job = await queue.getJob(run!.jobId!);
+        expect(job).toMatchObject({ companyId, status: 'queued', policyId: 'regulated-bank', sessionId: run!.sessionId });
+        expect(job!.reuseInsightsFrom).toBeUndefined();
+
+        const monitor = await getMonitor(companyId);
+        expect(monitor!.nextRunAt).toEqual(new Date(NOW.getTime() + 30 * DAY_MS));
+        expect(monitor!.baseline!.jobId).toBe(run!.jobId);
+        expect(await scheduler.tick(NOW)).toEqual([]);
+    });
+
+    it('reuses the baseline insights when the data has not materially changed', async () => {
+        const companyId = uid();
+        await saveMonitor(settings(companyId, { cadenceDays: 7 }));
+        const [first] = await scheduler.tick(NOW);
+        await completeJob(first!.jobId!);
+
+        const later = new Date(NOW.getTime() + 7 * DAY_MS);
+        const [second] = await scheduler.tick(later);
+
+        expect(second).toMatchObject({ reusedInsightsFrom: first!.jobId, changes: [] });
+        expect((await queue.getJob(second!.jobId!))!.reuseInsightsFrom).toBe(first!.jobId);
+        // The baseline stays the last run that ran the agents
+        expect((await getMonitor(companyId))!.baseline!.jobId).toBe(first!.jobId);
+    });
+
+    it('runs in full when the data changed, the baseline never completed or reuse is off', async () => {
+        const companyId = uid();
+        await saveMonitor(settings(companyId, { cadenceDays: 1 }));
+        const [first] = await scheduler.tick(NOW);
+
+        // Baseline still queued
+        const [second] = await scheduler.tick(new Date(NOW.getTime() + DAY_MS));
+        expect(second!.reusedInsightsFrom).toBeUndefined();
+        await completeJob(second!.jobId!);
+        expect(first!.jobId).not.toBe(second!.jobId);
+
+        // Documents replaced
+        await saveMonitor(settings(companyId, { cadenceDays: 1, documents: [document(700_000)], nextRunAt: NOW }));
+        const [third] = await scheduler.tick(NOW);
+        expect(third).toMatchObject({ reusedInsightsFrom: undefined, changes: ['Documents changed'] });
+        await completeJob(third!.jobId!);
+
+        // Reuse turned off
+        await saveMonitor(settings(companyId, { cadenceDays: 1, documents: [document(700_000)], reuseInsights: false, nextRunAt: NOW }));
+        const [fourth] = await scheduler.tick(NOW);
+        expect(fourth).toMatchObject({ reusedInsightsFrom: undefined, changes: [] });
+    });
+
+    it('enqueues nothing when a stored integration cannot be refreshed', async () => {
+        vi.stubEnv('CREDENTIAL_VAULT_KEY', Buffer.alloc(32, 7).toString('base64'));
+        vi.stubEnv('PLAID_CLIENT_ID', '');
+        const companyId = uid();
+        await saveCredential(companyId, 'plaid', { accessToken: 'access-sandbox-123' });
+        await saveMonitor(settings(companyId));
+
+        const [run] = await scheduler.tick(NOW);
+
+        expect(run).toEqual({ companyId, changes: [], error: 'plaid: PLAID_CLIENT_ID and PLAID_SECRET required' });
+        const monitor = await getMonitor(companyId);
+        expect(monitor!.lastError).toBe(run!.error);
+        expect(monitor!.lastRunAt).toBeUndefined();
+        // Due again once the claim lapses
+        expect(monitor!.nextRunAt).toEqual(new Date(NOW.getTime() + 60 * 60 * 1000));
+    });
+});
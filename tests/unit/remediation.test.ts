@@ -51,6 +51,7 @@ function createScore(score: number, riskFactors: RiskFactorMap): BankabilityScor
         summary: 'Test score',
         explanation: { strengths: [], weaknesses: [], criticalIssues: [], reasoningChain: '' },
         calculatedAt: new Date(),
+        policyId: 'default',
     };
 }
 
@@ -126,6 +127,54 @@ describe('task generation', () => {
         expect(roadmap.tasks.every(t => t.targetFactor === 'serviceability')).toBe(true);
     });
 
+    it('names overdue customers and suppliers in working capital tasks', async () => {
+        const doc = (id: string, type: 'profit_and_loss' | 'aging_report', data: Record<string, unknown>) => ({
+            id, type, filename: `${id}.csv`, parsedAt: new Date(), confidence: 0.95, data, rawText: '', currency: 'DKK', trustScore: 0.85,
+        });
+        const aging = (side: string, name: string, current: number, over90: number) =>
+            doc(side, 'aging_report', { side, asOf: '2024-12-31', counterparties: [{ name, current, over90 }] });
+        const context = createMinimalContext({
+            reportingCurrency: 'DKK',
+            documents: [
+                doc('pl', 'profit_and_loss', { '2024': { revenue: 1_000_000, costOfGoodsSold: 500_000 } }),
+                aging('receivables', 'Byg & Co ApS', 100_000, 100_000),
+                aging('payables', 'Steel Supply AB', 50_000, 50_000),
+            ],
+        });
+        const factors = createRiskFactors({
+            serviceability: 40, concentration: 75, retention: 75, compliance: 75, growth: 75,
+        });
+
+        const roadmap = await generateRemediationRoadmap(createScore(50, factors), factors, context);
+        const receivables = roadmap.tasks.find(t => t.title === 'Accelerate accounts receivable')!;
+        const payables = roadmap.tasks.find(t => t.title === 'Clear overdue supplier payments')!;
+
+        expect(receivables.description).toBe('Customers take 73 days to pay and 50% of receivables (DKK 100,000) is past due. Collecting faster frees cash for debt service.');
+        expect(receivables.actionItems[0]).toBe('Chase Byg & Co ApS for DKK 100,000 overdue (100% of overdue receivables)');
+        expect(receivables.actionItems).toContain('Consider invoice factoring or credit insurance for invoices over 60 days');
+        expect(payables.actionItems[0]).toBe('Agree a payment plan with Steel Supply AB for DKK 50,000 overdue');
+    });
+
+    it('leaves out the receivables task when collection is fast and current', async () => {
+        const context = createMinimalContext({
+            documents: [{
+                id: 'pl', type: 'profit_and_loss', filename: 'pl.csv', parsedAt: new Date(), confidence: 0.95, rawText: '', trustScore: 0.85,
+                data: { '2024': { revenue: 3_650_000 } },
+            }, {
+                id: 'bs', type: 'balance_sheet', filename: 'bs.csv', parsedAt: new Date(), confidence: 0.95, rawText: '', trustScore: 0.85,
+                data: { '2024': { receivables: 200_000 } },
+            }],
+        });
+        const factors = createRiskFactors({
+            serviceability: 40, concentration: 75, retention: 75, compliance: 75, growth: 75,
+        });
+
+        const roadmap = await generateRemediationRoadmap(createScore(50, factors), factors, context);
+
+        expect(roadmap.tasks.map(t => t.title)).toEqual(expect.not.arrayContaining(['Accelerate accounts receivable']));
+        expect(roadmap.tasks.length).toBeGreaterThan(0);
+    });
+
     it('generates tasks targeting the correct factor', async () => {
         const factors = createRiskFactors({
             serviceability: 75, concentration: 75, retention: 75, compliance: 40, growth: 75,
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for Re-scoring
+ *
+ * Tests: rescoreAnalysis under another policy, custom weights, stored analysis left untouched
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rescoreAnalysis, withCustomWeights, type RescorableAnalysis } from '../../src/synthesis/rescore.js';
+import { calculateBankabilityScore } from '../../src/synthesis/score-calculator.js';
+import { generateRemediationRoadmap } from '../../src/synthesis/remediation.js';
+import { getScoringPolicy } from '../../src/synthesis/scoring-policies.js';
+import { ScoringPolicySchema } from '../../src/validation/schemas.js';
+import type { AgentInsight, GlobalContext, ParsedDocument, RiskFactorMap } from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function createRiskFactors(scores: Record<keyof RiskFactorMap, number>): RiskFactorMap {
+    const factor = (name: string, score: number) => ({ name, score, weight: 0.2, components: [], explanation: '' });
+    return {
+        serviceability: factor('Serviceability', scores.serviceability),
+        concentration: factor('Concentration', scores.concentration),
+        retention: factor('Retention', scores.retention),
+        compliance: factor('Compliance', scores.compliance),
+        growth: factor('Growth', scores.growth),
+    };
+}
+
+function createInsight(agentId: AgentInsight['agentId']): AgentInsight {
+    return {
+        id: `insight-${agentId}`,
+        agentId,
+        timestamp: new Date(),
+        category: 'cash_flow',
+        title: 'Finding',
+        description: '',
+        confidence: 0.8,
+        impact: 10,
+        evidence: [],
+    } as AgentInsight;
+}
+
+/** A stored analysis as the default policy originally scored it */
+async function createStoredAnalysis(
+    scores: Record<keyof RiskFactorMap, number>,
+    overrides: Partial<GlobalContext> = {},
+): Promise<RescorableAnalysis> {
+    const context: GlobalContext = {
+        sessionId: 'session-1',
+        companyId: 'company-1',
+        startedAt: new Date(),
+        documents: [],
+        apiSnapshots: {},
+        agentInsights: new Map(),
+        riskFactors: {} as RiskFactorMap,
+        contradictions: [],
+        ...overrides,
+    };
+    const score = calculateBankabilityScore(createRiskFactors(scores), context);
+    const roadmap = await generateRemediationRoadmap(score, score.riskFactors, context);
+
+    // Round-trip through JSON like a persisted analysis
+    return JSON.parse(JSON.stringify({
+        companyId: 'company-1',
+        score,
+        roadmap,
+        insights: [createInsight('counter'), createInsight('lawyer')],
+    }));
+}
+
+// ============================================
+// RE-SCORING
+// ============================================
+
+describe('rescoreAnalysis', () => {
+    it('recomputes score, penalties and roadmap under another policy', async () => {
+        const stored = await createStoredAnalysis({ serviceability: 78, concentration: 90, retention: 90, compliance: 50, growth: 90 });
+
+        const result = await rescoreAnalysis(stored, getScoringPolicy('regulated-bank'));
+
+        expect(result.score.policyId).toBe('regulated-bank');
+        expect(result.score.riskFactors.compliance.weight).toBe(0.30);
+        expect(result.score.penalties.map(p => p.reason)).toEqual(['Compliance below regulatory expectations']);
+        expect(result.score.score).toBeLessThan(stored.score.score);
+        expect(result.roadmap.currentScore).toBe(result.score.score);
+        expect(result.roadmap.sessionId).toBe('session-1');
+        expect(result.roadmap.scoreDrags.map(d => d.factor)).toEqual(['compliance', 'serviceability']);
+    });
+
+    it('reproduces the original score under the original policy', async () => {
+        const stored = await createStoredAnalysis({ serviceability: 60, concentration: 20, retention: 70, compliance: 80, growth: 65 });
+
+        const result = await rescoreAnalysis(stored, getScoringPolicy());
+
+        expect(result.score.score).toBe(stored.score.score);
+        expect(result.score.grade).toBe(stored.score.grade);
+        expect(result.score.penalties).toEqual(stored.score.penalties);
+    });
+
+    it('leaves the stored analysis untouched', async () => {
+        const stored = await createStoredAnalysis({ serviceability: 60, concentration: 60, retention: 60, compliance: 60, growth: 60 });
+        const before = JSON.stringify(stored);
+
+        await rescoreAnalysis(stored, getScoringPolicy('cash-flow-lender'));
+
+        expect(JSON.stringify(stored)).toBe(before);
+    });
+
+    it('keeps the working capital tasks of the original roadmap', async () => {
+        const doc = (id: string, type: ParsedDocument['type'], data: Record<string, unknown>): ParsedDocument => ({
+            id, type, filename: `${id}.csv`, parsedAt: new Date(), confidence: 0.95, data, rawText: '', currency: 'EUR', trustScore: 0.85,
+        });
+        const stored = await createStoredAnalysis({ serviceability: 40, concentration: 90, retention: 90, compliance: 90, growth: 90 }, {
+            reportingCurrency: 'EUR',
+            documents: [
+                doc('pl', 'profit_and_loss', { '2024': { revenue: 1_000_000, costOfGoodsSold: 500_000 } }),
+                doc('receivables', 'aging_report', {
+                    side: 'receivables', asOf: '2024-12-31', counterparties: [{ name: 'Byg & Co ApS', current: 100_000, over90: 100_000 }],
+                }),
+                doc('payables', 'aging_report', {
+                    side: 'payables', asOf: '2024-12-31', counterparties: [{ name: 'Steel Supply AB', current: 50_000, over90: 50_000 }],
+                }),
+            ],
+        });
+
+        const result = await rescoreAnalysis(stored, getScoringPolicy('cash-flow-lender'));
+        const tasks = (roadmap: typeof result.roadmap) => roadmap.tasks
+            .filter(t => t.title === 'Accelerate accounts receivable' || t.title === 'Clear overdue supplier payments')
+            .map(t => ({ title: t.title, description: t.description, actionItems: t.actionItems }));
+
+        expect(tasks(result.roadmap)).toHaveLength(2);
+        expect(tasks(result.roadmap)).toEqual(tasks(stored.roadmap));
+        expect(result.roadmap.tasks.find(t => t.title === 'Clear overdue supplier payments')!.actionItems[0])
+            .toBe('Agree a payment plan with Steel Supply AB for EUR 50,000 overdue');
+        expect(result.roadmap).toMatchObject({ reportingCurrency: 'EUR', workingCapital: stored.roadmap.workingCapital });
+    });
+
+    it('works for analyses stored without insights', async () => {
+        const { insights: _, ...stored } = await createStoredAnalysis({ serviceability: 60, concentration: 60, retention: 60, compliance: 60, growth: 60 });
+
+        const result = await rescoreAnalysis(stored, getScoringPolicy('cash-flow-lender'));
+        expect(result.score.policyId).toBe('cash-flow-lender');
+    });
+});
+
+describe('withCustomWeights', () => {
+    it('swaps the weights and keeps the rest of the base policy', async () => {
+        const base = getScoringPolicy('regulated-bank');
+        const weights = { serviceability: 0.6, concentration: 0.1, retention: 0.1, compliance: 0.1, growth: 0.1 };
+        const policy = withCustomWeights(base, weights);
+
+        expect(policy.id).toBe('regulated-bank-custom-weights');
+        expect(policy.weights).toEqual(weights);
+        expect(policy.penalties).toBe(base.penalties);
+        expect(policy.dragTargetScore).toBe(base.dragTargetScore);
+        expect(ScoringPolicySchema.safeParse(policy).success).toBe(true);
+
+        const stored = await createStoredAnalysis({ serviceability: 100, concentration: 60, retention: 60, compliance: 60, growth: 60 });
+        const result = await rescoreAnalysis(stored, policy);
+        expect(result.score.riskFactors.serviceability.weight).toBe(0.6);
+        expect(result.score.score).toBeGreaterThan(stored.score.score);
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the SAF-T Parser
+ *
+ * Tests: per-year statements from journal lines, closing-balance files with
+ * NS 4102 standard accounts, provenance, unmapped accounts and ledger checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SaftParser, isSaftFile } from '../../src/ingestion/saft-parser.js';
+
+const parser = new SaftParser();
+
+interface TestAccount {
+    id: string;
+    description: string;
+    standard?: string;
+    /** Net balance, debit positive */
+    opening?: number;
+    closing?: number;
+}
+
+function balance(kind: 'Opening' | 'Closing', amount: number | undefined): string {
+    if (amount === undefined) return '';
+    return amount >= 0 ? `<${kind}DebitBalance>${amount}</${kind}DebitBalance>` : `<${kind}CreditBalance>${-amount}</${kind}CreditBalance>`;
+}
+
+function auditFile(options: {
+    country: string;
+    accounts: TestAccount[];
+    /** [date, debit account, credit account, amount] */
+    postings?: Array<[string, string, string, number]>;
+}): Buffer {
+    const accounts = options.accounts.map(a => `
+        <Account>
+            <AccountID>${a.id}</AccountID>
+            <AccountDescription>${a.description}</AccountDescription>
+            ${a.standard ? `<StandardAccountID>${a.standard}</StandardAccountID>` : ''}
+            <AccountType>GL</AccountType>
+            ${balance('Opening', a.opening ?? 0)}
+            ${balance('Closing', a.closing)}
+        </Account>`).join('');
+
+    const transactions = (options.postings ?? []).map(([date, debit, credit, amount], i) => `
+        <Transaction>
+            <TransactionID>${i + 1}</TransactionID>
+            <TransactionDate>${date}</TransactionDate>
+            <Line><AccountID>${debit}</AccountID><DebitAmount><Amount>${amount}</Amount></DebitAmount></Line>
+            <Line><AccountID>${credit}</AccountID><CreditAmount><Amount>${amount}</Amount></CreditAmount></Line>
+        </Transaction>`).join('');
+
+    return Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<n1:AuditFile xmlns:n1="urn:StandardAuditFile-Taxation-Financial:${options.country}">
+    <n1:Header>
+        <n1:AuditFileCountry>${options.country}</n1:AuditFileCountry>
+        <n1:SoftwareCompanyName>Regnskab A/S</n1:SoftwareCompanyName>
+        <n1:SoftwareID>Bogføring</n1:SoftwareID>
+        <n1:Company>
+            <n1:RegistrationNumber>12345678</n1:RegistrationNumber>
+            <n1:Name>Example ApS</n1:Name>
+        </n1:Company>
+        <n1:DefaultCurrencyCode>${options.country === 'NO' ? 'NOK' : 'DKK'}</n1:DefaultCurrencyCode>
+        <n1:SelectionCriteria>
+            <n1:PeriodStart>1</n1:PeriodStart>
+            <n1:PeriodStartYear>2023</n1:PeriodStartYear>
+            <n1:PeriodEnd>12</n1:PeriodEnd>
+            <n1:PeriodEndYear>2024</n1:PeriodEndYear>
+        </n1:SelectionCriteria>
+    </n1:Header>
+    <n1:MasterFiles>
+        <n1:GeneralLedgerAccounts>${accounts.replace(/<(\/?)(\w)/g, '<$1n1:$2')}</n1:GeneralLedgerAccounts>
+    </n1:MasterFiles>
+    <n1:GeneralLedgerEntries>
+        <n1:Journal><n1:JournalID>GL</n1:JournalID>${transactions.replace(/<(\/?)(\w)/g, '<$1n1:$2')}</n1:Journal>
+    </n1:GeneralLedgerEntries>
+</n1:AuditFile>`, 'utf-8');
+}
+
+const DANISH_ACCOUNTS: TestAccount[] = [
+    { id: '1010', description: 'Salg af varer og ydelser' },
+    { id: '1310', description: 'Vareforbrug' },
+    { id: '2210', description: 'Lønninger' },
+    { id: '2810', description: 'Husleje' },
+    { id: '3010', description: 'Afskrivninger, driftsmidler' },
+    { id: '3510', description: 'Renteudgifter, bank' },
+    { id: '3810', description: 'Skat af årets resultat' },
+    { id: '5310', description: 'Driftsmidler', opening: 200_000 },
+    { id: '5320', description: 'Akkumulerede afskrivninger, driftsmidler' },
+    { id: '5610', description: 'Debitorer' },
+    { id: '5810', description: 'Bank', opening: 100_000, closing: 465_000 },
+    { id: '6010', description: 'Anpartskapital', opening: -40_000 },
+    { id: '6020', description: 'Overført resultat', opening: -160_000 },
+    { id: '6510', description: 'Banklån', opening: -100_000 },
+    { id: '6810', description: 'Leverandørgæld' },
+    { id: '6910', description: 'Skyldig selskabsskat' },
+];
+
+const DANISH_POSTINGS: Array<[string, string, string, number]> = [
+    ['2023-06-30', '5810', '1010', 100_000],
+    ['2024-03-31', '5610', '1010', 500_000],
+    ['2024-04-30', '5810', '5610', 450_000],
+    ['2024-05-31', '1310', '6810', 200_000],
+    ['2024-06-30', '2210', '5810', 120_000],
+    ['2024-07-31', '2810', '5810', 60_000],
+    ['2024-12-31', '3010', '5320', 40_000],
+    ['2024-12-31', '3510', '5810', 5_000],
+    ['2024-12-31', '3810', '6910', 16_500],
+];
+
+describe('isSaftFile', () => {
+    it('accepts XML uploads', () => {
+        expect(isSaftFile('saft_2024.xml', 'application/octet-stream')).toBe(true);
+        expect(isSaftFile('export', 'text/xml')).toBe(true);
+        expect(isSaftFile('report.pdf', 'application/pdf')).toBe(false);
+    });
+});
+
+describe('SaftParser', () => {
+    it('derives a P&L and balance sheet per fiscal year from journal lines', async () => {
+        const docs = await parser.parse(auditFile({ country: 'DK', accounts: DANISH_ACCOUNTS, postings: DANISH_POSTINGS }), 'saft.xml');
+        const pl = docs.find(d => d.type === 'profit_and_loss')!;
+        const bs = docs.find(d => d.type === 'balance_sheet')!;
+
+        // Accounts without postings in a year are known zeros, not missing figures
+        expect(pl.data['2023']).toEqual({
+            currency: 'DKK', revenue: 100_000, costOfGoodsSold: 0, grossProfit: 100_000, operatingExpenses: 0,
+            ebitda: 100_000, depreciationAndAmortization: 0, ebit: 100_000, interestExpense: 0,
+            profitBeforeTax: 100_000, taxExpense: 0, netIncome: 100_000,
+        });
+        expect(pl.data['2024']).toEqual({
+            currency: 'DKK', revenue: 500_000, costOfGoodsSold: 200_000, grossProfit: 300_000,
+            operatingExpenses: 180_000, ebitda: 120_000, depreciationAndAmortization: 40_000, ebit: 80_000,
+            interestExpense: 5_000, profitBeforeTax: 75_000, taxExpense: 16_500, netIncome: 58_500,
+        });
+
+        expect(bs.data['2024']).toMatchObject({
+            cash: 465_000, receivables: 50_000, propertyPlantEquipment: 160_000, totalAssets: 675_000,
+            payables: 200_000, longTermDebt: 100_000, totalLiabilities: 316_500,
+            shareCapital: 40_000, retainedEarnings: 318_500, equity: 358_500,
+        });
+        expect(bs.data['2023']).toMatchObject({ cash: 200_000, totalAssets: 400_000, equity: 300_000 });
+
+        expect(pl.validationErrors).toEqual([]);
+        expect(bs.validationErrors).toEqual([]);
+        expect(pl.trustScore).toBe(0.9);
+        expect(pl.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('records where the figures came from', async () => {
+        const docs = await parser.parse(auditFile({ country: 'DK', accounts: DANISH_ACCOUNTS, postings: DANISH_POSTINGS }), 'saft.xml');
+
+        expect(docs[0]!.provenance).toMatchObject({
+            format: 'saf-t',
+            software: 'Regnskab A/S Bogføring',
+            companyName: 'Example ApS',
+            registrationNumber: '12345678',
+            periodStart: '2023-01',
+            periodEnd: '2024-12',
+        });
+        expect(docs[0]!.provenance!.accounts.staffCosts).toEqual(['2210']);
+        expect(docs[1]!.provenance!.accounts.propertyPlantEquipment).toEqual(['5310', '5320']);
+    });
+
+    it('reads closing balances by NS 4102 standard account when there are no journal lines', async () => {
+        const docs = await parser.parse(auditFile({
+            country: 'NO',
+            accounts: [
+                { id: '3000', description: 'Salgsinntekt', standard: '3000', closing: -1_000_000 },
+                { id: '4000', description: 'Varekjøp', standard: '4000', closing: 400_000 },
+                { id: '5000', description: 'Lønn', standard: '5000', closing: 300_000 },
+                { id: '6000', description: 'Avskrivning', standard: '6000', closing: 50_000 },
+                { id: '8150', description: 'Rentekostnad', standard: '8150', closing: 10_000 },
+                { id: '8300', description: 'Skattekostnad', standard: '8300', closing: 52_800 },
+                { id: '1200', description: 'Maskiner', standard: '1200', closing: 500_000 },
+                { id: '1500', description: 'Kundefordringer', standard: '1500', closing: 100_000 },
+                { id: '1920', description: 'Bankinnskudd', standard: '1920', closing: 300_000 },
+                { id: '2000', description: 'Aksjekapital', standard: '2000', closing: -100_000 },
+                { id: '2050', description: 'Annen egenkapital', standard: '2050', closing: -212_800 },
+                { id: '2400', description: 'Leverandørgjeld', standard: '2400', closing: -400_000 },
+            ],
+        }), 'saft_no.xml');
+
+        const [pl, bs] = docs;
+        expect(Object.keys(pl!.data)).toEqual(['2024']);
+        expect(pl!.data['2024']).toMatchObject({ currency: 'NOK', revenue: 1_000_000, netIncome: 187_200 });
+        expect(bs!.data['2024']).toMatchObject({ totalAssets: 900_000, shareCapital: 100_000, equity: 500_000 });
+        expect(bs!.validationErrors).toEqual([]);
+    });
+
+    it('reports unmapped accounts and closing balances the journal does not add up to', async () => {
+        const accounts = [
+            ...DANISH_ACCOUNTS.map(a => a.id === '5810' ? { ...a, closing: 470_000 } : a),
+            { id: '9999', description: 'Diverse', opening: 0 },
+        ];
+        const docs = await parser.parse(auditFile({
+            country: 'DK',
+            accounts,
+            postings: [...DANISH_POSTINGS, ['2024-12-31', '9999', '5810', 1_000]],
+        }), 'saft.xml');
+
+        const errors = docs[0]!.validationErrors!;
+        expect(errors).toContain('Account 9999 "Diverse" (balance 1000) could not be mapped and was left out');
+        expect(errors).toContain('Account 5810 "Bank": journal lines add up to 464000, but the closing balance is 470000');
+        expect(docs[0]!.confidence).toBeLessThan(0.98);
+    });
+
+    it('rejects XML that is not a SAF-T audit file', async () => {
+        await expect(parser.parse(Buffer.from('<invoice><total>10</total></invoice>'), 'invoice.xml'))
+            .rejects.toThrow('invoice.xml is not a SAF-T audit file');
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the Score Diff Explainer
+ *
+ * Tests: factor/component changes, penalties, grade movement, critical issues, roadmap tasks, narrative
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffScores } from '../../src/synthesis/score-diff.js';
+import type {
+    BankabilityScore,
+    Grade,
+    RemediationRoadmap,
+    RemediationTask,
+    RiskComponent,
+    RiskFactorMap,
+    ScorePenalty,
+} from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function component(name: string, value: number): RiskComponent {
+    return { name, value, weight: 0.5, rawMetric: null, interpretation: '' };
+}
+
+function createRiskFactors(overrides: Partial<Record<keyof RiskFactorMap, { score: number; components?: RiskComponent[] }>> = {}): RiskFactorMap {
+    const factor = (key: keyof RiskFactorMap, name: string, weight: number) => ({
+        name,
+        score: overrides[key]?.score ?? 60,
+        weight,
+        components: overrides[key]?.components ?? [],
+        explanation: '',
+    });
+
+    return {
+        serviceability: factor('serviceability', 'Serviceability', 0.25),
+        concentration: factor('concentration', 'Concentration', 0.20),
+        retention: factor('retention', 'Retention', 0.20),
+        compliance: factor('compliance', 'Compliance', 0.15),
+        growth: factor('growth', 'Growth', 0.20),
+    };
+}
+
+function createScore(
+    score: number,
+    grade: Grade,
+    riskFactors: RiskFactorMap,
+    penalties: ScorePenalty[] = [],
+    criticalIssues: string[] = [],
+): BankabilityScore {
+    return {
+        score,
+        grade,
+        riskFactors,
+        penalties,
+        summary: 'Test score',
+        explanation: { strengths: [], weaknesses: [], criticalIssues, reasoningChain: '' },
+        calculatedAt: new Date(),
+        policyId: 'default',
+    };
+}
+
+function createRoadmap(tasks: Array<Pick<RemediationTask, 'title' | 'targetFactor'>>): RemediationRoadmap {
+    return {
+        sessionId: 'test-session',
+        companyId: 'test-company',
+        generatedAt: new Date(),
+        currentScore: 0,
+        projectedScore: 0,
+        scoreDrags: [],
+        tasks: tasks.map((task, i) => ({
+            id: `task-${i}-${Math.random()}`,
+            priority: 1,
+            description: '',
+            expectedScoreGain: 5,
+            difficulty: 'medium',
+            estimatedDays: 30,
+            category: 'structural',
+            actionItems: [],
+            ...task,
+        })),
+        timeline: {
+            quickWins: { tasks: 0, days: 0, scoreGain: 0 },
+            shortTerm: { tasks: 0, days: 0, scoreGain: 0 },
+            longTerm: { tasks: 0, days: 0, scoreGain: 0 },
+        },
+    };
+}
+
+const highConcentration: ScorePenalty = { reason: 'High customer concentration', multiplier: 0.8, impactPoints: 4 };
+
+// ============================================
+// DIFF
+// ============================================
+
+describe('diffScores', () => {
+    it('reports only factors that moved, with their component changes', () => {
+        const before = createScore(60, 'C', createRiskFactors({
+            serviceability: { score: 50, components: [component('DSCR', 40), component('Runway', 60)] },
+        }));
+        const after = createScore(66, 'C+', createRiskFactors({
+            serviceability: { score: 74, components: [component('DSCR', 80), component('Interest Cover', 70)] },
+        }));
+
+        const diff = diffScores({ score: before }, { score: after });
+
+        expect(diff.score).toEqual({ from: 60, to: 66, delta: 6 });
+        expect(diff.grade).toEqual({ from: 'C', to: 'C+', direction: 'up' });
+        expect(diff.factors).toHaveLength(1);
+        expect(diff.factors[0]!.factor).toBe('serviceability');
+        expect(diff.factors[0]!.delta).toBe(24);
+        expect(diff.factors[0]!.components).toEqual([
+            { name: 'DSCR', change: 'changed', from: 40, to: 80, delta: 40 },
+            { name: 'Interest Cover', change: 'added', from: null, to: 70, delta: 70 },
+            { name: 'Runway', change: 'removed', from: 60, to: null, delta: -60 },
+        ]);
+    });
+
+    it('detects penalties and critical issues added or resolved', () => {
+        const before = createScore(50, 'D+', createRiskFactors(), [highConcentration], [
+            'Critical concentration concern (30/100)',
+            'Critical growth concern (35/100)',
+        ]);
+        const after = createScore(58, 'C-', createRiskFactors(), [], [
+            'Critical concentration concern (38/100)',
+            'Critical compliance concern (25/100)',
+        ]);
+
+        const diff = diffScores({ score: before }, { score: after });
+
+        expect(diff.penalties.added).toEqual([]);
+        expect(diff.penalties.removed).toEqual([highConcentration]);
+        // A figure change alone is not a new issue
+        expect(diff.criticalIssues.added).toEqual(['Critical compliance concern (25/100)']);
+        expect(diff.criticalIssues.resolved).toEqual(['Critical growth concern (35/100)']);
+    });
+
+    it('matches roadmap tasks by title and factor across runs', () => {
+        const before = createScore(60, 'C', createRiskFactors());
+        const after = createScore(60, 'C', createRiskFactors());
+
+        const diff = diffScores(
+            {
+                score: before,
+                roadmap: createRoadmap([
+                    { title: 'Diversify customer base', targetFactor: 'concentration' },
+                    { title: 'Complete financial audit', targetFactor: 'compliance' },
+                ]),
+            },
+            {
+                score: after,
+                roadmap: createRoadmap([
+                    { title: 'Diversify customer base', targetFactor: 'concentration' },
+                    { title: 'Extend contract terms', targetFactor: 'retention' },
+                ]),
+            },
+        );
+
+        expect(diff.tasks.completed.map(t => t.title)).toEqual(['Complete financial audit']);
+        expect(diff.tasks.added.map(t => t.title)).toEqual(['Extend contract terms']);
+    });
+
+    it('skips task changes when a roadmap is missing', () => {
+        const score = createScore(60, 'C', createRiskFactors());
+        const diff = diffScores({ score, roadmap: createRoadmap([{ title: 'X', targetFactor: 'growth' }]) }, { score });
+
+        expect(diff.tasks).toEqual({ completed: [], added: [] });
+    });
+
+    it('renders a narrative led by the score and grade movement', () => {
+        const before = createScore(72, 'B-', createRiskFactors({ growth: { score: 70 } }));
+        const after = createScore(64, 'C', createRiskFactors({ growth: { score: 30 } }), [highConcentration]);
+
+        const lines = diffScores({ score: before }, { score: after }).narrative.split('\n');
+
+        expect(lines[0]).toBe('Score fell from 72 to 64 (-8).');
+        expect(lines[1]).toBe('Grade moved down from B- to C.');
+        expect(lines).toContain('Growth: 70 → 30 (-40).');
+        expect(lines).toContain('New penalty: High customer concentration (-4 points).');
+    });
+
+    it('says so when nothing changed', () => {
+        const score = createScore(60, 'C', createRiskFactors());
+        expect(diffScores({ score }, { score }).narrative).toBe('Score unchanged at 60.');
+    });
+});
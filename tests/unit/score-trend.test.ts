@@ -0,0 +1,104 @@
+/**
+ * Unit tests for Score Trend
+ *
+ * Tests: computeScoreTrend ordering, consecutive and overall deltas, grade direction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeScoreTrend, getGradeDirection, type ScoredAnalysis } from '../../src/synthesis/score-trend.js';
+import type { BankabilityScore, Grade, RiskFactorMap } from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function createRiskFactors(scores: [number, number, number, number, number]): RiskFactorMap {
+    const [serviceability, concentration, retention, compliance, growth] = scores;
+    return {
+        serviceability: { name: 'Serviceability', score: serviceability, weight: 0.25, components: [], explanation: '' },
+        concentration: { name: 'Concentration', score: concentration, weight: 0.20, components: [], explanation: '' },
+        retention: { name: 'Retention', score: retention, weight: 0.20, components: [], explanation: '' },
+        compliance: { name: 'Compliance', score: compliance, weight: 0.15, components: [], explanation: '' },
+        growth: { name: 'Growth', score: growth, weight: 0.20, components: [], explanation: '' },
+    };
+}
+
+function createAnalysis(
+    id: string,
+    completedAt: string,
+    score: number,
+    grade: Grade,
+    factors: [number, number, number, number, number],
+): ScoredAnalysis {
+    const bankabilityScore: BankabilityScore = {
+        score,
+        grade,
+        riskFactors: createRiskFactors(factors),
+        penalties: [],
+        summary: 'Test score',
+        explanation: { strengths: [], weaknesses: [], criticalIssues: [], reasoningChain: '' },
+        calculatedAt: new Date(completedAt),
+        policyId: 'default',
+    };
+    return { id, completedAt: new Date(completedAt), score: bankabilityScore };
+}
+
+// ============================================
+// TREND
+// ============================================
+
+describe('computeScoreTrend', () => {
+    it('returns no deltas for a single analysis', () => {
+        const trend = computeScoreTrend([createAnalysis('a', '2026-01-01', 60, 'C', [60, 60, 60, 60, 60])]);
+
+        expect(trend.points).toHaveLength(1);
+        expect(trend.deltas).toEqual([]);
+        expect(trend.overall).toBeNull();
+    });
+
+    it('computes per-factor deltas between consecutive analyses in time order', () => {
+        const trend = computeScoreTrend([
+            createAnalysis('c', '2026-03-01', 78, 'B+', [80, 70, 75, 85, 78]),
+            createAnalysis('a', '2026-01-01', 60, 'C', [60, 60, 60, 60, 60]),
+            createAnalysis('b', '2026-02-01', 66.5, 'C+', [70, 55, 65, 80, 62.5]),
+        ]);
+
+        expect(trend.points.map(p => p.analysisId)).toEqual(['a', 'b', 'c']);
+        expect(trend.deltas).toHaveLength(2);
+
+        const [first, second] = trend.deltas;
+        expect(first!.fromAnalysisId).toBe('a');
+        expect(first!.toAnalysisId).toBe('b');
+        expect(first!.score).toBe(6.5);
+        expect(first!.factors).toEqual({
+            serviceability: 10,
+            concentration: -5,
+            retention: 5,
+            compliance: 20,
+            growth: 2.5,
+        });
+        expect(second!.grade).toEqual({ from: 'C+', to: 'B+', direction: 'up' });
+    });
+
+    it('reports the overall change from the first to the latest analysis', () => {
+        const trend = computeScoreTrend([
+            createAnalysis('a', '2026-01-01', 80, 'B+', [80, 80, 80, 80, 80]),
+            createAnalysis('b', '2026-02-01', 70, 'B-', [70, 80, 70, 70, 70]),
+            createAnalysis('c', '2026-03-01', 62, 'C', [60, 75, 60, 60, 60]),
+        ]);
+
+        expect(trend.overall!.fromAnalysisId).toBe('a');
+        expect(trend.overall!.toAnalysisId).toBe('c');
+        expect(trend.overall!.score).toBe(-18);
+        expect(trend.overall!.factors.concentration).toBe(-5);
+        expect(trend.overall!.grade.direction).toBe('down');
+    });
+});
+
+describe('getGradeDirection', () => {
+    it('compares grades by threshold', () => {
+        expect(getGradeDirection('B', 'A-')).toBe('up');
+        expect(getGradeDirection('C-', 'F')).toBe('down');
+        expect(getGradeDirection('B+', 'B+')).toBe('unchanged');
+    });
+});
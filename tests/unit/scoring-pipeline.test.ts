@@ -184,6 +184,57 @@ describe('synthesizeRiskFactors', () => {
         expect(profitComponent!.value).toBeGreaterThan(0);
     });
 
+    it('scores operating cash flow coverage from a cash flow statement when Plaid is unavailable', async () => {
+        const statement = (id: string, type: 'profit_and_loss' | 'cash_flow_statement', data: Record<string, unknown>) => ({
+            id, type, filename: `${id}.json`, parsedAt: new Date(), confidence: 1.0, data, rawText: '', trustScore: 0.9,
+        });
+        const context = createMinimalContext({
+            documents: [
+                statement('pl-1', 'profit_and_loss', { '2024': { revenue: 1000000, netIncome: 80000, interestExpense: 20000 } }),
+                statement('cf-1', 'cash_flow_statement', { '2024': { operatingCashFlow: 120000, principalRepayments: 40000 } }),
+            ],
+        });
+
+        const result = await synthesizeRiskFactors([], context);
+
+        const coverage = result.serviceability.components.find(c => c.name === 'Operating Cash Flow Coverage');
+        // 120,000 / (20,000 interest + 40,000 principal) = 2.0x
+        expect(coverage!.rawMetric).toBeCloseTo(2.0);
+        expect(coverage!.value).toBe(100);
+        expect(coverage!.interpretation).toBe('Healthy');
+    });
+
+    it('scores existing debt service, overdrafts and balance stability from bank transaction analytics', async () => {
+        const context = createMinimalContext({
+            apiSnapshots: {
+                plaid: {
+                    fetchedAt: new Date(),
+                    currency: 'DKK',
+                    accounts: [],
+                    transactions: { period: { start: new Date(), end: new Date() }, totalInflow: 0, totalOutflow: 0, categoryBreakdown: {} },
+                    cashFlow: { averageMonthlyInflow: 100000, averageMonthlyOutflow: 90000, burnRate: 0, runwayMonths: 99 },
+                    analytics: {
+                        monthly: [],
+                        recurringPayments: [],
+                        debtService: { monthlyAmount: 20000, payees: ['Realkredit afdrag'] },
+                        balance: { averageBalance: 50000, minimumBalance: 5000, volatility: 0.4, lowestBalanceDays: [], daysOverdrawn: 0 },
+                        overdraftEvents: [{ date: '2024-01-06', accountId: 'a', type: 'overdraft_fee', amount: 250 }],
+                    },
+                },
+            },
+        });
+
+        const result = await synthesizeRiskFactors([], context);
+        const component = (name: string) => result.serviceability.components.find(c => c.name === name);
+
+        // 100,000 in, 70,000 out before the loans, leaves 30,000 for 20,000 of repayments
+        expect(component('Existing Debt Service Coverage')!.rawMetric).toBeCloseTo(1.5);
+        expect(component('Existing Debt Service Coverage')!.interpretation).toBe('Healthy');
+        expect(component('Overdraft Events')!.value).toBe(75);
+        expect(component('Balance Stability')!.value).toBeCloseTo(60);
+        expect(component('Balance Stability')!.interpretation).toBe('Variable');
+    });
+
     it('derives growth score from revenue trends in documents', async () => {
         const context = createMinimalContext({
             documents: [{
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for Scoring Policies
+ *
+ * Tests: policy lookup, policy-driven weights/penalties/grades, drag target, schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateBankabilityScore } from '../../src/synthesis/score-calculator.js';
+import { generateRemediationRoadmap } from '../../src/synthesis/remediation.js';
+import { findScoringPolicy, getScoringPolicy, listScoringPolicies } from '../../src/synthesis/scoring-policies.js';
+import { ScoringPolicySchema } from '../../src/validation/schemas.js';
+import type { GlobalContext, RiskFactorMap, ScoringPolicy } from '../../src/types/index.js';
+
+// ============================================
+// TEST HELPERS
+// ============================================
+
+function createMinimalContext(): GlobalContext {
+    return {
+        sessionId: 'test-session',
+        companyId: 'test-company',
+        startedAt: new Date(),
+        documents: [],
+        apiSnapshots: {},
+        agentInsights: new Map(),
+        riskFactors: {} as RiskFactorMap,
+        contradictions: [],
+    };
+}
+
+function createRiskFactors(scores: Record<keyof RiskFactorMap, number>): RiskFactorMap {
+    const factor = (name: string, score: number) => ({ name, score, weight: 0.2, components: [], explanation: '' });
+    return {
+        serviceability: factor('Serviceability', scores.serviceability),
+        concentration: factor('Concentration', scores.concentration),
+        retention: factor('Retention', scores.retention),
+        compliance: factor('Compliance', scores.compliance),
+        growth: factor('Growth', scores.growth),
+    };
+}
+
+function customPolicy(overrides: Partial<ScoringPolicy> = {}): ScoringPolicy {
+    return { ...getScoringPolicy(), id: 'custom', name: 'Custom', ...overrides };
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+describe('scoring policy registry', () => {
+    it('resolves the default policy when no id is given', () => {
+        expect(getScoringPolicy().id).toBe('default');
+    });
+
+    it('ships the built-in lender policies', () => {
+        expect(listScoringPolicies().map(p => p.id)).toEqual(['default', 'cash-flow-lender', 'regulated-bank']);
+    });
+
+    it('rejects unknown policy ids', () => {
+        expect(findScoringPolicy('nope')).toBeUndefined();
+        expect(() => getScoringPolicy('nope')).toThrow('Unknown scoring policy: nope');
+    });
+
+    it('validates every built-in policy against the schema', () => {
+        for (const policy of listScoringPolicies()) {
+            expect(ScoringPolicySchema.safeParse(policy).success).toBe(true);
+        }
+    });
+
+    it('rejects policies whose weights do not sum to 1', () => {
+        const policy = customPolicy({
+            weights: { serviceability: 0.5, concentration: 0.5, retention: 0.5, compliance: 0, growth: 0 },
+        });
+        expect(ScoringPolicySchema.safeParse(policy).success).toBe(false);
+    });
+});
+
+// ============================================
+// SCORING UNDER A POLICY
+// ============================================
+
+describe('calculateBankabilityScore with policies', () => {
+    const factors = createRiskFactors({ serviceability: 90, concentration: 60, retention: 60, compliance: 50, growth: 60 });
+
+    it('records the policy id and applies its weights', () => {
+        const standard = calculateBankabilityScore(factors, createMinimalContext());
+        const cashFlow = calculateBankabilityScore(factors, createMinimalContext(), getScoringPolicy('cash-flow-lender'));
+
+        expect(standard.policyId).toBe('default');
+        expect(cashFlow.policyId).toBe('cash-flow-lender');
+        expect(cashFlow.riskFactors.serviceability.weight).toBe(0.40);
+        // Strong serviceability counts for more under the cash-flow policy
+        expect(cashFlow.score).toBeGreaterThan(standard.score);
+    });
+
+    it('applies the policy penalty rules', () => {
+        const standard = calculateBankabilityScore(factors, createMinimalContext());
+        const regulated = calculateBankabilityScore(factors, createMinimalContext(), getScoringPolicy('regulated-bank'));
+
+        expect(standard.penalties).toEqual([]);
+        expect(regulated.penalties.map(p => p.reason)).toEqual(['Compliance below regulatory expectations']);
+    });
+
+    it('grades with the policy grade bands', () => {
+        const strict = customPolicy({
+            grades: {
+                'A+': 99, 'A': 98, 'A-': 97, 'B+': 96, 'B': 95, 'B-': 94,
+                'C+': 93, 'C': 92, 'C-': 91, 'D+': 90, 'D': 89, 'D-': 88, 'F': 0,
+            },
+        });
+
+        const result = calculateBankabilityScore(factors, createMinimalContext(), strict);
+        expect(result.grade).toBe('F');
+    });
+
+    it('does not mutate the input risk factors', () => {
+        calculateBankabilityScore(factors, createMinimalContext(), getScoringPolicy('cash-flow-lender'));
+        expect(factors.serviceability.weight).toBe(0.2);
+    });
+});
+
+describe('generateRemediationRoadmap with policies', () => {
+    it('measures score drags against the policy drag target', async () => {
+        const factors = createRiskFactors({ serviceability: 78, concentration: 90, retention: 90, compliance: 90, growth: 90 });
+        const context = createMinimalContext();
+
+        const standard = calculateBankabilityScore(factors, context);
+        const standardRoadmap = await generateRemediationRoadmap(standard, standard.riskFactors, context);
+
+        const regulatedPolicy = getScoringPolicy('regulated-bank');
+        const regulated = calculateBankabilityScore(factors, context, regulatedPolicy);
+        const regulatedRoadmap = await generateRemediationRoadmap(regulated, regulated.riskFactors, context, regulatedPolicy);
+
+        expect(standardRoadmap.scoreDrags).toEqual([]);
+        expect(regulatedRoadmap.scoreDrags.map(d => d.factor)).toEqual(['serviceability']);
+        expect(regulatedRoadmap.scoreDrags[0]!.potentialScore).toBe(80);
+    });
+});
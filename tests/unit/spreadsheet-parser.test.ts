@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the Spreadsheet Parser
+ *
+ * Tests: Danish CSV exports, year-column layouts, trial balances yielding several
+ * statements, XLSX workbooks, trust score and unrecognised sheets
+ */
+
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import { SpreadsheetParser, isSpreadsheet } from '../../src/ingestion/spreadsheet-parser.js';
+
+const parser = new SpreadsheetParser();
+
+function csv(lines: string[]): Buffer {
+    return Buffer.from(lines.join('\r\n'), 'utf-8');
+}
+
+describe('isSpreadsheet', () => {
+    it('accepts XLSX and CSV uploads by extension or mimetype', () => {
+        expect(isSpreadsheet('saldobalance.xlsx', 'application/octet-stream')).toBe(true);
+        expect(isSpreadsheet('export', 'text/csv')).toBe(true);
+        expect(isSpreadsheet('report.pdf', 'application/pdf')).toBe(false);
+    });
+});
+
+describe('SpreadsheetParser', () => {
+    it('reads a semicolon CSV with Danish number formats', async () => {
+        const docs = await parser.parse(csv([
+            'Resultatopgørelse;',
+            'Valuta;DKK',
+            'Nettoomsætning;12.500.000,00',
+            'Vareforbrug;"-7.200.000,00"',
+            'Bruttofortjeneste;5.300.000,00',
+            'Årets resultat;980.000,50',
+        ]), 'resultat.csv');
+
+        expect(docs).toHaveLength(1);
+        expect(docs[0]!.type).toBe('profit_and_loss');
+        expect(docs[0]!.data.latest).toMatchObject({
+            revenue: 12_500_000,
+            grossProfit: 5_300_000,
+            netIncome: 980_000.5,
+        });
+    });
+
+    it('assigns year columns from a header row', async () => {
+        const docs = await parser.parse(csv([
+            'Profit and loss,2024,2023',
+            'Revenue,8500000,9200000',
+            'Gross profit,3100000,3300000',
+            'EBIT,344000,512000',
+            'Net income,-12000,280000',
+        ]), 'pl.csv');
+
+        expect(docs[0]!.type).toBe('profit_and_loss');
+        expect(docs[0]!.data['2024']).toMatchObject({ revenue: 8_500_000, netIncome: -12_000 });
+        expect(docs[0]!.data['2023']).toMatchObject({ revenue: 9_200_000, netIncome: 280_000 });
+    });
+
+    it('yields every statement found in an unclassified trial balance', async () => {
+        const docs = await parser.parse(csv([
+            'Konto;Tekst;Saldo',
+            '1010;Nettoomsætning;4.000.000',
+            '1310;Bruttofortjeneste;1.500.000',
+            '2700;Årets resultat;300.000',
+            '5600;Likvide beholdninger;250.000',
+            '5900;Aktiver i alt;2.100.000',
+            '6100;Egenkapital i alt;900.000',
+        ]), 'saldobalance.csv');
+
+        expect(docs.map(d => d.type).sort()).toEqual(['balance_sheet', 'profit_and_loss']);
+        const bs = docs.find(d => d.type === 'balance_sheet')!;
+        expect(bs.data.latest).toMatchObject({ cash: 250_000, totalAssets: 2_100_000, equity: 900_000 });
+    });
+
+    it('reads each worksheet of an XLSX workbook', async () => {
+        const workbook = new ExcelJS.Workbook();
+        const pl = workbook.addWorksheet('Resultatopgørelse');
+        pl.addRows([
+            ['DKK', 2024, 2023],
+            ['Nettoomsætning', 12_500_000, 11_000_000],
+            ['Bruttofortjeneste', 5_300_000, 4_900_000],
+            ['Årets resultat', { formula: 'B3-4300000', result: 1_000_000 }, 700_000],
+        ]);
+        const bs = workbook.addWorksheet('Balance');
+        bs.addRows([
+            ['Balance', 2024],
+            ['AKTIVER'],
+            ['Likvide beholdninger', 400_000],
+            ['Aktiver i alt', 6_000_000],
+            ['Egenkapital i alt', 2_500_000],
+        ]);
+        const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+        const docs = await parser.parse(buffer, 'regnskab.xlsx');
+
+        expect(docs.map(d => d.type)).toEqual(['profit_and_loss', 'balance_sheet']);
+        expect(docs[0]!.data['2024']).toMatchObject({ revenue: 12_500_000, netIncome: 1_000_000 });
+        expect(docs[1]!.data['2024']).toMatchObject({ cash: 400_000, totalAssets: 6_000_000, equity: 2_500_000 });
+    });
+
+    it('ranks spreadsheet documents above extracted PDFs and hashes their content', async () => {
+        const buffer = csv(['Revenue,1000', 'Gross profit,400', 'EBIT,120', 'Net income,90']);
+        const docs = await parser.parse(buffer, 'pl.csv');
+
+        expect(docs[0]!.trustScore).toBe(0.85);
+        expect(docs[0]!.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('keeps an unrecognised sheet as raw rows', async () => {
+        const docs = await parser.parse(csv(['Name,Role', 'A. Jensen,CEO', 'B. Hansen,CFO']), 'staff.csv');
+
+        expect(docs).toHaveLength(1);
+        expect(docs[0]!.type).toBe('other');
+        expect(docs[0]!.data.rows).toEqual([['Name', 'Role'], ['A. Jensen', 'CEO'], ['B. Hansen', 'CFO']]);
+    });
+});
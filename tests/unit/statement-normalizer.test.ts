@@ -0,0 +1,233 @@
+/**
+ * Unit tests for the Statement Normalizer
+ *
+ * Tests: synonyms and Danish labels, nested sections, scaling, number formats,
+ * period detection, validation errors, normalizeDocument
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeDocument, normalizeStatement } from '../../src/ingestion/statement-normalizer.js';
+import { computeFinancialRatios } from '../../src/synthesis/financial-ratios.js';
+import type { ParsedDocument } from '../../src/types/index.js';
+
+// ============================================
+// LABEL MAPPING
+// ============================================
+
+describe('normalizeStatement', () => {
+    it('maps English synonyms onto canonical P&L fields', () => {
+        const { data, errors } = normalizeStatement('profit_and_loss', {
+            '2024': { currency: 'DKK', 'Total Revenue': 1000, cost_of_sales: 600, operating_income: 150, net_profit: 90 },
+        });
+
+        expect(data).toEqual({
+            '2024': { currency: 'DKK', revenue: 1000, costOfGoodsSold: 600, ebit: 150, netIncome: 90 },
+        });
+        expect(errors).toEqual([]);
+    });
+
+    it('maps Danish labels and stores expenses as positive amounts', () => {
+        const { data } = normalizeStatement('profit_and_loss', {
+            periode: '01.01.2023 - 31.12.2023',
+            valuta: 'DKK',
+            'Nettoomsætning': 5000,
+            'Vareforbrug': -3000,
+            'Bruttofortjeneste': 2000,
+            'Af- og nedskrivninger': -200,
+            'Resultat før renter': 400,
+            'Finansielle omkostninger': -50,
+            'Skat af årets resultat': -80,
+            'Årets resultat': 270,
+        });
+
+        expect(data).toEqual({
+            '2023': {
+                currency: 'DKK',
+                revenue: 5000,
+                costOfGoodsSold: 3000,
+                grossProfit: 2000,
+                depreciationAndAmortization: 200,
+                ebit: 400,
+                interestExpense: 50,
+                taxExpense: 80,
+                netIncome: 270,
+            },
+        });
+    });
+
+    it('flattens nested balance sheet sections', () => {
+        const { data, errors } = normalizeStatement('balance_sheet', {
+            '2024': {
+                assets: { cash: 65, accountsReceivable: 180, current: 480, total: 920 },
+                liabilities: { totalCurrentLiabilities: 220, long_term: 280, totalLiabilities: 550 },
+                equity: { commonStock: 50, totalEquity: 370 },
+            },
+        });
+
+        expect(data['2024']).toEqual({
+            cash: 65,
+            receivables: 180,
+            currentAssets: 480,
+            totalAssets: 920,
+            currentLiabilities: 220,
+            longTermDebt: 280,
+            totalLiabilities: 550,
+            shareCapital: 50,
+            equity: 370,
+        });
+        expect(errors).toEqual([]);
+    });
+
+    it('reads field-major layouts', () => {
+        const { data } = normalizeStatement('profit_and_loss', {
+            revenue: { '2024': 1200, '2023': 1000 },
+            netIncome: { '2024': 60, '2023': 20 },
+        });
+
+        expect(data).toEqual({
+            '2024': { revenue: 1200, netIncome: 60 },
+            '2023': { revenue: 1000, netIncome: 20 },
+        });
+    });
+
+    it('keys flat statements without a period as latest', () => {
+        const { data } = normalizeStatement('balance_sheet', { 'Aktiver i alt': 900, 'Egenkapital i alt': 300 });
+
+        expect(data).toEqual({ latest: { totalAssets: 900, equity: 300 } });
+    });
+});
+
+// ============================================
+// UNITS AND NUMBER FORMATS
+// ============================================
+
+describe('normalizeStatement scaling', () => {
+    it.each([
+        ['t.kr.', 'DKK', 1e3],
+        ["DKK '000", 'DKK', 1e3],
+        ['mio. kr.', 'DKK', 1e6],
+        ['USD in millions', 'USD', 1e6],
+        ['TEUR', 'EUR', 1e3],
+    ])('scales amounts stated in %s', (unit, currency, scale) => {
+        const { data } = normalizeStatement('profit_and_loss', { '2024': { revenue: 1.5, netIncome: 2 }, unit });
+
+        expect(data['2024']).toEqual({ currency, revenue: 1.5 * scale, netIncome: 2 * scale });
+    });
+
+    it('lets a period or a label state its own unit', () => {
+        const { data } = normalizeStatement('profit_and_loss', {
+            unit: 'DKK thousands',
+            '2024': { unit: 'mio. kr.', revenue: 2 },
+            '2023': { 'Revenue (DKK)': 1_500_000, netIncome: 40 },
+        });
+
+        expect(data['2024']).toEqual({ currency: 'DKK', revenue: 2_000_000 });
+        expect(data['2023']).toEqual({ currency: 'DKK', revenue: 1_500_000, netIncome: 40_000 });
+    });
+
+    it('parses Danish and English number formats', () => {
+        const { data, errors } = normalizeStatement('profit_and_loss', {
+            '2024': {
+                revenue: '1.234.567',
+                costOfGoodsSold: '(600.000)',
+                grossProfit: '634.567',
+                ebit: '1.234,5',
+                interestExpense: '12,345.75',
+                netIncome: '−2 500',
+            },
+        });
+
+        expect(data['2024']).toEqual({
+            revenue: 1_234_567,
+            costOfGoodsSold: 600_000,
+            grossProfit: 634_567,
+            ebit: 1234.5,
+            interestExpense: 12_345.75,
+            netIncome: -2500,
+        });
+        expect(errors).toEqual([]);
+    });
+});
+
+// ============================================
+// VALIDATION ERRORS
+// ============================================
+
+describe('normalizeStatement validation', () => {
+    it('reports unreadable amounts', () => {
+        const { data, errors } = normalizeStatement('profit_and_loss', { '2024': { revenue: 'n/a', netIncome: 10 } });
+
+        expect(data).toEqual({ '2024': { netIncome: 10 } });
+        expect(errors).toEqual(['2024.revenue: could not read an amount from "n/a" (2024.revenue)']);
+    });
+
+    it('reports conflicting values for the same field and keeps the first', () => {
+        const { data, errors } = normalizeStatement('profit_and_loss', { '2024': { revenue: 100, sales: 120 } });
+
+        expect(data['2024']).toEqual({ revenue: 100 });
+        expect(errors).toEqual(['2024.revenue: 2024.revenue (100) conflicts with 2024.sales (120); kept the first']);
+    });
+
+    it('reports subtotals that do not reconcile', () => {
+        const { errors } = normalizeStatement('balance_sheet', {
+            '2024': { totalAssets: 1000, totalLiabilities: 500, equity: 300 },
+        });
+
+        expect(errors).toEqual(['2024: totalAssets (1000) does not reconcile with totalLiabilities + equity (800)']);
+    });
+
+    it('leaves out currencies and periods it cannot identify', () => {
+        const { data, errors } = normalizeStatement('profit_and_loss', { currency: 'kroner', period: 'FY 24', revenue: 100 });
+
+        expect(data).toEqual({ latest: { revenue: 100 } });
+        expect(errors).toEqual([]);
+    });
+
+    it('does not recognise currency codes the FX rate tables cannot convert', () => {
+        const { data } = normalizeStatement('profit_and_loss', { '2024': { revenue: 1.5 }, unit: "ISK '000" });
+
+        expect(data).toEqual({ '2024': { revenue: 1500 } });
+    });
+
+    it('reports statements with no recognised line items', () => {
+        const { data, errors } = normalizeStatement('cash_flow_statement', { summary: 'Cash improved' });
+
+        expect(data).toEqual({});
+        expect(errors).toEqual(['No recognised cash_flow_statement line items']);
+    });
+});
+
+// ============================================
+// DOCUMENTS
+// ============================================
+
+describe('normalizeDocument', () => {
+    function doc(type: ParsedDocument['type'], data: Record<string, unknown>): ParsedDocument {
+        return { id: 'doc-1', type, filename: 'doc.pdf', parsedAt: new Date(), confidence: 0.8, data, rawText: '', trustScore: 0.7 };
+    }
+
+    it('replaces statement data with canonical data the ratio engine reads', () => {
+        const pl = normalizeDocument(doc('profit_and_loss', { unit: 't.kr.', '2024': { 'Nettoomsætning': 1000, 'Årets resultat': 100 } }));
+        const bs = normalizeDocument(doc('balance_sheet', { '2024': { 'Aktiver i alt': 4000, 'Egenkapital': 1000 } }));
+
+        expect(pl.validationErrors).toEqual([]);
+        expect(pl.currency).toBe('DKK');
+        expect(pl.data).toEqual({ '2024': { currency: 'DKK', revenue: 1_000_000, netIncome: 100_000 } });
+
+        const ratios = computeFinancialRatios([pl, bs]);
+        expect(ratios.latest!.netMargin?.value).toBeCloseTo(0.1);
+        expect(ratios.latest!.equityRatio?.sources).toEqual(['balance_sheet.2024.equity', 'balance_sheet.2024.totalAssets']);
+    });
+
+    it('keeps the original data when nothing is recognised', () => {
+        const result = normalizeDocument(doc('profit_and_loss', { raw: 'unreadable' }));
+
+        expect(result.data).toEqual({ raw: 'unreadable' });
+        expect(result.validationErrors).toEqual(['No recognised profit_and_loss line items']);
+    });
+
+    it('leaves other document types untouched', () => {
+        const contract = doc('contract', { counterparty: 'Acme', annualValue: 100 });
+        expect(normalizeDocument(contract)).toBe(contract);
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for subscription revenue history
+ *
+ * Tests: month-end MRR, new/expansion/contraction/churned movements, annual
+ * periods, signup cohort logo and net revenue retention
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeSubscriptionRevenue, type RecurringPeriod } from '../../src/ingestion/subscription-revenue.js';
+
+const NOW = new Date('2024-04-20T12:00:00Z');
+
+/** Consecutive monthly periods from the 15th of one month, one per amount */
+function monthly(customerId: string, firstMonth: string, amounts: number[]): RecurringPeriod[] {
+    const [year, month] = firstMonth.split('-').map(Number) as [number, number];
+    return amounts.map((monthlyAmount, i) => ({
+        customerId,
+        start: new Date(Date.UTC(year, month - 1 + i, 15)),
+        end: new Date(Date.UTC(year, month + i, 15)),
+        monthlyAmount,
+    }));
+}
+
+const periods: RecurringPeriod[] = [
+    // Upgrades in February, downgrades in April
+    ...monthly('cus_a', '2024-01', [100, 150, 150, 120]),
+    // Leaves after February
+    ...monthly('cus_b', '2024-01', [200, 200]),
+    // Annual plan from February
+    { customerId: 'cus_c', start: new Date('2024-02-01T00:00:00Z'), end: new Date('2025-02-01T00:00:00Z'), monthlyAmount: 50 },
+];
+
+describe('analyzeSubscriptionRevenue', () => {
+    it('splits each month-end MRR into its movements', () => {
+        const { mrrSeries } = analyzeSubscriptionRevenue(periods, NOW);
+
+        expect(mrrSeries.map(m => m.month)).toEqual(['2024-01', '2024-02', '2024-03', '2024-04']);
+        expect(mrrSeries[0]).toEqual({
+            month: '2024-01', mrr: 300, arr: 3600,
+            newMrr: 300, expansionMrr: 0, contractionMrr: 0, churnedMrr: 0,
+            customers: 2, newCustomers: 2, churnedCustomers: 0,
+        });
+        expect(mrrSeries[1]).toMatchObject({ mrr: 400, newMrr: 50, expansionMrr: 50, newCustomers: 1 });
+        expect(mrrSeries[2]).toMatchObject({ mrr: 200, churnedMrr: 200, churnedCustomers: 1, customers: 2 });
+        // The current month is measured now, after cus_a's April renewal
+        expect(mrrSeries[3]).toMatchObject({ mrr: 170, contractionMrr: 30, arr: 2040 });
+    });
+
+    it('follows each signup cohort by customers and revenue', () => {
+        const { cohorts } = analyzeSubscriptionRevenue(periods, NOW);
+
+        expect(cohorts.map(c => c.cohort)).toEqual(['2024-01', '2024-02']);
+        expect(cohorts[0]).toMatchObject({ customers: 2, startingMrr: 300 });
+        expect(cohorts[0]!.months).toEqual([
+            { month: '2024-01', logoRetention: 1, netRevenueRetention: 1 },
+            { month: '2024-02', logoRetention: 1, netRevenueRetention: 1.1667 },
+            { month: '2024-03', logoRetention: 0.5, netRevenueRetention: 0.5 },
+            { month: '2024-04', logoRetention: 0.5, netRevenueRetention: 0.4 },
+        ]);
+        expect(cohorts[1]).toMatchObject({ customers: 1, startingMrr: 50 });
+        expect(cohorts[1]!.months.every(m => m.netRevenueRetention === 1)).toBe(true);
+    });
+
+    it('counts a returning customer as new MRR but keeps their first cohort', () => {
+        const returning = [...monthly('cus_a', '2024-01', [100]), ...monthly('cus_a', '2024-03', [100, 100])];
+        const { mrrSeries, cohorts } = analyzeSubscriptionRevenue(returning, NOW);
+
+        expect(mrrSeries.map(m => [m.newMrr, m.churnedMrr])).toEqual([[100, 0], [0, 100], [100, 0], [0, 0]]);
+        expect(cohorts.map(c => c.cohort)).toEqual(['2024-01']);
+    });
+
+    it('is empty without recurring periods', () => {
+        expect(analyzeSubscriptionRevenue([], NOW)).toEqual({ mrrSeries: [], cohorts: [] });
+    });
+});
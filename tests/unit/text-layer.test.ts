@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the Text Layer
+ *
+ * Tests: keyword classification, "Label: amount" and year-column statement layouts,
+ * scale suffixes and unit lines, section headings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyText, parseStatementText } from '../../src/ingestion/text-layer.js';
+import { normalizeStatement } from '../../src/ingestion/statement-normalizer.js';
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+describe('classifyText', () => {
+    it('recognises a statement by its title and vocabulary', () => {
+        const result = classifyText('RESULTATOPGØRELSE\nNettoomsætning 1.200\nBruttofortjeneste 400\nÅrets resultat 90', 'regnskab.pdf');
+
+        expect(result.type).toBe('profit_and_loss');
+        expect(result.confidence).toBeGreaterThanOrEqual(0.6);
+    });
+
+    it('uses the filename as a hint', () => {
+        const result = classifyText('Operating activities 120\nInvesting activities -40\nFinancing activities -30', 'cash_flow_statement_2024.pdf');
+
+        expect(result.type).toBe('cash_flow_statement');
+    });
+
+    it('has low confidence when nothing stands out', () => {
+        expect(classifyText('Meeting notes\nDiscussed the revenue plan', 'notes.pdf').confidence).toBeLessThan(0.6);
+        expect(classifyText('', 'scan.pdf')).toEqual({ type: 'other', confidence: 0 });
+    });
+});
+
+// ============================================
+// STATEMENT LAYOUTS
+// ============================================
+
+describe('parseStatementText', () => {
+    it('reads "Label: amount" lines under period headings with scale suffixes', () => {
+        const raw = parseStatementText([
+            'PROFIT AND LOSS STATEMENT',
+            'Example ApS',
+            'CVR: 12345678',
+            'Fiscal Year 2024',
+            'Revenue: 8.5M DKK',
+            'EBIT: 344K DKK',
+            'Net Income: (12K) DKK',
+            'Fiscal Year 2023',
+            'Revenue: 9.2M DKK',
+        ].join('\n'));
+
+        expect(raw).toEqual({
+            '2024': { currency: 'DKK', Revenue: 8_500_000, EBIT: 344_000, 'Net Income': -12_000 },
+            '2023': { currency: 'DKK', Revenue: 9_200_000 },
+        });
+    });
+
+    it('nests lines under section headings', () => {
+        const raw = parseStatementText('As of 2024\nASSETS\n  Cash: 95K DKK\n  TOTAL ASSETS: 1.9M DKK\nEQUITY\n  TOTAL EQUITY: 1.1M DKK');
+
+        expect(raw).toEqual({
+            '2024': { currency: 'DKK', ASSETS: { Cash: 95_000, 'TOTAL ASSETS': 1_900_000 }, EQUITY: { 'TOTAL EQUITY': 1_100_000 } },
+        });
+        expect(normalizeStatement('balance_sheet', raw).data).toEqual({
+            '2024': { currency: 'DKK', cash: 95_000, totalAssets: 1_900_000, equity: 1_100_000 },
+        });
+    });
+
+    it('assigns year columns and applies a document unit line', () => {
+        const raw = parseStatementText([
+            'Resultatopgørelse',
+            'Beløb i t.kr.',
+            'Note 2024 2023',
+            'Nettoomsætning 1 12.500 11.000',
+            'Vareforbrug (7.200) (6.400)',
+            'Årets resultat 1.234,5 980',
+        ].join('\n'));
+
+        expect(raw).toEqual({
+            '2024': { currency: 'DKK', 'Nettoomsætning': 12_500_000, 'Vareforbrug': -7_200_000, 'Årets resultat': 1_234_500 },
+            '2023': { currency: 'DKK', 'Nettoomsætning': 11_000_000, 'Vareforbrug': -6_400_000, 'Årets resultat': 980_000 },
+        });
+    });
+
+    it('returns flat data when the text names no period', () => {
+        expect(parseStatementText('Revenue: 1,200\nNet income: 90')).toEqual({ Revenue: 1200, 'Net income': 90 });
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for Transaction Analytics
+ *
+ * Tests: monthly series, recurring payment detection and debt service,
+ * balances worked back from the current balance, overdraft and NSF events
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeTransactions } from '../../src/ingestion/transaction-analytics.js';
+import type { BankAccount, BankTransaction } from '../../src/types/index.js';
+
+function tx(date: string, amount: number, description: string, category = 'Other'): BankTransaction {
+    return { accountId: 'acc-1', date: new Date(`${date}T00:00:00Z`), amount, currency: 'DKK', description, category };
+}
+
+function account(currentBalance: number, type: BankAccount['type'] = 'checking'): BankAccount {
+    return { accountId: 'acc-1', type, currency: 'DKK', currentBalance, availableBalance: currentBalance };
+}
+
+const quarter = { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-03-31T00:00:00Z') };
+
+const operatingQuarter = [
+    tx('2024-01-01', -20_000, 'Husleje januar'),
+    tx('2024-02-01', -20_000, 'Husleje februar'),
+    tx('2024-03-01', -20_000, 'Husleje marts'),
+    tx('2024-01-10', 90_000, 'Faktura 1001'),
+    tx('2024-02-10', 90_000, 'Faktura 1002'),
+    tx('2024-03-10', 90_000, 'Faktura 1003'),
+    tx('2024-01-15', -8_000, 'Realkredit afdrag 4411'),
+    tx('2024-02-15', -8_000, 'Realkredit afdrag 4411'),
+    tx('2024-03-15', -8_000, 'Realkredit afdrag 4411'),
+    tx('2024-03-20', -15_000, 'Dell computer'),
+    tx('2024-01-31', -60_000, 'Løn'),
+    tx('2024-02-29', -60_000, 'Løn'),
+    tx('2024-03-28', -60_000, 'Løn'),
+];
+
+describe('analyzeTransactions', () => {
+    it('totals inflow and outflow per month', () => {
+        const analytics = analyzeTransactions(operatingQuarter, [account(100_000)], 'DKK', quarter);
+
+        expect(analytics.monthly).toEqual([
+            { month: '2024-01', inflow: 90_000, outflow: 88_000, net: 2_000 },
+            { month: '2024-02', inflow: 90_000, outflow: 88_000, net: 2_000 },
+            { month: '2024-03', inflow: 90_000, outflow: 103_000, net: -13_000 },
+        ]);
+    });
+
+    it('finds payroll, rent and loan repayments, and the debt service already paid', () => {
+        const analytics = analyzeTransactions(operatingQuarter, [account(100_000)], 'DKK', quarter);
+
+        expect(analytics.recurringPayments.map(p => [p.kind, p.cadence, p.monthlyAmount, p.occurrences])).toEqual([
+            ['payroll', 'monthly', 60_000, 3],
+            ['rent', 'monthly', 20_000, 3],
+            ['loan_repayment', 'monthly', 8_000, 3],
+        ]);
+        expect(analytics.recurringPayments[1]).toMatchObject({ payee: 'Husleje marts', lastPaid: '2024-03-01' });
+        expect(analytics.debtService).toEqual({ monthlyAmount: 8_000, payees: ['Realkredit afdrag 4411'] });
+    });
+
+    it('ignores irregular amounts and converts weekly payments to a monthly amount', () => {
+        const analytics = analyzeTransactions([
+            tx('2024-01-05', -5_000, 'Supplier ApS'),
+            tx('2024-02-05', -20_000, 'Supplier ApS'),
+            tx('2024-03-05', -9_000, 'Supplier ApS'),
+            tx('2024-01-03', -1_200, 'Vikarbureau timeløn', 'Payroll'),
+            tx('2024-01-10', -1_200, 'Vikarbureau timeløn', 'Payroll'),
+            tx('2024-01-17', -1_200, 'Vikarbureau timeløn', 'Payroll'),
+        ], [account(100_000)], 'DKK', quarter);
+
+        expect(analytics.recurringPayments).toEqual([{
+            payee: 'Vikarbureau timeløn',
+            kind: 'payroll',
+            cadence: 'weekly',
+            averageAmount: 1_200,
+            monthlyAmount: 5_200,
+            occurrences: 3,
+            lastPaid: '2024-01-17',
+        }]);
+    });
+
+    it('works daily balances back from the current balance', () => {
+        const analytics = analyzeTransactions(operatingQuarter, [account(100_000)], 'DKK', quarter);
+
+        // 109,000 opening less the rent on 1 January, until the invoice on the 10th
+        expect(analytics.balance!.minimumBalance).toBe(89_000);
+        expect(analytics.balance!.lowestBalanceDays).toEqual([
+            { date: '2024-01-01', balance: 89_000 },
+            { date: '2024-01-02', balance: 89_000 },
+            { date: '2024-01-03', balance: 89_000 },
+            { date: '2024-01-04', balance: 89_000 },
+            { date: '2024-01-05', balance: 89_000 },
+        ]);
+        expect(analytics.balance!.volatility).toBeGreaterThan(0);
+        expect(analytics.balance!.daysOverdrawn).toBe(0);
+        expect(analytics.overdraftEvents).toEqual([]);
+    });
+
+    it('reports overdrawn days, returned payments and overdraft fees', () => {
+        const analytics = analyzeTransactions([
+            tx('2024-01-03', -10_000, 'Leverandør'),
+            tx('2024-01-04', -35, 'NSF returned item fee'),
+            tx('2024-01-05', 8_000, 'Faktura 1001'),
+            tx('2024-01-06', -250, 'Overtræksrente'),
+        ], [account(5_000)], 'DKK', { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-01-10T00:00:00Z') });
+
+        expect(analytics.balance!.daysOverdrawn).toBe(2);
+        expect(analytics.balance!.minimumBalance).toBe(-2_750);
+        expect(analytics.overdraftEvents).toEqual([
+            { date: '2024-01-03', accountId: 'acc-1', type: 'negative_balance', amount: -2_715 },
+            { date: '2024-01-04', accountId: 'acc-1', type: 'returned_payment', amount: 35, description: 'NSF returned item fee' },
+            { date: '2024-01-06', accountId: 'acc-1', type: 'overdraft_fee', amount: 250, description: 'Overtræksrente' },
+        ]);
+    });
+
+    it('has no balance metrics without deposit accounts', () => {
+        const analytics = analyzeTransactions(operatingQuarter, [account(-5_000, 'credit')], 'DKK', quarter);
+
+        expect(analytics.balance).toBeNull();
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for working capital analysis
+ *
+ * Tests: DSO and DPO from aging reports and balance sheets, aging buckets and
+ * overdue concentration, Stripe receivables, figures with no FX rate,
+ * serviceability components
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeWorkingCapital } from '../../src/synthesis/working-capital.js';
+import { synthesizeRiskFactors } from '../../src/synthesis/risk-synthesizer.js';
+import type { GlobalContext, ParsedDocument, RiskFactorMap, StripeSnapshot } from '../../src/types/index.js';
+
+function createContext(overrides: Partial<GlobalContext> = {}): GlobalContext {
+    return {
+        sessionId: 'test-session',
+        companyId: 'test-company',
+        startedAt: new Date(),
+        documents: [],
+        apiSnapshots: {},
+        agentInsights: new Map(),
+        riskFactors: {} as RiskFactorMap,
+        contradictions: [],
+        reportingCurrency: 'DKK',
+        ...overrides,
+    };
+}
+
+function doc(id: string, type: ParsedDocument['type'], data: Record<string, unknown>): ParsedDocument {
+    return { id, type, filename: `${id}.csv`, parsedAt: new Date(), confidence: 0.95, data, rawText: '', currency: 'DKK', trustScore: 0.85 };
+}
+
+const profitAndLoss = doc('pl', 'profit_and_loss', {
+    '2024': { revenue: 3_650_000, costOfGoodsSold: 1_000_000, operatingExpenses: 825_000 },
+});
+
+const balanceSheet = doc('bs', 'balance_sheet', { '2024': { receivables: 300_000, payables: 200_000 } });
+
+const receivablesReport = doc('ar', 'aging_report', {
+    side: 'receivables',
+    asOf: '2024-12-31',
+    counterparties: [
+        { name: 'Nordic Retail A/S', current: 120_000, days1to30: 30_000, days31to60: 0, days61to90: 0, over90: 0 },
+        { name: 'Byg & Co ApS', current: 10_000, days1to30: 0, days31to60: 15_000, days61to90: 0, over90: 25_000 },
+    ],
+});
+
+describe('analyzeWorkingCapital', () => {
+    it('ages receivables and measures DSO on the aging report', () => {
+        const result = analyzeWorkingCapital(createContext({ documents: [profitAndLoss, balanceSheet, receivablesReport] }));
+
+        // 200,000 open against 3,650,000 a year
+        expect(result.dso).toBe(20);
+        expect(result.receivables).toEqual({
+            source: 'document',
+            documentId: 'ar',
+            asOf: '2024-12-31',
+            total: 200_000,
+            buckets: { current: 130_000, days1to30: 30_000, days31to60: 15_000, days61to90: 0, over90: 25_000 },
+            overdue: 70_000,
+            overdueShare: 0.35,
+            over60Share: 0.125,
+            overdueConcentration: [
+                { name: 'Byg & Co ApS', overdue: 40_000, share: 0.5714 },
+                { name: 'Nordic Retail A/S', overdue: 30_000, share: 0.4286 },
+            ],
+        });
+    });
+
+    it('falls back to balance sheet receivables and payables', () => {
+        const result = analyzeWorkingCapital(createContext({ documents: [profitAndLoss, balanceSheet] }));
+
+        expect(result.dso).toBe(30);
+        // 200,000 against 1,825,000 of costs
+        expect(result.dpo).toBe(40);
+        expect(result.receivables).toBeNull();
+        expect(result.payables).toBeNull();
+    });
+
+    it('measures open Stripe invoices against Stripe revenue', () => {
+        const stripe = {
+            fetchedAt: new Date(),
+            currency: 'DKK',
+            mrr: 100_000,
+            paymentHistory: { successRate: 1, averagePaymentDelay: 12.34, disputeRate: 0 },
+            receivables: {
+                side: 'receivables',
+                asOf: '2024-12-31',
+                currency: 'DKK',
+                counterparties: [{ name: 'Acme', current: 60_000, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 }],
+            },
+        } as unknown as StripeSnapshot;
+
+        const result = analyzeWorkingCapital(createContext({ apiSnapshots: { stripe } }));
+
+        expect(result.receivables!.source).toBe('stripe');
+        // 60,000 open against 1,200,000 of annual MRR: 18.25 days
+        expect(result.dso).toBe(18.3);
+        expect(result.averagePaymentDelay).toBe(12.3);
+    });
+
+    it('leaves out and notes figures in a currency with no FX rate', async () => {
+        const iskProfitAndLoss = { ...profitAndLoss, currency: 'ISK' };
+        const stripe = {
+            fetchedAt: new Date(),
+            currency: 'CAD',
+            mrr: 100_000,
+            receivables: {
+                side: 'receivables',
+                asOf: '2024-12-31',
+                currency: 'CAD',
+                counterparties: [{ name: 'Acme', current: 60_000, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 }],
+            },
+        } as unknown as StripeSnapshot;
+        const context = createContext({ documents: [iskProfitAndLoss, balanceSheet], apiSnapshots: { stripe } });
+
+        const result = analyzeWorkingCapital(context);
+
+        expect(result).toMatchObject({ dso: null, dpo: null, receivables: null });
+        expect(result.notes).toEqual([
+            'profit_and_loss figures left out: no FX rate from ISK to DKK',
+            'Stripe receivables aging left out: no FX rate from CAD to DKK',
+        ]);
+        await expect(synthesizeRiskFactors([], context)).resolves.toHaveProperty('serviceability');
+    });
+
+    it('is empty without statements or aging data', () => {
+        expect(analyzeWorkingCapital(createContext())).toEqual({
+            dso: null, dpo: null, receivables: null, payables: null, averagePaymentDelay: null,
+        });
+    });
+});
+
+describe('working capital serviceability components', () => {
+    it('scores collection speed, overdue receivables and payables timeliness', async () => {
+        const result = await synthesizeRiskFactors([], createContext({ documents: [profitAndLoss, balanceSheet, receivablesReport] }));
+        const component = (name: string) => result.serviceability.components.find(c => c.name === name);
+
+        expect(component('Receivables Collection')).toMatchObject({ rawMetric: 20, value: 100, interpretation: 'Fast collection' });
+        // 35% overdue plus 12.5% over 60 days
+        expect(component('Overdue Receivables')!.value).toBeCloseTo(52.5);
+        expect(component('Overdue Receivables')!.interpretation).toBe('Collection problems');
+        expect(component('Payables Timeliness')).toMatchObject({ rawMetric: 40, value: 100, interpretation: 'Prompt' });
+    });
+});